@@ -5,6 +5,7 @@ import {
   REST, 
   Routes,
   ChatInputCommandInteraction,
+  AutocompleteInteraction,
   ButtonInteraction,
   ActionRowBuilder,
   ButtonBuilder,
@@ -23,14 +24,21 @@ import { Command } from './types';
 // Services
 import OAuthServer from './services/oauthServer';
 // import RaidMonitor from './services/raidMonitor'; // DEPRECATED
-import ListeningTracker from './services/listeningTracker';
+import ListeningTracker, { ListeningPlatform } from './services/listeningTracker';
+import { describeQualificationRules } from './lib/qualification';
+import { pickListeningPlatform } from './lib/partyPlatforms';
 import PartyPosterService from './services/partyPoster';
+import PartyScheduler from './services/partyScheduler';
+import PartyMessageRefresher from './services/partyMessageRefresher';
+import LinkedAccountMonitor from './services/linkedAccountMonitor';
+import RoleRewardService from './services/roleRewards';
 import PrismaDatabase, { prisma } from './database/prisma';
 import EmbedBuilder from './utils/embedBuilder';
 import WalletService from './services/wallet';
 import SpotifyAuthService from './services/spotify/SpotifyAuthService';
 import SpotifyApiService from './services/spotify/SpotifyApiService';
 import config from './config/environment';
+import { createServiceClient } from './lib/serviceAuth';
 
 class SpotifyBot {
   public client: Client;
@@ -38,6 +46,10 @@ class SpotifyBot {
   // private raidMonitor: RaidMonitor; // DEPRECATED - Using ListeningTracker instead
   private listeningTracker: ListeningTracker;
   public partyPoster: PartyPosterService;
+  private partyScheduler: PartyScheduler;
+  private partyMessageRefresher: PartyMessageRefresher;
+  private linkedAccountMonitor: LinkedAccountMonitor;
+  private roleRewards: RoleRewardService;
 
   constructor() {
     this.client = new Client({
@@ -55,6 +67,10 @@ class SpotifyBot {
     // this.raidMonitor = new RaidMonitor(this.client); // DEPRECATED - Using ListeningTracker instead
     this.listeningTracker = new ListeningTracker(this.client);
     this.partyPoster = new PartyPosterService(this.client);
+    this.partyScheduler = new PartyScheduler(this.partyPoster);
+    this.partyMessageRefresher = new PartyMessageRefresher(this.partyPoster);
+    this.linkedAccountMonitor = new LinkedAccountMonitor(this.client, this.oauthServer.getSpotifyAuthService());
+    this.roleRewards = new RoleRewardService(this.client);
 
     this.setupEventHandlers();
     this.loadCommands();
@@ -77,6 +93,11 @@ class SpotifyBot {
 
       // Start services
       this.oauthServer.start();
+      this.partyScheduler.start();
+      this.partyMessageRefresher.start();
+      this.linkedAccountMonitor.start();
+      this.roleRewards.start();
+      await this.listeningTracker.start();
       // this.raidMonitor.start(); // DEPRECATED - Using ListeningTracker instead
 
       console.log('🎵 Listening Party Bot fully operational!');
@@ -93,6 +114,8 @@ class SpotifyBot {
     this.client.on('interactionCreate', async (interaction) => {
       if (interaction.isChatInputCommand()) {
         await this.handleCommand(interaction);
+      } else if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
       } else if (interaction.isButton()) {
         await this.handleButton(interaction);
       }
@@ -161,6 +184,17 @@ class SpotifyBot {
     }
 
     try {
+      const user = await PrismaDatabase.getUser(interaction.user.id);
+      if (user?.suspended_at) {
+        const embed = EmbedBuilder.createErrorEmbed(
+          'Account Suspended',
+          `Your account has been suspended by an admin${user.suspended_reason ? `: ${user.suspended_reason}` : '.'}\n\n` +
+          'Contact the server admins if you think this is a mistake.'
+        );
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+        return;
+      }
+
       await command.execute(interaction);
     } catch (error) {
       console.error(`Error executing command ${interaction.commandName}:`, error);
@@ -182,6 +216,22 @@ class SpotifyBot {
     }
   }
 
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const command = this.client.commands.get(interaction.commandName);
+    if (!command?.autocomplete) {
+      return;
+    }
+
+    try {
+      await command.autocomplete(interaction);
+    } catch (error) {
+      console.error(`Error autocompleting command ${interaction.commandName}:`, error);
+      if (!interaction.responded) {
+        await interaction.respond([]).catch(() => undefined);
+      }
+    }
+  }
+
   private async handleButton(interaction: ButtonInteraction): Promise<void> {
     const customId = interaction.customId;
 
@@ -191,6 +241,8 @@ class SpotifyBot {
         await this.handleListenButton(interaction);
       } else if (customId.startsWith('claim_')) {
         await this.handleClaimButton(interaction);
+      } else if (customId.startsWith('remind_')) {
+        await this.handleRemindButton(interaction);
       } else if (customId === 'disconnect_wallet') {
         await this.handleDisconnectWallet(interaction);
       // OLD: Raid buttons (for backwards compatibility)
@@ -216,6 +268,8 @@ class SpotifyBot {
         await this.handleViewWalletInfo(interaction);
       } else if (customId.startsWith('spotify_queue_')) {
         await this.handleSpotifyQueue(interaction);
+      } else if (customId.startsWith('transfer_') || customId.startsWith('withdraw_')) {
+        // Handled by the /transfer and /withdraw confirmation collectors
       } else {
         console.warn(`Unknown button interaction: ${customId}`);
       }
@@ -280,17 +334,6 @@ class SpotifyBot {
     const discordId = interaction.user.id;
 
     try {
-      // Get user to check Audius account
-      const user = await PrismaDatabase.getUser(discordId);
-      if (!user || !user.audius_user_id) {
-        const embed = EmbedBuilder.createErrorEmbed(
-          'Audius Account Required',
-          'You need to connect your Audius account first.\n\nPlease visit the dashboard to link your Audius account.'
-        );
-        await interaction.editReply({ embeds: [embed] });
-        return;
-      }
-
       // Fetch party details
       const axios = (await import('axios')).default;
       const API_BASE = config.api.publicUrl || 'http://localhost:3001';
@@ -307,6 +350,35 @@ class SpotifyBot {
         return;
       }
 
+      // Verify on whichever of the party's platforms the user has linked
+      const user = await PrismaDatabase.getUser(discordId);
+      const availablePlatforms: ListeningPlatform[] = party.platforms ?? [party.platform];
+      const platform = pickListeningPlatform(availablePlatforms, party.platform, {
+        SPOTIFY: Boolean(user?.spotify_user_id && user?.spotify_refresh_token),
+        AUDIUS: Boolean(user?.audius_user_id),
+      });
+
+      if (!user || !platform) {
+        const names = availablePlatforms.map((p) => (p === 'SPOTIFY' ? 'Spotify' : 'Audius')).join(' or ');
+        const embed = EmbedBuilder.createErrorEmbed(
+          `${names} Account Required`,
+          `You need to connect your ${names} account first.\n\nPlease visit the dashboard to link your ${names} account.`
+        );
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+      const platformName = platform === 'SPOTIFY' ? 'Spotify' : 'Audius';
+
+      if (party.status === 'SCHEDULED') {
+        const startsAt = Math.floor(new Date(party.timing.scheduled_start_at).getTime() / 1000);
+        const embed = EmbedBuilder.createErrorEmbed(
+          'Party Not Started',
+          `This listening party starts <t:${startsAt}:R>. Click **Remind me** on the party post to get a DM when it goes live.`
+        );
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
       // Check if party is active
       if (party.status !== 'ACTIVE' || new Date(party.timing.expires_at) < new Date()) {
         const embed = EmbedBuilder.createErrorEmbed(
@@ -317,20 +389,25 @@ class SpotifyBot {
         return;
       }
 
-      // Join party
-      await axios.post(`${API_BASE}/api/listening-parties/${partyId}/participants`, {
+      // Join party (signed so the API trusts the discord_id)
+      await createServiceClient(API_BASE).post(`/api/listening-parties/${partyId}/participants`, {
         discord_id: discordId,
         discord_handle: interaction.user.username,
+        server_id: interaction.guildId ?? undefined,
       });
 
+      // Multi-track parties are tracked under the party title rather than the first track
+      const partyTitle: string = (party.tracks?.length > 1 && party.title) || party.track.title;
+
       // Start tracking
-      const result = await this.listeningTracker.startTracking(
+      const result = await this.listeningTracker.startTracking({
         partyId,
         discordId,
-        user.audius_user_id,
-        party.track.id,
-        party.track.title
-      );
+        platform,
+        audiusUserId: user.audius_user_id || undefined,
+        trackId: party.track.platform_ids?.[platform] ?? party.track.id,
+        trackTitle: partyTitle,
+      });
 
       if (!result.success) {
         const embed = EmbedBuilder.createErrorEmbed(
@@ -344,7 +421,7 @@ class SpotifyBot {
       const embed = new DiscordEmbedBuilder()
         .setColor(0x10b981)
         .setTitle('✅ Listening Tracking Started!')
-        .setDescription(`**${party.track.title}** by ${party.track.artist}\n\nWe're now tracking your listening progress. Make sure you:\n\n1. Click **"Play"** to open the track on Audius\n2. Play the track for at least 30 seconds\n3. Check your DMs for progress updates!`)
+        .setDescription(`**${partyTitle}** by ${party.track.artist}\n\nWe're now tracking your listening progress. Make sure you:\n\n1. Click **"Play"** to open the track on ${platformName}\n2. ${describeQualificationRules(party.qualification)}\n3. Check your DMs for progress updates!`)
         .setTimestamp();
 
       await interaction.editReply({ embeds: [embed] });
@@ -360,6 +437,38 @@ class SpotifyBot {
     }
   }
 
+  private async handleRemindButton(interaction: ButtonInteraction): Promise<void> {
+    await interaction.deferReply({ ephemeral: true });
+
+    const partyId = interaction.customId.replace('remind_', '');
+    const discordId = interaction.user.id;
+
+    try {
+      const API_BASE = config.api.publicUrl || 'http://localhost:3001';
+      const response = await createServiceClient(API_BASE).post(`/api/listening-parties/${partyId}/reminders`, {
+        discord_id: discordId,
+      });
+
+      const startsAt = Math.floor(new Date(response.data.scheduled_start_at).getTime() / 1000);
+      const embed = new DiscordEmbedBuilder()
+        .setColor(0xf59e0b)
+        .setTitle(response.data.already_set ? '🔔 Reminder Already Set' : '🔔 Reminder Set!')
+        .setDescription(`We'll DM you when this listening party starts <t:${startsAt}:R>.`)
+        .setTimestamp();
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error: any) {
+      console.error('Error handling remind button:', error);
+
+      const errorMessage = error.response?.data?.error || error.message || 'Unknown error occurred';
+      const embed = EmbedBuilder.createErrorEmbed(
+        'Error',
+        `Failed to set reminder: ${errorMessage}`
+      );
+      await interaction.editReply({ embeds: [embed] });
+    }
+  }
+
   private async handleClaimButton(interaction: ButtonInteraction): Promise<void> {
     await interaction.deferReply({ ephemeral: true });
 
@@ -409,7 +518,10 @@ class SpotifyBot {
       if (!participant.qualified_at) {
         const embed = EmbedBuilder.createErrorEmbed(
           'Not Qualified',
-          `You need to listen for at least 30 seconds to qualify.\n\nCurrent listening time: ${participant.listening_duration || 0}s / 30s`
+          `To qualify: ${describeQualificationRules(party.qualification)}.\n\nCurrent listening time: ${participant.listening_duration || 0}s / ${party.qualification.required_seconds}s` +
+            (party.qualification.min_sessions > 1
+              ? `\nSessions: ${participant.session_count || 0} / ${party.qualification.min_sessions}`
+              : '')
         );
         await interaction.editReply({ embeds: [embed] });
         return;
@@ -1464,6 +1576,11 @@ class SpotifyBot {
     try {
       // this.raidMonitor.stop(); // DEPRECATED
       this.oauthServer.stop();
+      this.partyScheduler.stop();
+      this.partyMessageRefresher.stop();
+      this.linkedAccountMonitor.stop();
+      this.roleRewards.stop();
+      this.listeningTracker.stop();
       await PrismaDatabase.disconnect();
       this.client.destroy();
 
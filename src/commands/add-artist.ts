@@ -5,8 +5,11 @@ import {
 } from 'discord.js';
 import PrismaDatabase from '../database/prisma';
 import EmbedBuilder from '../utils/embedBuilder';
+import AdminUserService from '../services/adminUsers';
 import { Command } from '../types';
 
+const adminUserService = new AdminUserService();
+
 const addArtistCommand: Command = {
   data: new SlashCommandBuilder()
     .setName('add-artist')
@@ -15,6 +18,11 @@ const addArtistCommand: Command = {
       option.setName('user')
         .setDescription('User to promote to Artist role')
         .setRequired(true)
+    )
+    .addStringOption(option =>
+      option.setName('reason')
+        .setDescription('Why this user is being promoted (recorded in the admin audit log)')
+        .setRequired(false)
     ),
 
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
@@ -74,8 +82,8 @@ const addArtistCommand: Command = {
         return;
       }
 
-      // Promote user to artist - role update handled separately
-      // Note: Role updates are handled through the database schema directly
+      const reason = interaction.options.getString('reason') || 'Promoted with /add-artist';
+      await adminUserService.changeRole(interaction.user.id, targetUser.id, 'ARTIST', reason);
 
       // Create artist wallet if they don't have one
       const WalletService = require('../services/wallet').default;
@@ -1,5 +1,6 @@
 import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder } from 'discord.js';
 import { Command } from '../types';
+import { QualificationRulesSummary, describeQualificationRules } from '../lib/qualification';
 
 const API_BASE = (process.env.BOT_API_URL || process.env.API_BASE_URL || process.env.API_PUBLIC_URL || 'http://localhost:8080').replace(/\/$/, '');
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
@@ -10,7 +11,8 @@ interface Participant {
   qualified_at?: string | null;
   claimed_at?: string | null;
   claim_tx_signature?: string | null;
-  total_listening_duration: number;
+  listening_duration: number;
+  session_count: number;
 }
 
 interface ListeningPartyDetail {
@@ -23,6 +25,7 @@ interface ListeningPartyDetail {
     token_mint: string;
     tokens_per_participant: string;
   };
+  qualification: QualificationRulesSummary;
   participants: Participant[];
 }
 
@@ -108,8 +111,11 @@ export const command: Command = {
           .setColor('#FF6B6B')
           .setTitle('⏳ Not Qualified Yet')
           .setDescription(
-            `You must listen for at least 30 seconds before claiming.\n\n` +
-            `**Current Progress:** ${participant.total_listening_duration}s / 30s`
+            `To qualify: ${describeQualificationRules(party.qualification)}.\n\n` +
+            `**Current Progress:** ${participant.listening_duration}s / ${party.qualification.required_seconds}s` +
+            (party.qualification.min_sessions > 1
+              ? `\n**Sessions:** ${participant.session_count} / ${party.qualification.min_sessions}`
+              : '')
           )
           .setFooter({ text: 'Keep listening to qualify for rewards!' });
         await interaction.editReply({ embeds: [embed] });
@@ -1,5 +1,6 @@
 import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder } from 'discord.js';
 import { Command } from '../types';
+import { serviceFetch } from '../lib/serviceAuth';
 
 const API_BASE = (process.env.BOT_API_URL || process.env.API_BASE_URL || process.env.API_PUBLIC_URL || 'http://localhost:8080').replace(/\/$/, '');
 
@@ -62,14 +63,13 @@ export const command: Command = {
     const discordId = interaction.user.id;
 
     try {
-      const res = await fetch(`${API_BASE}/api/listening-parties/${encodeURIComponent(partyId)}/participants`, {
+      const res = await serviceFetch(`${API_BASE}/api/listening-parties/${encodeURIComponent(partyId)}/participants`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+        body: {
           discord_id: discordId,
           discord_handle: interaction.user.username,
           server_id: interaction.guildId ?? undefined
-        })
+        }
       });
 
       if (res.status === 404) {
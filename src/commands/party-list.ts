@@ -7,6 +7,7 @@ import {
   ButtonStyle
 } from 'discord.js';
 import { Command } from '../types';
+import { trackPermalink } from '../lib/trackUrls';
 
 const API_BASE = (process.env.BOT_API_URL || process.env.API_BASE_URL || process.env.API_PUBLIC_URL || 'http://localhost:8080').replace(/\/$/, '');
 
@@ -17,8 +18,11 @@ interface ListeningPartySummary {
     title: string;
     artist: string;
     artwork?: string;
+    url?: string | null;
   };
   platform: string;
+  platforms?: string[]; // every platform fans can qualify on
+  status?: 'ACTIVE' | 'SCHEDULED';
   reward: {
     token_mint: string;
     tokens_per_participant: string;
@@ -29,6 +33,7 @@ interface ListeningPartySummary {
     available: number;
   };
   timing: {
+    scheduled_start_at?: string | null;
     expires_at: string;
     duration_minutes: number;
   };
@@ -79,7 +84,7 @@ function formatTimeRemaining(expiresAt: string): string {
 export const command: Command = {
   data: new SlashCommandBuilder()
     .setName('party-list')
-    .setDescription('Show active listening parties you can join'),
+    .setDescription('Show active and upcoming listening parties you can join'),
 
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
     await interaction.deferReply();
@@ -90,26 +95,31 @@ export const command: Command = {
       if (!parties.length) {
         const embed = new EmbedBuilder()
           .setColor('#FF6B6B')
-          .setTitle('No Active Listening Parties')
-          .setDescription('There are no active listening parties right now. Check back soon!');
+          .setTitle('No Listening Parties')
+          .setDescription('There are no active or upcoming listening parties right now. Check back soon!');
 
         await interaction.editReply({ embeds: [embed] });
         return;
       }
 
-      // Show up to 3 parties with buttons (Discord limit for action rows)
-      const partiesToShow = parties.slice(0, 3);
+      // Show up to 3 parties with buttons (Discord limit for action rows), live ones first
+      const partiesToShow = [...parties]
+        .sort((a, b) => Number(a.status === 'SCHEDULED') - Number(b.status === 'SCHEDULED'))
+        .slice(0, 3);
 
       const embeds = partiesToShow.map((party) => {
         const reward = party.reward?.tokens_per_participant ?? '0';
         const rewardDisplay = reward ? `${reward} ${party.reward?.token_mint ?? ''}`.trim() : 'N/A';
+        const startsAt = party.status === 'SCHEDULED' && party.timing.scheduled_start_at
+          ? Math.floor(new Date(party.timing.scheduled_start_at).getTime() / 1000)
+          : null;
 
         return new EmbedBuilder()
-          .setColor('#4F46E5')
+          .setColor(startsAt ? '#F59E0B' : '#4F46E5')
           .setTitle(party.track?.title ?? 'Listening Party')
           .setAuthor({ name: party.track?.artist ? `by ${party.track.artist}` : 'Listening Party' })
           .addFields(
-            { name: 'Platform', value: party.platform.toUpperCase(), inline: true },
+            { name: 'Platform', value: (party.platforms ?? [party.platform]).join(' / ').toUpperCase(), inline: true },
             { name: 'Reward', value: rewardDisplay, inline: true },
             {
               name: 'Capacity',
@@ -117,7 +127,9 @@ export const command: Command = {
               inline: true
             },
             { name: 'Duration', value: `${party.timing.duration_minutes} minutes`, inline: true },
-            { name: 'Time Remaining', value: formatTimeRemaining(party.timing.expires_at), inline: true },
+            startsAt
+              ? { name: 'Starts', value: `<t:${startsAt}:R>`, inline: true }
+              : { name: 'Time Remaining', value: formatTimeRemaining(party.timing.expires_at), inline: true },
             { name: 'Party ID', value: `\`${party.id}\``, inline: false }
           )
           .setFooter({ text: 'Use the buttons below to interact with this party.' });
@@ -125,15 +137,26 @@ export const command: Command = {
 
       // Create action rows with buttons for each party
       const components = partiesToShow.map((party) => {
-        const trackUrl = party.platform === 'audius'
-          ? `https://audius.co/tracks/${party.track.id}`
-          : `https://open.spotify.com/track/${party.track.id}`;
+        const trackUrl = trackPermalink(party.platform, party.track.id, party.track.url);
 
-        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
           new ButtonBuilder()
             .setLabel('🎵 Play')
             .setStyle(ButtonStyle.Link)
-            .setURL(trackUrl),
+            .setURL(trackUrl)
+        );
+
+        // Scheduled parties can't be joined yet; offer a reminder instead
+        if (party.status === 'SCHEDULED') {
+          return row.addComponents(
+            new ButtonBuilder()
+              .setCustomId(`remind_${party.id}`)
+              .setLabel('🔔 Remind me')
+              .setStyle(ButtonStyle.Secondary)
+          );
+        }
+
+        return row.addComponents(
           new ButtonBuilder()
             .setCustomId(`listen_${party.id}`)
             .setLabel('👂 Listen')
@@ -27,6 +27,15 @@ interface CreatorListeningParty {
     expires_at: string;
     duration_minutes: number;
   };
+  settlement: {
+    status: 'PENDING' | 'AWAITING_ARTIST' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
+    unclaimed_seats: number;
+    refund_amount: string;
+    close_tx_signature: string | null;
+    attempts: number;
+    last_error: string | null;
+    completed_at: string | null;
+  } | null;
 }
 
 function formatStatus(status: string, expiresAt: string): string {
@@ -52,6 +61,22 @@ function formatStatus(status: string, expiresAt: string): string {
   return `ACTIVE • ${minutes}m left`;
 }
 
+function formatSettlement(settlement: NonNullable<CreatorListeningParty['settlement']>): string {
+  const refund = `${settlement.unclaimed_seats} unclaimed seat(s) • ${settlement.refund_amount} tokens`;
+  switch (settlement.status) {
+    case 'COMPLETED':
+      return `✅ Refunded ${refund}`;
+    case 'AWAITING_ARTIST':
+      return `⏳ End the raid from the dashboard to reclaim ${refund}`;
+    case 'FAILED':
+      return `⚠️ Failed after ${settlement.attempts} attempt(s): ${settlement.last_error || 'unknown error'}`;
+    case 'SKIPPED':
+      return 'No escrow to settle';
+    default:
+      return `Pending • ${refund}`;
+  }
+}
+
 export const command: Command = {
   data: new SlashCommandBuilder()
     .setName('party-my-parties')
@@ -111,6 +136,14 @@ export const command: Command = {
             }
           );
 
+        if (party.settlement) {
+          embed.addFields({
+            name: 'Settlement',
+            value: formatSettlement(party.settlement),
+            inline: false
+          });
+        }
+
         if (party.track.artwork) {
           embed.setThumbnail(party.track.artwork);
         }
@@ -1,5 +1,6 @@
 import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder } from 'discord.js';
 import { Command } from '../types';
+import { QualificationRulesSummary, describeQualificationRules } from '../lib/qualification';
 
 const API_BASE = (process.env.BOT_API_URL || process.env.API_BASE_URL || process.env.API_PUBLIC_URL || 'http://localhost:8080').replace(/\/$/, '');
 
@@ -10,8 +11,24 @@ interface Participant {
   joined_at: string;
   qualified_at?: string | null;
   claimed_at?: string | null;
-  total_listening_duration: number;
+  listening_duration: number;
+  session_count: number;
   is_listening: boolean;
+  review_status?: 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED' | null;
+  current_track_id?: string | null;
+  tracks_completed?: number;
+  track_progress?: {
+    track_id: string;
+    listened_seconds: number;
+    completed_at?: string | null;
+  }[];
+}
+
+interface PartyTrack {
+  id: string;
+  position: number;
+  title: string;
+  required_seconds: number;
 }
 
 interface ListeningPartyDetail {
@@ -34,6 +51,9 @@ interface ListeningPartyDetail {
     expires_at: string;
     duration_minutes: number;
   };
+  title?: string | null;
+  tracks?: PartyTrack[];
+  qualification: QualificationRulesSummary;
   participants: Participant[];
 }
 
@@ -72,9 +92,29 @@ function formatStatus(participant: Participant): { statusText: string; color: nu
   if (participant.qualified_at) {
     return { statusText: '🎉 Qualified – ready to claim', color: 0xFBBF24 };
   }
+  if (participant.review_status === 'PENDING_REVIEW') {
+    return { statusText: '🔍 Under artist review', color: 0xF97316 };
+  }
+  if (participant.review_status === 'REJECTED') {
+    return { statusText: '🚫 Not approved by the artist', color: 0xEF4444 };
+  }
   return { statusText: '⏳ In progress', color: 0x3B82F6 };
 }
 
+/**
+ * One line per party track: done, now playing, or still to go
+ */
+function formatTrackChecklist(tracks: PartyTrack[], participant: Participant): string {
+  return tracks
+    .map((track) => {
+      const progress = participant.track_progress?.find(tp => tp.track_id === track.id);
+      const listened = Math.min(progress?.listened_seconds ?? 0, track.required_seconds);
+      const icon = progress?.completed_at ? '✅' : participant.current_track_id === track.id ? '▶️' : '⏳';
+      return `${icon} ${track.position + 1}. ${track.title} — ${listened}s / ${track.required_seconds}s`;
+    })
+    .join('\n');
+}
+
 function createProgressBar(current: number, required: number, length: number = 10): string {
   const percentage = Math.min(current / required, 1);
   const filled = Math.round(percentage * length);
@@ -124,20 +164,29 @@ export const command: Command = {
         return;
       }
 
-      const QUALIFYING_THRESHOLD = 30; // seconds required to qualify
-
       const embeds = myParties.map(({ party, participant }) => {
         const { statusText, color } = formatStatus(participant);
-        const progressBar = createProgressBar(participant.total_listening_duration, QUALIFYING_THRESHOLD);
+        const requiredSeconds = party.qualification.required_seconds;
+        const progressBar = createProgressBar(participant.listening_duration, requiredSeconds);
+        const sessionsText = party.qualification.min_sessions > 1
+          ? `\nSessions: ${participant.session_count} / ${party.qualification.min_sessions}`
+          : '';
+        const tracks = party.tracks ?? [];
+        const isMultiTrack = tracks.length > 1;
+        const listeningProgress = isMultiTrack
+          ? `\`\`\`${createProgressBar(participant.tracks_completed ?? 0, party.qualification.required_tracks)}\`\`\`\n` +
+            `Tracks: ${participant.tracks_completed ?? 0} / ${party.qualification.required_tracks} ${participant.is_listening ? '🔊 Currently listening' : ''}${sessionsText}\n\n` +
+            formatTrackChecklist(tracks, participant)
+          : `\`\`\`${progressBar}\`\`\`\n${participant.listening_duration}s / ${requiredSeconds}s ${participant.is_listening ? '🔊 Currently listening' : ''}${sessionsText}`;
 
         return new EmbedBuilder()
           .setColor(color)
-          .setTitle(`${party.track.title || 'Unknown Track'} • Party ${party.id}`)
+          .setTitle(`${(isMultiTrack ? party.title : null) || party.track.title || 'Unknown Track'} • Party ${party.id}`)
           .addFields(
             { name: 'Status', value: statusText, inline: false },
             {
               name: 'Listening Progress',
-              value: `\`\`\`${progressBar}\`\`\`\n${participant.total_listening_duration}s / ${QUALIFYING_THRESHOLD}s ${participant.is_listening ? '🔊 Currently listening' : ''}`,
+              value: listeningProgress.slice(0, 1024),
               inline: false
             },
             {
@@ -156,7 +205,7 @@ export const command: Command = {
               ? 'You\'re qualified! Use the Claim button in /party-list or run /party-claim.'
               : participant.qualified_at
               ? 'Reward already claimed!'
-              : `Listen for ${QUALIFYING_THRESHOLD - participant.total_listening_duration}s more to qualify.`
+              : `To qualify: ${describeQualificationRules(party.qualification)}.`
           });
       });
 
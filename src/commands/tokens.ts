@@ -31,7 +31,7 @@ const tokensCommand: Command = {
       const allTokens = await PrismaDatabase.getAllTokens();
 
       const enabledList = tokens.map(token => 
-        `✅ **${token.symbol}**\n\`${token.mint}\``
+        `✅ **${token.symbol}**${token.default_for_rewards ? ' ⭐ default' : ''}\n\`${token.mint}\``
       ).join('\n\n') || 'No enabled tokens';
 
       const disabledTokens = allTokens.filter(token => !token.enabled);
@@ -43,8 +43,7 @@ const tokensCommand: Command = {
         '🪙 Token Configurations',
         `**Enabled Tokens (${tokens.length})**\n${enabledList}\n\n` +
         `**Disabled Tokens (${disabledTokens.length})**\n${disabledList}\n\n` +
-        `*Tokens are automatically detected when deposited to admin wallets*\n` +
-        `*Use \`/deposit\` to view your admin wallet address*`
+        `*Add, enable or disable tokens from the admin dashboard under Admin → Tokens*`
       );
 
       await interaction.editReply({ embeds: [embed] });
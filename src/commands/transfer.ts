@@ -1,50 +1,306 @@
-import { 
-  SlashCommandBuilder, 
-  ChatInputCommandInteraction
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  EmbedBuilder as DiscordEmbedBuilder
 } from 'discord.js';
+import PrismaDatabase from '../database/prisma';
 import EmbedBuilder from '../utils/embedBuilder';
+import WalletService from '../services/wallet';
+import SecurityService from '../services/security';
+import { respondWithTokenChoices } from '../lib/tokenChoices';
 import { Command } from '../types';
 
+const CONFIRM_TIMEOUT_MS = 60 * 1000;
+
+const walletService = new WalletService();
+const securityService = new SecurityService();
+
+interface ResolvedRecipient {
+  address?: string; // unset when a bot wallet will be created for the recipient
+  discordId?: string;
+  label: string;
+}
+
+/**
+ * Turn the "to" or "address" option into a wallet address. Discord users get
+ * their connected or bot wallet; fans without one get a bot wallet once the
+ * sender confirms (see ensureRecipientWallet), so tips always land.
+ */
+async function resolveRecipient(interaction: ChatInputCommandInteraction): Promise<ResolvedRecipient | string> {
+  const targetUser = interaction.options.getUser('to');
+  const address = interaction.options.getString('address')?.trim();
+
+  if (Boolean(targetUser) === Boolean(address)) {
+    return 'Choose either a Discord user (`to`) or a Solana `address`, not both.';
+  }
+
+  if (address) {
+    return { address, label: `\`${address}\`` };
+  }
+
+  if (targetUser!.bot) {
+    return 'You can\'t send tokens to a bot.';
+  }
+  if (targetUser!.id === interaction.user.id) {
+    return 'You can\'t send tokens to yourself.';
+  }
+
+  const recipient = await PrismaDatabase.getUser(targetUser!.id);
+  const recipientAddress = recipient?.privy_wallet_address
+    || (await PrismaDatabase.getUserWallet(targetUser!.id))?.public_key;
+
+  return {
+    address: recipientAddress,
+    discordId: targetUser!.id,
+    label: recipientAddress
+      ? `<@${targetUser!.id}>\n\`${recipientAddress}\``
+      : `<@${targetUser!.id}>\n(a bot wallet will be created for them)`,
+  };
+}
+
+/**
+ * Create the bot wallet for a recipient who has none. Only called after the
+ * sender confirms, so an abandoned transfer doesn't leave a wallet behind.
+ */
+async function ensureRecipientWallet(recipient: ResolvedRecipient): Promise<string> {
+  if (recipient.address) {
+    return recipient.address;
+  }
+  return (await walletService.createOrGetWallet(recipient.discordId!, false)).publicKey;
+}
+
+function checkTransfer(userDiscordId: string, recipientAddress: string, amount: number, tokenMint?: string) {
+  return securityService.validateWalletOperation({ userDiscordId, recipientAddress, amount, tokenMint });
+}
+
 const transferCommand: Command = {
   data: new SlashCommandBuilder()
     .setName('transfer')
-    .setDescription('💸 Transfer SOL or tokens to another wallet'),
+    .setDescription('💸 Send SOL or tokens to another fan or wallet')
+    .addNumberOption(option =>
+      option
+        .setName('amount')
+        .setDescription('How much to send')
+        .setRequired(true)
+        .setMinValue(0.000001)
+    )
+    .addUserOption(option =>
+      option
+        .setName('to')
+        .setDescription('Discord user to send to')
+        .setRequired(false)
+    )
+    .addStringOption(option =>
+      option
+        .setName('address')
+        .setDescription('Solana address to send to')
+        .setRequired(false)
+    )
+    .addStringOption(option =>
+      option
+        .setName('token')
+        .setDescription('Token to send (defaults to SOL)')
+        .setRequired(false)
+        .setAutocomplete(true)
+    ),
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    await respondWithTokenChoices(interaction);
+  },
 
   async execute(interaction: ChatInputCommandInteraction): Promise<void> {
     try {
-      const embed = EmbedBuilder.createInfoEmbed(
-        '🚧 Feature Coming Soon',
-        `**Wallet transfers will be implemented later!**\n\n` +
-        `🔐 **Why it's disabled:**\n` +
-        `• Enhanced security measures being implemented\n` +
-        `• Advanced fraud protection systems\n` +
-        `• Multi-signature verification process\n` +
-        `• Compliance and audit requirements\n\n` +
-        `**For now, you can:**\n` +
-        `✅ View your wallet with \`/wallet\`\n` +
-        `✅ Participate in raids to earn tokens\n` +
-        `✅ Check balances and transaction history\n\n` +
-        `**Coming Soon:**\n` +
-        `🚀 Secure transfer system\n` +
-        `🚀 Multi-factor authentication\n` +
-        `🚀 Advanced security features`
+      await interaction.deferReply({ ephemeral: true });
+
+      const amount = interaction.options.getNumber('amount', true);
+      const tokenOption = interaction.options.getString('token') || 'SOL';
+
+      // Transfers are signed by the bot, so only bot-managed wallets can send
+      const senderWallet = await PrismaDatabase.getUserWallet(interaction.user.id);
+      if (!senderWallet || senderWallet.privy_wallet_id || !senderWallet.encrypted_private_key) {
+        const embed = EmbedBuilder.createErrorEmbed(
+          'No Bot Wallet',
+          'Transfers are sent from your bot-managed wallet, and you don\'t have one.\n\n' +
+          'If you connected your own wallet, send from your wallet app instead.'
+        );
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      // Resolve token
+      let tokenMint: string | undefined;
+      let symbol = 'SOL';
+      if (tokenOption.toUpperCase() !== 'SOL') {
+        const token = await PrismaDatabase.getTokenByMint(tokenOption);
+        if (!token || !token.enabled) {
+          const embed = EmbedBuilder.createErrorEmbed(
+            'Unknown Token',
+            'Pick a token from the list. Only enabled tokens can be transferred.'
+          );
+          await interaction.editReply({ embeds: [embed] });
+          return;
+        }
+        tokenMint = token.mint;
+        symbol = token.symbol;
+      }
+
+      const recipient = await resolveRecipient(interaction);
+      if (typeof recipient === 'string') {
+        await interaction.editReply({ embeds: [EmbedBuilder.createErrorEmbed('Invalid Recipient', recipient)] });
+        return;
+      }
+
+      if (recipient.address === senderWallet.public_key) {
+        await interaction.editReply({ embeds: [EmbedBuilder.createErrorEmbed('Invalid Recipient', 'That is your own wallet.')] });
+        return;
+      }
+
+      // Address, amount and daily limit checks before asking for confirmation
+      // (for a wallet created on confirm, they run once it exists)
+      if (recipient.address) {
+        const securityCheck = await checkTransfer(interaction.user.id, recipient.address, amount, tokenMint);
+        if (!securityCheck.isValid) {
+          await interaction.editReply({ embeds: [EmbedBuilder.createErrorEmbed('Transfer Blocked', securityCheck.reason || 'This transfer was blocked.')] });
+          return;
+        }
+      }
+
+      const fees = await walletService.estimateTransferFee({ toAddress: recipient.address, tokenMint });
+
+      const confirmEmbed = new DiscordEmbedBuilder()
+        .setColor(0xF59E0B)
+        .setTitle('💸 Confirm Transfer')
+        .setDescription('Transfers on Solana are final. Double-check the recipient before confirming.')
+        .addFields(
+          { name: 'Amount', value: `${amount} ${symbol}`, inline: true },
+          { name: 'Network Fee', value: `${fees.networkFeeSol} SOL`, inline: true },
+          ...(fees.accountRentSol > 0
+            ? [{ name: 'Token Account Rent', value: `${fees.accountRentSol} SOL (recipient has no ${symbol} account yet)`, inline: false }]
+            : []),
+          { name: 'Recipient', value: recipient.label, inline: false },
+          { name: 'From', value: `\`${senderWallet.public_key}\``, inline: false }
+        )
+        .setFooter({ text: `Fees are paid in SOL from your wallet. This request expires in ${CONFIRM_TIMEOUT_MS / 1000}s.` });
+
+      const buttons = (disabled: boolean) => new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`transfer_confirm_${interaction.id}`)
+          .setLabel('Confirm')
+          .setStyle(ButtonStyle.Success)
+          .setEmoji('✅')
+          .setDisabled(disabled),
+        new ButtonBuilder()
+          .setCustomId(`transfer_cancel_${interaction.id}`)
+          .setLabel('Cancel')
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(disabled)
       );
 
-      embed.setFooter({ text: 'Stay tuned for updates! 🎵' });
+      const message = await interaction.editReply({ embeds: [confirmEmbed], components: [buttons(false)] });
+
+      let decision;
+      try {
+        decision = await message.awaitMessageComponent({
+          componentType: ComponentType.Button,
+          filter: i => i.user.id === interaction.user.id && i.customId.endsWith(`_${interaction.id}`),
+          time: CONFIRM_TIMEOUT_MS,
+        });
+      } catch {
+        await interaction.editReply({
+          embeds: [EmbedBuilder.createInfoEmbed('Transfer Expired', 'No confirmation received, so nothing was sent.')],
+          components: [],
+        });
+        return;
+      }
 
-      await interaction.reply({ embeds: [embed], ephemeral: true });
+      if (decision.customId.startsWith('transfer_cancel_')) {
+        await decision.update({
+          embeds: [EmbedBuilder.createInfoEmbed('Transfer Cancelled', 'Nothing was sent.')],
+          components: [],
+        });
+        return;
+      }
+
+      await decision.update({ embeds: [confirmEmbed.setTitle('⏳ Sending Transfer...')], components: [buttons(true)] });
+
+      const toAddress = await ensureRecipientWallet(recipient);
+      if (!recipient.address) {
+        const securityCheck = await checkTransfer(interaction.user.id, toAddress, amount, tokenMint);
+        if (!securityCheck.isValid) {
+          await interaction.editReply({
+            embeds: [EmbedBuilder.createErrorEmbed('Transfer Blocked', securityCheck.reason || 'This transfer was blocked.')],
+            components: [],
+          });
+          return;
+        }
+      }
+
+      const request = {
+        fromDiscordId: interaction.user.id,
+        toAddress,
+        toDiscordId: recipient.discordId,
+        amount,
+        tokenMint,
+        source: 'DISCORD' as const,
+      };
+      const result = tokenMint
+        ? await walletService.transferToken(request)
+        : await walletService.transferSOL(request);
+
+      if (!result.success) {
+        await interaction.editReply({
+          embeds: [EmbedBuilder.createErrorEmbed('Transfer Failed', result.error || 'The transfer could not be sent.')],
+          components: [],
+        });
+        return;
+      }
+
+      const explorerUrl = walletService.getExplorerTxUrl(result.signature);
+      const successEmbed = EmbedBuilder.createSuccessEmbed(
+        'Transfer Sent',
+        `Sent **${amount} ${symbol}** to ${recipient.discordId ? `<@${recipient.discordId}>\n` : ''}\`${toAddress}\`\n\n` +
+        `**Signature:** \`${result.signature}\`\n` +
+        `[View on Solana Explorer](${explorerUrl})`
+      );
+      await interaction.editReply({ embeds: [successEmbed], components: [] });
+
+      // Let a tipped fan know where the tokens came from
+      if (recipient.discordId) {
+        try {
+          const recipientUser = await interaction.client.users.fetch(recipient.discordId);
+          await recipientUser.send({
+            embeds: [
+              EmbedBuilder.createSuccessEmbed(
+                'You Received a Tip!',
+                `<@${interaction.user.id}> sent you **${amount} ${symbol}**.\n\n[View on Solana Explorer](${explorerUrl})`
+              ),
+            ],
+          });
+        } catch (error) {
+          console.warn(`Could not DM transfer recipient ${recipient.discordId}:`, error);
+        }
+      }
 
     } catch (error: any) {
       console.error('Error in transfer command:', error);
-      
+
       const embed = EmbedBuilder.createErrorEmbed(
         'Command Error',
         `Something went wrong: ${error.message}`
       );
-      
-      await interaction.reply({ embeds: [embed], ephemeral: true });
+
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ embeds: [embed], components: [] });
+      } else {
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+      }
     }
   }
 };
 
-export default transferCommand;
\ No newline at end of file
+export default transferCommand;
@@ -0,0 +1,169 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  AutocompleteInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  EmbedBuilder as DiscordEmbedBuilder
+} from 'discord.js';
+import EmbedBuilder from '../utils/embedBuilder';
+import WithdrawalService, { WithdrawalInput } from '../services/withdrawals';
+import config from '../config/environment';
+import { respondWithTokenChoices } from '../lib/tokenChoices';
+import { Command } from '../types';
+
+const CONFIRM_TIMEOUT_MS = 60 * 1000;
+
+const withdrawalService = new WithdrawalService();
+
+const withdrawCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('withdraw')
+    .setDescription('🏧 Withdraw SOL or reward tokens from your bot wallet')
+    .addStringOption(option =>
+      option
+        .setName('address')
+        .setDescription('Solana address to withdraw to')
+        .setRequired(true)
+    )
+    .addNumberOption(option =>
+      option
+        .setName('amount')
+        .setDescription('How much to withdraw')
+        .setRequired(true)
+        .setMinValue(0.000001)
+    )
+    .addStringOption(option =>
+      option
+        .setName('token')
+        .setDescription('Token to withdraw (defaults to SOL)')
+        .setRequired(false)
+        .setAutocomplete(true)
+    )
+    .addBooleanOption(option =>
+      option
+        .setName('swap')
+        .setDescription('Swap the token to SOL before sending')
+        .setRequired(false)
+    ),
+
+  async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    await respondWithTokenChoices(interaction);
+  },
+
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      await interaction.deferReply({ ephemeral: true });
+
+      if (!config.features.enableWithdrawals) {
+        await interaction.editReply({
+          embeds: [EmbedBuilder.createInfoEmbed('Withdrawals Paused', 'Withdrawals are not enabled right now. Please try again later.')],
+        });
+        return;
+      }
+
+      const tokenOption = interaction.options.getString('token') || 'SOL';
+      const input: WithdrawalInput = {
+        toAddress: interaction.options.getString('address', true).trim(),
+        amount: interaction.options.getNumber('amount', true),
+        tokenMint: tokenOption.toUpperCase() === 'SOL' ? undefined : tokenOption,
+        swapToSol: interaction.options.getBoolean('swap') ?? false,
+      };
+
+      const eligibility = await withdrawalService.checkEligibility(interaction.user.id, input);
+      if (!eligibility.eligible) {
+        await interaction.editReply({ embeds: [EmbedBuilder.createErrorEmbed('Withdrawal Not Available', eligibility.reason)] });
+        return;
+      }
+
+      const { quote } = eligibility;
+      const confirmEmbed = new DiscordEmbedBuilder()
+        .setColor(0xF59E0B)
+        .setTitle('🏧 Confirm Withdrawal')
+        .setDescription('Withdrawals on Solana are final. Double-check the address before confirming.')
+        .addFields(
+          { name: 'Amount', value: `${quote.amount} ${quote.symbol}${quote.swapToSol ? ' → SOL' : ''}`, inline: true },
+          { name: 'Withdrawal Fee', value: `${quote.feeSol} SOL`, inline: true },
+          ...(quote.payoutSol !== null
+            ? [{ name: 'You Receive', value: `${quote.swapToSol ? 'at least ' : ''}${quote.payoutSol} SOL`, inline: true }]
+            : []),
+          { name: 'To', value: `\`${input.toAddress}\``, inline: false }
+        )
+        .setFooter({ text: `Withdrawals are queued and usually complete within a few minutes. This request expires in ${CONFIRM_TIMEOUT_MS / 1000}s.` });
+
+      const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`withdraw_confirm_${interaction.id}`)
+          .setLabel('Confirm')
+          .setStyle(ButtonStyle.Success)
+          .setEmoji('✅'),
+        new ButtonBuilder()
+          .setCustomId(`withdraw_cancel_${interaction.id}`)
+          .setLabel('Cancel')
+          .setStyle(ButtonStyle.Secondary)
+      );
+
+      const message = await interaction.editReply({ embeds: [confirmEmbed], components: [buttons] });
+
+      let decision;
+      try {
+        decision = await message.awaitMessageComponent({
+          componentType: ComponentType.Button,
+          filter: i => i.user.id === interaction.user.id && i.customId.endsWith(`_${interaction.id}`),
+          time: CONFIRM_TIMEOUT_MS,
+        });
+      } catch {
+        await interaction.editReply({
+          embeds: [EmbedBuilder.createInfoEmbed('Withdrawal Expired', 'No confirmation received, so nothing was queued.')],
+          components: [],
+        });
+        return;
+      }
+
+      if (decision.customId.startsWith('withdraw_cancel_')) {
+        await decision.update({
+          embeds: [EmbedBuilder.createInfoEmbed('Withdrawal Cancelled', 'Nothing was queued.')],
+          components: [],
+        });
+        return;
+      }
+
+      await decision.deferUpdate();
+
+      const created = await withdrawalService.createWithdrawal(interaction.user.id, input);
+      if (!created.withdrawal) {
+        await interaction.editReply({
+          embeds: [EmbedBuilder.createErrorEmbed('Withdrawal Failed', created.error || 'The withdrawal could not be queued.')],
+          components: [],
+        });
+        return;
+      }
+
+      const successEmbed = EmbedBuilder.createSuccessEmbed(
+        'Withdrawal Queued',
+        `Your withdrawal of **${quote.amount} ${quote.symbol}** to \`${input.toAddress}\` is queued.\n\n` +
+        `We'll DM you when it has been sent.\n\n` +
+        `**Reference:** \`${created.withdrawal.id}\``
+      );
+      await interaction.editReply({ embeds: [successEmbed], components: [] });
+
+    } catch (error: any) {
+      console.error('Error in withdraw command:', error);
+
+      const embed = EmbedBuilder.createErrorEmbed(
+        'Command Error',
+        `Something went wrong: ${error.message}`
+      );
+
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ embeds: [embed], components: [] });
+      } else {
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+      }
+    }
+  }
+};
+
+export default withdrawCommand;
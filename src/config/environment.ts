@@ -50,6 +50,9 @@ const config = {
     redirectUri: process.env.SPOTIFY_SERVER_REDIRECT_URI 
       || process.env.SPOTIFY_REDIRECT_URI 
       || 'http://localhost:3001/api/auth/callback/spotify',
+    // App-wide Web API budget shared by every user and endpoint
+    requestsPerSecond: parseFloat(process.env.SPOTIFY_REQUESTS_PER_SECOND, 5),
+    requestBurst: parseNumber(process.env.SPOTIFY_REQUEST_BURST, 10),
   },
 
   // Audius
@@ -63,7 +66,8 @@ const config = {
   // Solana
   solana: {
     network: (process.env.SOLANA_NETWORK as 'mainnet' | 'devnet' | 'testnet') || 'mainnet',
-    rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+    rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    raidEscrowProgramId: process.env.RAID_ESCROW_PROGRAM_ID || 'BLQWXoLgNdxEh7nDrUPFqxN3nAFAEho6HiXSdsoJrDRu'
   },
 
   // Helius
@@ -88,8 +92,10 @@ const config = {
   // Security
   security: {
     encryptionKey: process.env.ENCRYPTION_KEY || '',
+    encryptionKeys: process.env.ENCRYPTION_KEYS || '', // `id:base64key,...`, newest (active) first
     jwtSecret: process.env.JWT_SECRET || '',
-    webhookAuthSecret: process.env.WEBHOOK_AUTH_SECRET || ''
+    webhookAuthSecret: process.env.WEBHOOK_AUTH_SECRET || '',
+    serviceAuthSecret: process.env.SERVICE_AUTH_SECRET || ''
   },
 
   // Super Admins
@@ -102,7 +108,8 @@ const config = {
     port: parseNumber(process.env.PORT, 3000),
     nodeEnv: (process.env.NODE_ENV as 'development' | 'production' | 'test') || 'development',
     corsOrigins: parseList(process.env.ALLOWED_ORIGINS || '*'),
-    publicUrl: process.env.API_PUBLIC_URL || `http://localhost:${parseNumber(process.env.PORT, 3000)}`
+    publicUrl: process.env.API_PUBLIC_URL || `http://localhost:${parseNumber(process.env.PORT, 3000)}`,
+    dashboardUrl: process.env.DASHBOARD_URL || 'http://localhost:3001'
   },
 
   // Bot Settings
@@ -116,7 +123,11 @@ const config = {
   withdrawal: {
     minSol: parseFloat(process.env.MIN_WITHDRAWAL_SOL, 1.0),
     feeSol: parseFloat(process.env.WITHDRAWAL_FEE_SOL, 0.01),
-    maxDailyWithdrawals: parseNumber(process.env.MAX_DAILY_WITHDRAWALS, 3)
+    maxDailyWithdrawals: parseNumber(process.env.MAX_DAILY_WITHDRAWALS, 3),
+    feeWallet: process.env.WITHDRAWAL_FEE_WALLET || '', // fee is waived when unset
+    maxRetries: parseNumber(process.env.WITHDRAWAL_MAX_RETRIES, 3),
+    intervalSeconds: parseNumber(process.env.WITHDRAWAL_INTERVAL_SECONDS, 30),
+    swapSlippageBps: parseNumber(process.env.WITHDRAWAL_SWAP_SLIPPAGE_BPS, 100)
   },
 
   // Deposit Settings
@@ -150,6 +161,7 @@ const config = {
     enableWebhooks: parseBoolean(process.env.ENABLE_WEBHOOKS || 'true'),
     enableRewards: parseBoolean(process.env.ENABLE_REWARDS || 'true'),
     enableSettlement: parseBoolean(process.env.ENABLE_SETTLEMENT || 'true'),
+    enableWithdrawals: parseBoolean(process.env.ENABLE_WITHDRAWALS || 'true'),
     enableMetrics: parseBoolean(process.env.ENABLE_METRICS || 'false'),
     enableSpotifyEmbeddedPlayer: parseBoolean(process.env.ENABLE_SPOTIFY_EMBEDDED_PLAYER || 'true'),
     enableSpotifyEnhancedMetadata: parseBoolean(process.env.ENABLE_SPOTIFY_ENHANCED_METADATA || 'true')
@@ -198,11 +210,15 @@ const requiredEnvVars: Array<keyof typeof process.env> = [
   'DISCORD_TOKEN',
   'DISCORD_CLIENT_ID',
   'HELIUS_API_KEY',
-  'ENCRYPTION_KEY',
   'JWT_SECRET'
 ];
 
-const missingVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
+const missingVars = requiredEnvVars.filter(envVar => !process.env[envVar]).map(String);
+
+// Either key setting works; once rotated, ENCRYPTION_KEYS alone is enough to retire the old key
+if (!process.env.ENCRYPTION_KEY && !process.env.ENCRYPTION_KEYS) {
+  missingVars.push('ENCRYPTION_KEY or ENCRYPTION_KEYS');
+}
 
 if (missingVars.length > 0) {
   console.error('❌ Missing required environment variables:', missingVars);
@@ -220,7 +236,10 @@ if (config.api.nodeEnv === 'production') {
     console.warn('⚠️  WEBHOOK_AUTH_SECRET not set in production');
   }
   if (!config.helius.webhookSecret) {
-    console.warn('⚠️  HELIUS_WEBHOOK_SECRET not set in production');
+    console.warn('⚠️  HELIUS_WEBHOOK_SECRET not set in production - Helius webhooks will be rejected');
+  }
+  if (!config.security.serviceAuthSecret) {
+    console.warn('⚠️  SERVICE_AUTH_SECRET not set in production - bot calls to participant endpoints will be rejected');
   }
 }
 
@@ -16,9 +16,20 @@ export const LISTENING_PARTY_CONSTANTS = {
    */
   HEARTBEAT_INTERVAL_MS: 3000,
 
+  /**
+   * How often the listening tracker's scheduler looks for due heartbeats, in milliseconds
+   */
+  TRACKER_TICK_MS: 500,
+
+  /**
+   * Heartbeat requests the listening tracker keeps in flight at once
+   * Sessions past due wait for the next free slot, oldest first
+   */
+  MAX_CONCURRENT_HEARTBEATS: 50,
+
   /**
    * Qualifying threshold in seconds
-   * How long a user must listen to qualify for rewards
+   * Default minimum listen time for parties that don't set their own rules
    */
   QUALIFYING_THRESHOLD: 30,
 
@@ -33,6 +44,33 @@ export const LISTENING_PARTY_CONSTANTS = {
    * How often to send DM updates to users
    */
   PROGRESS_UPDATE_INTERVAL_MS: 9000, // Every 3rd heartbeat
+
+  /**
+   * Most listening time a single heartbeat can credit, in seconds
+   * Caps the gap a delayed or replayed heartbeat can claim
+   */
+  MAX_CREDITED_SECONDS_PER_HEARTBEAT: 6, // 2 heartbeat intervals
+
+  /**
+   * Heartbeats closer together than this are treated as a burst and earn nothing
+   */
+  BURST_MIN_INTERVAL_MS: 1500, // Half a heartbeat interval
+
+  /**
+   * Slack allowed between playback position and wall-clock time, in seconds
+   */
+  POSITION_JUMP_TOLERANCE_SECONDS: 5,
+
+  /**
+   * Risk score (0-100) at which a participant is held for artist review
+   * instead of auto-qualifying
+   */
+  RISK_REVIEW_THRESHOLD: 50,
+
+  /**
+   * Most tracks a multi-track (EP / playlist) party can include
+   */
+  MAX_PARTY_TRACKS: 20,
 } as const;
 
 export default LISTENING_PARTY_CONSTANTS;
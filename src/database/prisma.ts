@@ -1,6 +1,32 @@
-import { PrismaClient, User, Admin, OAuthSession, Wallet, Token, ArtistDeposit } from '@prisma/client';
+import {
+  PrismaClient,
+  User,
+  Admin,
+  OAuthSession,
+  Wallet,
+  Token,
+  ArtistDeposit,
+  ListeningParty,
+  ListeningPartyParticipant,
+  ListeningPartyTrack,
+  Platform
+} from '@prisma/client';
 import { DatabaseUser, UserRole } from '../types';
 import LISTENING_PARTY_CONSTANTS from '../config/listeningPartyConstants';
+import {
+  QualificationStatus,
+  SESSION_GAP_SECONDS,
+  evaluateQualification,
+  startsNewSession
+} from '../lib/qualification';
+import {
+  assessHeartbeat,
+  mergeRiskFlags,
+  parseRiskFlags,
+  requiresReview,
+  scoreRisk
+} from '../lib/listeningIntegrity';
+import { emitPartyChanged } from '../lib/partyEvents';
 
 // Initialize Prisma client with proper configuration
 const prisma = new PrismaClient({
@@ -8,6 +34,18 @@ const prisma = new PrismaClient({
   errorFormat: 'pretty'
 });
 
+/** Progress on the track a multi-track heartbeat was credited to */
+export interface PartyTrackProgress {
+  track_id: string;
+  title: string | null;
+  position: number;
+  listened_seconds: number;
+  required_seconds: number;
+  completed: boolean;
+  just_completed: boolean;
+  changed: boolean;
+}
+
 // Include types for complex queries
 type UserWithWallet = User & {
   wallets?: any[];
@@ -253,6 +291,12 @@ class PrismaDatabase {
           await this.addAdmin(discordId);
           console.log(`✅ Super Admin initialized: ${discordId}`);
         }
+
+        // Keep the role in step with the admins table for users that already exist
+        await prisma.user.updateMany({
+          where: { discord_id: { in: ids }, role: { not: 'SUPER_ADMIN' } },
+          data: { role: 'SUPER_ADMIN' }
+        });
         
         console.log(`🔐 Initialized ${ids.length} super admin(s)`);
       }
@@ -1116,7 +1160,8 @@ class PrismaDatabase {
   }
 
   static async getOAuthSession(state: string): Promise<any> {
-    return await prisma.oAuthSession.findUnique({ where: { state } });
+    // Dashboard login states (provider set) belong to the dashboard's own callback
+    return await prisma.oAuthSession.findFirst({ where: { state, provider: null } });
   }
 
   static async deleteOAuthSession(state: string): Promise<void> {
@@ -1259,6 +1304,312 @@ class PrismaDatabase {
     });
   }
 
+  static async getPendingDeposits(): Promise<ArtistDeposit[]> {
+    return await prisma.artistDeposit.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { created_at: 'asc' }
+    });
+  }
+
+  static async updateDepositStatus(txSignature: string, status: 'CONFIRMED' | 'FAILED'): Promise<ArtistDeposit> {
+    return await prisma.artistDeposit.update({
+      where: { tx_signature: txSignature },
+      data: {
+        status,
+        confirmed_at: status === 'CONFIRMED' ? new Date() : null
+      }
+    });
+  }
+
+  // Listening party methods
+  /**
+   * Mark a participant as claimed and bump the party's claimed_count exactly once.
+   * Returns null if the participant had already claimed.
+   */
+  static async recordListeningPartyClaim(
+    partyId: string,
+    participantId: string,
+    txSignature: string
+  ): Promise<ListeningPartyParticipant | null> {
+    const claimed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.listeningPartyParticipant.updateMany({
+        where: { id: participantId, claimed_at: null },
+        data: {
+          claimed_at: new Date(),
+          claim_tx_signature: txSignature
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.listeningParty.update({
+        where: { id: partyId },
+        data: { claimed_count: { increment: 1 } }
+      });
+
+      return tx.listeningPartyParticipant.findUnique({ where: { id: participantId } });
+    });
+
+    if (claimed) {
+      emitPartyChanged(partyId, 'claimed');
+    }
+    return claimed;
+  }
+
+  /**
+   * Apply a listening heartbeat to a participant: credit the wall-clock time since the
+   * previous beat, count a new session when playback resumes, record anti-cheat signals,
+   * and set qualified_at once the party's rules are met unless the participant's risk
+   * score holds them for artist review
+   */
+  static async recordPartyHeartbeat(
+    participant: ListeningPartyParticipant & { listening_party: ListeningParty & { tracks?: ListeningPartyTrack[] } },
+    heartbeat: { isPlaying: boolean; positionSeconds?: number | null; trackId?: string | null }
+  ): Promise<{
+    participant: ListeningPartyParticipant;
+    qualification: QualificationStatus;
+    heldForReview: boolean;
+    track: PartyTrackProgress | null;
+  }> {
+    const now = new Date();
+    const party = participant.listening_party;
+    const tracks = party.tracks ?? [];
+    const newSession = heartbeat.isPlaying && startsNewSession(participant, now);
+    const positionSeconds = heartbeat.positionSeconds != null ? Math.round(heartbeat.positionSeconds) : null;
+
+    // Multi-track parties credit time to whichever party track is playing
+    const currentTrack = tracks.length > 1 && heartbeat.trackId
+      ? tracks.find((t) => t.track_id === heartbeat.trackId)
+      : undefined;
+    const changedTrack = Boolean(currentTrack) && participant.current_track_id !== currentTrack!.track_id;
+
+    const [overlapping, previousBeat] = await Promise.all([
+      heartbeat.isPlaying
+        ? prisma.listeningPartyParticipant.count({
+            where: {
+              discord_id: participant.discord_id,
+              party_id: { not: participant.party_id },
+              is_listening: true,
+              last_heartbeat_at: { gte: new Date(now.getTime() - SESSION_GAP_SECONDS * 1000) }
+            }
+          })
+        : 0,
+      positionSeconds !== null
+        ? prisma.listeningHeartbeat.findFirst({
+            where: { participant_id: participant.id, position_seconds: { not: null } },
+            orderBy: { recorded_at: 'desc' }
+          })
+        : null
+    ]);
+
+    const elapsedMs = participant.last_heartbeat_at ? now.getTime() - participant.last_heartbeat_at.getTime() : null;
+    const { creditedSeconds, flags } = assessHeartbeat({
+      isPlaying: heartbeat.isPlaying,
+      newSession,
+      elapsedMs,
+      positionSeconds,
+      // Playback position restarts when moving to the next track
+      previousPositionSeconds: changedTrack ? null : previousBeat?.position_seconds,
+      overlapping: overlapping > 0
+    });
+
+    const existingFlags = parseRiskFlags(participant.risk_flags);
+    if (newSession && !existingFlags.SHARED_PLATFORM_ACCOUNT &&
+        await this.isPlatformAccountShared(participant.discord_id, participant.platform ?? party.platform)) {
+      flags.push('SHARED_PLATFORM_ACCOUNT');
+    }
+
+    const riskFlags = mergeRiskFlags(existingFlags, flags);
+    const riskScore = scoreRisk(riskFlags);
+
+    let track: PartyTrackProgress | null = null;
+    let tracksCompleted = participant.tracks_completed;
+
+    if (currentTrack && heartbeat.isPlaying) {
+      let progress = await prisma.participantTrackProgress.upsert({
+        where: { participant_id_party_track_id: { participant_id: participant.id, party_track_id: currentTrack.id } },
+        create: {
+          participant_id: participant.id,
+          party_track_id: currentTrack.id,
+          listened_seconds: creditedSeconds,
+          last_heartbeat_at: now
+        },
+        update: {
+          listened_seconds: { increment: creditedSeconds },
+          last_heartbeat_at: now
+        }
+      });
+
+      const justCompleted = !progress.completed_at && progress.listened_seconds >= currentTrack.required_seconds;
+      if (justCompleted) {
+        progress = await prisma.participantTrackProgress.update({
+          where: { id: progress.id },
+          data: { completed_at: now }
+        });
+        tracksCompleted = await prisma.participantTrackProgress.count({
+          where: { participant_id: participant.id, completed_at: { not: null } }
+        });
+      }
+
+      track = {
+        track_id: currentTrack.track_id,
+        title: currentTrack.track_title,
+        position: currentTrack.position,
+        listened_seconds: progress.listened_seconds,
+        required_seconds: currentTrack.required_seconds,
+        completed: Boolean(progress.completed_at),
+        just_completed: justCompleted,
+        changed: changedTrack
+      };
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.listeningPartyParticipant.update({
+        where: { id: participant.id },
+        data: {
+          is_listening: heartbeat.isPlaying,
+          last_heartbeat_at: now,
+          first_heartbeat_at: participant.first_heartbeat_at || now,
+          total_listening_duration: { increment: creditedSeconds },
+          session_count: { increment: newSession ? 1 : 0 },
+          current_track_id: currentTrack ? currentTrack.track_id : undefined,
+          tracks_completed: tracksCompleted,
+          risk_score: riskScore,
+          risk_flags: riskFlags
+        }
+      }),
+      prisma.listeningHeartbeat.create({
+        data: {
+          participant_id: participant.id,
+          duration_seconds: creditedSeconds,
+          is_playing: heartbeat.isPlaying,
+          recorded_at: now,
+          elapsed_ms: elapsedMs,
+          position_seconds: positionSeconds,
+          flags
+        }
+      })
+    ]);
+
+    if (flags.length) {
+      console.warn(`🚩 Heartbeat flags for ${participant.discord_id} in party ${participant.party_id}: ${flags.join(', ')} (risk ${riskScore})`);
+    }
+
+    let result = updated;
+    const qualification = evaluateQualification(party, updated, tracks);
+
+    if (qualification.qualified && !updated.qualified_at && updated.review_status !== 'REJECTED') {
+      if (updated.review_status === 'APPROVED' || !requiresReview(riskScore)) {
+        result = await prisma.listeningPartyParticipant.update({
+          where: { id: participant.id },
+          data: { qualified_at: now }
+        });
+        emitPartyChanged(participant.party_id, 'participant_qualified', participant.discord_id);
+      } else if (updated.review_status !== 'PENDING_REVIEW') {
+        result = await prisma.listeningPartyParticipant.update({
+          where: { id: participant.id },
+          data: { review_status: 'PENDING_REVIEW' }
+        });
+        console.log(`🔍 Participant ${participant.discord_id} held for review in party ${participant.party_id} (risk ${riskScore})`);
+      }
+    }
+
+    return {
+      participant: result,
+      qualification: { ...qualification, qualified: Boolean(result.qualified_at) },
+      heldForReview: result.review_status === 'PENDING_REVIEW',
+      track
+    };
+  }
+
+  /**
+   * Whether the user's Audius or Spotify account is also linked to another Discord account
+   */
+  static async isPlatformAccountShared(discordId: string, platform: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { discord_id: discordId },
+      select: { audius_user_id: true, spotify_user_id: true }
+    });
+
+    if (platform === 'SPOTIFY') {
+      if (!user?.spotify_user_id) return false;
+      const others = await prisma.user.count({
+        where: { spotify_user_id: user.spotify_user_id, discord_id: { not: discordId } }
+      });
+      return others > 0;
+    }
+
+    if (!user?.audius_user_id) return false;
+    const others = await prisma.user.count({
+      where: { audius_user_id: user.audius_user_id, discord_id: { not: discordId } }
+    });
+    return others > 0;
+  }
+
+  /**
+   * Record the artist's decision on a participant held for review
+   */
+  static async reviewListeningPartyParticipant(
+    participantId: string,
+    reviewerDiscordId: string,
+    approve: boolean
+  ): Promise<ListeningPartyParticipant> {
+    const now = new Date();
+    const reviewed = await prisma.listeningPartyParticipant.update({
+      where: { id: participantId },
+      data: {
+        review_status: approve ? 'APPROVED' : 'REJECTED',
+        reviewed_at: now,
+        reviewed_by: reviewerDiscordId,
+        qualified_at: approve ? now : null
+      }
+    });
+
+    if (approve) {
+      emitPartyChanged(reviewed.party_id, 'participant_qualified', reviewed.discord_id);
+    }
+    return reviewed;
+  }
+
+  /**
+   * Mark a participant as listening when platform tracking starts, opening a new
+   * session and recording which platform verified them
+   */
+  static async startPartyListeningSession(
+    participant: ListeningPartyParticipant,
+    platform: Platform
+  ): Promise<ListeningPartyParticipant> {
+    const now = new Date();
+    return await prisma.listeningPartyParticipant.update({
+      where: { id: participant.id },
+      data: {
+        is_listening: true,
+        platform,
+        first_heartbeat_at: participant.first_heartbeat_at || now,
+        last_heartbeat_at: now,
+        session_count: { increment: startsNewSession(participant, now) ? 1 : 0 }
+      }
+    });
+  }
+
+  /**
+   * Find the Discord user owning a wallet (Privy-linked or custodial)
+   */
+  static async getDiscordIdByWallet(walletAddress: string): Promise<string | null> {
+    const user = await prisma.user.findFirst({
+      where: {
+        OR: [
+          { privy_wallet_address: walletAddress },
+          { wallets: { some: { public_key: walletAddress } } }
+        ]
+      },
+      select: { discord_id: true }
+    });
+    return user?.discord_id ?? null;
+  }
+
   static async getAllTokens(): Promise<Token[]> {
     return await prisma.token.findMany({
       orderBy: { symbol: 'asc' }
@@ -1278,6 +1629,40 @@ class PrismaDatabase {
     });
   }
 
+  /**
+   * Make a token the default reward token; only one token holds the flag at a time
+   */
+  static async setDefaultRewardToken(mint: string): Promise<Token> {
+    const [, token] = await prisma.$transaction([
+      prisma.token.updateMany({
+        where: { default_for_rewards: true, mint: { not: mint } },
+        data: { default_for_rewards: false }
+      }),
+      prisma.token.update({
+        where: { mint },
+        data: { default_for_rewards: true, enabled: true }
+      })
+    ]);
+    return token;
+  }
+
+  /**
+   * Raw token amounts still locked in open party escrows (unclaimed seats), by mint
+   */
+  static async getEscrowedTokenTotals(): Promise<Map<string, bigint>> {
+    const parties = await prisma.listeningParty.findMany({
+      where: { raid_escrow_pda: { not: null }, escrow_closed_at: null },
+      select: { token_mint: true, tokens_per_participant: true, max_participants: true, claimed_count: true }
+    });
+
+    const totals = new Map<string, bigint>();
+    for (const party of parties) {
+      const unclaimedSeats = BigInt(Math.max(0, party.max_participants - party.claimed_count));
+      totals.set(party.token_mint, (totals.get(party.token_mint) ?? BigInt(0)) + unclaimedSeats * party.tokens_per_participant);
+    }
+    return totals;
+  }
+
   // Withdrawal methods
   // REMOVED: Withdrawal operations - to be implemented later with proper security
 
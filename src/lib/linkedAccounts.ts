@@ -0,0 +1,137 @@
+/**
+ * Linked account health
+ * Whether a user's Spotify, Audius, Discord and wallet links work, and the
+ * per-provider "needs reconnect" state set when a provider stops accepting
+ * the user's tokens. The state is cleared when the user logs in again.
+ */
+
+import { Prisma, ReconnectReason, User, Wallet } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import config from '../config/environment';
+
+export type LinkedAccountProvider = 'SPOTIFY' | 'AUDIUS' | 'DISCORD' | 'WALLET';
+
+/** Providers whose tokens we refresh, and so can need a reconnect */
+export type ReconnectableProvider = 'SPOTIFY' | 'DISCORD';
+
+export type LinkedAccountStatus = 'CONNECTED' | 'NEEDS_RECONNECT' | 'NOT_CONNECTED';
+
+export interface LinkedAccountHealth {
+  provider: LinkedAccountProvider;
+  status: LinkedAccountStatus;
+  account: string | null; // display name, handle or wallet address
+  reconnect_reason: ReconnectReason | null;
+  reconnect_since: Date | null;
+  token_expires_at: Date | null; // only for providers we hold tokens for
+  reconnect_url: string | null; // dashboard link that starts the provider's login
+}
+
+export const PROVIDER_NAMES: Record<LinkedAccountProvider, string> = {
+  SPOTIFY: 'Spotify',
+  AUDIUS: 'Audius',
+  DISCORD: 'Discord',
+  WALLET: 'Wallet',
+};
+
+/**
+ * Dashboard link that logs the user back in to a provider (works from a DM:
+ * the dashboard asks for a Discord login first when there's no session)
+ */
+export function reconnectUrl(provider: ReconnectableProvider): string {
+  return `${config.api.dashboardUrl.replace(/\/$/, '')}/api/auth/reconnect/${provider.toLowerCase()}`;
+}
+
+function pendingWhere(provider: ReconnectableProvider): Prisma.UserWhereInput {
+  return provider === 'SPOTIFY' ? { spotify_reconnect_reason: null } : { discord_reconnect_reason: null };
+}
+
+function flaggedWhere(provider: ReconnectableProvider): Prisma.UserWhereInput {
+  return provider === 'SPOTIFY' ? { spotify_reconnect_reason: { not: null } } : { discord_reconnect_reason: { not: null } };
+}
+
+function reconnectData(provider: ReconnectableProvider, reason: ReconnectReason | null): Prisma.UserUpdateManyMutationInput {
+  const since = reason ? new Date() : null;
+  return provider === 'SPOTIFY'
+    ? { spotify_reconnect_reason: reason, spotify_reconnect_since: since, spotify_reconnect_notified_at: null }
+    : { discord_reconnect_reason: reason, discord_reconnect_since: since, discord_reconnect_notified_at: null };
+}
+
+/**
+ * Flag a provider as needing the user to log in again. Returns false when it
+ * was already flagged (the original reason and time are kept).
+ */
+export async function markNeedsReconnect(
+  discordId: string,
+  provider: ReconnectableProvider,
+  reason: ReconnectReason
+): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: { discord_id: discordId, ...pendingWhere(provider) },
+    data: reconnectData(provider, reason),
+  });
+  if (count > 0) {
+    console.warn(`⚠️ ${PROVIDER_NAMES[provider]} needs reconnect for user ${discordId} (${reason})`);
+  }
+  return count > 0;
+}
+
+/**
+ * Clear the reconnect flag after the user has logged in to the provider again
+ */
+export async function clearNeedsReconnect(discordId: string, provider: ReconnectableProvider): Promise<void> {
+  const { count } = await prisma.user.updateMany({
+    where: { discord_id: discordId, ...flaggedWhere(provider) },
+    data: reconnectData(provider, null),
+  });
+  if (count > 0) {
+    console.log(`✅ ${PROVIDER_NAMES[provider]} reconnected for user ${discordId}`);
+  }
+}
+
+/**
+ * Health of every linked account, in the order the dashboard shows them
+ */
+export function describeLinkedAccounts(user: User, wallet: Wallet | null): LinkedAccountHealth[] {
+  const spotifyLinked = Boolean(user.spotify_refresh_token);
+  const discordLinked = Boolean(user.discord_access_token);
+
+  return [
+    {
+      provider: 'SPOTIFY',
+      status: user.spotify_reconnect_reason ? 'NEEDS_RECONNECT' : spotifyLinked ? 'CONNECTED' : 'NOT_CONNECTED',
+      account: user.spotify_display_name,
+      reconnect_reason: user.spotify_reconnect_reason,
+      reconnect_since: user.spotify_reconnect_since,
+      token_expires_at: spotifyLinked ? user.spotify_token_expires_at : null,
+      reconnect_url: reconnectUrl('SPOTIFY'),
+    },
+    {
+      // Audius logins are verified once; no tokens are kept to expire
+      provider: 'AUDIUS',
+      status: user.audius_user_id ? 'CONNECTED' : 'NOT_CONNECTED',
+      account: user.audius_handle ? `@${user.audius_handle}` : user.audius_name,
+      reconnect_reason: null,
+      reconnect_since: null,
+      token_expires_at: null,
+      reconnect_url: null,
+    },
+    {
+      provider: 'DISCORD',
+      status: user.discord_reconnect_reason ? 'NEEDS_RECONNECT' : discordLinked ? 'CONNECTED' : 'NOT_CONNECTED',
+      account: user.discord_username,
+      reconnect_reason: user.discord_reconnect_reason,
+      reconnect_since: user.discord_reconnect_since,
+      token_expires_at: discordLinked ? user.discord_token_expires_at : null,
+      reconnect_url: reconnectUrl('DISCORD'),
+    },
+    {
+      provider: 'WALLET',
+      status: wallet ? 'CONNECTED' : 'NOT_CONNECTED',
+      account: wallet?.public_key ?? null,
+      reconnect_reason: null,
+      reconnect_since: null,
+      token_expires_at: null,
+      reconnect_url: null,
+    },
+  ];
+}
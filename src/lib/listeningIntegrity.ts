@@ -0,0 +1,116 @@
+/**
+ * Listening heartbeat integrity checks
+ * Decides how much wall-clock time a heartbeat is worth and which anti-cheat
+ * signals it raises, and turns accumulated signals into a participant risk score.
+ */
+
+import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+
+export type RiskFlag =
+  | 'BURST' // heartbeats arriving faster than the polling interval
+  | 'OVERLAPPING_SESSION' // listening in another party at the same time
+  | 'POSITION_JUMP' // playback position advanced further than wall-clock time allows
+  | 'SHARED_PLATFORM_ACCOUNT'; // Audius/Spotify account linked to several Discord accounts
+
+/** Occurrences of each flag, stored on the participant as JSON */
+export type RiskFlagCounts = Partial<Record<RiskFlag, number>>;
+
+/** Points per occurrence and the most a single flag can contribute */
+const RISK_WEIGHTS: Record<RiskFlag, { points: number; max: number }> = {
+  BURST: { points: 5, max: 30 },
+  OVERLAPPING_SESSION: { points: 15, max: 45 },
+  POSITION_JUMP: { points: 10, max: 40 },
+  SHARED_PLATFORM_ACCOUNT: { points: 60, max: 60 },
+};
+
+export interface HeartbeatSample {
+  isPlaying: boolean;
+  newSession: boolean;
+  /** Milliseconds since the previous heartbeat, null for the first one */
+  elapsedMs: number | null;
+  positionSeconds?: number | null;
+  previousPositionSeconds?: number | null;
+  /** Same Discord user is actively listening in another party */
+  overlapping: boolean;
+}
+
+export interface HeartbeatAssessment {
+  creditedSeconds: number;
+  flags: RiskFlag[];
+}
+
+/**
+ * Credit only the real time since the previous heartbeat, capped so a stalled
+ * client cannot bank a large gap, and withhold credit for suspicious beats
+ */
+export function assessHeartbeat(sample: HeartbeatSample): HeartbeatAssessment {
+  const flags: RiskFlag[] = [];
+
+  if (!sample.isPlaying) {
+    return { creditedSeconds: 0, flags };
+  }
+
+  if (sample.elapsedMs !== null && sample.elapsedMs < LISTENING_PARTY_CONSTANTS.BURST_MIN_INTERVAL_MS) {
+    flags.push('BURST');
+  }
+
+  if (sample.overlapping) {
+    flags.push('OVERLAPPING_SESSION');
+  }
+
+  if (
+    !sample.newSession &&
+    sample.elapsedMs !== null &&
+    sample.positionSeconds != null &&
+    sample.previousPositionSeconds != null
+  ) {
+    // Going backwards (replay, loop) earns nothing extra; skipping ahead is what matters
+    const advanced = sample.positionSeconds - sample.previousPositionSeconds;
+    const possible = sample.elapsedMs / 1000 + LISTENING_PARTY_CONSTANTS.POSITION_JUMP_TOLERANCE_SECONDS;
+    if (advanced > possible) {
+      flags.push('POSITION_JUMP');
+    }
+  }
+
+  // A new session has no listened interval behind it yet
+  if (sample.newSession || sample.elapsedMs === null || flags.includes('BURST') || sample.overlapping) {
+    return { creditedSeconds: 0, flags };
+  }
+
+  const creditedSeconds = Math.min(
+    Math.round(sample.elapsedMs / 1000),
+    LISTENING_PARTY_CONSTANTS.MAX_CREDITED_SECONDS_PER_HEARTBEAT
+  );
+
+  return { creditedSeconds, flags };
+}
+
+export function parseRiskFlags(value: unknown): RiskFlagCounts {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return value as RiskFlagCounts;
+}
+
+export function mergeRiskFlags(existing: RiskFlagCounts, flags: RiskFlag[]): RiskFlagCounts {
+  const merged: RiskFlagCounts = { ...existing };
+  for (const flag of flags) {
+    merged[flag] = (merged[flag] || 0) + 1;
+  }
+  return merged;
+}
+
+/**
+ * Risk score from 0 (clean) to 100
+ */
+export function scoreRisk(counts: RiskFlagCounts): number {
+  let score = 0;
+  for (const [flag, weight] of Object.entries(RISK_WEIGHTS) as [RiskFlag, { points: number; max: number }][]) {
+    score += Math.min((counts[flag] || 0) * weight.points, weight.max);
+  }
+  return Math.min(score, 100);
+}
+
+export function requiresReview(riskScore: number): boolean {
+  return riskScore >= LISTENING_PARTY_CONSTANTS.RISK_REVIEW_THRESHOLD;
+}
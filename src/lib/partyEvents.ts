@@ -0,0 +1,33 @@
+/**
+ * Listening party change events
+ * The API, database layer and background workers announce participation
+ * changes here; the bot listens to keep posted party embeds current and to
+ * hand out role rewards.
+ */
+
+import { EventEmitter } from 'events';
+
+export type PartyChangeReason =
+  | 'participant_joined'
+  | 'participant_qualified'
+  | 'claimed'
+  | 'ended';
+
+export interface PartyChangeEvent {
+  partyId: string;
+  reason: PartyChangeReason;
+  discordId?: string; // the participant, for participant events
+}
+
+const PARTY_CHANGED = 'party_changed';
+
+const emitter = new EventEmitter();
+
+export function emitPartyChanged(partyId: string, reason: PartyChangeReason, discordId?: string): void {
+  emitter.emit(PARTY_CHANGED, { partyId, reason, discordId } satisfies PartyChangeEvent);
+}
+
+export function onPartyChanged(listener: (event: PartyChangeEvent) => void): () => void {
+  emitter.on(PARTY_CHANGED, listener);
+  return () => emitter.off(PARTY_CHANGED, listener);
+}
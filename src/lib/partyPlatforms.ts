@@ -0,0 +1,86 @@
+/**
+ * Cross-platform listening parties
+ * A party's track_id belongs to its primary platform; cross-platform parties
+ * also carry the matched recording's ID for each platform, so a fan can
+ * qualify on whichever service they have linked.
+ */
+
+import { Platform } from '@prisma/client';
+
+export const LISTENING_PLATFORMS: Platform[] = ['SPOTIFY', 'AUDIUS'];
+
+/** Track ID columns shared by ListeningParty and ListeningPartyTrack */
+export interface PlatformTrackIds {
+  track_id: string;
+  spotify_track_id: string | null;
+  audius_track_id: string | null;
+}
+
+/** A party track as seen by one platform's verification backend */
+export interface PlatformTrackMapping {
+  track_id: string; // ID the party stores progress under
+  platform_track_id: string;
+}
+
+/**
+ * ID of a track on `platform`, or null when the party can't be verified there.
+ * Parties created before cross-platform support only have track_id.
+ */
+export function trackIdOnPlatform(track: PlatformTrackIds, primary: Platform, platform: Platform): string | null {
+  const explicit = platform === 'SPOTIFY' ? track.spotify_track_id : track.audius_track_id;
+  return explicit ?? (platform === primary ? track.track_id : null);
+}
+
+/**
+ * Platforms a fan can qualify on: every track of the party must have an ID there
+ */
+export function partyPlatforms(
+  party: PlatformTrackIds & { platform: Platform },
+  tracks: PlatformTrackIds[] = []
+): Platform[] {
+  const entries = tracks.length ? tracks : [party];
+  return LISTENING_PLATFORMS.filter((platform) =>
+    entries.every((track) => trackIdOnPlatform(track, party.platform, platform) !== null)
+  );
+}
+
+/** Per-platform IDs of a track, for API responses */
+export function platformTrackIds(track: PlatformTrackIds, primary: Platform): Record<Platform, string | null> {
+  return {
+    SPOTIFY: trackIdOnPlatform(track, primary, 'SPOTIFY'),
+    AUDIUS: trackIdOnPlatform(track, primary, 'AUDIUS'),
+  };
+}
+
+/**
+ * The party's tracks in `platform`'s ID space, mapped back to the IDs progress
+ * is stored under. Empty when the party isn't available on that platform.
+ */
+export function tracksOnPlatform(
+  party: PlatformTrackIds & { platform: Platform },
+  tracks: PlatformTrackIds[],
+  platform: Platform
+): PlatformTrackMapping[] {
+  if (!partyPlatforms(party, tracks).includes(platform)) {
+    return [];
+  }
+  return (tracks.length ? tracks : [party]).map((track) => ({
+    track_id: track.track_id,
+    platform_track_id: trackIdOnPlatform(track, party.platform, platform) as string,
+  }));
+}
+
+/**
+ * Pick the verification backend for a fan: the party's primary platform when
+ * they have it linked, otherwise any other platform the party supports.
+ */
+export function pickListeningPlatform(
+  available: Platform[],
+  primary: Platform,
+  linked: Record<Platform, boolean>
+): Platform | null {
+  if (available.includes(primary) && linked[primary]) {
+    return primary;
+  }
+  return available.find((platform) => linked[platform]) ?? null;
+}
@@ -0,0 +1,195 @@
+/**
+ * Listening party qualification rules
+ * Shared by the heartbeat endpoints, platform verification services and the
+ * bot embeds so every surface agrees on what "qualified" means for a party.
+ */
+
+import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+
+/** Rule columns stored on ListeningParty */
+export interface QualificationRules {
+  min_listen_seconds: number;
+  required_track_percent: number | null;
+  require_full_listen: boolean;
+  min_sessions: number;
+  track_duration_seconds: number | null;
+  required_track_count?: number | null;
+}
+
+/** Per-track requirement of a multi-track (EP / playlist) party */
+export interface TrackRequirement {
+  required_seconds: number;
+}
+
+/** Rules as returned by the API, with the effective listening requirement resolved */
+export interface QualificationRulesSummary extends QualificationRules {
+  required_seconds: number;
+  track_count: number;
+  required_tracks: number;
+}
+
+export interface QualificationProgress {
+  total_listening_duration: number;
+  session_count: number;
+  tracks_completed?: number;
+}
+
+export interface QualificationStatus {
+  qualified: boolean;
+  listened_seconds: number;
+  required_seconds: number;
+  sessions: number;
+  required_sessions: number;
+  tracks_completed: number;
+  required_tracks: number;
+}
+
+/** A pause longer than this starts a new listening session */
+export const SESSION_GAP_SECONDS = 60;
+
+/**
+ * Seconds of verified listening a participant needs under the party's rules
+ */
+export function requiredListenSeconds(rules: QualificationRules): number {
+  let required = rules.min_listen_seconds;
+  const duration = rules.track_duration_seconds;
+
+  if (duration) {
+    if (rules.required_track_percent) {
+      required = Math.max(required, Math.ceil((duration * rules.required_track_percent) / 100));
+    }
+    if (rules.require_full_listen) {
+      // Heartbeats are polled, so allow one interval of slack at the end of the track
+      required = Math.max(required, duration - LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL);
+    }
+  }
+
+  return required;
+}
+
+/**
+ * Tracks a participant must complete; single-track parties count as one track
+ */
+export function requiredTrackCount(rules: QualificationRules, trackCount: number): number {
+  if (trackCount <= 1) {
+    return 1;
+  }
+  return rules.required_track_count ? Math.min(rules.required_track_count, trackCount) : trackCount;
+}
+
+/**
+ * Least total listening that can satisfy a multi-track party (the N shortest requirements)
+ */
+function requiredMultiTrackSeconds(tracks: TrackRequirement[], requiredTracks: number): number {
+  return tracks
+    .map((t) => t.required_seconds)
+    .sort((a, b) => a - b)
+    .slice(0, requiredTracks)
+    .reduce((sum, seconds) => sum + seconds, 0);
+}
+
+/**
+ * Pass the party's tracks for multi-track parties; a fan then qualifies by
+ * completing all (or required_track_count) of them instead of on total time
+ */
+export function evaluateQualification(
+  rules: QualificationRules,
+  progress: QualificationProgress,
+  tracks: TrackRequirement[] = []
+): QualificationStatus {
+  const requiredSessions = Math.max(rules.min_sessions, 1);
+  const requiredTracks = requiredTrackCount(rules, tracks.length);
+  const isMultiTrack = tracks.length > 1;
+
+  const requiredSeconds = isMultiTrack
+    ? requiredMultiTrackSeconds(tracks, requiredTracks)
+    : requiredListenSeconds(rules);
+  const tracksCompleted = isMultiTrack
+    ? progress.tracks_completed ?? 0
+    : Number(progress.total_listening_duration >= requiredSeconds);
+
+  return {
+    qualified: tracksCompleted >= requiredTracks && progress.session_count >= requiredSessions,
+    listened_seconds: progress.total_listening_duration,
+    required_seconds: requiredSeconds,
+    sessions: progress.session_count,
+    required_sessions: requiredSessions,
+    tracks_completed: tracksCompleted,
+    required_tracks: requiredTracks,
+  };
+}
+
+/**
+ * Whether a heartbeat that reports playback starts a new session
+ */
+export function startsNewSession(
+  participant: { is_listening: boolean; last_heartbeat_at: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (!participant.is_listening || !participant.last_heartbeat_at) {
+    return true;
+  }
+  return now.getTime() - participant.last_heartbeat_at.getTime() > SESSION_GAP_SECONDS * 1000;
+}
+
+export function summarizeQualificationRules(
+  rules: QualificationRules,
+  tracks: TrackRequirement[] = []
+): QualificationRulesSummary {
+  const requiredTracks = requiredTrackCount(rules, tracks.length);
+  return {
+    min_listen_seconds: rules.min_listen_seconds,
+    required_track_percent: rules.required_track_percent,
+    require_full_listen: rules.require_full_listen,
+    min_sessions: rules.min_sessions,
+    track_duration_seconds: rules.track_duration_seconds,
+    required_track_count: rules.required_track_count ?? null,
+    required_seconds: tracks.length > 1
+      ? requiredMultiTrackSeconds(tracks, requiredTracks)
+      : requiredListenSeconds(rules),
+    track_count: Math.max(tracks.length, 1),
+    required_tracks: requiredTracks,
+  };
+}
+
+/**
+ * Human-readable requirement for embeds, e.g. "Listen to the whole track (3m 20s) across 2 sessions"
+ */
+export function describeQualificationRules(rules: QualificationRulesSummary | QualificationRules): string {
+  const required = 'required_seconds' in rules ? rules.required_seconds : requiredListenSeconds(rules);
+  const trackCount = 'track_count' in rules ? rules.track_count : 1;
+  let text: string;
+
+  if (trackCount > 1) {
+    const requiredTracks = 'required_tracks' in rules ? rules.required_tracks : trackCount;
+    const each = rules.require_full_listen
+      ? 'listen to each one all the way through'
+      : rules.required_track_percent
+        ? `listen to at least ${rules.required_track_percent}% of each`
+        : `listen to each for at least ${formatSeconds(rules.min_listen_seconds)}`;
+    text = requiredTracks >= trackCount
+      ? `Complete all ${trackCount} tracks (${each})`
+      : `Complete ${requiredTracks} of the ${trackCount} tracks (${each})`;
+  } else if (rules.require_full_listen && rules.track_duration_seconds) {
+    text = `Listen to the whole track (${formatSeconds(rules.track_duration_seconds)})`;
+  } else if (rules.required_track_percent && rules.track_duration_seconds && required > rules.min_listen_seconds) {
+    text = `Listen to ${rules.required_track_percent}% of the track (${formatSeconds(required)})`;
+  } else {
+    text = `Listen for at least ${formatSeconds(required)}`;
+  }
+
+  if (rules.min_sessions > 1) {
+    text += ` across ${rules.min_sessions} separate sessions`;
+  }
+
+  return text;
+}
+
+export function formatSeconds(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return remainder ? `${minutes}m ${remainder}s` : `${minutes}m`;
+}
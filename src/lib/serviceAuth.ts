@@ -0,0 +1,104 @@
+/**
+ * Service-to-service request signing
+ * Bot-side callers sign requests with SERVICE_AUTH_SECRET so the API can trust
+ * the discord_id they act on behalf of. Verified by requireServiceAuth.
+ */
+
+import * as crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import config from '../config/environment';
+
+export const SERVICE_AUTH_HEADERS = {
+  TIMESTAMP: 'x-volume-timestamp',
+  NONCE: 'x-volume-nonce',
+  SIGNATURE: 'x-volume-signature',
+} as const;
+
+/** Maximum clock skew accepted between signer and verifier */
+export const SERVICE_AUTH_MAX_SKEW_MS = 5 * 60 * 1000;
+
+const ensureServiceSecret = (): string => {
+  if (!config.security.serviceAuthSecret) {
+    throw new Error('Service auth secret is not configured. Set SERVICE_AUTH_SECRET in the environment.');
+  }
+  return config.security.serviceAuthSecret;
+};
+
+const hashBody = (body: string | Buffer): string => {
+  return crypto.createHash('sha256').update(body).digest('hex');
+};
+
+/**
+ * Compute the HMAC for a request. `path` must include the query string.
+ */
+export function computeServiceSignature(
+  method: string,
+  path: string,
+  timestamp: string,
+  nonce: string,
+  body: string | Buffer
+): string {
+  const payload = [timestamp, nonce, method.toUpperCase(), path, hashBody(body)].join('.');
+  return crypto.createHmac('sha256', ensureServiceSecret()).update(payload).digest('hex');
+}
+
+/**
+ * Build signed headers for a request from the bot process
+ */
+export function signServiceRequest(method: string, path: string, body: string = ''): Record<string, string> {
+  const timestamp = Date.now().toString();
+  const nonce = crypto.randomBytes(16).toString('hex');
+
+  return {
+    [SERVICE_AUTH_HEADERS.TIMESTAMP]: timestamp,
+    [SERVICE_AUTH_HEADERS.NONCE]: nonce,
+    [SERVICE_AUTH_HEADERS.SIGNATURE]: computeServiceSignature(method, path, timestamp, nonce, body),
+  };
+}
+
+/**
+ * Axios instance that signs every request against the public API URL
+ */
+export function createServiceClient(baseURL: string): AxiosInstance {
+  const client = axios.create({
+    baseURL: baseURL.replace(/\/$/, ''),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  client.interceptors.request.use((request) => {
+    const body = request.data === undefined
+      ? ''
+      : typeof request.data === 'string' ? request.data : JSON.stringify(request.data);
+    // Send exactly the bytes we signed
+    request.data = body || undefined;
+
+    const url = new URL(client.getUri(request));
+    const headers = signServiceRequest(request.method || 'get', `${url.pathname}${url.search}`, body);
+    for (const [name, value] of Object.entries(headers)) {
+      request.headers.set(name, value);
+    }
+    return request;
+  });
+
+  return client;
+}
+
+/**
+ * fetch() wrapper that signs the request, for callers that handle raw responses
+ */
+export async function serviceFetch(
+  url: string,
+  init: { method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'; body?: unknown }
+): Promise<globalThis.Response> {
+  const body = init.body === undefined ? '' : JSON.stringify(init.body);
+  const { pathname, search } = new URL(url);
+
+  return fetch(url, {
+    method: init.method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...signServiceRequest(init.method, `${pathname}${search}`, body),
+    },
+    body: body || undefined,
+  });
+}
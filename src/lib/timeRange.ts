@@ -0,0 +1,37 @@
+/**
+ * Time range helpers for analytics endpoints (?range=7d or ?from=&to=)
+ */
+
+export const TIME_RANGE_PRESETS = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  all: null,
+} as const;
+
+export type TimeRangePreset = keyof typeof TIME_RANGE_PRESETS;
+
+export interface TimeRange {
+  from: Date | null; // null = since the beginning
+  to: Date;
+}
+
+/** Ranges are rounded to the minute so repeated requests share a cache entry */
+const RANGE_ROUNDING_MS = 60 * 1000;
+
+/**
+ * Resolve a preset (or explicit from/to) into concrete bounds. An explicit
+ * `from` wins over the preset; `to` defaults to now.
+ */
+export function resolveTimeRange(preset: TimeRangePreset, from?: Date, to?: Date): TimeRange {
+  const end = to ?? new Date();
+  const roundedEnd = new Date(Math.ceil(end.getTime() / RANGE_ROUNDING_MS) * RANGE_ROUNDING_MS);
+
+  if (from) {
+    return { from: new Date(Math.floor(from.getTime() / RANGE_ROUNDING_MS) * RANGE_ROUNDING_MS), to: roundedEnd };
+  }
+
+  const span = TIME_RANGE_PRESETS[preset];
+  return { from: span === null ? null : new Date(roundedEnd.getTime() - span), to: roundedEnd };
+}
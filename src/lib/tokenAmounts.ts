@@ -0,0 +1,35 @@
+/**
+ * Token amount helpers
+ * On-chain amounts are raw u64 integers; these convert them to and from a mint's decimals.
+ */
+
+/**
+ * Render a raw u64 amount with the token's decimals without losing precision
+ */
+export function formatRawAmount(raw: bigint, decimals: number): string {
+  if (decimals === 0) return raw.toString();
+  const padded = raw.toString().padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Convert a UI amount ("1.5" or 1.5) to raw u64 units without going through
+ * floating point multiplication. Digits past the mint's decimals are dropped,
+ * so the result never exceeds what was asked for.
+ */
+export function toRawAmount(amount: string | number, decimals: number): bigint {
+  const text = typeof amount === 'number'
+    ? (/e/i.test(String(amount)) ? amount.toFixed(decimals) : String(amount))
+    : amount.trim();
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = (match[2] || '').slice(0, decimals).padEnd(decimals, '0');
+  return BigInt(whole + fraction);
+}
@@ -0,0 +1,29 @@
+/**
+ * Token picker for slash commands
+ * Autocompletes a "token" option with SOL and every enabled token.
+ */
+
+import { AutocompleteInteraction } from 'discord.js';
+import PrismaDatabase from '../database/prisma';
+
+/** Discord shows at most 25 autocomplete choices */
+const MAX_CHOICES = 25;
+
+/**
+ * Answer an autocomplete request with the tokens matching what the user typed
+ * (by symbol or mint)
+ */
+export async function respondWithTokenChoices(interaction: AutocompleteInteraction): Promise<void> {
+  const query = interaction.options.getFocused().toLowerCase();
+  const tokens = await PrismaDatabase.getAllEnabledTokens();
+
+  const choices = [
+    { name: 'SOL', value: 'SOL' },
+    ...tokens.map(token => ({
+      name: `${token.symbol} (${token.mint.slice(0, 4)}…${token.mint.slice(-4)})`,
+      value: token.mint,
+    })),
+  ].filter(choice => !query || choice.name.toLowerCase().includes(query) || choice.value.toLowerCase().includes(query));
+
+  await interaction.respond(choices.slice(0, MAX_CHOICES));
+}
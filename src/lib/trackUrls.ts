@@ -0,0 +1,81 @@
+/**
+ * Parsing of track references (Spotify / Audius links, ISRCs) and the
+ * permalink used when a party has no canonical URL stored
+ */
+
+export type TrackReference =
+  | { kind: 'SPOTIFY'; trackId: string }
+  | { kind: 'AUDIUS_ID'; trackId: string }
+  | { kind: 'AUDIUS_PERMALINK'; url: string }
+  | { kind: 'ISRC'; isrc: string };
+
+const SPOTIFY_PATTERNS = [
+  /^spotify:track:([a-zA-Z0-9]+)$/,
+  /^https?:\/\/open\.spotify\.com\/(?:intl-[a-z]+\/)?track\/([a-zA-Z0-9]+)/,
+];
+
+// Audius paths that are app pages rather than /{handle}/{track-slug}
+const AUDIUS_RESERVED_PATHS = new Set(['embed', 'search', 'trending', 'feed', 'explore', 'settings', 'oauth']);
+
+const ISRC_PATTERN = /^[A-Z]{2}-?[A-Z0-9]{3}-?\d{2}-?\d{5}$/i;
+
+/**
+ * Extract a Spotify track ID from an open.spotify.com URL or spotify:track: URI
+ */
+export function extractSpotifyTrackId(input: string): string | null {
+  for (const pattern of SPOTIFY_PATTERNS) {
+    const match = input.trim().match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Work out what kind of track reference a user pasted. Bare IDs are ambiguous,
+ * so the caller passes the platform they belong to.
+ */
+export function parseTrackReference(input: string, bareIdPlatform?: 'SPOTIFY' | 'AUDIUS'): TrackReference | null {
+  const value = input.trim();
+
+  const spotifyId = extractSpotifyTrackId(value);
+  if (spotifyId) {
+    return { kind: 'SPOTIFY', trackId: spotifyId };
+  }
+
+  const audiusMatch = value.match(/^https?:\/\/(?:www\.)?audius\.co\/([^/?#]+)(?:\/([^/?#]+))?(?:\/([^/?#]+))?/);
+  if (audiusMatch) {
+    const [, first, second, third] = audiusMatch;
+    if (first === 'embed' && second === 'track' && third) {
+      return { kind: 'AUDIUS_ID', trackId: third };
+    }
+    if (second && !AUDIUS_RESERVED_PATHS.has(first)) {
+      return { kind: 'AUDIUS_PERMALINK', url: `https://audius.co/${first}/${second}` };
+    }
+    return null;
+  }
+
+  if (ISRC_PATTERN.test(value)) {
+    return { kind: 'ISRC', isrc: value.replace(/-/g, '').toUpperCase() };
+  }
+
+  if (bareIdPlatform && /^[a-zA-Z0-9]+$/.test(value)) {
+    return bareIdPlatform === 'SPOTIFY' ? { kind: 'SPOTIFY', trackId: value } : { kind: 'AUDIUS_ID', trackId: value };
+  }
+
+  return null;
+}
+
+/**
+ * Link for a party's track: the canonical permalink captured at creation, or
+ * an ID-based link for parties created before permalinks were stored
+ */
+export function trackPermalink(platform: string, trackId: string, trackUrl?: string | null): string {
+  if (trackUrl) {
+    return trackUrl;
+  }
+  return platform.toUpperCase() === 'SPOTIFY'
+    ? `https://open.spotify.com/track/${trackId}`
+    : `https://audius.co/embed/track/${trackId}`;
+}
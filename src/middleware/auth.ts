@@ -1,6 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import config from '../config/environment';
+import cacheService, { CacheKeys } from '../services/cache';
+import PrismaDatabase from '../database/prisma';
+import {
+  SERVICE_AUTH_HEADERS,
+  SERVICE_AUTH_MAX_SKEW_MS,
+  computeServiceSignature,
+} from '../lib/serviceAuth';
 
 // Session user interface
 interface SessionUser {
@@ -37,36 +45,197 @@ function parseCookie(cookieHeader?: string): Record<string, string> {
   return map;
 }
 
+function readSessionToken(req: Request): string | undefined {
+  const cookies = parseCookie(req.headers.cookie);
+  let token = cookies['session'];
+
+  if (!token && req.headers.authorization) {
+    const [scheme, value] = req.headers.authorization.split(' ');
+    if (scheme?.toLowerCase() === 'bearer') token = value;
+  }
+
+  return token;
+}
+
+function attachSessionUser(req: Request, res: Response, token: string): void {
+  const payload = jwt.verify(token, config.security.jwtSecret) as JwtPayload & SessionUser;
+  req.sessionUser = {
+    userId: payload.userId,
+    discordId: payload.discordId,
+    email: payload.email,
+    name: payload.name,
+    image: payload.image,
+    discordAccessToken: payload.discordAccessToken,
+    discordRefreshToken: payload.discordRefreshToken,
+    discordTokenExpiresAt: payload.discordTokenExpiresAt,
+  };
+  res.locals.sessionUser = req.sessionUser;
+}
+
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
   try {
-    const cookies = parseCookie(req.headers.cookie);
-    let token = cookies['session'];
+    const token = readSessionToken(req);
 
-    if (!token && req.headers.authorization) {
-      const [scheme, value] = req.headers.authorization.split(' ');
-      if (scheme?.toLowerCase() === 'bearer') token = value;
+    if (!token) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    attachSessionUser(req, res, token);
+    return next();
+  } catch (err) {
+    return res.status(401).json({ error: 'Invalid or expired session' });
+  }
+}
+
+/**
+ * Require a dashboard session belonging to a bot admin (SUPER_ADMIN_IDS or the admins table)
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = readSessionToken(req);
     if (!token) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
+    attachSessionUser(req, res, token);
+  } catch (err) {
+    return res.status(401).json({ error: 'Invalid or expired session' });
+  }
 
-    const payload = jwt.verify(token, config.security.jwtSecret) as JwtPayload & SessionUser;
-    req.sessionUser = {
-      userId: payload.userId,
-      discordId: payload.discordId,
-      email: payload.email,
-      name: payload.name,
-      image: payload.image,
-      discordAccessToken: payload.discordAccessToken,
-      discordRefreshToken: payload.discordRefreshToken,
-      discordTokenExpiresAt: payload.discordTokenExpiresAt,
-    };
-    res.locals.sessionUser = req.sessionUser;
+  try {
+    if (!(await PrismaDatabase.isAdmin(req.sessionUser!.discordId))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
     return next();
+  } catch (err) {
+    console.error('Admin auth error:', err);
+    return res.status(500).json({ error: 'Failed to verify admin access' });
+  }
+}
+
+/**
+ * Block users an admin has suspended. Runs after requireAuth or requireServiceOrSession;
+ * signed bot requests are checked against the discord_id they act for.
+ */
+export async function rejectSuspended(req: Request, res: Response, next: NextFunction) {
+  const discordId = req.sessionUser?.discordId ?? req.body?.discord_id;
+  if (!discordId) {
+    return next();
+  }
+
+  try {
+    const user = await PrismaDatabase.getUser(discordId);
+    if (user?.suspended_at) {
+      return res.status(403).json({ error: 'Account suspended', reason: user.suspended_reason });
+    }
+    return next();
+  } catch (err) {
+    console.error('Suspension check error:', err);
+    return res.status(500).json({ error: 'Failed to verify account status' });
+  }
+}
+
+// In-memory nonce store used when Redis is unavailable (single instance only)
+const seenNonces = new Map<string, number>();
+
+async function consumeNonce(nonce: string): Promise<boolean> {
+  const ttlSeconds = Math.ceil((SERVICE_AUTH_MAX_SKEW_MS * 2) / 1000);
+  const stored = await cacheService.setIfAbsent(CacheKeys.SERVICE_AUTH_NONCE(nonce), 1, ttlSeconds);
+  if (stored !== null) {
+    return stored;
+  }
+
+  const now = Date.now();
+  for (const [key, expiresAt] of seenNonces) {
+    if (expiresAt <= now) seenNonces.delete(key);
+  }
+  if (seenNonces.has(nonce)) {
+    return false;
+  }
+  seenNonces.set(nonce, now + ttlSeconds * 1000);
+  return true;
+}
+
+function hasServiceSignature(req: Request): boolean {
+  return Boolean(req.headers[SERVICE_AUTH_HEADERS.SIGNATURE]);
+}
+
+async function verifyServiceSignature(req: Request): Promise<string | null> {
+  if (!config.security.serviceAuthSecret) {
+    return 'Service authentication is not configured';
+  }
+
+  const timestamp = req.header(SERVICE_AUTH_HEADERS.TIMESTAMP);
+  const nonce = req.header(SERVICE_AUTH_HEADERS.NONCE);
+  const signature = req.header(SERVICE_AUTH_HEADERS.SIGNATURE);
+
+  if (!timestamp || !nonce || !signature) {
+    return 'Missing service signature headers';
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > SERVICE_AUTH_MAX_SKEW_MS) {
+    return 'Service signature expired';
+  }
+
+  const expected = computeServiceSignature(req.method, req.originalUrl, timestamp, nonce, req.rawBody ?? '');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const providedBuffer = Buffer.from(signature, 'hex');
+  if (expectedBuffer.length !== providedBuffer.length || !crypto.timingSafeEqual(expectedBuffer, providedBuffer)) {
+    return 'Invalid service signature';
+  }
+
+  if (!(await consumeNonce(nonce))) {
+    return 'Service signature already used';
+  }
+
+  return null;
+}
+
+/**
+ * Require an HMAC-signed request from the bot process (see lib/serviceAuth)
+ */
+export async function requireServiceAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const failure = await verifyServiceSignature(req);
+    if (failure) {
+      return res.status(401).json({ error: failure });
+    }
+    req.isServiceRequest = true;
+    return next();
+  } catch (err) {
+    console.error('Service auth error:', err);
+    return res.status(401).json({ error: 'Service authentication failed' });
+  }
+}
+
+/**
+ * Accept either a signed bot request (trusted to act for any discord_id) or a
+ * dashboard session, in which case discord_id is bound to the session user.
+ */
+export async function requireServiceOrSession(req: Request, res: Response, next: NextFunction) {
+  if (hasServiceSignature(req)) {
+    return requireServiceAuth(req, res, next);
+  }
+
+  try {
+    const token = readSessionToken(req);
+    if (!token) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    attachSessionUser(req, res, token);
   } catch (err) {
     return res.status(401).json({ error: 'Invalid or expired session' });
   }
+
+  const sessionDiscordId = req.sessionUser!.discordId;
+  if (req.body?.discord_id && req.body.discord_id !== sessionDiscordId) {
+    return res.status(403).json({ error: 'Cannot act on behalf of another user' });
+  }
+  if (req.body && typeof req.body === 'object') {
+    req.body.discord_id = sessionDiscordId;
+  }
+
+  return next();
 }
 
 export function optionalAuth(req: Request, _res: Response, next: NextFunction) {
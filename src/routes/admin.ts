@@ -2,21 +2,483 @@
  * Admin management routes
  */
 
-import { Router, type Router as RouterType } from 'express';
+import { Router, type Router as RouterType, Request, Response } from 'express';
+import { Prisma, Token, UserRole } from '@prisma/client';
+import { requireAdmin } from '../middleware/auth';
+import { validate, commonSchemas } from '../middleware/validation';
+import PrismaDatabase, { prisma } from '../database/prisma';
+import jupiterApi from '../services/jupiterApi';
+import { formatRawAmount } from '../lib/tokenAmounts';
+import adminAuditService, { AdminAuditTarget } from '../services/adminAudit';
+import AdminStatsService from '../services/adminStats';
+import keyRotationService from '../services/keyRotation';
+import SpotifyRequestScheduler from '../services/spotify/SpotifyRequestScheduler';
+import { TIME_RANGE_PRESETS, TimeRangePreset, resolveTimeRange } from '../lib/timeRange';
+import AdminUserService, { AdminUserError, LinkedPlatformFilter, WalletStatusFilter } from '../services/adminUsers';
+import Joi from 'joi';
 
 const router: RouterType = Router();
+const adminUserService = new AdminUserService();
+const adminStatsService = new AdminStatsService();
 
 router.get('/status', (req, res) => {
-  res.json({ 
-    status: 'ok', 
+  res.json({
+    status: 'ok',
     service: 'admin-routes',
-    timestamp: new Date().toISOString() 
+    timestamp: new Date().toISOString()
   });
 });
 
-// Placeholder admin routes
-router.get('/stats', (req, res) => {
-  res.status(501).json({ error: 'Not implemented' });
+/**
+ * GET /api/admin/stats
+ * Aggregated platform metrics for a preset range (24h, 7d, 30d, 90d, all) or a from/to window
+ */
+router.get(
+  '/stats',
+  requireAdmin,
+  validate({
+    query: Joi.object({
+      range: Joi.string().valid(...Object.keys(TIME_RANGE_PRESETS)).optional(),
+      from: Joi.date().iso().optional(),
+      to: Joi.date().iso().optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { range, from, to } = req.query as Record<string, string | undefined>;
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+
+      if (fromDate && toDate && fromDate >= toDate) {
+        return res.status(400).json({ error: '`from` must be before `to`' });
+      }
+
+      const stats = await adminStatsService.getStats(
+        resolveTimeRange((range as TimeRangePreset | undefined) ?? '7d', fromDate, toDate)
+      );
+      return res.json(stats);
+    } catch (err) {
+      console.error('admin/stats error', err);
+      return res.status(500).json({ error: 'Failed to load stats' });
+    }
+  }
+);
+
+const mintParams = Joi.object({ mint: commonSchemas.publicKey });
+
+function serializeToken(token: Token, priceUsd: number | null, escrowedRaw: bigint) {
+  return {
+    ...token,
+    price_usd: priceUsd,
+    escrowed_raw: escrowedRaw.toString(),
+    escrowed_amount: formatRawAmount(escrowedRaw, token.decimals),
+  };
+}
+
+/**
+ * GET /api/admin/tokens
+ * Every registered token with its live price and the amount locked in open party escrows
+ */
+router.get('/tokens', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const tokens = await PrismaDatabase.getAllTokens();
+    const [prices, escrowed] = await Promise.all([
+      jupiterApi.getTokenPrices(tokens.map((t) => t.mint)),
+      PrismaDatabase.getEscrowedTokenTotals(),
+    ]);
+
+    return res.json({
+      tokens: tokens.map((token) =>
+        serializeToken(token, prices[token.mint]?.usdPrice ?? null, escrowed.get(token.mint) ?? BigInt(0))
+      ),
+    });
+  } catch (err) {
+    console.error('admin/tokens list error', err);
+    return res.status(500).json({ error: 'Failed to load tokens' });
+  }
+});
+
+/**
+ * POST /api/admin/tokens
+ * Register a token by mint; symbol, decimals and logo are filled in from Jupiter
+ * unless given explicitly
+ */
+router.post(
+  '/tokens',
+  requireAdmin,
+  validate({
+    body: Joi.object({
+      mint: commonSchemas.publicKey,
+      symbol: Joi.string().trim().max(20).optional(),
+      decimals: Joi.number().integer().min(0).max(18).optional(),
+      logo_url: Joi.string().uri().optional(),
+      enabled: Joi.boolean().optional(),
+      default_for_rewards: Joi.boolean().optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { mint, symbol, decimals, logo_url, enabled, default_for_rewards } = req.body;
+
+      if (await PrismaDatabase.getTokenByMint(mint)) {
+        return res.status(409).json({ error: 'Token is already registered' });
+      }
+
+      const metadata = await jupiterApi.getTokenMetadata(mint);
+      const resolvedSymbol = symbol ?? metadata?.symbol;
+      const resolvedDecimals = decimals ?? metadata?.decimals;
+
+      if (!resolvedSymbol || resolvedDecimals === undefined) {
+        return res.status(422).json({
+          error: 'Could not find token metadata on Jupiter. Provide symbol and decimals manually.',
+        });
+      }
+
+      let token = await PrismaDatabase.createToken({
+        mint,
+        symbol: resolvedSymbol,
+        decimals: resolvedDecimals,
+        logoUrl: logo_url ?? metadata?.icon,
+        enabled: enabled ?? true,
+      });
+
+      if (default_for_rewards) {
+        token = await PrismaDatabase.setDefaultRewardToken(mint);
+      }
+
+      await adminAuditService.record({
+        actorDiscordId: req.sessionUser!.discordId,
+        action: 'TOKEN_ADDED',
+        targetType: 'TOKEN',
+        targetId: mint,
+        details: { symbol: token.symbol, decimals: token.decimals, enabled: token.enabled, default_for_rewards: token.default_for_rewards },
+      });
+
+      return res.status(201).json({ token });
+    } catch (err) {
+      console.error('admin/tokens create error', err);
+      return res.status(500).json({ error: 'Failed to add token' });
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/tokens/:mint
+ * Enable/disable a token, edit its display metadata or change the default reward token
+ */
+router.patch(
+  '/tokens/:mint',
+  requireAdmin,
+  validate({
+    params: mintParams,
+    body: Joi.object({
+      enabled: Joi.boolean().optional(),
+      symbol: Joi.string().trim().max(20).optional(),
+      logo_url: Joi.string().uri().allow(null).optional(),
+      default_for_rewards: Joi.boolean().optional(),
+    }).min(1),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { mint } = req.params;
+      const { enabled, symbol, logo_url, default_for_rewards } = req.body;
+
+      const existing = await PrismaDatabase.getTokenByMint(mint);
+      if (!existing) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      if (enabled === false && (default_for_rewards ?? existing.default_for_rewards)) {
+        return res.status(400).json({ error: 'Choose another default reward token before disabling this one' });
+      }
+
+      let token = await prisma.token.update({
+        where: { mint },
+        data: {
+          enabled,
+          symbol,
+          logo_url,
+          ...(default_for_rewards === false ? { default_for_rewards: false } : {}),
+        },
+      });
+
+      if (default_for_rewards === true) {
+        token = await PrismaDatabase.setDefaultRewardToken(mint);
+      }
+
+      await adminAuditService.record({
+        actorDiscordId: req.sessionUser!.discordId,
+        action: 'TOKEN_UPDATED',
+        targetType: 'TOKEN',
+        targetId: mint,
+        details: { changes: req.body },
+      });
+
+      return res.json({ token });
+    } catch (err) {
+      console.error('admin/tokens update error', err);
+      return res.status(500).json({ error: 'Failed to update token' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/tokens/:mint
+ * Remove a token that was never used; tokens with history can only be disabled
+ */
+router.delete(
+  '/tokens/:mint',
+  requireAdmin,
+  validate({ params: mintParams }),
+  async (req: Request, res: Response) => {
+    try {
+      const { mint } = req.params;
+      const partyCount = await prisma.listeningParty.count({ where: { token_mint: mint } });
+      if (partyCount > 0) {
+        return res.status(409).json({ error: 'Token has been used for listening parties. Disable it instead.' });
+      }
+
+      const token = await prisma.token.delete({ where: { mint } });
+      await adminAuditService.record({
+        actorDiscordId: req.sessionUser!.discordId,
+        action: 'TOKEN_REMOVED',
+        targetType: 'TOKEN',
+        targetId: mint,
+        details: { symbol: token.symbol },
+      });
+
+      return res.json({ success: true });
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError) {
+        if (err.code === 'P2025') {
+          return res.status(404).json({ error: 'Token not found' });
+        }
+        if (err.code === 'P2003') {
+          return res.status(409).json({ error: 'Token has deposits on record. Disable it instead.' });
+        }
+      }
+      console.error('admin/tokens delete error', err);
+      return res.status(500).json({ error: 'Failed to delete token' });
+    }
+  }
+);
+
+const discordIdParams = Joi.object({ discordId: commonSchemas.discordId });
+const reasonSchema = Joi.string().trim().min(3).max(500).required();
+
+function handleAdminUserError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof AdminUserError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  console.error(fallback, err);
+  return res.status(500).json({ error: fallback });
+}
+
+/**
+ * GET /api/admin/users
+ * Paginated user search, filterable by role, linked platforms, wallet status and suspension
+ */
+router.get(
+  '/users',
+  requireAdmin,
+  validate({
+    query: Joi.object({
+      search: Joi.string().trim().max(100).allow('').optional(),
+      role: Joi.string().valid('FAN', 'ARTIST', 'SUPER_ADMIN').optional(),
+      platform: Joi.string().valid('spotify', 'audius', 'none').optional(),
+      wallet: Joi.string().valid('custodial', 'privy', 'exported', 'none').optional(),
+      suspended: Joi.boolean().optional(),
+      page: Joi.number().integer().min(1).optional(),
+      page_size: Joi.number().integer().min(1).max(100).optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { search, role, platform, wallet, suspended, page, page_size } = req.query as Record<string, string | undefined>;
+
+      const result = await adminUserService.listUsers({
+        search,
+        role: role as UserRole | undefined,
+        platform: platform as LinkedPlatformFilter | undefined,
+        wallet: wallet as WalletStatusFilter | undefined,
+        // Query strings arrive as text
+        suspended: suspended === undefined ? undefined : suspended === 'true',
+        page: page ? Number(page) : undefined,
+        pageSize: page_size ? Number(page_size) : undefined,
+      });
+
+      return res.json(result);
+    } catch (err) {
+      console.error('admin/users list error', err);
+      return res.status(500).json({ error: 'Failed to load users' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/users/:discordId
+ * A single user plus the audit history of admin actions taken on them
+ */
+router.get(
+  '/users/:discordId',
+  requireAdmin,
+  validate({ params: discordIdParams }),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await adminUserService.getUser(req.params.discordId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const history = await adminAuditService.list({ targetType: 'USER', targetId: req.params.discordId, pageSize: 20 });
+      return res.json({ user, audit: history.entries });
+    } catch (err) {
+      console.error('admin/users get error', err);
+      return res.status(500).json({ error: 'Failed to load user' });
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/users/:discordId/role
+ * Promote or demote a user; a reason is required for the audit trail
+ */
+router.patch(
+  '/users/:discordId/role',
+  requireAdmin,
+  validate({
+    params: discordIdParams,
+    body: Joi.object({
+      role: Joi.string().valid('FAN', 'ARTIST', 'SUPER_ADMIN').required(),
+      reason: reasonSchema,
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      await adminUserService.changeRole(req.sessionUser!.discordId, req.params.discordId, req.body.role, req.body.reason);
+      return res.json({ user: await adminUserService.getUser(req.params.discordId) });
+    } catch (err) {
+      return handleAdminUserError(res, err, 'Failed to change role');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:discordId/suspend
+ * Block a user from parties, claims, transfers, withdrawals and bot commands
+ */
+router.post(
+  '/users/:discordId/suspend',
+  requireAdmin,
+  validate({ params: discordIdParams, body: Joi.object({ reason: reasonSchema }) }),
+  async (req: Request, res: Response) => {
+    try {
+      await adminUserService.suspend(req.sessionUser!.discordId, req.params.discordId, req.body.reason);
+      return res.json({ user: await adminUserService.getUser(req.params.discordId) });
+    } catch (err) {
+      return handleAdminUserError(res, err, 'Failed to suspend user');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:discordId/unsuspend
+ * Lift a suspension
+ */
+router.post(
+  '/users/:discordId/unsuspend',
+  requireAdmin,
+  validate({ params: discordIdParams, body: Joi.object({ reason: reasonSchema }) }),
+  async (req: Request, res: Response) => {
+    try {
+      await adminUserService.unsuspend(req.sessionUser!.discordId, req.params.discordId, req.body.reason);
+      return res.json({ user: await adminUserService.getUser(req.params.discordId) });
+    } catch (err) {
+      return handleAdminUserError(res, err, 'Failed to lift suspension');
+    }
+  }
+);
+
+/**
+ * GET /api/admin/audit-log
+ * Privileged admin actions, newest first
+ */
+router.get(
+  '/audit-log',
+  requireAdmin,
+  validate({
+    query: Joi.object({
+      target_type: Joi.string().valid('USER', 'TOKEN', 'ENCRYPTION_KEY').optional(),
+      target_id: Joi.string().max(64).optional(),
+      actor: commonSchemas.discordId.optional(),
+      page: Joi.number().integer().min(1).optional(),
+      page_size: Joi.number().integer().min(1).max(100).optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { target_type, target_id, actor, page, page_size } = req.query as Record<string, string | undefined>;
+      const result = await adminAuditService.list({
+        targetType: target_type as AdminAuditTarget | undefined,
+        targetId: target_id,
+        actorDiscordId: actor,
+        page: page ? Number(page) : undefined,
+        pageSize: page_size ? Number(page_size) : undefined,
+      });
+      return res.json(result);
+    } catch (err) {
+      console.error('admin/audit-log error', err);
+      return res.status(500).json({ error: 'Failed to load audit log' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/spotify/scheduler
+ * Spotify request queue depth, wait times and rate limit state
+ */
+router.get('/spotify/scheduler', requireAdmin, (req: Request, res: Response) => {
+  return res.json(SpotifyRequestScheduler.getInstance().getMetrics());
+});
+
+/**
+ * GET /api/admin/encryption/rotation
+ * Configured encryption keys and progress of the latest re-encryption job
+ */
+router.get('/encryption/rotation', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    return res.json(await keyRotationService.getStatus());
+  } catch (err) {
+    console.error('admin/encryption/rotation error', err);
+    return res.status(500).json({ error: 'Failed to load key rotation status' });
+  }
 });
 
+/**
+ * POST /api/admin/encryption/rotation
+ * Re-encrypt stored wallet keys and OAuth tokens onto the active key (resumes an unfinished job)
+ */
+router.post(
+  '/encryption/rotation',
+  requireAdmin,
+  validate({ body: Joi.object({ reason: Joi.string().trim().max(500).optional() }) }),
+  async (req: Request, res: Response) => {
+    try {
+      const job = await keyRotationService.start(req.sessionUser!.discordId);
+      await adminAuditService.record({
+        actorDiscordId: req.sessionUser!.discordId,
+        action: 'ENCRYPTION_ROTATION_STARTED',
+        targetType: 'ENCRYPTION_KEY',
+        targetId: job.target_key_id,
+        reason: req.body.reason ?? null,
+        details: { job_id: job.id, total_rows: job.total_rows, processed_rows: job.processed_rows },
+      });
+      return res.status(202).json({ job });
+    } catch (err) {
+      console.error('admin/encryption/rotation start error', err);
+      return res.status(500).json({ error: 'Failed to start key rotation' });
+    }
+  }
+);
+
 export default router;
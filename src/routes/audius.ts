@@ -5,6 +5,7 @@
 
 import { Router, Request, Response } from 'express';
 import { validate } from '../middleware/validation';
+import { requireServiceAuth } from '../middleware/auth';
 import Joi from 'joi';
 import audiusVerification from '../services/audiusVerification';
 
@@ -87,6 +88,7 @@ router.post(
  */
 router.post(
   '/start-tracking',
+  requireServiceAuth,
   validate({
     body: Joi.object({
       party_id: Joi.string().required(),
@@ -131,6 +133,7 @@ router.post(
  */
 router.post(
   '/heartbeat',
+  requireServiceAuth,
   validate({
     body: Joi.object({
       party_id: Joi.string().required(),
@@ -164,6 +167,7 @@ router.post(
  */
 router.post(
   '/stop-tracking',
+  requireServiceAuth,
   validate({
     body: Joi.object({
       party_id: Joi.string().required(),
@@ -1,12 +1,17 @@
 /**
  * Discord Routes
- * Provides endpoints for fetching Discord server and channel information
+ * Provides endpoints for fetching Discord server and channel information, and
+ * for configuring the roles a server gives to qualified listeners
  */
 
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
-import { Client, GuildChannel, TextChannel, ChannelType, PermissionFlagsBits } from 'discord.js';
+import { Client, GuildChannel, GuildMember, TextChannel, ChannelType, PermissionFlagsBits, Role } from 'discord.js';
+import Joi from 'joi';
 import config from '../config/environment';
+import { prisma } from '../database/prisma';
+import { validate } from '../middleware/validation';
+import { hasElevatedPermissions } from '../services/roleRewards';
 
 const router: Router = Router();
 
@@ -134,4 +139,300 @@ router.get('/servers/:serverId/channels', requireAuth, async (req: Request, res:
   }
 });
 
+/**
+ * Find a guild the bot is in and check the session user can manage it.
+ * Sends the error response and returns null otherwise.
+ */
+async function getManagingMember(req: Request, res: Response): Promise<GuildMember | null> {
+  if (!discordClient) {
+    res.status(503).json({ error: 'Discord bot not connected' });
+    return null;
+  }
+
+  const guild = discordClient.guilds.cache.get(req.params.serverId);
+  if (!guild) {
+    res.status(404).json({ error: 'Server not found' });
+    return null;
+  }
+
+  const member = await guild.members.fetch(req.sessionUser!.discordId).catch(() => null);
+  if (!member) {
+    res.status(403).json({ error: 'You are not a member of this server' });
+    return null;
+  }
+
+  const isAdmin =
+    member.permissions.has(PermissionFlagsBits.Administrator) ||
+    member.permissions.has(PermissionFlagsBits.ManageGuild);
+
+  if (!isAdmin) {
+    res.status(403).json({ error: 'You must be an admin of this server' });
+    return null;
+  }
+
+  return member;
+}
+
+/**
+ * Roles that may be given to qualified listeners: not @everyone, not managed
+ * by an integration, without elevated permissions, and below both the bot's
+ * and the rule author's highest role (the author also needs Manage Roles).
+ * Otherwise a server manager could use rewards to hand out roles they can't
+ * assign themselves, e.g. to their own alt accounts.
+ */
+function isAssignableRole(member: GuildMember, role: Role): boolean {
+  const guild = member.guild;
+  const botMember = guild.members.me;
+  if (!botMember || !botMember.permissions.has(PermissionFlagsBits.ManageRoles)) return false;
+  if (role.id === guild.id || role.managed) return false;
+  if (hasElevatedPermissions(role)) return false;
+  if (role.position >= botMember.roles.highest.position) return false;
+
+  if (member.id === guild.ownerId) return true;
+  return member.permissions.has(PermissionFlagsBits.ManageRoles) && role.position < member.roles.highest.position;
+}
+
+async function findArtistServer(discordId: string, serverId: string) {
+  return prisma.artistDiscordServer.findUnique({
+    where: { artist_discord_id_server_id: { artist_discord_id: discordId, server_id: serverId } },
+  });
+}
+
+const roleRewardSchema = {
+  role_id: Joi.string().pattern(/^\d+$/),
+  min_qualifications: Joi.number().integer().min(1).max(1000),
+  duration_days: Joi.number().integer().min(1).max(3650).allow(null),
+  enabled: Joi.boolean(),
+};
+
+/**
+ * GET /api/discord/servers/:serverId/roles
+ * Get the roles the session user may set up as rewards in a server
+ */
+router.get('/servers/:serverId/roles', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const member = await getManagingMember(req, res);
+    if (!member) return;
+    const guild = member.guild;
+
+    const roles = guild.roles.cache
+      .filter((role) => isAssignableRole(member, role))
+      .sort((a, b) => b.position - a.position)
+      .map((role) => ({
+        id: role.id,
+        name: role.name,
+        color: role.hexColor,
+      }));
+
+    return res.json({
+      server_id: guild.id,
+      can_manage_roles: guild.members.me?.permissions.has(PermissionFlagsBits.ManageRoles) ?? false,
+      roles,
+    });
+  } catch (err) {
+    console.error('Error fetching roles:', err);
+    return res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+/**
+ * GET /api/discord/servers/:serverId/role-rewards
+ * Get the role reward rules the artist has set up in a server
+ */
+router.get('/servers/:serverId/role-rewards', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const member = await getManagingMember(req, res);
+    if (!member) return;
+    const guild = member.guild;
+
+    const artistServer = await findArtistServer(req.sessionUser!.discordId, guild.id);
+    if (!artistServer) {
+      return res.json({ server_id: guild.id, rules: [] });
+    }
+
+    const rules = await prisma.roleRewardRule.findMany({
+      where: { artist_server_id: artistServer.id },
+      include: {
+        listening_party: { select: { id: true, title: true, track_title: true } },
+        _count: { select: { grants: { where: { status: 'GRANTED' } } } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return res.json({
+      server_id: guild.id,
+      rules: rules.map(({ _count, ...rule }) => ({
+        ...rule,
+        role_name: guild.roles.cache.get(rule.role_id)?.name ?? rule.role_name,
+        role_exists: guild.roles.cache.has(rule.role_id),
+        active_grants: _count.grants,
+      })),
+    });
+  } catch (err) {
+    console.error('Error fetching role rewards:', err);
+    return res.status(500).json({ error: 'Failed to fetch role rewards' });
+  }
+});
+
+/**
+ * POST /api/discord/servers/:serverId/role-rewards
+ * Give a role to listeners who qualify in the artist's parties in this server,
+ * optionally only for one party, after several qualifications, or for a limited time
+ */
+router.post(
+  '/servers/:serverId/role-rewards',
+  requireAuth,
+  validate({
+    body: Joi.object({
+      ...roleRewardSchema,
+      role_id: roleRewardSchema.role_id.required(),
+      party_id: Joi.string().allow(null).optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const member = await getManagingMember(req, res);
+      if (!member) return;
+      const guild = member.guild;
+
+      const discordId = req.sessionUser!.discordId;
+      const { role_id, party_id, min_qualifications = 1, duration_days = null, enabled = true } = req.body;
+
+      const artistServer = await findArtistServer(discordId, guild.id);
+      if (!artistServer) {
+        return res.status(404).json({ error: 'Add this server to your artist servers first' });
+      }
+
+      const role = guild.roles.cache.get(role_id);
+      if (!role) {
+        return res.status(400).json({ error: 'Role not found in this server' });
+      }
+      if (!isAssignableRole(member, role)) {
+        return res.status(400).json({
+          error: 'This role cannot be used as a reward. It must have no moderation or admin permissions, and both you and the bot need Manage Roles and a higher role.',
+        });
+      }
+
+      if (party_id) {
+        const party = await prisma.listeningParty.findFirst({
+          where: { id: party_id, artist_discord_id: discordId, server_id: guild.id },
+          select: { id: true },
+        });
+        if (!party) {
+          return res.status(404).json({ error: 'Listening party not found in this server' });
+        }
+        // A listener qualifies in a party at most once
+        if (min_qualifications > 1) {
+          return res.status(400).json({ error: 'Party-specific rewards are granted on the first qualification' });
+        }
+      }
+
+      const rule = await prisma.roleRewardRule.create({
+        data: {
+          artist_server_id: artistServer.id,
+          party_id: party_id || null,
+          role_id: role.id,
+          role_name: role.name,
+          min_qualifications,
+          duration_days,
+          enabled,
+        },
+      });
+
+      console.log(`🏅 Role reward @${role.name} added in ${guild.name} by ${discordId}`);
+      return res.status(201).json({ rule });
+    } catch (err) {
+      console.error('Error creating role reward:', err);
+      return res.status(500).json({ error: 'Failed to create role reward' });
+    }
+  }
+);
+
+/**
+ * PUT /api/discord/servers/:serverId/role-rewards/:ruleId
+ * Change a role reward rule. Roles already granted keep their expiry; the new
+ * settings apply to the next qualification.
+ */
+router.put(
+  '/servers/:serverId/role-rewards/:ruleId',
+  requireAuth,
+  validate({
+    body: Joi.object(roleRewardSchema).min(1),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const member = await getManagingMember(req, res);
+      if (!member) return;
+      const guild = member.guild;
+
+      const rule = await prisma.roleRewardRule.findFirst({
+        where: {
+          id: req.params.ruleId,
+          artist_server: { artist_discord_id: req.sessionUser!.discordId, server_id: guild.id },
+        },
+      });
+      if (!rule) {
+        return res.status(404).json({ error: 'Role reward not found' });
+      }
+
+      const { role_id, min_qualifications, duration_days, enabled } = req.body;
+      if (rule.party_id && min_qualifications > 1) {
+        return res.status(400).json({ error: 'Party-specific rewards are granted on the first qualification' });
+      }
+
+      let roleName: string | undefined;
+      if (role_id !== undefined) {
+        const role = guild.roles.cache.get(role_id);
+        if (!role || !isAssignableRole(member, role)) {
+          return res.status(400).json({ error: 'This role cannot be used as a reward' });
+        }
+        roleName = role.name;
+      }
+
+      const updated = await prisma.roleRewardRule.update({
+        where: { id: rule.id },
+        data: {
+          role_id,
+          role_name: roleName,
+          min_qualifications,
+          duration_days,
+          enabled,
+        },
+      });
+
+      return res.json({ rule: updated });
+    } catch (err) {
+      console.error('Error updating role reward:', err);
+      return res.status(500).json({ error: 'Failed to update role reward' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/discord/servers/:serverId/role-rewards/:ruleId
+ * Delete a role reward rule. Roles already granted stay with their members.
+ */
+router.delete('/servers/:serverId/role-rewards/:ruleId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const member = await getManagingMember(req, res);
+    if (!member) return;
+    const guild = member.guild;
+
+    const { count } = await prisma.roleRewardRule.deleteMany({
+      where: {
+        id: req.params.ruleId,
+        artist_server: { artist_discord_id: req.sessionUser!.discordId, server_id: guild.id },
+      },
+    });
+    if (!count) {
+      return res.status(404).json({ error: 'Role reward not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting role reward:', err);
+    return res.status(500).json({ error: 'Failed to delete role reward' });
+  }
+});
+
 export default router;
@@ -6,11 +6,21 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { requireAuth } from '../middleware/auth';
-import { prisma } from '../database/prisma';
+import { ListeningPartyTrack, Platform } from '@prisma/client';
+import { requireAuth, requireServiceAuth, requireServiceOrSession, rejectSuspended } from '../middleware/auth';
+import PrismaDatabase, { prisma } from '../database/prisma';
 import Joi from 'joi';
 import { validate, commonSchemas } from '../middleware/validation';
 import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+import { requiredListenSeconds, summarizeQualificationRules } from '../lib/qualification';
+import { parseRiskFlags } from '../lib/listeningIntegrity';
+import { emitPartyChanged } from '../lib/partyEvents';
+import { trackPermalink } from '../lib/trackUrls';
+import { partyPlatforms, platformTrackIds } from '../lib/partyPlatforms';
+import { TIME_RANGE_PRESETS, TimeRangePreset, resolveTimeRange } from '../lib/timeRange';
+import PartyAnalyticsService from '../services/partyAnalytics';
+import trackResolver from '../services/trackResolver';
+import RaidEscrowService, { ClaimVerificationError } from '../services/raidEscrow';
 import type PartyPosterService from '../services/partyPoster';
 
 const router: Router = Router();
@@ -18,6 +28,36 @@ const router: Router = Router();
 // Party poster service (set by bot)
 let partyPoster: PartyPosterService | null = null;
 
+const raidEscrowService = new RaidEscrowService();
+const partyAnalyticsService = new PartyAnalyticsService();
+
+/** Track entry of a multi-track party in the create request */
+interface PartyTrackInput {
+  track_id: string;
+  track_title: string;
+  track_artist?: string;
+  track_artwork_url?: string;
+  track_duration_seconds?: number;
+  track_url?: string;
+  spotify_track_id?: string; // cross-platform parties: matched track, when not auto-matched
+  audius_track_id?: string;
+  min_listen_seconds?: number;
+}
+
+function formatPartyTracks(tracks: ListeningPartyTrack[], platform: Platform) {
+  return tracks.map((t) => ({
+    id: t.track_id,
+    platform_ids: platformTrackIds(t, platform),
+    position: t.position,
+    title: t.track_title,
+    artist: t.track_artist,
+    artwork: t.track_artwork_url,
+    url: t.track_url,
+    duration_seconds: t.track_duration_seconds,
+    required_seconds: t.required_seconds,
+  }));
+}
+
 export function setPartyPoster(service: PartyPosterService) {
   partyPoster = service;
   console.log('🎉 Party poster service connected to listening parties routes');
@@ -29,30 +69,36 @@ export function setPartyPoster(service: PartyPosterService) {
 
 /**
  * GET /api/listening-parties/active
- * Get all active listening parties (no auth required for Discord bot)
+ * Get all active and upcoming scheduled listening parties (no auth required for Discord bot)
  */
 router.get('/active', async (req: Request, res: Response) => {
   try {
     const parties = await prisma.listeningParty.findMany({
       where: {
-        status: 'ACTIVE',
+        status: { in: ['ACTIVE', 'SCHEDULED'] },
         expires_at: {
           gt: new Date(), // Not expired
         },
       },
+      orderBy: { expires_at: 'asc' },
       select: {
         id: true,
         track_id: true,
         track_title: true,
         track_artist: true,
         track_artwork_url: true,
+        track_url: true,
+        spotify_track_id: true,
+        audius_track_id: true,
         platform: true,
         token_mint: true,
         tokens_per_participant: true,
         max_participants: true,
         claimed_count: true,
         duration_minutes: true,
+        status: true,
         created_at: true,
+        scheduled_start_at: true,
         started_at: true,
         expires_at: true,
         raid_id: true,
@@ -71,8 +117,12 @@ router.get('/active', async (req: Request, res: Response) => {
           title: p.track_title,
           artist: p.track_artist,
           artwork: p.track_artwork_url,
+          url: trackPermalink(p.platform, p.track_id, p.track_url),
+          platform_ids: platformTrackIds(p, p.platform),
         },
         platform: p.platform,
+        platforms: partyPlatforms(p),
+        status: p.status,
         reward: {
           token_mint: p.token_mint,
           tokens_per_participant: p.tokens_per_participant.toString(),
@@ -84,6 +134,8 @@ router.get('/active', async (req: Request, res: Response) => {
         },
         timing: {
           created_at: p.created_at,
+          scheduled_start_at: p.scheduled_start_at,
+          started_at: p.started_at,
           expires_at: p.expires_at,
           duration_minutes: p.duration_minutes,
         },
@@ -103,7 +155,7 @@ router.get('/active', async (req: Request, res: Response) => {
 
 /**
  * GET /api/listening-parties/active/by-server?server_id=xxx
- * Get active listening parties for a specific Discord server
+ * Get active and upcoming scheduled listening parties for a specific Discord server
  */
 router.get(
   '/active/by-server',
@@ -118,7 +170,7 @@ router.get(
 
       const parties = await prisma.listeningParty.findMany({
         where: {
-          status: 'ACTIVE',
+          status: { in: ['ACTIVE', 'SCHEDULED'] },
           expires_at: {
             gt: new Date(),
           },
@@ -127,6 +179,7 @@ router.get(
             { server_id: null }, // Or global parties
           ],
         },
+        orderBy: { expires_at: 'asc' },
         include: {
           participants: {
             select: {
@@ -147,8 +200,12 @@ router.get(
             title: p.track_title,
             artist: p.track_artist,
             artwork: p.track_artwork_url,
+            url: trackPermalink(p.platform, p.track_id, p.track_url),
+            platform_ids: platformTrackIds(p, p.platform),
           },
           platform: p.platform,
+          platforms: partyPlatforms(p),
+          status: p.status,
           reward: {
             token_mint: p.token_mint,
             tokens_per_participant: p.tokens_per_participant.toString(),
@@ -160,7 +217,10 @@ router.get(
           },
           timing: {
             created_at: p.created_at,
+            scheduled_start_at: p.scheduled_start_at,
+            started_at: p.started_at,
             expires_at: p.expires_at,
+            duration_minutes: p.duration_minutes,
           },
           participants_count: p.participants.length,
           qualified_count: p.participants.filter((p) => p.qualified_at).length,
@@ -191,10 +251,23 @@ router.get('/:id', async (req: Request, res: Response) => {
             discord_handle: true,
             joined_at: true,
             qualified_at: true,
+            claimed_at: true,
             total_listening_duration: true,
+            session_count: true,
             is_listening: true,
+            review_status: true,
+            current_track_id: true,
+            tracks_completed: true,
+            track_progress: {
+              select: {
+                party_track: { select: { track_id: true } },
+                listened_seconds: true,
+                completed_at: true,
+              },
+            },
           },
         },
+        tracks: { orderBy: { position: 'asc' } },
       },
     });
 
@@ -210,8 +283,11 @@ router.get('/:id', async (req: Request, res: Response) => {
         title: party.track_title,
         artist: party.track_artist,
         artwork: party.track_artwork_url,
+        url: trackPermalink(party.platform, party.track_id, party.track_url),
+        platform_ids: platformTrackIds(party, party.platform),
       },
       platform: party.platform,
+      platforms: partyPlatforms(party),
       reward: {
         token_mint: party.token_mint,
         tokens_per_participant: party.tokens_per_participant.toString(),
@@ -219,6 +295,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       status: party.status,
       timing: {
         created_at: party.created_at,
+        scheduled_start_at: party.scheduled_start_at,
         started_at: party.started_at,
         ended_at: party.ended_at,
         expires_at: party.expires_at,
@@ -229,6 +306,9 @@ router.get('/:id', async (req: Request, res: Response) => {
         claimed: party.claimed_count,
         available: party.max_participants - party.claimed_count,
       },
+      title: party.title,
+      tracks: formatPartyTracks(party.tracks, party.platform),
+      qualification: summarizeQualificationRules(party, party.tracks),
       smart_contract: {
         raid_id: party.raid_id,
         escrow_pda: party.raid_escrow_pda,
@@ -240,8 +320,18 @@ router.get('/:id', async (req: Request, res: Response) => {
         discord_handle: p.discord_handle,
         joined_at: p.joined_at,
         qualified_at: p.qualified_at,
+        claimed_at: p.claimed_at,
         listening_duration: p.total_listening_duration,
+        session_count: p.session_count,
         is_listening: p.is_listening,
+        review_status: p.review_status,
+        current_track_id: p.current_track_id,
+        tracks_completed: p.tracks_completed,
+        track_progress: p.track_progress.map((tp) => ({
+          track_id: tp.party_track.track_id,
+          listened_seconds: tp.listened_seconds,
+          completed_at: tp.completed_at,
+        })),
       })),
     });
   } catch (err) {
@@ -251,7 +341,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // ============================================================================
-// PARTICIPANT ENDPOINTS
+// PARTICIPANT ENDPOINTS (signed bot requests or the user's own session)
 // ============================================================================
 
 /**
@@ -260,6 +350,8 @@ router.get('/:id', async (req: Request, res: Response) => {
  */
 router.post(
   '/:id/participants',
+  requireServiceOrSession,
+  rejectSuspended,
   validate({
     params: Joi.object({
       id: Joi.string().required(),
@@ -278,6 +370,7 @@ router.post(
       // Verify party exists and is active
       const party = await prisma.listeningParty.findUnique({
         where: { id },
+        include: { tracks: true },
       });
 
       if (!party) {
@@ -304,7 +397,8 @@ router.post(
           party_id: id,
           discord_id,
           joined_at: existing.joined_at,
-          qualifying_duration_seconds: LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD,
+          qualifying_duration_seconds: summarizeQualificationRules(party, party.tracks).required_seconds,
+          qualification: summarizeQualificationRules(party, party.tracks),
           already_joined: true,
         });
       }
@@ -320,12 +414,15 @@ router.post(
         },
       });
 
+      emitPartyChanged(id, 'participant_joined', discord_id);
+
       return res.status(201).json({
         participant_id: participant.id,
         party_id: id,
         discord_id,
         joined_at: participant.joined_at,
-        qualifying_duration_seconds: LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD,
+        qualifying_duration_seconds: summarizeQualificationRules(party, party.tracks).required_seconds,
+        qualification: summarizeQualificationRules(party, party.tracks),
       });
     } catch (err) {
       console.error('Error creating participant:', err);
@@ -334,12 +431,70 @@ router.post(
   }
 );
 
+/**
+ * POST /api/listening-parties/:id/reminders
+ * Opt a user in to a DM when a scheduled party starts ("Remind me" button)
+ */
+router.post(
+  '/:id/reminders',
+  requireServiceOrSession,
+  validate({
+    params: Joi.object({
+      id: Joi.string().required(),
+    }),
+    body: Joi.object({
+      discord_id: Joi.string().required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { discord_id } = req.body;
+
+      const party = await prisma.listeningParty.findUnique({
+        where: { id },
+      });
+
+      if (!party) {
+        return res.status(404).json({ error: 'Party not found' });
+      }
+
+      if (party.status !== 'SCHEDULED') {
+        return res.status(400).json({ error: 'Party is not scheduled' });
+      }
+
+      const existing = await prisma.partyReminder.findUnique({
+        where: { party_id_discord_id: { party_id: id, discord_id } },
+      });
+
+      if (!existing) {
+        await prisma.partyReminder.create({
+          data: { party_id: id, discord_id },
+        });
+      }
+
+      return res.status(existing ? 200 : 201).json({
+        party_id: id,
+        discord_id,
+        scheduled_start_at: party.scheduled_start_at,
+        already_set: Boolean(existing),
+      });
+    } catch (err) {
+      console.error('Error creating party reminder:', err);
+      return res.status(500).json({ error: 'Failed to set reminder' });
+    }
+  }
+);
+
 /**
  * POST /api/listening-parties/:id/heartbeat
- * Record heartbeat/listening verification from Discord bot
+ * Record heartbeat/listening verification from Discord bot. Signed bot requests
+ * only: the playback state is trusted as sent, so a session could farm credit.
  */
 router.post(
   '/:id/heartbeat',
+  requireServiceAuth,
+  rejectSuspended,
   validate({
     params: Joi.object({
       id: Joi.string().required(),
@@ -348,14 +503,15 @@ router.post(
       discord_id: Joi.string().required(),
       is_playing: Joi.boolean().required(),
       current_position_seconds: Joi.number().optional(),
+      track_id: Joi.string().optional(),
     }),
   }),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const { discord_id, is_playing, current_position_seconds } = req.body;
+      const { discord_id, is_playing, current_position_seconds, track_id } = req.body;
 
-      // Get participant
+      // Get participant with the party's qualification rules
       const participant = await prisma.listeningPartyParticipant.findUnique({
         where: {
           party_id_discord_id: {
@@ -363,45 +519,32 @@ router.post(
             discord_id,
           },
         },
+        include: { listening_party: { include: { tracks: { orderBy: { position: 'asc' } } } } },
       });
 
       if (!participant) {
         return res.status(404).json({ error: 'Participant not found in this party' });
       }
 
-      // Update participant listening status
-      const updated = await prisma.listeningPartyParticipant.update({
-        where: { id: participant.id },
-        data: {
-          is_listening: is_playing,
-          last_heartbeat_at: new Date(),
-          first_heartbeat_at: participant.first_heartbeat_at || new Date(),
-          total_listening_duration: is_playing
-            ? participant.total_listening_duration + LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL
-            : participant.total_listening_duration,
-        },
-      });
-
-      // Check if qualified
-      const qualified = updated.total_listening_duration >= LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD;
-
-      // Update qualified status
-      if (qualified && !participant.qualified_at) {
-        await prisma.listeningPartyParticipant.update({
-          where: { id: participant.id },
-          data: {
-            qualified_at: new Date(),
-          },
-        });
-      }
+      // Credit listening time, run integrity checks and update qualification
+      const { participant: updated, qualification, heldForReview, track } = await PrismaDatabase.recordPartyHeartbeat(
+        participant,
+        { isPlaying: is_playing, positionSeconds: current_position_seconds, trackId: track_id }
+      );
 
       return res.json({
         participant_id: participant.id,
-        qualified: qualified,
-        can_claim: qualified && !participant.claimed_at,
+        qualified: qualification.qualified,
+        can_claim: qualification.qualified && !updated.claimed_at,
         listening_duration: updated.total_listening_duration,
-        required_duration: LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD,
-        progress: `${updated.total_listening_duration}/${LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD}`,
+        required_duration: qualification.required_seconds,
+        session_count: qualification.sessions,
+        required_sessions: qualification.required_sessions,
+        progress: `${updated.total_listening_duration}/${qualification.required_seconds}`,
+        tracks_completed: qualification.tracks_completed,
+        required_tracks: qualification.required_tracks,
+        current_track: track,
+        held_for_review: heldForReview,
         is_playing,
       });
     } catch (err) {
@@ -413,10 +556,12 @@ router.post(
 
 /**
  * POST /api/listening-parties/:id/claim-confirmed
- * Record successful token claim from smart contract
+ * Record a token claim after verifying the claim_tokens transaction on-chain
  */
 router.post(
   '/:id/claim-confirmed',
+  requireServiceOrSession,
+  rejectSuspended,
   validate({
     params: Joi.object({
       id: Joi.string().required(),
@@ -431,36 +576,99 @@ router.post(
       const { id } = req.params;
       const { discord_id, tx_signature } = req.body;
 
-      // Update participant with claim confirmation
-      const participant = await prisma.listeningPartyParticipant.update({
+      const party = await prisma.listeningParty.findUnique({
+        where: { id },
+      });
+
+      if (!party) {
+        return res.status(404).json({ error: 'Party not found' });
+      }
+
+      if (!party.raid_id) {
+        return res.status(400).json({ error: 'Party has no on-chain escrow' });
+      }
+
+      const existing = await prisma.listeningPartyParticipant.findUnique({
         where: {
           party_id_discord_id: {
             party_id: id,
             discord_id,
           },
         },
-        data: {
-          claimed_at: new Date(),
-          claim_tx_signature: tx_signature,
-        },
       });
 
-      // Increment party's claimed count
-      await prisma.listeningParty.update({
-        where: { id },
-        data: {
-          claimed_count: {
-            increment: 1,
-          },
+      if (!existing) {
+        return res.status(404).json({ error: 'Participant not found in this party' });
+      }
+
+      if (!existing.qualified_at) {
+        if (existing.review_status === 'PENDING_REVIEW') {
+          return res.status(403).json({ error: 'Participant is awaiting artist review' });
+        }
+        return res.status(403).json({ error: 'Participant has not qualified for this party' });
+      }
+
+      if (existing.claimed_at) {
+        // Already recorded from the Helius webhook with the same transaction
+        if (existing.claim_tx_signature === tx_signature) {
+          return res.json({
+            participant_id: existing.id,
+            claimed_at: existing.claimed_at,
+            tx_signature,
+          });
+        }
+        return res.status(409).json({ error: 'Rewards already claimed for this party' });
+      }
+
+      const signatureInUse = await prisma.listeningPartyParticipant.findFirst({
+        where: { claim_tx_signature: tx_signature },
+        select: { id: true },
+      });
+
+      if (signatureInUse) {
+        return res.status(409).json({ error: 'Transaction signature already recorded' });
+      }
+
+      // Collect every wallet the user could have signed the claim with
+      const user = await prisma.user.findUnique({
+        where: { discord_id },
+        select: {
+          privy_wallet_address: true,
+          wallets: { select: { public_key: true } },
         },
       });
 
+      const participantWallets = [
+        ...(user?.privy_wallet_address ? [user.privy_wallet_address] : []),
+        ...(user?.wallets.map((w) => w.public_key) || []),
+      ];
+
+      const verified = await raidEscrowService.verifyClaimTransaction({
+        signature: tx_signature,
+        raidId: party.raid_id,
+        escrowPda: party.raid_escrow_pda,
+        tokenMint: party.token_mint,
+        participantWallets,
+      });
+
+      // Only record the claim once, even if the same request races itself
+      const participant = await PrismaDatabase.recordListeningPartyClaim(id, existing.id, tx_signature);
+
+      if (!participant) {
+        return res.status(409).json({ error: 'Rewards already claimed for this party' });
+      }
+
       return res.json({
         participant_id: participant.id,
         claimed_at: participant.claimed_at,
         tx_signature,
+        wallet: verified.participantWallet,
       });
     } catch (err) {
+      if (err instanceof ClaimVerificationError) {
+        console.warn(`Rejected claim for party ${req.params.id}: ${err.code} - ${err.message}`);
+        return res.status(422).json({ error: err.message, code: err.code });
+      }
       console.error('Error confirming claim:', err);
       return res.status(500).json({ error: 'Failed to confirm claim' });
     }
@@ -516,8 +724,10 @@ router.get('/artist/my-parties', requireAuth, async (req: Request, res: Response
         participants: {
           select: {
             qualified_at: true,
+            review_status: true,
           },
         },
+        settlement: true,
       },
       orderBy: {
         created_at: 'desc',
@@ -532,8 +742,11 @@ router.get('/artist/my-parties', requireAuth, async (req: Request, res: Response
           title: p.track_title,
           artist: p.track_artist,
           artwork: p.track_artwork_url,
+          url: trackPermalink(p.platform, p.track_id, p.track_url),
+          platform_ids: platformTrackIds(p, p.platform),
         },
         platform: p.platform,
+        platforms: partyPlatforms(p),
         status: p.status,
         reward: {
           token_mint: p.token_mint,
@@ -544,12 +757,25 @@ router.get('/artist/my-parties', requireAuth, async (req: Request, res: Response
           claimed: p.claimed_count,
           participants: p.participants.length,
           qualified: p.participants.filter((p) => p.qualified_at).length,
+          pending_review: p.participants.filter((p) => p.review_status === 'PENDING_REVIEW').length,
         },
         timing: {
           created_at: p.created_at,
+          scheduled_start_at: p.scheduled_start_at,
           expires_at: p.expires_at,
           duration_minutes: p.duration_minutes,
         },
+        settlement: p.settlement
+          ? {
+              status: p.settlement.status,
+              unclaimed_seats: p.settlement.unclaimed_seats,
+              refund_amount: p.settlement.refund_amount.toString(),
+              close_tx_signature: p.settlement.close_tx_signature,
+              attempts: p.settlement.attempts,
+              last_error: p.settlement.last_error,
+              completed_at: p.settlement.completed_at,
+            }
+          : null,
       }))
     );
   } catch (err) {
@@ -558,6 +784,168 @@ router.get('/artist/my-parties', requireAuth, async (req: Request, res: Response
   }
 });
 
+/**
+ * GET /api/listening-parties/artist/analytics?range=30d
+ * Listening analytics across every party the artist created in the range
+ */
+router.get(
+  '/artist/analytics',
+  requireAuth,
+  validate({
+    query: Joi.object({
+      range: Joi.string().valid(...Object.keys(TIME_RANGE_PRESETS)).optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = (req as any).sessionUser.discordId;
+      const range = (req.query.range as TimeRangePreset | undefined) ?? '30d';
+
+      const analytics = await partyAnalyticsService.getArtistAnalytics(discordId, resolveTimeRange(range));
+      return res.json(analytics);
+    } catch (err) {
+      console.error('Error fetching artist analytics:', err);
+      return res.status(500).json({ error: 'Failed to fetch analytics' });
+    }
+  }
+);
+
+/**
+ * GET /api/listening-parties/artist/:id/analytics
+ * Time-series listening analytics for one of the artist's parties
+ */
+router.get(
+  '/artist/:id/analytics',
+  requireAuth,
+  validate({
+    params: Joi.object({
+      id: Joi.string().required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = (req as any).sessionUser.discordId;
+      const analytics = await partyAnalyticsService.getPartyAnalytics(req.params.id, discordId);
+
+      if (!analytics) {
+        return res.status(404).json({ error: 'Party not found' });
+      }
+
+      return res.json(analytics);
+    } catch (err) {
+      console.error('Error fetching party analytics:', err);
+      return res.status(500).json({ error: 'Failed to fetch analytics' });
+    }
+  }
+);
+
+/**
+ * GET /api/listening-parties/artist/:id/review
+ * List participants of the artist's party held for review by the anti-cheat checks
+ */
+router.get(
+  '/artist/:id/review',
+  requireAuth,
+  validate({
+    params: Joi.object({
+      id: Joi.string().required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = (req as any).sessionUser.discordId;
+      const party = await prisma.listeningParty.findUnique({
+        where: { id: req.params.id },
+        include: {
+          participants: {
+            where: { review_status: { not: null } },
+            orderBy: { risk_score: 'desc' },
+          },
+        },
+      });
+
+      if (!party || party.artist_discord_id !== discordId) {
+        return res.status(404).json({ error: 'Party not found' });
+      }
+
+      return res.json({
+        party_id: party.id,
+        review_threshold: LISTENING_PARTY_CONSTANTS.RISK_REVIEW_THRESHOLD,
+        participants: party.participants.map((p) => ({
+          id: p.id,
+          discord_id: p.discord_id,
+          discord_handle: p.discord_handle,
+          listening_duration: p.total_listening_duration,
+          session_count: p.session_count,
+          risk_score: p.risk_score,
+          risk_flags: parseRiskFlags(p.risk_flags),
+          review_status: p.review_status,
+          reviewed_at: p.reviewed_at,
+        })),
+      });
+    } catch (err) {
+      console.error('Error fetching review queue:', err);
+      return res.status(500).json({ error: 'Failed to fetch review queue' });
+    }
+  }
+);
+
+/**
+ * POST /api/listening-parties/artist/:id/review/:participantId
+ * Approve or reject a participant held for review
+ */
+router.post(
+  '/artist/:id/review/:participantId',
+  requireAuth,
+  validate({
+    params: Joi.object({
+      id: Joi.string().required(),
+      participantId: Joi.string().required(),
+    }),
+    body: Joi.object({
+      decision: Joi.string().valid('approve', 'reject').required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = (req as any).sessionUser.discordId;
+      const { id, participantId } = req.params;
+
+      const participant = await prisma.listeningPartyParticipant.findUnique({
+        where: { id: participantId },
+        include: { listening_party: true },
+      });
+
+      if (!participant || participant.party_id !== id || participant.listening_party.artist_discord_id !== discordId) {
+        return res.status(404).json({ error: 'Participant not found in this party' });
+      }
+
+      if (participant.review_status !== 'PENDING_REVIEW') {
+        return res.status(409).json({ error: 'Participant is not awaiting review' });
+      }
+
+      const updated = await PrismaDatabase.reviewListeningPartyParticipant(
+        participant.id,
+        discordId,
+        req.body.decision === 'approve'
+      );
+
+      console.log(`🔍 Artist ${discordId} ${updated.review_status === 'APPROVED' ? 'approved' : 'rejected'} ${participant.discord_id} in party ${id}`);
+
+      return res.json({
+        id: updated.id,
+        discord_id: updated.discord_id,
+        review_status: updated.review_status,
+        qualified_at: updated.qualified_at,
+        reviewed_at: updated.reviewed_at,
+      });
+    } catch (err) {
+      console.error('Error reviewing participant:', err);
+      return res.status(500).json({ error: 'Failed to review participant' });
+    }
+  }
+);
+
 /**
  * POST /api/listening-parties
  * Create a new listening party (requires artist authentication)
@@ -565,18 +953,52 @@ router.get('/artist/my-parties', requireAuth, async (req: Request, res: Response
 router.post(
   '/',
   requireAuth,
+  rejectSuspended,
   validate({
     body: Joi.object({
-      track_id: Joi.string().required(),
-      track_title: Joi.string().required(),
+      // Single-track party, or defaults to the first entry of `tracks`
+      track_id: Joi.string().when('tracks', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+      track_title: Joi.string().when('tracks', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
       track_artist: Joi.string().optional(),
       track_artwork_url: Joi.string().optional(),
-      track_permalink: Joi.string().optional(), // For Audius track URL construction
+      track_permalink: Joi.string().optional(), // Audius permalink path, used if the track can't be resolved
       platform: Joi.string().valid('audius', 'spotify').required(),
+      // Let fans qualify on either platform; the other platform's track is matched
+      // automatically unless its ID is given
+      cross_platform: Joi.boolean().optional(),
+      spotify_track_id: Joi.string().optional(),
+      audius_track_id: Joi.string().optional(),
       token_mint: Joi.string().required(),
       tokens_per_participant: Joi.alternatives().try(Joi.string(), Joi.number()).required(),
       max_participants: Joi.number().min(1).max(100).required(),
       duration_minutes: Joi.number().min(1).required(),
+      min_listen_seconds: Joi.number().integer().min(LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL).max(3600).optional(),
+      required_track_percent: Joi.number().integer().min(1).max(100).allow(null).optional(),
+      require_full_listen: Joi.boolean().optional(),
+      min_sessions: Joi.number().integer().min(1).max(10).optional(),
+      track_duration_seconds: Joi.number().integer().min(1).optional(),
+      // Multi-track (EP / playlist) parties
+      title: Joi.string().max(200).optional(),
+      tracks: Joi.array()
+        .items(
+          Joi.object({
+            track_id: Joi.string().required(),
+            track_title: Joi.string().required(),
+            track_artist: Joi.string().optional(),
+            track_artwork_url: Joi.string().optional(),
+            track_duration_seconds: Joi.number().integer().min(1).optional(),
+            track_url: Joi.string().uri().optional(),
+            spotify_track_id: Joi.string().optional(),
+            audius_track_id: Joi.string().optional(),
+            min_listen_seconds: Joi.number().integer().min(LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL).max(3600).optional(),
+          })
+        )
+        .min(2)
+        .max(LISTENING_PARTY_CONSTANTS.MAX_PARTY_TRACKS)
+        .unique('track_id')
+        .optional(),
+      required_track_count: Joi.number().integer().min(1).optional(), // complete N of the tracks, default all
+      scheduled_start_at: Joi.date().iso().greater('now').optional(), // omit to start immediately
       server_id: Joi.string().optional(),
       channel_id: Joi.string().optional(),
       raid_id: Joi.string().optional(), // From dashboard when escrow already created
@@ -593,10 +1015,22 @@ router.post(
         track_artwork_url,
         track_permalink,
         platform,
+        cross_platform,
+        spotify_track_id,
+        audius_track_id,
         token_mint,
         tokens_per_participant,
         max_participants,
         duration_minutes,
+        min_listen_seconds,
+        required_track_percent,
+        require_full_listen,
+        min_sessions,
+        track_duration_seconds,
+        title,
+        tracks,
+        required_track_count,
+        scheduled_start_at,
         server_id,
         channel_id,
         raid_id: providedRaidId,
@@ -608,6 +1042,89 @@ router.post(
         return res.status(400).json({ error: 'Invalid platform value' });
       }
 
+      const rewardToken = await PrismaDatabase.getTokenByMint(token_mint);
+      if (!rewardToken || !rewardToken.enabled) {
+        return res.status(400).json({ error: 'token_mint must be an enabled reward token' });
+      }
+
+      const partyTracks: PartyTrackInput[] = tracks ?? [];
+      if (required_track_count && required_track_count > partyTracks.length) {
+        return res.status(400).json({ error: 'required_track_count cannot exceed the number of tracks' });
+      }
+
+      const primaryTrack: PartyTrackInput = partyTracks[0] ?? {
+        track_id,
+        track_title,
+        track_artist,
+        track_artwork_url,
+        track_duration_seconds,
+        spotify_track_id,
+        audius_track_id,
+        track_url: track_permalink
+          ? track_permalink.startsWith('/') ? `https://audius.co${track_permalink}` : track_permalink
+          : undefined,
+      };
+      const needsDuration = Boolean(required_track_percent || require_full_listen);
+      const otherPlatform: Platform = normalizedPlatform === 'SPOTIFY' ? 'AUDIUS' : 'SPOTIFY';
+      const otherPlatformName = otherPlatform === 'SPOTIFY' ? 'Spotify' : 'Audius';
+      // Linking any track by hand makes the whole party cross-platform
+      const crossPlatform = Boolean(cross_platform) || (partyTracks.length ? partyTracks : [primaryTrack]).some(
+        (t) => (otherPlatform === 'SPOTIFY' ? t.spotify_track_id : t.audius_track_id) !== undefined
+      );
+      const partyMinListenSeconds = min_listen_seconds ?? LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD;
+
+      // Resolve each track for its canonical permalink and ISRC; percentage and
+      // full-listen rules are also measured against the resolved length.
+      // Cross-platform parties also need every track on the other platform.
+      const resolvedTracks = [];
+      for (const track of partyTracks.length ? partyTracks : [primaryTrack]) {
+        const platformTrack = await trackResolver.resolveById(normalizedPlatform, track.track_id).catch((error) => {
+          console.warn(`Failed to resolve ${normalizedPlatform} track ${track.track_id}:`, error);
+          return null;
+        });
+
+        let durationSeconds: number | null = track.track_duration_seconds ?? null;
+        if (!durationSeconds && platformTrack?.duration_ms) {
+          durationSeconds = Math.round(platformTrack.duration_ms / 1000);
+        }
+        if (!durationSeconds && needsDuration) {
+          return res.status(400).json({
+            error: `Could not determine length of track ${track.track_id}. Provide track_duration_seconds to use percentage or full-listen rules.`,
+          });
+        }
+
+        const suppliedMatchId = otherPlatform === 'SPOTIFY' ? track.spotify_track_id : track.audius_track_id;
+        let matchedTrackId: string | null = null;
+        if (crossPlatform) {
+          matchedTrackId = suppliedMatchId ?? (platformTrack ? (await trackResolver.findMatch(platformTrack))?.id ?? null : null);
+          if (!matchedTrackId) {
+            return res.status(400).json({
+              error: `No matching ${otherPlatformName} track found for "${track.track_title}". Provide ${otherPlatform.toLowerCase()}_track_id to link it manually.`,
+            });
+          }
+        }
+        const platformIds = matchedTrackId
+          ? { [normalizedPlatform]: track.track_id, [otherPlatform]: matchedTrackId } as Record<Platform, string>
+          : null;
+
+        resolvedTracks.push({
+          ...track,
+          spotify_track_id: platformIds?.SPOTIFY ?? null,
+          audius_track_id: platformIds?.AUDIUS ?? null,
+          track_url: platformTrack?.url ?? track.track_url ?? null,
+          track_isrc: platformTrack?.isrc ?? null,
+          track_duration_seconds: durationSeconds,
+          required_seconds: requiredListenSeconds({
+            min_listen_seconds: track.min_listen_seconds ?? partyMinListenSeconds,
+            required_track_percent: required_track_percent ?? null,
+            require_full_listen: Boolean(require_full_listen),
+            min_sessions: min_sessions ?? 1,
+            track_duration_seconds: durationSeconds,
+          }),
+        });
+      }
+      const trackDurationSeconds = resolvedTracks[0].track_duration_seconds;
+
       // Convert tokens_per_participant to BigInt
       const tokensPerParticipant = BigInt(
         typeof tokens_per_participant === 'string'
@@ -616,36 +1133,49 @@ router.post(
       );
 
       // Generate unique party ID (full format for database)
-      const partyId = `${track_id}_${discordId}_${Date.now()}`;
+      const partyId = `${primaryTrack.track_id}_${discordId}_${Date.now()}`;
 
       // Use provided raid_id from dashboard, or generate new one
       // If raid_id is provided, it means escrow was already created on-chain
       const raidId = providedRaidId || (() => {
         const timestamp = Date.now().toString().slice(-8);
-        return `${track_id}_${timestamp}`;
+        return `${primaryTrack.track_id}_${timestamp}`;
       })();
 
-      // Calculate expiration time
+      // Calculate expiration time (scheduled parties run from their start time)
       const now = new Date();
-      const expiresAt = new Date(now.getTime() + duration_minutes * 60 * 1000);
+      const scheduledStartAt: Date | null = scheduled_start_at ? new Date(scheduled_start_at) : null;
+      const expiresAt = new Date((scheduledStartAt || now).getTime() + duration_minutes * 60 * 1000);
 
       // Create listening party (without escrow initially)
-      let party = await prisma.listeningParty.create({
+      const party = await prisma.listeningParty.create({
         data: {
           id: partyId,
           artist_discord_id: discordId,
-          track_id,
-          track_title,
-          track_artist: track_artist || '',
-          track_artwork_url: track_artwork_url || '',
+          title: title || null,
+          track_id: primaryTrack.track_id,
+          track_title: primaryTrack.track_title,
+          track_artist: primaryTrack.track_artist || '',
+          track_artwork_url: primaryTrack.track_artwork_url || '',
+          track_url: resolvedTracks[0].track_url,
+          track_isrc: resolvedTracks[0].track_isrc,
           platform: normalizedPlatform,
+          spotify_track_id: resolvedTracks[0].spotify_track_id,
+          audius_track_id: resolvedTracks[0].audius_track_id,
           token_mint,
           tokens_per_participant: tokensPerParticipant,
           max_participants,
           duration_minutes,
-          status: 'ACTIVE',
+          min_listen_seconds: partyMinListenSeconds,
+          required_track_percent: required_track_percent ?? null,
+          require_full_listen: Boolean(require_full_listen),
+          min_sessions: min_sessions ?? 1,
+          track_duration_seconds: trackDurationSeconds,
+          required_track_count: partyTracks.length ? required_track_count ?? null : null,
+          status: scheduledStartAt ? 'SCHEDULED' : 'ACTIVE',
           created_at: now,
-          started_at: now,
+          scheduled_start_at: scheduledStartAt,
+          started_at: scheduledStartAt ? null : now,
           expires_at: expiresAt,
           server_id: server_id || null,
           channel_id: channel_id || null,
@@ -654,7 +1184,25 @@ router.post(
           // raid_escrow_pda is set when escrow is created via dashboard
           raid_escrow_pda: providedEscrowPda || null,
           metadata_uri: null,
+          tracks: partyTracks.length
+            ? {
+                create: resolvedTracks.map((t, index) => ({
+                  position: index,
+                  track_id: t.track_id,
+                  track_title: t.track_title,
+                  track_artist: t.track_artist || null,
+                  track_artwork_url: t.track_artwork_url || null,
+                  track_url: t.track_url,
+                  track_isrc: t.track_isrc,
+                  spotify_track_id: t.spotify_track_id,
+                  audius_track_id: t.audius_track_id,
+                  track_duration_seconds: t.track_duration_seconds,
+                  required_seconds: t.required_seconds,
+                })),
+              }
+            : undefined,
         },
+        include: { tracks: { orderBy: { position: 'asc' } } },
       });
 
       // Auto-post to Discord if channel is specified and party poster is available
@@ -682,8 +1230,11 @@ router.post(
           title: party.track_title,
           artist: party.track_artist,
           artwork: party.track_artwork_url,
+          url: trackPermalink(party.platform, party.track_id, party.track_url),
+          platform_ids: platformTrackIds(party, party.platform),
         },
         platform: party.platform,
+        platforms: partyPlatforms(party),
         reward: {
           token_mint: party.token_mint,
           tokens_per_participant: party.tokens_per_participant.toString(),
@@ -695,16 +1246,23 @@ router.post(
         },
         timing: {
           created_at: party.created_at,
+          scheduled_start_at: party.scheduled_start_at,
+          started_at: party.started_at,
           expires_at: party.expires_at,
           duration_minutes: party.duration_minutes,
         },
+        title: party.title,
+        tracks: formatPartyTracks(party.tracks, party.platform),
+        qualification: summarizeQualificationRules(party, party.tracks),
         status: party.status,
         smart_contract: {
           raid_id: party.raid_id,
           escrow_pda: party.raid_escrow_pda,
           metadata_uri: party.metadata_uri,
         },
-        message: 'Listening party created. Posting to Discord...',
+        message: party.status === 'SCHEDULED'
+          ? 'Listening party scheduled. Posting countdown to Discord...'
+          : 'Listening party created. Posting to Discord...',
       });
     } catch (err) {
       console.error('Error creating listening party:', err);
@@ -16,6 +16,28 @@ router.get('/status', (req, res) => {
   });
 });
 
+/**
+ * GET /api/rewards/tokens
+ * Tokens artists can currently use for party rewards
+ */
+router.get('/tokens', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const tokens = await PrismaDatabase.getAllEnabledTokens();
+    return res.json({
+      tokens: tokens.map((t) => ({
+        mint: t.mint,
+        symbol: t.symbol,
+        decimals: t.decimals,
+        logo_url: t.logo_url,
+        default_for_rewards: t.default_for_rewards,
+      })),
+    });
+  } catch (err) {
+    console.error('rewards/tokens error', err);
+    return res.status(500).json({ error: 'Failed to load tokens' });
+  }
+});
+
 // Recent rewards for current user
 // DEPRECATED: RewardAccrual table no longer exists
 // Use listening party claims instead
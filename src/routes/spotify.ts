@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requireServiceAuth } from '../middleware/auth';
 import { validate, commonSchemas } from '../middleware/validation';
 import SpotifyAuthService from '../services/spotify/SpotifyAuthService';
 import SpotifyApiService from '../services/spotify/SpotifyApiService';
+import spotifyVerification from '../services/spotifyVerification';
 import config from '../config/environment';
 import Joi from 'joi';
 
@@ -95,4 +96,124 @@ router.post('/queue',
   }
 );
 
+/**
+ * POST /api/spotify/reconnect
+ * Start a Spotify login for the signed-in user (the dashboard reconnect link redirects to the returned URL)
+ */
+router.post('/reconnect', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const state = await authService.createOAuthSession(req.sessionUser!.discordId);
+    return res.json({ url: authService.generateAuthUrl(state) });
+  } catch (err) {
+    console.error('Error starting Spotify reconnect:', err);
+    return res.status(500).json({ error: 'Failed to start Spotify login' });
+  }
+});
+
+/**
+ * POST /api/spotify/start-tracking
+ * Start tracking a user's listening session for a Spotify party
+ */
+router.post(
+  '/start-tracking',
+  requireServiceAuth,
+  validate({
+    body: Joi.object({
+      party_id: Joi.string().required(),
+      discord_id: Joi.string().required(),
+      track_id: Joi.string().required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { party_id, discord_id, track_id } = req.body;
+
+      const result = await spotifyVerification.startTracking(party_id, discord_id, track_id);
+
+      if (!result.success) {
+        return res.status(result.reconnectRequired ? 401 : 400).json({
+          success: false,
+          message: result.message,
+          reconnect_required: Boolean(result.reconnectRequired),
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: result.message,
+        participant_id: result.participantId,
+        linked_track_id: result.linkedTrackId || null,
+        is_premium: Boolean(result.isPremium),
+      });
+    } catch (error) {
+      console.error('Error starting Spotify tracking:', error);
+      return res.status(500).json({ error: 'Failed to start tracking' });
+    }
+  }
+);
+
+/**
+ * POST /api/spotify/heartbeat
+ * Record a heartbeat for active Spotify listening verification
+ */
+router.post(
+  '/heartbeat',
+  requireServiceAuth,
+  validate({
+    body: Joi.object({
+      party_id: Joi.string().required(),
+      discord_id: Joi.string().required(),
+      track_id: Joi.string().required(),
+      linked_track_id: Joi.string().allow(null).optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { party_id, discord_id, track_id, linked_track_id } = req.body;
+
+      const result = await spotifyVerification.recordHeartbeat(
+        party_id,
+        discord_id,
+        track_id,
+        linked_track_id || undefined
+      );
+
+      return res.json(result);
+    } catch (error) {
+      console.error('Error recording Spotify heartbeat:', error);
+      return res.status(500).json({ error: 'Failed to record heartbeat' });
+    }
+  }
+);
+
+/**
+ * POST /api/spotify/stop-tracking
+ * Stop tracking a user's Spotify listening session
+ */
+router.post(
+  '/stop-tracking',
+  requireServiceAuth,
+  validate({
+    body: Joi.object({
+      party_id: Joi.string().required(),
+      discord_id: Joi.string().required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { party_id, discord_id } = req.body;
+
+      await spotifyVerification.stopTracking(party_id, discord_id);
+
+      return res.json({
+        success: true,
+        message: 'Tracking stopped',
+      });
+    } catch (error) {
+      console.error('Error stopping Spotify tracking:', error);
+      return res.status(500).json({ error: 'Failed to stop tracking' });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,47 @@
+/**
+ * Track resolution routes
+ */
+
+import { Router, type Router as RouterType, Request, Response } from 'express';
+import Joi from 'joi';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import trackResolver, { TrackPlatform, TrackResolutionError } from '../services/trackResolver';
+
+const router: RouterType = Router();
+
+/**
+ * GET /api/tracks/resolve?input=...&platform=audius&match=true
+ * Normalize a Spotify link/URI, Audius link or ISRC into a PlatformTrack,
+ * optionally with the matching track on the other platform
+ */
+router.get(
+  '/resolve',
+  requireAuth,
+  validate({
+    query: Joi.object({
+      input: Joi.string().trim().max(500).required(),
+      platform: Joi.string().valid('spotify', 'audius').optional(), // for ISRCs and bare IDs
+      match: Joi.boolean().optional(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const { input, platform, match } = req.query as Record<string, string | undefined>;
+
+      const resolved = await trackResolver.resolve(input!, {
+        platform: platform ? (platform.toUpperCase() as TrackPlatform) : undefined,
+        matchOtherPlatform: match === 'true',
+      });
+      return res.json(resolved);
+    } catch (err) {
+      if (err instanceof TrackResolutionError) {
+        return res.status(err.statusCode).json({ error: err.message });
+      }
+      console.error('tracks/resolve error', err);
+      return res.status(502).json({ error: 'Track lookup failed' });
+    }
+  }
+);
+
+export default router;
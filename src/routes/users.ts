@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
 import PrismaDatabase from '../database/prisma';
+import { describeLinkedAccounts } from '../lib/linkedAccounts';
 
 const router: Router = Router();
 
@@ -29,7 +30,17 @@ router.get('/me', requireAuth, async (req: Request, res: Response) => {
             public_key: wallet.public_key,
             exported_at: wallet.exported_at
           }
-        : null
+        : null,
+      audius: user.audius_user_id
+        ? {
+            user_id: user.audius_user_id,
+            handle: user.audius_handle,
+            name: user.audius_name,
+            profile_picture: user.audius_profile_picture,
+            verified: user.audius_verified
+          }
+        : null,
+      linked_accounts: describeLinkedAccounts(user, wallet)
     });
   } catch (err) {
     console.error('users/me error', err);
@@ -3,14 +3,71 @@
  */
 
 import { Router, type Router as RouterType, Request, Response } from 'express';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, rejectSuspended } from '../middleware/auth';
 import { validate, commonSchemas } from '../middleware/validation';
+import RateLimiter from '../middleware/rateLimiter';
 import PrismaDatabase, { prisma } from '../database/prisma';
 import CachedDatabase from '../services/cachedDatabase';
 import WalletService from '../services/wallet';
+import SecurityService from '../services/security';
+import DMService from '../services/dmService';
+import actionTokenService, { ActionTokenError, IssuedActionToken } from '../services/actionTokens';
 import Joi from 'joi';
 
 const router: RouterType = Router();
+const securityService = new SecurityService();
+
+let dmService: DMService | null = null;
+
+interface PendingTransfer {
+  to_address: string;
+  amount: number;
+  token_mint: string | null;
+}
+
+/**
+ * Only custodial wallets can be exported or sent from here; Privy wallets are
+ * already under the user's control
+ */
+async function getCustodialWallet(discordId: string) {
+  const wallet = await PrismaDatabase.getUserWallet(discordId);
+  if (!wallet || wallet.privy_wallet_id || !wallet.encrypted_private_key) {
+    return null;
+  }
+  return wallet;
+}
+
+/**
+ * DM a confirmation code; the code never goes back over the HTTP response
+ */
+async function sendConfirmationCode(discordId: string, token: IssuedActionToken, title: string, details: string): Promise<boolean> {
+  if (!dmService) {
+    console.error('DM service not set for wallet routes');
+    return false;
+  }
+
+  return dmService.sendDM({
+    userId: discordId,
+    title,
+    message:
+      `${details}\n\n` +
+      `**Confirmation code:** \`${token.code}\`\n\n` +
+      `Enter this code on the dashboard to continue. It expires <t:${Math.floor(token.expiresAt.getTime() / 1000)}:R>.\n\n` +
+      `*If you didn't request this, ignore this message and nothing will happen.*`,
+    color: 0xF59E0B,
+  });
+}
+
+function handleIssueError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof ActionTokenError) {
+    if (err.retryAfterSeconds) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+    }
+    return res.status(429).json({ error: err.message });
+  }
+  console.error(fallback, err);
+  return res.status(500).json({ error: fallback });
+}
 
 router.get('/status', (req, res) => {
   res.json({ 
@@ -45,7 +102,7 @@ router.get('/me', requireAuth, async (req: Request, res: Response) => {
       public_key: wallet.public_key,
       balances,
       history,
-              exported_at: null
+      exported_at: wallet.exported_at
     });
   } catch (err) {
     console.error('wallet/me error', err);
@@ -268,6 +325,198 @@ router.get('/connect-url', async (req: Request, res: Response) => {
   }
 });
 
-// REMOVED: Unsafe wallet operations (export/transfer) - to be implemented later with proper security
+/**
+ * POST /api/wallet/export/start
+ * DM the user a one-time code to confirm exporting their custodial wallet's private key
+ */
+router.post('/export/start', RateLimiter.auth(), requireAuth, async (req: Request, res: Response) => {
+  try {
+    const discordId = req.sessionUser!.discordId;
+    const wallet = await getCustodialWallet(discordId);
+    if (!wallet) {
+      return res.status(404).json({ error: 'No exportable wallet found' });
+    }
+
+    const token = await actionTokenService.issue(discordId, 'EXPORT_WALLET');
+    const sent = await sendConfirmationCode(
+      discordId,
+      token,
+      '🔐 Confirm Wallet Export',
+      `Someone (hopefully you) asked to export the private key for wallet \`${wallet.public_key}\`.\n\n` +
+        `Anyone with this key has full control of the wallet.`
+    );
+
+    if (!sent) {
+      return res.status(502).json({ error: 'Could not send the confirmation code. Make sure you accept DMs from the bot.' });
+    }
+
+    return res.json({ success: true, expires_at: token.expiresAt });
+  } catch (err) {
+    return handleIssueError(res, err, 'Failed to start export');
+  }
+});
+
+/**
+ * POST /api/wallet/export/confirm
+ * Check the DM'd code and return the private key, marking the wallet as exported
+ */
+router.post(
+  '/export/confirm',
+  RateLimiter.auth(),
+  requireAuth,
+  validate({
+    body: Joi.object({
+      code: Joi.string().trim().pattern(/^\d{6}$/).required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    const discordId = req.sessionUser!.discordId;
+    try {
+      const result = await actionTokenService.consume(discordId, 'EXPORT_WALLET', req.body.code);
+      if (!result.ok) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.reason });
+      }
+
+      const wallet = await getCustodialWallet(discordId);
+      if (!wallet) {
+        return res.status(404).json({ error: 'No exportable wallet found' });
+      }
+
+      // getPrivateKey marks the wallet as exported
+      const privateKey = await new WalletService().getPrivateKey(discordId);
+
+      console.log(securityService.generateAuditLog('EXPORT_WALLET', discordId, { address: wallet.public_key }, 'SUCCESS'));
+
+      return res.json({
+        public_key: wallet.public_key,
+        private_key: privateKey,
+        exported_at: new Date(),
+      });
+    } catch (err) {
+      console.log(securityService.generateAuditLog('EXPORT_WALLET', discordId, {}, 'FAILURE'));
+      console.error('wallet/export/confirm error', err);
+      return res.status(500).json({ error: 'Failed to export' });
+    }
+  }
+);
+
+/**
+ * POST /api/wallet/transfer/start
+ * Validate a SOL or SPL token transfer and DM the user a code to confirm it
+ */
+router.post(
+  '/transfer/start',
+  RateLimiter.auth(),
+  requireAuth,
+  rejectSuspended,
+  validate({
+    body: Joi.object({
+      to_address: commonSchemas.walletAddress,
+      amount: Joi.number().positive().required(),
+      token_mint: commonSchemas.publicKey.optional().allow(null),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = req.sessionUser!.discordId;
+      const { to_address, amount, token_mint } = req.body;
+
+      const wallet = await getCustodialWallet(discordId);
+      if (!wallet) {
+        return res.status(404).json({ error: 'No custodial wallet found' });
+      }
+
+      if (to_address === wallet.public_key) {
+        return res.status(400).json({ error: 'Cannot transfer to your own wallet' });
+      }
+
+      const securityCheck = await securityService.validateWalletOperation({
+        userDiscordId: discordId,
+        recipientAddress: to_address,
+        amount,
+        tokenMint: token_mint || undefined,
+      });
+      if (!securityCheck.isValid) {
+        return res.status(400).json({ error: securityCheck.reason, risk_level: securityCheck.riskLevel });
+      }
+
+      // The confirmed code executes exactly this transfer, whatever the confirm request says
+      const transfer: PendingTransfer = { to_address, amount, token_mint: token_mint || null };
+      const token = await actionTokenService.issue(discordId, 'WALLET_TRANSFER', { ...transfer });
+
+      const sent = await sendConfirmationCode(
+        discordId,
+        token,
+        '💸 Confirm Transfer',
+        `**Amount:** ${amount} ${token_mint ? `tokens (\`${token_mint}\`)` : 'SOL'}\n` +
+          `**From:** \`${wallet.public_key}\`\n` +
+          `**To:** \`${to_address}\``
+      );
+
+      if (!sent) {
+        return res.status(502).json({ error: 'Could not send the confirmation code. Make sure you accept DMs from the bot.' });
+      }
+
+      return res.json({ success: true, expires_at: token.expiresAt, transfer });
+    } catch (err) {
+      return handleIssueError(res, err, 'Failed to start transfer');
+    }
+  }
+);
+
+/**
+ * POST /api/wallet/transfer/confirm
+ * Check the DM'd code and send the transfer it was issued for
+ */
+router.post(
+  '/transfer/confirm',
+  RateLimiter.auth(),
+  requireAuth,
+  rejectSuspended,
+  validate({
+    body: Joi.object({
+      code: Joi.string().trim().pattern(/^\d{6}$/).required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    const discordId = req.sessionUser!.discordId;
+    try {
+      const result = await actionTokenService.consume(discordId, 'WALLET_TRANSFER', req.body.code);
+      if (!result.ok) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.reason });
+      }
+
+      const transfer = result.payload as unknown as PendingTransfer;
+      const service = new WalletService();
+      const request = {
+        fromDiscordId: discordId,
+        toAddress: transfer.to_address,
+        amount: transfer.amount,
+        tokenMint: transfer.token_mint || undefined,
+      };
+      const sent = transfer.token_mint ? await service.transferToken(request) : await service.transferSOL(request);
+
+      console.log(securityService.generateAuditLog(
+        'WALLET_TRANSFER',
+        discordId,
+        { address: transfer.to_address, amount: transfer.amount, tokenMint: transfer.token_mint, signature: sent.signature },
+        sent.success ? 'SUCCESS' : 'FAILURE'
+      ));
+
+      if (!sent.success) {
+        return res.status(400).json({ error: sent.error || 'Transfer failed' });
+      }
+
+      return res.json({ success: true, signature: sent.signature, transfer });
+    } catch (err) {
+      console.error('wallet/transfer/confirm error', err);
+      return res.status(500).json({ error: 'Failed to confirm transfer' });
+    }
+  }
+);
+
+export function setDMService(service: DMService) {
+  dmService = service;
+}
 
 export default router;
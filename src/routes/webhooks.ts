@@ -2,11 +2,19 @@
  * Webhook routes for external services
  */
 
-import { Router, type Router as RouterType } from 'express';
+import { Router, type Router as RouterType, Request, Response } from 'express';
 import RateLimiter from '../middleware/rateLimiter';
+import type HeliusService from '../services/helius';
 
 const router: RouterType = Router();
 
+// Helius service (set by API server)
+let heliusService: HeliusService | null = null;
+
+export function setHeliusService(service: HeliusService) {
+  heliusService = service;
+}
+
 // Apply webhook-specific rate limiting
 router.use(RateLimiter.webhook());
 
@@ -18,11 +26,33 @@ router.get('/status', (req, res) => {
   });
 });
 
-// Placeholder webhook routes
-router.post('/helius', (req, res) => {
-  res.status(501).json({ error: 'Not implemented' });
+/**
+ * POST /api/webhooks/helius
+ * Enhanced transaction webhook from Helius (deposits and raid_escrow activity)
+ */
+router.post('/helius', async (req: Request, res: Response) => {
+  if (!heliusService) {
+    return res.status(503).json({ error: 'Helius ingestion not initialized' });
+  }
+
+  if (!heliusService.verifyWebhookAuth(req.headers.authorization)) {
+    return res.status(401).json({ error: 'Invalid webhook authorization' });
+  }
+
+  if (!req.body || (typeof req.body !== 'object')) {
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  try {
+    const result = await heliusService.ingestWebhook(req.body);
+    return res.json({ success: true, ...result });
+  } catch (err) {
+    console.error('Error ingesting Helius webhook:', err);
+    return res.status(500).json({ error: 'Failed to ingest webhook' });
+  }
 });
 
+// Placeholder webhook routes
 router.post('/spotify', (req, res) => {
   res.status(501).json({ error: 'Not implemented' });
 });
@@ -0,0 +1,235 @@
+/**
+ * Withdrawal routes
+ * Requests are confirmed with a DM'd code and then paid out by the withdrawal worker
+ */
+
+import { Router, type Router as RouterType, Request, Response, NextFunction } from 'express';
+import { Withdrawal } from '@prisma/client';
+import { requireAuth, rejectSuspended } from '../middleware/auth';
+import { validate, commonSchemas } from '../middleware/validation';
+import RateLimiter from '../middleware/rateLimiter';
+import WithdrawalService, { WithdrawalInput } from '../services/withdrawals';
+import SecurityService from '../services/security';
+import DMService from '../services/dmService';
+import actionTokenService, { ActionTokenError } from '../services/actionTokens';
+import config from '../config/environment';
+import Joi from 'joi';
+
+const router: RouterType = Router();
+const withdrawalService = new WithdrawalService();
+const securityService = new SecurityService();
+
+let dmService: DMService | null = null;
+
+const withdrawalSchema = Joi.object({
+  to_address: commonSchemas.walletAddress,
+  amount: Joi.number().positive().required(),
+  token_mint: commonSchemas.publicKey.optional().allow(null),
+  swap_to_sol: Joi.boolean().default(false),
+});
+
+function toInput(body: any): WithdrawalInput {
+  return {
+    toAddress: body.to_address,
+    amount: Number(body.amount),
+    tokenMint: body.token_mint || undefined,
+    // Query strings arrive as text
+    swapToSol: body.swap_to_sol === true || body.swap_to_sol === 'true',
+  };
+}
+
+/**
+ * Refuse new withdrawals while the feature is off, like the /withdraw command
+ * (no worker runs to send them)
+ */
+function requireWithdrawalsEnabled(req: Request, res: Response, next: NextFunction) {
+  if (!config.features.enableWithdrawals) {
+    return res.status(503).json({ error: 'Withdrawals are not enabled right now. Please try again later.' });
+  }
+  return next();
+}
+
+/** BigInt columns don't survive JSON.stringify */
+function serializeWithdrawal(withdrawal: Withdrawal) {
+  return { ...withdrawal, payout_lamports: withdrawal.payout_lamports?.toString() ?? null };
+}
+
+/**
+ * GET /api/withdrawals
+ * Recent withdrawals for the current user plus the limits that apply
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const withdrawals = await withdrawalService.listWithdrawals(req.sessionUser!.discordId);
+
+    return res.json({
+      withdrawals: withdrawals.map(serializeWithdrawal),
+      limits: {
+        min_sol: config.withdrawal.minSol,
+        fee_sol: config.withdrawal.feeWallet ? config.withdrawal.feeSol : 0,
+        max_daily: config.withdrawal.maxDailyWithdrawals,
+      },
+    });
+  } catch (err) {
+    console.error('withdrawals/list error', err);
+    return res.status(500).json({ error: 'Failed to load withdrawals' });
+  }
+});
+
+/**
+ * GET /api/withdrawals/eligibility
+ * Price a withdrawal and report whether it can go ahead, without creating it
+ */
+router.get(
+  '/eligibility',
+  requireAuth,
+  validate({ query: withdrawalSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await withdrawalService.checkEligibility(req.sessionUser!.discordId, toInput(req.query));
+      return res.json(result);
+    } catch (err) {
+      console.error('withdrawals/eligibility error', err);
+      return res.status(500).json({ error: 'Failed to check eligibility' });
+    }
+  }
+);
+
+/**
+ * POST /api/withdrawals/start
+ * Validate a withdrawal and DM the user a code to confirm it
+ */
+router.post(
+  '/start',
+  requireWithdrawalsEnabled,
+  RateLimiter.auth(),
+  requireAuth,
+  rejectSuspended,
+  validate({ body: withdrawalSchema }),
+  async (req: Request, res: Response) => {
+    try {
+      const discordId = req.sessionUser!.discordId;
+      const input = toInput(req.body);
+
+      const eligibility = await withdrawalService.checkEligibility(discordId, input);
+      if (!eligibility.eligible) {
+        return res.status(400).json({ error: eligibility.reason, quote: eligibility.quote });
+      }
+
+      if (!dmService) {
+        console.error('DM service not set for withdrawal routes');
+        return res.status(502).json({ error: 'Could not send the confirmation code' });
+      }
+
+      // The confirmed code creates exactly this withdrawal, whatever the confirm request says
+      const { quote } = eligibility;
+      const token = await actionTokenService.issue(discordId, 'WITHDRAWAL', { ...input });
+
+      const sent = await dmService.sendDM({
+        userId: discordId,
+        title: '🏧 Confirm Withdrawal',
+        message:
+          `**Amount:** ${quote.amount} ${quote.symbol}${quote.swapToSol ? ' (swapped to SOL)' : ''}\n` +
+          (quote.payoutSol !== null ? `**You receive:** ~${quote.payoutSol} SOL\n` : '') +
+          `**Fee:** ${quote.feeSol} SOL\n` +
+          `**To:** \`${input.toAddress}\`\n\n` +
+          `**Confirmation code:** \`${token.code}\`\n\n` +
+          `Enter this code on the dashboard to continue. It expires <t:${Math.floor(token.expiresAt.getTime() / 1000)}:R>.\n\n` +
+          `*If you didn't request this, ignore this message and nothing will happen.*`,
+        color: 0xF59E0B,
+      });
+
+      if (!sent) {
+        return res.status(502).json({ error: 'Could not send the confirmation code. Make sure you accept DMs from the bot.' });
+      }
+
+      return res.json({ success: true, expires_at: token.expiresAt, quote });
+    } catch (err) {
+      if (err instanceof ActionTokenError) {
+        if (err.retryAfterSeconds) {
+          res.setHeader('Retry-After', String(err.retryAfterSeconds));
+        }
+        return res.status(429).json({ error: err.message });
+      }
+      console.error('withdrawals/start error', err);
+      return res.status(500).json({ error: 'Failed to start withdrawal' });
+    }
+  }
+);
+
+/**
+ * POST /api/withdrawals/confirm
+ * Check the DM'd code and queue the withdrawal it was issued for
+ */
+router.post(
+  '/confirm',
+  requireWithdrawalsEnabled,
+  RateLimiter.auth(),
+  requireAuth,
+  rejectSuspended,
+  validate({
+    body: Joi.object({
+      code: Joi.string().trim().pattern(/^\d{6}$/).required(),
+    }),
+  }),
+  async (req: Request, res: Response) => {
+    const discordId = req.sessionUser!.discordId;
+    try {
+      const result = await actionTokenService.consume(discordId, 'WITHDRAWAL', req.body.code);
+      if (!result.ok) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.reason });
+      }
+
+      const input = result.payload as unknown as WithdrawalInput;
+      const created = await withdrawalService.createWithdrawal(discordId, input);
+
+      console.log(securityService.generateAuditLog(
+        'WITHDRAWAL_REQUEST',
+        discordId,
+        { address: input.toAddress, amount: input.amount, tokenMint: input.tokenMint, withdrawalId: created.withdrawal?.id },
+        created.withdrawal ? 'SUCCESS' : 'FAILURE'
+      ));
+
+      if (!created.withdrawal) {
+        return res.status(400).json({ error: created.error, quote: created.quote });
+      }
+
+      return res.status(201).json({
+        success: true,
+        withdrawal: serializeWithdrawal(created.withdrawal),
+        quote: created.quote,
+      });
+    } catch (err) {
+      console.error('withdrawals/confirm error', err);
+      return res.status(500).json({ error: 'Failed to confirm withdrawal' });
+    }
+  }
+);
+
+/**
+ * POST /api/withdrawals/:id/cancel
+ * Cancel a queued withdrawal before the worker picks it up
+ */
+router.post(
+  '/:id/cancel',
+  requireAuth,
+  validate({ params: Joi.object({ id: Joi.string().uuid().required() }) }),
+  async (req: Request, res: Response) => {
+    try {
+      const cancelled = await withdrawalService.cancelWithdrawal(req.sessionUser!.discordId, req.params.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: 'Only pending withdrawals can be cancelled' });
+      }
+      return res.json({ success: true });
+    } catch (err) {
+      console.error('withdrawals/cancel error', err);
+      return res.status(500).json({ error: 'Failed to cancel withdrawal' });
+    }
+  }
+);
+
+export function setDMService(service: DMService) {
+  dmService = service;
+}
+
+export default router;
@@ -10,17 +10,18 @@ import rateLimiter from './middleware/rateLimiter';
 
 // Import routes
 import authRoutes, { setOAuthServer, setDMService } from './routes/auth';
-import walletRoutes from './routes/wallet';
+import walletRoutes, { setDMService as setWalletDMService } from './routes/wallet';
 import usersRoutes from './routes/users';
 import raidsRoutes from './routes/raids';
 import adminRoutes from './routes/admin';
 import rewardsRoutes from './routes/rewards';
-// REMOVED: import withdrawalRoutes from './routes/withdrawals'; // Unsafe - to be implemented later
-import webhookRoutes from './routes/webhooks';
+import withdrawalRoutes, { setDMService as setWithdrawalDMService } from './routes/withdrawals';
+import webhookRoutes, { setHeliusService } from './routes/webhooks';
 import spotifyRoutes from './routes/spotify';
 import audiusRoutes from './routes/audius';
 import listeningPartiesRoutes, { setPartyPoster } from './routes/listening-parties';
 import discordRoutes, { setDiscordClient as setDiscordRouteClient } from './routes/discord';
+import tracksRoutes from './routes/tracks';
 
 // Import OAuth server
 import OAuthServer from './services/oauthServer';
@@ -28,9 +29,11 @@ import OAuthServer from './services/oauthServer';
 // Import services
 import HeliusService from './services/helius';
 import RewardsService from './services/rewards';
+import WithdrawalService from './services/withdrawals';
 import DMService from './services/dmService';
 import cacheService from './services/cache';
 import CachedDatabase from './services/cachedDatabase';
+import keyRotationService from './services/keyRotation';
 
 interface ApiError extends Error {
   status?: number;
@@ -42,6 +45,7 @@ class ApiServer {
   private port: number;
   private heliusService: HeliusService;
   private rewardsService: RewardsService;
+  private withdrawalService: WithdrawalService;
   private oauthServer: OAuthServer;
   private dmService: DMService;
 
@@ -50,7 +54,9 @@ class ApiServer {
     this.port = config.api.port;
     this.heliusService = new HeliusService();
     this.rewardsService = new RewardsService();
+    this.withdrawalService = new WithdrawalService();
     this.dmService = new DMService();
+    setHeliusService(this.heliusService);
     // OAuth server will be set by the bot when it starts
     this.oauthServer = null as any;
   }
@@ -70,6 +76,9 @@ class ApiServer {
   setDiscordClient(client: any): void {
     this.dmService.setClient(client);
     setDMService(this.dmService);
+    setWalletDMService(this.dmService);
+    setWithdrawalDMService(this.dmService);
+    this.withdrawalService.setDMService(this.dmService);
     setDiscordRouteClient(client);
     console.log('🤖 Discord client connected to DM service and Discord routes');
   }
@@ -118,8 +127,13 @@ class ApiServer {
       allowedHeaders: ['Content-Type', 'Authorization', 'helius-signature']
     }));
 
-    // Request parsing
-    this.app.use(express.json({ limit: '10mb' }));
+    // Request parsing (keep the raw bytes for signature verification)
+    this.app.use(express.json({
+      limit: '10mb',
+      verify: (req, _res, buf) => {
+        (req as Request).rawBody = buf;
+      }
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Logging
@@ -169,12 +183,13 @@ class ApiServer {
     this.app.use('/api/raids', raidsRoutes);
     this.app.use('/api/admin', adminRoutes);
     this.app.use('/api/rewards', rewardsRoutes);
-    // REMOVED: this.app.use('/api/withdrawals', withdrawalRoutes); // Unsafe - to be implemented later
+    this.app.use('/api/withdrawals', withdrawalRoutes);
     this.app.use('/api/spotify', spotifyRoutes);
     this.app.use('/api/audius', audiusRoutes);
     this.app.use('/api/webhooks', webhookRoutes);
     this.app.use('/api/listening-parties', listeningPartiesRoutes);
     this.app.use('/api/discord', discordRoutes);
+    this.app.use('/api/tracks', tracksRoutes);
 
     // 404 handler
     this.app.use('*', (req: Request, res: Response) => {
@@ -213,7 +228,7 @@ class ApiServer {
     try {
       // Initialize Helius WebSocket connection
       if (config.features.enableWebhooks) {
-        this.heliusService.initWebSocket();
+        await this.heliusService.initWebSocket();
       }
 
       // Start automated settlement processing
@@ -221,6 +236,14 @@ class ApiServer {
         this.rewardsService.startAutomatedSettlement();
       }
 
+      // Start the withdrawal payout worker
+      if (config.features.enableWithdrawals) {
+        this.withdrawalService.start();
+      }
+
+      // Pick up a key rotation interrupted by a restart
+      await keyRotationService.resumeUnfinished();
+
       // Warm up cache with frequently accessed data
       await CachedDatabase.warmUpCache();
 
@@ -273,6 +296,7 @@ class ApiServer {
       // Close service connections
       await this.heliusService.disconnect();
       await this.rewardsService.disconnect();
+      this.withdrawalService.stop();
       
       // Stop OAuth server if it exists
       if (this.oauthServer) {
@@ -0,0 +1,155 @@
+/**
+ * Action Token Service
+ * One-time confirmation codes for sensitive wallet operations (step-up confirmation).
+ * Codes are delivered out of band (Discord DM), stored hashed, expire quickly and
+ * lock after a few wrong guesses.
+ */
+
+import * as crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import config from '../config/environment';
+
+export type ActionTokenAction = 'EXPORT_WALLET' | 'WALLET_TRANSFER' | 'WITHDRAWAL';
+
+/** How long a code stays valid */
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+/** Wrong guesses allowed before the code is burned */
+const MAX_ATTEMPTS = 5;
+
+/** Minimum gap between issuing codes for the same action, to stop DM spam */
+const REISSUE_COOLDOWN_MS = 30 * 1000;
+
+const CODE_LENGTH = 6;
+
+export interface IssuedActionToken {
+  id: string;
+  code: string;
+  expiresAt: Date;
+}
+
+export type ActionTokenResult =
+  | { ok: true; payload: Prisma.JsonValue | null }
+  | { ok: false; reason: string; locked?: boolean };
+
+export class ActionTokenError extends Error {
+  retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ActionTokenError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+class ActionTokenService {
+  /**
+   * Issue a new code for an action, replacing any code still pending for it
+   */
+  async issue(discordId: string, action: ActionTokenAction, payload?: Prisma.InputJsonValue): Promise<IssuedActionToken> {
+    const now = new Date();
+
+    const recent = await prisma.actionToken.findFirst({
+      where: {
+        user_discord_id: discordId,
+        action,
+        created_at: { gt: new Date(now.getTime() - REISSUE_COOLDOWN_MS) },
+      },
+      orderBy: { created_at: 'desc' },
+    });
+
+    if (recent) {
+      const retryAfter = Math.ceil((recent.created_at.getTime() + REISSUE_COOLDOWN_MS - now.getTime()) / 1000);
+      throw new ActionTokenError(`Please wait ${retryAfter}s before requesting another code`, retryAfter);
+    }
+
+    // Only the newest code for an action is ever valid
+    await prisma.actionToken.updateMany({
+      where: { user_discord_id: discordId, action, used_at: null, expires_at: { gt: now } },
+      data: { expires_at: now },
+    });
+
+    const id = crypto.randomUUID();
+    const code = crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+    const expiresAt = new Date(now.getTime() + CODE_TTL_MS);
+
+    await prisma.actionToken.create({
+      data: {
+        id,
+        user_discord_id: discordId,
+        action,
+        code: this.hashCode(id, code),
+        payload,
+        expires_at: expiresAt,
+      },
+    });
+
+    return { id, code, expiresAt };
+  }
+
+  /**
+   * Check a code against the user's pending token for an action and use it up.
+   * Returns the payload that was confirmed when the code was issued.
+   */
+  async consume(discordId: string, action: ActionTokenAction, code: string): Promise<ActionTokenResult> {
+    const now = new Date();
+    const token = await prisma.actionToken.findFirst({
+      where: { user_discord_id: discordId, action, used_at: null, expires_at: { gt: now } },
+      orderBy: { created_at: 'desc' },
+    });
+
+    if (!token) {
+      return { ok: false, reason: 'No pending confirmation. Request a new code.' };
+    }
+
+    // Count the attempt before checking the code, atomically, so parallel guesses can't exceed the limit
+    const claimed = await prisma.actionToken.updateMany({
+      where: { id: token.id, used_at: null, attempts: { lt: MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 }, last_attempt_at: now },
+    });
+
+    if (claimed.count === 0) {
+      return { ok: false, reason: 'Too many incorrect attempts. Request a new code.', locked: true };
+    }
+
+    const expected = Buffer.from(token.code, 'hex');
+    const actual = Buffer.from(this.hashCode(token.id, code.trim()), 'hex');
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      const { attempts } = await prisma.actionToken.findUniqueOrThrow({
+        where: { id: token.id },
+        select: { attempts: true },
+      });
+
+      if (attempts >= MAX_ATTEMPTS) {
+        // Burn the code on the last allowed attempt
+        await prisma.actionToken.update({ where: { id: token.id }, data: { expires_at: now } });
+      }
+
+      const remaining = MAX_ATTEMPTS - attempts;
+      return remaining > 0
+        ? { ok: false, reason: `Incorrect code. ${remaining} attempt(s) remaining.` }
+        : { ok: false, reason: 'Too many incorrect attempts. Request a new code.', locked: true };
+    }
+
+    // Guard against the same code being confirmed twice concurrently
+    const { count } = await prisma.actionToken.updateMany({
+      where: { id: token.id, used_at: null },
+      data: { used_at: now },
+    });
+
+    if (count === 0) {
+      return { ok: false, reason: 'This code has already been used.' };
+    }
+
+    return { ok: true, payload: token.payload };
+  }
+
+  private hashCode(tokenId: string, code: string): string {
+    return crypto.createHmac('sha256', config.security.jwtSecret).update(`${tokenId}:${code}`).digest('hex');
+  }
+}
+
+const actionTokenService = new ActionTokenService();
+export default actionTokenService;
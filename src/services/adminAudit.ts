@@ -0,0 +1,79 @@
+/**
+ * Admin Audit Service
+ * Records every privileged admin action so role changes, suspensions and
+ * token registry edits can be traced back to who made them and why.
+ */
+
+import { AdminAuditLog, Prisma } from '@prisma/client';
+import { prisma } from '../database/prisma';
+
+export type AdminAuditAction =
+  | 'USER_ROLE_CHANGED'
+  | 'USER_SUSPENDED'
+  | 'USER_UNSUSPENDED'
+  | 'TOKEN_ADDED'
+  | 'TOKEN_UPDATED'
+  | 'TOKEN_REMOVED'
+  | 'ENCRYPTION_ROTATION_STARTED';
+
+export type AdminAuditTarget = 'USER' | 'TOKEN' | 'ENCRYPTION_KEY';
+
+export interface AdminAuditEntry {
+  actorDiscordId: string;
+  action: AdminAuditAction;
+  targetType: AdminAuditTarget;
+  targetId: string;
+  reason?: string | null;
+  details?: Prisma.InputJsonValue;
+}
+
+export interface AdminAuditQuery {
+  targetType?: AdminAuditTarget;
+  targetId?: string;
+  actorDiscordId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+class AdminAuditService {
+  async record(entry: AdminAuditEntry, tx: Prisma.TransactionClient = prisma): Promise<AdminAuditLog> {
+    const log = await tx.adminAuditLog.create({
+      data: {
+        actor_discord_id: entry.actorDiscordId,
+        action: entry.action,
+        target_type: entry.targetType,
+        target_id: entry.targetId,
+        reason: entry.reason ?? null,
+        details: entry.details,
+      },
+    });
+
+    console.log(`🛡️ Admin ${entry.actorDiscordId} ${entry.action} ${entry.targetType.toLowerCase()} ${entry.targetId}${entry.reason ? ` (${entry.reason})` : ''}`);
+    return log;
+  }
+
+  async list(query: AdminAuditQuery = {}): Promise<{ entries: AdminAuditLog[]; total: number }> {
+    const page = Math.max(1, query.page ?? 1);
+    const pageSize = Math.min(100, Math.max(1, query.pageSize ?? 50));
+    const where: Prisma.AdminAuditLogWhereInput = {
+      target_type: query.targetType,
+      target_id: query.targetId,
+      actor_discord_id: query.actorDiscordId,
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.adminAuditLog.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.adminAuditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+}
+
+const adminAuditService = new AdminAuditService();
+export default adminAuditService;
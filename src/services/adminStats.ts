@@ -0,0 +1,219 @@
+/**
+ * Admin Stats Service
+ * Platform-wide metrics for the admin dashboard. Every metric is scoped to the
+ * same time range and the whole report is cached briefly, since the counts
+ * scan large tables (participants, heartbeats).
+ */
+
+import { Platform } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import cacheService, { CacheKeys, CacheTTL } from './cache';
+import { formatRawAmount } from '../lib/tokenAmounts';
+import { TimeRange } from '../lib/timeRange';
+
+export interface PlatformStats {
+  range: { from: string | null; to: string };
+  generated_at: string;
+  users: {
+    total: number;
+    by_role: Record<'FAN' | 'ARTIST' | 'SUPER_ADMIN', number>;
+    by_platform: { spotify: number; audius: number; both: number; none: number };
+    suspended: number;
+  };
+  parties: { total: number; active: number; scheduled: number; ended: number; cancelled: number };
+  funnel: {
+    joined: number;
+    qualified: number;
+    claimed: number;
+    held_for_review: number;
+    qualify_rate: number; // qualified / joined
+    claim_rate: number; // claimed / qualified
+    // by the platform listening was verified on; null = never verified
+    by_platform: Array<{ platform: Platform | null; joined: number; qualified: number; claimed: number }>;
+  };
+  tokens_distributed: Array<{ mint: string; symbol: string | null; claims: number; raw_amount: string; amount: string | null }>;
+  deposits: { pending: number; confirmed: number; failed: number };
+  withdrawals: { pending: number; processing: number; completed: number; failed: number; cancelled: number };
+  heartbeats: { total: number; playing: number; credited_seconds: number };
+}
+
+class AdminStatsService {
+  async getStats(range: TimeRange): Promise<PlatformStats> {
+    const key = CacheKeys.ADMIN_STATS(range.from?.getTime() ?? 0, range.to.getTime());
+    return cacheService.getOrSet(key, () => this.computeStats(range), CacheTTL.SHORT);
+  }
+
+  private async computeStats(range: TimeRange): Promise<PlatformStats> {
+    const within = { ...(range.from ? { gte: range.from } : {}), lt: range.to };
+    const now = new Date();
+
+    const [
+      usersByRole,
+      spotifyUsers,
+      audiusUsers,
+      bothUsers,
+      suspendedUsers,
+      partiesByStatus,
+      expiredActiveParties,
+      joined,
+      qualified,
+      claimed,
+      heldForReview,
+      joinedByPlatform,
+      qualifiedByPlatform,
+      claimedByPlatform,
+      claimsByParty,
+      depositsByStatus,
+      withdrawalsByStatus,
+      heartbeatsByPlaying,
+    ] = await Promise.all([
+      prisma.user.groupBy({ by: ['role'], where: { createdAt: within }, _count: { _all: true } }),
+      prisma.user.count({ where: { createdAt: within, spotify_user_id: { not: null }, NOT: { spotify_user_id: '' } } }),
+      prisma.user.count({ where: { createdAt: within, audius_user_id: { not: null } } }),
+      prisma.user.count({
+        where: { createdAt: within, spotify_user_id: { not: null }, NOT: { spotify_user_id: '' }, audius_user_id: { not: null } },
+      }),
+      prisma.user.count({ where: { createdAt: within, suspended_at: { not: null } } }),
+      prisma.listeningParty.groupBy({ by: ['status'], where: { created_at: within }, _count: { _all: true } }),
+      // ACTIVE rows stay ACTIVE until settlement runs; past expiry they have ended
+      prisma.listeningParty.count({ where: { created_at: within, status: 'ACTIVE', expires_at: { lte: now } } }),
+      prisma.listeningPartyParticipant.count({ where: { joined_at: within } }),
+      prisma.listeningPartyParticipant.count({ where: { joined_at: within, qualified_at: { not: null } } }),
+      prisma.listeningPartyParticipant.count({ where: { joined_at: within, claimed_at: { not: null } } }),
+      prisma.listeningPartyParticipant.count({ where: { joined_at: within, review_status: 'PENDING_REVIEW' } }),
+      prisma.listeningPartyParticipant.groupBy({ by: ['platform'], where: { joined_at: within }, _count: { _all: true } }),
+      prisma.listeningPartyParticipant.groupBy({
+        by: ['platform'],
+        where: { joined_at: within, qualified_at: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.listeningPartyParticipant.groupBy({
+        by: ['platform'],
+        where: { joined_at: within, claimed_at: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.listeningPartyParticipant.groupBy({ by: ['party_id'], where: { claimed_at: within }, _count: { _all: true } }),
+      prisma.artistDeposit.groupBy({ by: ['status'], where: { created_at: within }, _count: { _all: true } }),
+      prisma.withdrawal.groupBy({ by: ['status'], where: { created_at: within }, _count: { _all: true } }),
+      prisma.listeningHeartbeat.groupBy({
+        by: ['is_playing'],
+        where: { recorded_at: within },
+        _count: { _all: true },
+        _sum: { duration_seconds: true },
+      }),
+    ]);
+
+    const countBy = <K extends string>(rows: Array<{ _count: { _all: number } } & Record<string, unknown>>, field: string, key: K) =>
+      rows.find((row) => row[field] === key)?._count._all ?? 0;
+
+    const totalUsers = usersByRole.reduce((sum, row) => sum + row._count._all, 0);
+    const activeParties = countBy(partiesByStatus, 'status', 'ACTIVE') - expiredActiveParties;
+
+    return {
+      range: { from: range.from?.toISOString() ?? null, to: range.to.toISOString() },
+      generated_at: now.toISOString(),
+      users: {
+        total: totalUsers,
+        by_role: {
+          FAN: countBy(usersByRole, 'role', 'FAN'),
+          ARTIST: countBy(usersByRole, 'role', 'ARTIST'),
+          SUPER_ADMIN: countBy(usersByRole, 'role', 'SUPER_ADMIN'),
+        },
+        by_platform: {
+          spotify: spotifyUsers,
+          audius: audiusUsers,
+          both: bothUsers,
+          none: totalUsers - spotifyUsers - audiusUsers + bothUsers,
+        },
+        suspended: suspendedUsers,
+      },
+      parties: {
+        total: partiesByStatus.reduce((sum, row) => sum + row._count._all, 0),
+        active: activeParties,
+        scheduled: countBy(partiesByStatus, 'status', 'SCHEDULED'),
+        ended: countBy(partiesByStatus, 'status', 'COMPLETED') + expiredActiveParties,
+        cancelled: countBy(partiesByStatus, 'status', 'CANCELLED'),
+      },
+      funnel: {
+        joined,
+        qualified,
+        claimed,
+        held_for_review: heldForReview,
+        qualify_rate: joined ? qualified / joined : 0,
+        claim_rate: qualified ? claimed / qualified : 0,
+        by_platform: joinedByPlatform
+          .map((row) => ({
+            platform: row.platform,
+            joined: row._count._all,
+            qualified: qualifiedByPlatform.find((q) => q.platform === row.platform)?._count._all ?? 0,
+            claimed: claimedByPlatform.find((c) => c.platform === row.platform)?._count._all ?? 0,
+          }))
+          .sort((a, b) => b.joined - a.joined),
+      },
+      tokens_distributed: await this.sumDistributedTokens(claimsByParty),
+      deposits: {
+        pending: countBy(depositsByStatus, 'status', 'PENDING'),
+        confirmed: countBy(depositsByStatus, 'status', 'CONFIRMED'),
+        failed: countBy(depositsByStatus, 'status', 'FAILED'),
+      },
+      withdrawals: {
+        pending: countBy(withdrawalsByStatus, 'status', 'PENDING'),
+        processing: countBy(withdrawalsByStatus, 'status', 'PROCESSING'),
+        completed: countBy(withdrawalsByStatus, 'status', 'COMPLETED'),
+        failed: countBy(withdrawalsByStatus, 'status', 'FAILED'),
+        cancelled: countBy(withdrawalsByStatus, 'status', 'CANCELLED'),
+      },
+      heartbeats: {
+        total: heartbeatsByPlaying.reduce((sum, row) => sum + row._count._all, 0),
+        playing: heartbeatsByPlaying.find((row) => row.is_playing)?._count._all ?? 0,
+        credited_seconds: heartbeatsByPlaying.reduce((sum, row) => sum + (row._sum.duration_seconds ?? 0), 0),
+      },
+    };
+  }
+
+  /**
+   * Claims pay tokens_per_participant of the party's mint, so total per mint is
+   * claims x reward summed over the parties claimed from in the range
+   */
+  private async sumDistributedTokens(
+    claimsByParty: Array<{ party_id: string; _count: { _all: number } }>
+  ): Promise<PlatformStats['tokens_distributed']> {
+    if (!claimsByParty.length) {
+      return [];
+    }
+
+    const parties = await prisma.listeningParty.findMany({
+      where: { id: { in: claimsByParty.map((row) => row.party_id) } },
+      select: { id: true, token_mint: true, tokens_per_participant: true },
+    });
+    const partyById = new Map(parties.map((party) => [party.id, party]));
+
+    const totals = new Map<string, { claims: number; raw: bigint }>();
+    for (const row of claimsByParty) {
+      const party = partyById.get(row.party_id);
+      if (!party) continue;
+      const total = totals.get(party.token_mint) ?? { claims: 0, raw: BigInt(0) };
+      total.claims += row._count._all;
+      total.raw += BigInt(row._count._all) * party.tokens_per_participant;
+      totals.set(party.token_mint, total);
+    }
+
+    const tokens = await prisma.token.findMany({ where: { mint: { in: [...totals.keys()] } } });
+    const tokenByMint = new Map(tokens.map((token) => [token.mint, token]));
+
+    return [...totals.entries()]
+      .map(([mint, total]) => {
+        const token = tokenByMint.get(mint);
+        return {
+          mint,
+          symbol: token?.symbol ?? null,
+          claims: total.claims,
+          raw_amount: total.raw.toString(),
+          amount: token ? formatRawAmount(total.raw, token.decimals) : null,
+        };
+      })
+      .sort((a, b) => b.claims - a.claims);
+  }
+}
+
+export default AdminStatsService;
@@ -0,0 +1,283 @@
+/**
+ * Admin User Service
+ * Searching users and the privileged actions admins take on them: role changes
+ * (kept in sync with the admins table) and suspensions. Every change is audited.
+ */
+
+import { Prisma, User, UserRole } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import adminAuditService from './adminAudit';
+
+export type LinkedPlatformFilter = 'spotify' | 'audius' | 'none';
+export type WalletStatusFilter = 'custodial' | 'privy' | 'exported' | 'none';
+
+export interface AdminUserQuery {
+  search?: string;
+  role?: UserRole;
+  platform?: LinkedPlatformFilter;
+  wallet?: WalletStatusFilter;
+  suspended?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AdminUserSummary {
+  id: string;
+  discord_id: string;
+  discord_username: string | null;
+  name: string | null;
+  image: string | null;
+  role: UserRole;
+  platforms: { spotify: boolean; audius: boolean };
+  wallet: { public_key: string; type: 'custodial' | 'privy'; exported_at: Date | null } | null;
+  total_parties_participated: number;
+  total_rewards_claimed: number;
+  suspended_at: Date | null;
+  suspended_reason: string | null;
+  created_at: Date;
+}
+
+export class AdminUserError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'AdminUserError';
+    this.statusCode = statusCode;
+  }
+}
+
+const userWithWallets = Prisma.validator<Prisma.UserDefaultArgs>()({
+  include: { wallets: { orderBy: { created_at: 'asc' }, take: 1 } },
+});
+
+type UserWithWallets = Prisma.UserGetPayload<typeof userWithWallets>;
+
+class AdminUserService {
+  async listUsers(query: AdminUserQuery = {}): Promise<{ users: AdminUserSummary[]; total: number; page: number; page_size: number }> {
+    const page = Math.max(1, query.page ?? 1);
+    const pageSize = Math.min(100, Math.max(1, query.pageSize ?? 25));
+    const where = this.buildWhere(query);
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        ...userWithWallets,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users: users.map((user) => this.summarize(user)), total, page, page_size: pageSize };
+  }
+
+  async getUser(discordId: string): Promise<AdminUserSummary | null> {
+    const user = await prisma.user.findUnique({ where: { discord_id: discordId }, ...userWithWallets });
+    return user ? this.summarize(user) : null;
+  }
+
+  /**
+   * Change a user's role. SUPER_ADMIN is mirrored into the admins table so
+   * PrismaDatabase.isAdmin and the role always agree.
+   */
+  async changeRole(actorDiscordId: string, discordId: string, role: UserRole, reason: string): Promise<User> {
+    const user = await this.requireTarget(actorDiscordId, discordId);
+
+    if (user.role === role) {
+      throw new AdminUserError(`User is already ${role}`, 409);
+    }
+    if (role !== 'SUPER_ADMIN' && this.isConfiguredAdmin(discordId)) {
+      throw new AdminUserError('This admin is configured through SUPER_ADMIN_IDS and cannot be demoted here', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({ where: { discord_id: discordId }, data: { role } });
+
+      if (role === 'SUPER_ADMIN') {
+        await tx.admin.upsert({
+          where: { discord_id: discordId },
+          update: {},
+          create: { discord_id: discordId, added_by: actorDiscordId },
+        });
+      } else {
+        await tx.admin.deleteMany({ where: { discord_id: discordId } });
+      }
+
+      await adminAuditService.record({
+        actorDiscordId,
+        action: 'USER_ROLE_CHANGED',
+        targetType: 'USER',
+        targetId: discordId,
+        reason,
+        details: { from: user.role, to: role },
+      }, tx);
+
+      return updated;
+    });
+  }
+
+  async suspend(actorDiscordId: string, discordId: string, reason: string): Promise<User> {
+    const user = await this.requireTarget(actorDiscordId, discordId);
+
+    if (user.suspended_at) {
+      throw new AdminUserError('User is already suspended', 409);
+    }
+    if (user.role === 'SUPER_ADMIN' || this.isConfiguredAdmin(discordId)) {
+      throw new AdminUserError('Demote an admin before suspending them', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { discord_id: discordId },
+        data: { suspended_at: new Date(), suspended_reason: reason, suspended_by: actorDiscordId },
+      });
+
+      await adminAuditService.record({
+        actorDiscordId,
+        action: 'USER_SUSPENDED',
+        targetType: 'USER',
+        targetId: discordId,
+        reason,
+      }, tx);
+
+      return updated;
+    });
+  }
+
+  async unsuspend(actorDiscordId: string, discordId: string, reason: string): Promise<User> {
+    const user = await this.requireTarget(actorDiscordId, discordId);
+
+    if (!user.suspended_at) {
+      throw new AdminUserError('User is not suspended', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { discord_id: discordId },
+        data: { suspended_at: null, suspended_reason: null, suspended_by: null },
+      });
+
+      await adminAuditService.record({
+        actorDiscordId,
+        action: 'USER_UNSUSPENDED',
+        targetType: 'USER',
+        targetId: discordId,
+        reason,
+        details: { suspended_at: user.suspended_at!.toISOString(), suspended_reason: user.suspended_reason },
+      }, tx);
+
+      return updated;
+    });
+  }
+
+  private async requireTarget(actorDiscordId: string, discordId: string): Promise<User> {
+    if (actorDiscordId === discordId) {
+      throw new AdminUserError('You cannot change your own account', 403);
+    }
+
+    const user = await prisma.user.findUnique({ where: { discord_id: discordId } });
+    if (!user) {
+      throw new AdminUserError('User not found', 404);
+    }
+    return user;
+  }
+
+  /**
+   * Admins granted through the environment (see PrismaDatabase.isAdmin) can't be
+   * demoted or suspended from the dashboard; the env var would re-grant them anyway
+   */
+  private isConfiguredAdmin(discordId: string): boolean {
+    const ids = [process.env.SUPER_ADMIN_IDS, process.env.ADMIN_DISCORD_ID]
+      .flatMap((list) => list?.split(',') ?? [])
+      .map((id) => id.trim());
+    return ids.includes(discordId);
+  }
+
+  private buildWhere(query: AdminUserQuery): Prisma.UserWhereInput {
+    const and: Prisma.UserWhereInput[] = [];
+
+    const search = query.search?.trim();
+    if (search) {
+      and.push({
+        OR: [
+          { discord_id: search },
+          { discord_username: { contains: search, mode: 'insensitive' } },
+          { name: { contains: search, mode: 'insensitive' } },
+          { spotify_display_name: { contains: search, mode: 'insensitive' } },
+          { audius_handle: { contains: search, mode: 'insensitive' } },
+          { privy_wallet_address: search },
+          { wallets: { some: { public_key: search } } },
+        ],
+      });
+    }
+
+    if (query.role) {
+      and.push({ role: query.role });
+    }
+
+    if (query.suspended !== undefined) {
+      and.push({ suspended_at: query.suspended ? { not: null } : null });
+    }
+
+    switch (query.platform) {
+      case 'spotify':
+        and.push({ spotify_user_id: { not: null } }, { NOT: { spotify_user_id: '' } });
+        break;
+      case 'audius':
+        and.push({ audius_user_id: { not: null } });
+        break;
+      case 'none':
+        and.push({ OR: [{ spotify_user_id: null }, { spotify_user_id: '' }] }, { audius_user_id: null });
+        break;
+    }
+
+    switch (query.wallet) {
+      case 'custodial':
+        and.push({ wallets: { some: { privy_wallet_id: null } } });
+        break;
+      case 'privy':
+        and.push({ OR: [{ privy_wallet_address: { not: null } }, { wallets: { some: { privy_wallet_id: { not: null } } } }] });
+        break;
+      case 'exported':
+        and.push({ wallets: { some: { exported_at: { not: null } } } });
+        break;
+      case 'none':
+        and.push({ privy_wallet_address: null, wallets: { none: {} } });
+        break;
+    }
+
+    return and.length ? { AND: and } : {};
+  }
+
+  private summarize(user: UserWithWallets): AdminUserSummary {
+    const wallet = user.wallets[0];
+
+    return {
+      id: user.id,
+      discord_id: user.discord_id,
+      discord_username: user.discord_username,
+      name: user.name,
+      image: user.image,
+      role: user.role,
+      platforms: {
+        // Older rows store an empty string instead of null for unlinked Spotify
+        spotify: Boolean(user.spotify_user_id),
+        audius: Boolean(user.audius_user_id),
+      },
+      wallet: wallet
+        ? { public_key: wallet.public_key, type: wallet.privy_wallet_id ? 'privy' : 'custodial', exported_at: wallet.exported_at }
+        : user.privy_wallet_address
+          ? { public_key: user.privy_wallet_address, type: 'privy', exported_at: null }
+          : null,
+      total_parties_participated: user.total_parties_participated,
+      total_rewards_claimed: user.total_rewards_claimed,
+      suspended_at: user.suspended_at,
+      suspended_reason: user.suspended_reason,
+      created_at: user.createdAt,
+    };
+  }
+}
+
+export default AdminUserService;
@@ -4,8 +4,10 @@
  */
 
 import axios from 'axios';
-import { prisma } from '../database/prisma';
+import PrismaDatabase, { prisma, PartyTrackProgress } from '../database/prisma';
 import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+import { evaluateQualification } from '../lib/qualification';
+import { tracksOnPlatform } from '../lib/partyPlatforms';
 
 interface NowPlayingResponse {
   data: {
@@ -19,13 +21,19 @@ interface HeartbeatResult {
   canClaim: boolean;
   listeningDuration: number;
   requiredDuration: number;
+  sessionCount: number;
+  requiredSessions: number;
   progress: string;
+  tracksCompleted: number;
+  requiredTracks: number;
+  trackCount: number;
+  currentTrack: PartyTrackProgress | null;
+  heldForReview: boolean;
   isPlaying: boolean;
 }
 
 export class AudiusVerificationService {
   private readonly AUDIUS_API_BASE = 'https://api.audius.co/v1';
-  private readonly QUALIFYING_THRESHOLD = LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD;
   private readonly HEARTBEAT_INTERVAL = LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL;
   private readonly MAX_VERIFICATION_ATTEMPTS = LISTENING_PARTY_CONSTANTS.MAX_VERIFICATION_ATTEMPTS;
 
@@ -49,21 +57,26 @@ export class AudiusVerificationService {
   }
 
   /**
-   * Verify if user is playing the correct track
+   * Verify if user is playing the correct track (any of the party's tracks
+   * for multi-track parties) and report which one matched
    */
   async verifyListening(
     audiusUserId: string,
-    expectedTrackId: string
-  ): Promise<{ isPlaying: boolean; trackMatches: boolean }> {
+    expectedTrackIds: string | string[]
+  ): Promise<{ isPlaying: boolean; trackMatches: boolean; trackId?: string }> {
     const nowPlaying = await this.checkNowPlaying(audiusUserId);
 
     if (!nowPlaying) {
       return { isPlaying: false, trackMatches: false };
     }
 
+    const expected = Array.isArray(expectedTrackIds) ? expectedTrackIds : [expectedTrackIds];
+    const trackMatches = expected.includes(nowPlaying.id);
+
     return {
       isPlaying: true,
-      trackMatches: nowPlaying.id === expectedTrackId,
+      trackMatches,
+      trackId: trackMatches ? nowPlaying.id : undefined,
     };
   }
 
@@ -90,6 +103,7 @@ export class AudiusVerificationService {
             discord_id: discordId,
           },
         },
+        include: { listening_party: { include: { tracks: { orderBy: { position: 'asc' } } } } },
       });
 
       if (!participant) {
@@ -99,12 +113,22 @@ export class AudiusVerificationService {
         };
       }
 
+      // Cross-platform parties list the Audius ID of every track
+      const platformTracks = tracksOnPlatform(participant.listening_party, participant.listening_party.tracks, 'AUDIUS');
+      if (!platformTracks.length) {
+        return {
+          success: false,
+          message: 'This listening party is not available on Audius.',
+        };
+      }
+
       // Initial verification - check if user is playing the correct track
+      const expectedTrackIds = platformTracks.length > 1 ? platformTracks.map((t) => t.platform_track_id) : trackId;
       let attempts = 0;
       let isVerified = false;
 
       while (attempts < this.MAX_VERIFICATION_ATTEMPTS && !isVerified) {
-        const verification = await this.verifyListening(audiusUserId, trackId);
+        const verification = await this.verifyListening(audiusUserId, expectedTrackIds);
 
         if (verification.isPlaying && verification.trackMatches) {
           isVerified = true;
@@ -127,14 +151,7 @@ export class AudiusVerificationService {
       }
 
       // Start heartbeat tracking
-      await prisma.listeningPartyParticipant.update({
-        where: { id: participant.id },
-        data: {
-          is_listening: true,
-          first_heartbeat_at: participant.first_heartbeat_at || new Date(),
-          last_heartbeat_at: new Date(),
-        },
-      });
+      await PrismaDatabase.startPartyListeningSession(participant, 'AUDIUS');
 
       return {
         success: true,
@@ -160,10 +177,7 @@ export class AudiusVerificationService {
     trackId: string
   ): Promise<HeartbeatResult> {
     try {
-      // Verify user is still playing the track
-      const verification = await this.verifyListening(audiusUserId, trackId);
-
-      // Get participant
+      // Get participant with the party's qualification rules and tracks
       const participant = await prisma.listeningPartyParticipant.findUnique({
         where: {
           party_id_discord_id: {
@@ -171,49 +185,44 @@ export class AudiusVerificationService {
             discord_id: discordId,
           },
         },
+        include: { listening_party: { include: { tracks: { orderBy: { position: 'asc' } } } } },
       });
 
       if (!participant) {
         throw new Error('Participant not found');
       }
 
-      // Calculate listening duration increment
-      const durationIncrement = verification.isPlaying && verification.trackMatches
-        ? this.HEARTBEAT_INTERVAL
-        : 0;
-
-      // Update participant
-      const updated = await prisma.listeningPartyParticipant.update({
-        where: { id: participant.id },
-        data: {
-          is_listening: verification.isPlaying && verification.trackMatches,
-          last_heartbeat_at: new Date(),
-          total_listening_duration: {
-            increment: durationIncrement,
-          },
-        },
-      });
-
-      // Check if qualified
-      const qualified = updated.total_listening_duration >= this.QUALIFYING_THRESHOLD;
+      // Verify user is still playing the track (or moved on to another party track)
+      const platformTracks = tracksOnPlatform(participant.listening_party, participant.listening_party.tracks, 'AUDIUS');
+      const verification = await this.verifyListening(
+        audiusUserId,
+        platformTracks.length > 1 ? platformTracks.map((t) => t.platform_track_id) : trackId
+      );
 
-      // Update qualified status if reached threshold
-      if (qualified && !participant.qualified_at) {
-        await prisma.listeningPartyParticipant.update({
-          where: { id: participant.id },
-          data: {
-            qualified_at: new Date(),
-          },
-        });
-      }
+      const isListening = verification.isPlaying && verification.trackMatches;
+      const { participant: updated, qualification, heldForReview, track } = await PrismaDatabase.recordPartyHeartbeat(
+        participant,
+        {
+          isPlaying: isListening,
+          // Progress is stored under the party's own track IDs
+          trackId: platformTracks.find((t) => t.platform_track_id === verification.trackId)?.track_id,
+        }
+      );
 
       return {
-        qualified,
-        canClaim: qualified && !participant.claimed_at,
+        qualified: qualification.qualified,
+        canClaim: qualification.qualified && !updated.claimed_at,
         listeningDuration: updated.total_listening_duration,
-        requiredDuration: this.QUALIFYING_THRESHOLD,
-        progress: `${updated.total_listening_duration}/${this.QUALIFYING_THRESHOLD}`,
-        isPlaying: verification.isPlaying && verification.trackMatches,
+        requiredDuration: qualification.required_seconds,
+        sessionCount: qualification.sessions,
+        requiredSessions: qualification.required_sessions,
+        progress: `${updated.total_listening_duration}/${qualification.required_seconds}`,
+        tracksCompleted: qualification.tracks_completed,
+        requiredTracks: qualification.required_tracks,
+        trackCount: participant.listening_party.tracks.length || 1,
+        currentTrack: track,
+        heldForReview,
+        isPlaying: isListening,
       };
     } catch (error) {
       console.error('Error recording heartbeat:', error);
@@ -257,19 +266,22 @@ export class AudiusVerificationService {
             discord_id: discordId,
           },
         },
+        include: { listening_party: { include: { tracks: true } } },
       });
 
       if (!participant) {
         return null;
       }
 
-      const qualified = participant.total_listening_duration >= this.QUALIFYING_THRESHOLD;
+      const qualification = evaluateQualification(participant.listening_party, participant, participant.listening_party.tracks);
+      // Meeting the rules is not enough while the participant is held for review
+      const qualified = Boolean(participant.qualified_at);
 
       return {
         duration: participant.total_listening_duration,
         qualified,
         canClaim: qualified && !participant.claimed_at,
-        progress: `${participant.total_listening_duration}/${this.QUALIFYING_THRESHOLD}`,
+        progress: `${participant.total_listening_duration}/${qualification.required_seconds}`,
       };
     } catch (error) {
       console.error('Error getting progress:', error);
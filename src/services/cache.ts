@@ -79,6 +79,24 @@ class CacheService {
     }
   }
 
+  /**
+   * Atomically set a key only if it does not exist yet.
+   * Returns null when Redis is unavailable so callers can fall back to local state.
+   */
+  async setIfAbsent(key: string, value: any, ttlSeconds: number): Promise<boolean | null> {
+    try {
+      if (!this.client || !this.isConnected) {
+        return null;
+      }
+
+      const result = await this.client.set(key, JSON.stringify(value), { NX: true, EX: ttlSeconds });
+      return result === 'OK';
+    } catch (error) {
+      console.error('Cache setIfAbsent error:', error);
+      return null;
+    }
+  }
+
   /**
    * Delete cached data
    */
@@ -186,6 +204,19 @@ export const CacheKeys = {
   // Spotify data (short TTL due to frequent changes)
   SPOTIFY_DEVICES: (discordId: string) => `spotify:devices:${discordId}`,
   SPOTIFY_TOKEN: (discordId: string) => `spotify:token:${discordId}`,
+
+  // Resolved track metadata (long TTL)
+  TRACK_RESOLUTION: (reference: string) => `track:resolve:${reference}`,
+
+  // Artist listening analytics (short TTL)
+  PARTY_ANALYTICS: (partyId: string) => `analytics:party:${partyId}`,
+  ARTIST_ANALYTICS: (discordId: string, fromMs: number, toMs: number) => `analytics:artist:${discordId}:${fromMs}:${toMs}`,
+
+  // Admin dashboard metrics (short TTL)
+  ADMIN_STATS: (fromMs: number, toMs: number) => `admin:stats:${fromMs}:${toMs}`,
+
+  // Service auth nonces (replay protection)
+  SERVICE_AUTH_NONCE: (nonce: string) => `service-auth:nonce:${nonce}`,
 } as const;
 
 // Cache TTL constants (in seconds)
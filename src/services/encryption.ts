@@ -1,45 +1,119 @@
+/**
+ * Encryption Service
+ * AES-256-GCM encryption for secrets stored in the database (custodial wallet
+ * keys, OAuth tokens). Ciphertexts are versioned envelopes that name the key
+ * that sealed them, so keys can be rotated: the first ENCRYPTION_KEYS entry
+ * encrypts, and every configured key can still decrypt.
+ */
+
 import * as crypto from 'crypto';
 import config from '../config/environment';
 
-interface EncryptedData {
+/** What a secret is for; bound in as AAD so one kind can't be swapped for another */
+export type EncryptionPurpose = 'wallet' | 'oauth_token';
+
+/** Current format: key ID and per-purpose AAD */
+export interface EncryptedEnvelope {
+  v: 1;
+  kid: string;
+  iv: string;
+  tag: string;
+  encrypted: string;
+}
+
+/** Pre-rotation format: no key ID, sealed with ENCRYPTION_KEY and a fixed AAD */
+export interface LegacyEncryptedData {
   iv: string;
   tag: string;
   encrypted: string;
 }
 
+export type EncryptedData = EncryptedEnvelope | LegacyEncryptedData;
+
+const ENVELOPE_VERSION = 1;
+const LEGACY_AAD = 'wallet-encryption';
+
+/** Key ID given to ENCRYPTION_KEY when it isn't listed in ENCRYPTION_KEYS */
+const DEFAULT_KEY_ID = 'default';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function decodeKey(value: string, name: string): Buffer {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be a 32-byte key encoded as base64`);
+  }
+  return key;
+}
+
+function isEnvelope(data: EncryptedData): data is EncryptedEnvelope {
+  return (data as EncryptedEnvelope).v === ENVELOPE_VERSION && typeof (data as EncryptedEnvelope).kid === 'string';
+}
+
 class EncryptionService {
-  private masterKey: Buffer;
+  private keys: Map<string, Buffer> = new Map();
+  private activeKeyId: string;
+  private legacyKeyId: string | null = null; // the key pre-rotation data was sealed with
 
+  /**
+   * ENCRYPTION_KEYS is a comma-separated list of `id:base64key`, newest first.
+   * ENCRYPTION_KEY on its own still works and is the key legacy data is tried with.
+   */
   constructor() {
-    if (!config.security.encryptionKey) {
-      throw new Error('ENCRYPTION_KEY environment variable is required');
+    for (const entry of config.security.encryptionKeys.split(',').map((e) => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      if (separator <= 0 || !KEY_ID_PATTERN.test(id)) {
+        throw new Error('ENCRYPTION_KEYS entries must look like `key-id:base64key`');
+      }
+      if (this.keys.has(id)) {
+        throw new Error(`ENCRYPTION_KEYS lists key "${id}" more than once`);
+      }
+      this.keys.set(id, decodeKey(entry.slice(separator + 1), `ENCRYPTION_KEYS entry "${id}"`));
+    }
+
+    if (config.security.encryptionKey) {
+      const legacyKey = decodeKey(config.security.encryptionKey, 'ENCRYPTION_KEY');
+      const listed = [...this.keys.entries()].find(([, key]) => key.equals(legacyKey));
+      if (listed) {
+        this.legacyKeyId = listed[0];
+      } else {
+        if (this.keys.has(DEFAULT_KEY_ID)) {
+          throw new Error(`ENCRYPTION_KEYS cannot use the reserved key ID "${DEFAULT_KEY_ID}"`);
+        }
+        this.keys.set(DEFAULT_KEY_ID, legacyKey);
+        this.legacyKeyId = DEFAULT_KEY_ID;
+      }
     }
-    this.masterKey = Buffer.from(config.security.encryptionKey, 'base64');
-    if (this.masterKey.length !== 32) {
-      throw new Error('ENCRYPTION_KEY must be a 32-byte key encoded as base64');
+
+    const [activeKeyId] = this.keys.keys();
+    if (!activeKeyId) {
+      throw new Error('ENCRYPTION_KEY or ENCRYPTION_KEYS environment variable is required');
     }
+    this.activeKeyId = activeKeyId;
   }
 
   /**
-   * Encrypt private key data using AES-256-GCM with a random IV
-   * @param plaintext - The private key to encrypt
-   * @returns Encrypted data with IV, tag, and ciphertext
+   * Encrypt a secret with the active key using AES-256-GCM and a random IV
+   * @param plaintext - The secret to encrypt
+   * @param purpose - What the secret is, bound into the ciphertext
+   * @returns Envelope with key ID, IV, tag, and ciphertext
    */
-  encrypt(plaintext: string): EncryptedData {
+  encrypt(plaintext: string, purpose: EncryptionPurpose): EncryptedEnvelope {
     try {
       const iv = crypto.randomBytes(16);
-      const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv);
-      cipher.setAAD(Buffer.from('wallet-encryption'));
-      
+      const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(this.activeKeyId)!, iv);
+      cipher.setAAD(this.aadFor(purpose));
+
       let encrypted = cipher.update(plaintext, 'utf8', 'hex');
       encrypted += cipher.final('hex');
-      
-      const tag = cipher.getAuthTag();
-      
+
       return {
+        v: ENVELOPE_VERSION,
+        kid: this.activeKeyId,
         iv: iv.toString('hex'),
-        tag: tag.toString('hex'),
-        encrypted: encrypted
+        tag: cipher.getAuthTag().toString('hex'),
+        encrypted,
       };
     } catch (error) {
       throw new Error(`Encryption failed: ${(error as Error).message}`);
@@ -47,24 +121,82 @@ class EncryptionService {
   }
 
   /**
-   * Decrypt private key data
-   * @param encryptedData - Object with iv, tag, and encrypted properties
-   * @returns Decrypted private key
+   * Decrypt an envelope, or legacy data by trying ENCRYPTION_KEY first and then
+   * every other configured key
+   * @param encryptedData - Envelope or legacy object with iv, tag, and encrypted properties
+   * @param purpose - Must match the purpose it was encrypted for
+   * @returns Decrypted secret
    */
-  decrypt(encryptedData: EncryptedData): string {
-    try {
-      const { iv, tag, encrypted } = encryptedData;
-      const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, Buffer.from(iv, 'hex'));
-      decipher.setAAD(Buffer.from('wallet-encryption'));
-      decipher.setAuthTag(Buffer.from(tag, 'hex'));
-      
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
-    } catch (error) {
-      throw new Error(`Decryption failed: ${(error as Error).message}`);
+  decrypt(encryptedData: EncryptedData, purpose: EncryptionPurpose): string {
+    if (isEnvelope(encryptedData)) {
+      const key = this.keys.get(encryptedData.kid);
+      if (!key) {
+        throw new Error(`Decryption failed: encryption key "${encryptedData.kid}" is not configured`);
+      }
+      try {
+        return this.decryptWith(key, encryptedData, this.aadFor(purpose));
+      } catch (error) {
+        throw new Error(`Decryption failed: ${(error as Error).message}`);
+      }
+    }
+
+    const candidates = [...this.keys.entries()].sort(([a], [b]) => Number(b === this.legacyKeyId) - Number(a === this.legacyKeyId));
+    let lastError: Error | null = null;
+    for (const [, key] of candidates) {
+      try {
+        return this.decryptWith(key, encryptedData, Buffer.from(LEGACY_AAD));
+      } catch (error) {
+        lastError = error as Error;
+      }
+    }
+    throw new Error(`Decryption failed: ${lastError?.message ?? 'no key could decrypt the data'}`);
+  }
+
+  /**
+   * Whether stored data should be re-encrypted: legacy format or an older key
+   */
+  needsReencryption(encryptedData: EncryptedData): boolean {
+    return !isEnvelope(encryptedData) || encryptedData.kid !== this.activeKeyId;
+  }
+
+  /**
+   * Decrypt with whichever key sealed the data and encrypt again with the active key
+   */
+  reencrypt(encryptedData: EncryptedData, purpose: EncryptionPurpose): EncryptedEnvelope {
+    return this.encrypt(this.decrypt(encryptedData, purpose), purpose);
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  getKeyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  private aadFor(purpose: EncryptionPurpose): Buffer {
+    return Buffer.from(`volume:${purpose}:v${ENVELOPE_VERSION}`);
+  }
+
+  private decryptWith(key: Buffer, data: EncryptedData, aad: Buffer): string {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(data.iv, 'hex'));
+    decipher.setAAD(aad);
+    decipher.setAuthTag(Buffer.from(data.tag, 'hex'));
+
+    let decrypted = decipher.update(data.encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+    return decrypted;
+  }
+
+  /**
+   * Parse a stored (JSON string) ciphertext
+   */
+  static parse(stored: string): EncryptedData {
+    const data = JSON.parse(stored);
+    if (!data || typeof data.iv !== 'string' || typeof data.tag !== 'string' || typeof data.encrypted !== 'string') {
+      throw new Error('Stored value is not an encrypted payload');
     }
+    return data;
   }
 
   /**
@@ -1,17 +1,462 @@
 /**
  * Helius service for Solana blockchain integration
+ * Ingests enhanced-transaction webhooks, confirms artist deposits and records
+ * raid_escrow activity (claim_tokens / close_raid) against listening parties
  */
 
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import { Connection, PublicKey, TokenBalance, VersionedTransactionResponse } from '@solana/web3.js';
+import { ArtistDeposit, Prisma } from '@prisma/client';
+import config from '../config/environment';
+import PrismaDatabase, { prisma } from '../database/prisma';
+import RaidEscrowService, { DecodedRaidEscrowInstruction } from './raidEscrow';
+import { HeliusInstruction, HeliusWebhookEvent } from '../types';
+import { SOL_MINT } from './jupiterApi';
+import { formatRawAmount, toRawAmount } from '../lib/tokenAmounts';
+
+const DEPOSIT_RECONCILE_INTERVAL_MS = 30 * 1000;
+
+const SOL_DECIMALS = 9;
+
+function isNativeSol(tokenMint: string): boolean {
+  return tokenMint === SOL_MINT || tokenMint === 'SOL';
+}
+
+interface IngestResult {
+  received: number;
+  stored: number;
+  retried: number; // redeliveries of events whose earlier processing failed
+  duplicates: number;
+  failed: number;
+}
+
 class HeliusService {
+  private connection: Connection;
+  private raidEscrowService: RaidEscrowService;
+  private logSubscriptionId: number | null = null;
+  private reconcileInterval: NodeJS.Timeout | null = null;
+
   constructor() {
+    const rpcUrl = config.helius.apiKey
+      ? `${config.helius.rpcUrl.replace(/\/$/, '')}/?api-key=${config.helius.apiKey}`
+      : config.solana.rpcUrl;
+    this.connection = new Connection(rpcUrl, 'confirmed');
+    this.raidEscrowService = new RaidEscrowService();
     console.log('🔗 HeliusService initialized');
   }
 
+  /**
+   * Check the Authorization header Helius sends with every webhook
+   */
+  verifyWebhookAuth(authHeader: string | undefined): boolean {
+    const secret = config.helius.webhookSecret;
+    if (!secret) {
+      // Webhooks record claims and settle deposits; never accept them unauthenticated
+      console.warn('⚠️ Rejected Helius webhook: HELIUS_WEBHOOK_SECRET is not configured');
+      return false;
+    }
+
+    if (!authHeader) {
+      return false;
+    }
+
+    const provided = Buffer.from(authHeader.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(secret);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
+  /**
+   * Persist and process a webhook delivery (Helius batches events in an array)
+   */
+  async ingestWebhook(payload: HeliusWebhookEvent[] | HeliusWebhookEvent): Promise<IngestResult> {
+    const events = Array.isArray(payload) ? payload : [payload];
+    const result: IngestResult = { received: events.length, stored: 0, retried: 0, duplicates: 0, failed: 0 };
+
+    for (const event of events) {
+      const stored = await this.storeEvent(event);
+      if (!stored) {
+        result.duplicates++;
+        continue;
+      }
+      const eventId = stored.id;
+      if (stored.retry) {
+        result.retried++;
+      } else {
+        result.stored++;
+      }
+
+      try {
+        await this.processEvent(event);
+        await prisma.webhookEvent.update({
+          where: { id: eventId },
+          data: { status: 'PROCESSED', processed_at: new Date() },
+        });
+      } catch (error: any) {
+        result.failed++;
+        console.error(`❌ Failed to process Helius event ${event.signature}:`, error);
+        await prisma.webhookEvent.update({
+          where: { id: eventId },
+          data: { status: 'FAILED', processed_at: new Date(), error: error.message || 'Unknown error' },
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a webhook event, returning null if the signature was already ingested
+   * and processed (or is being processed); failed events are handed back to retry
+   */
+  private async storeEvent(event: HeliusWebhookEvent): Promise<{ id: string; retry: boolean } | null> {
+    const payload = event as unknown as Prisma.InputJsonValue;
+    try {
+      const stored = await prisma.webhookEvent.create({
+        data: {
+          signature: event.signature || null,
+          type: event.type || 'UNKNOWN',
+          wallet: event.feePayer || '',
+          payload,
+        },
+      });
+      return { id: stored.id, retry: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      // Seen before: process again only if that attempt failed. Claiming the row
+      // back to PENDING keeps concurrent redeliveries from both retrying it.
+      const { count } = await prisma.webhookEvent.updateMany({
+        where: { signature: event.signature, status: 'FAILED' },
+        data: { status: 'PENDING', payload, error: null, processed_at: null },
+      });
+      if (!count) {
+        return null;
+      }
+
+      const existing = await prisma.webhookEvent.findUnique({
+        where: { signature: event.signature },
+        select: { id: true },
+      });
+      return existing ? { id: existing.id, retry: true } : null;
+    }
+  }
+
+  /**
+   * Apply a single transaction event to deposits and listening parties
+   */
+  private async processEvent(event: HeliusWebhookEvent): Promise<void> {
+    if (!event.signature) {
+      return;
+    }
+
+    const deposit = await PrismaDatabase.getDepositByTxSignature(event.signature);
+    if (deposit && deposit.status === 'PENDING') {
+      await this.reconcileDeposit(deposit, event);
+    }
+
+    if (event.transactionError) {
+      return;
+    }
+
+    const instructions = this.extractRaidEscrowInstructions(event.instructions || []);
+    for (const instruction of instructions) {
+      await this.recordEscrowInstruction(instruction, event.signature);
+    }
+  }
+
+  /**
+   * Decode raid_escrow calls, including ones nested as inner instructions
+   */
+  private extractRaidEscrowInstructions(instructions: HeliusInstruction[]): DecodedRaidEscrowInstruction[] {
+    const programId = this.raidEscrowService.programId.toBase58();
+    const decoded: DecodedRaidEscrowInstruction[] = [];
+
+    for (const instruction of instructions) {
+      if (instruction.programId === programId && instruction.data) {
+        try {
+          const result = this.raidEscrowService.decodeInstruction(bs58.decode(instruction.data), instruction.accounts);
+          if (result) decoded.push(result);
+        } catch (error) {
+          console.warn('Failed to decode raid_escrow instruction:', error);
+        }
+      }
+
+      if (instruction.innerInstructions?.length) {
+        decoded.push(...this.extractRaidEscrowInstructions(instruction.innerInstructions));
+      }
+    }
+
+    return decoded;
+  }
+
+  private async recordEscrowInstruction(instruction: DecodedRaidEscrowInstruction, signature: string): Promise<void> {
+    const party = await prisma.listeningParty.findFirst({
+      where: { raid_id: instruction.raidId },
+    });
+
+    if (!party) {
+      console.log(`ℹ️ raid_escrow ${instruction.name} for unknown raid ${instruction.raidId}`);
+      return;
+    }
+
+    if (party.raid_escrow_pda && instruction.accounts.raid_escrow !== party.raid_escrow_pda) {
+      console.warn(`⚠️ raid_escrow ${instruction.name} for party ${party.id} targets unexpected escrow ${instruction.accounts.raid_escrow}`);
+      return;
+    }
+
+    if (instruction.name === 'claim_tokens') {
+      const wallet = instruction.accounts.participant;
+      const discordId = wallet ? await PrismaDatabase.getDiscordIdByWallet(wallet) : null;
+      if (!discordId) {
+        console.warn(`⚠️ Claim on party ${party.id} from unlinked wallet ${wallet}`);
+        return;
+      }
+
+      const participant = await prisma.listeningPartyParticipant.findUnique({
+        where: { party_id_discord_id: { party_id: party.id, discord_id: discordId } },
+      });
+
+      if (!participant || participant.claimed_at) {
+        return;
+      }
+
+      if (!participant.qualified_at) {
+        console.warn(`⚠️ Unqualified participant ${discordId} claimed on-chain for party ${party.id}`);
+        return;
+      }
+
+      await PrismaDatabase.recordListeningPartyClaim(party.id, participant.id, signature);
+      console.log(`✅ Recorded on-chain claim for ${discordId} in party ${party.id}`);
+      return;
+    }
+
+    if (instruction.name === 'close_raid' && !party.escrow_closed_at) {
+      await prisma.listeningParty.update({
+        where: { id: party.id },
+        data: {
+          escrow_closed_at: new Date(),
+          close_tx_signature: signature,
+        },
+      });
+      console.log(`🔒 Recorded escrow close for party ${party.id}`);
+    }
+  }
+
+  /**
+   * Move a deposit out of PENDING once the transfer is found and deep enough.
+   * Only transfers into the artist's own wallets count, and together they must
+   * cover the deposit amount.
+   */
+  private async reconcileDeposit(deposit: ArtistDeposit, event?: HeliusWebhookEvent): Promise<void> {
+    const txSignature = deposit.tx_signature;
+
+    if (event) {
+      const shortfall = event.transactionError || await this.depositShortfall(deposit, (recipients, decimals) =>
+        this.transferredInEvent(event, deposit.token_mint, recipients, decimals));
+      if (shortfall) {
+        await PrismaDatabase.updateDepositStatus(txSignature, 'FAILED');
+        console.warn(`❌ Deposit ${txSignature} failed: ${shortfall}`);
+        return;
+      }
+    }
+
+    const { value } = await this.connection.getSignatureStatuses([txSignature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+
+    if (!status) {
+      return;
+    }
+
+    if (status.err) {
+      await PrismaDatabase.updateDepositStatus(txSignature, 'FAILED');
+      return;
+    }
+
+    // confirmations is null once the slot is rooted (finalized)
+    const deepEnough =
+      status.confirmationStatus === 'finalized' ||
+      (status.confirmations ?? 0) >= config.deposit.confirmationBlocks;
+
+    if (!deepEnough) {
+      return;
+    }
+
+    // Without a webhook event the transfer hasn't been checked yet; read it from chain
+    if (!event) {
+      const tx = await this.connection.getTransaction(txSignature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!tx?.meta) {
+        return;
+      }
+      const shortfall = await this.depositShortfall(deposit, (recipients) =>
+        this.transferredOnChain(tx, deposit.token_mint, recipients));
+      if (shortfall) {
+        await PrismaDatabase.updateDepositStatus(txSignature, 'FAILED');
+        console.warn(`❌ Deposit ${txSignature} failed: ${shortfall}`);
+        return;
+      }
+    }
+
+    await PrismaDatabase.updateDepositStatus(txSignature, 'CONFIRMED');
+    console.log(`✅ Deposit ${txSignature} confirmed`);
+  }
+
+  /**
+   * Why a deposit's transfer doesn't fund it, or null when it does
+   */
+  private async depositShortfall(
+    deposit: ArtistDeposit,
+    transferred: (recipients: Set<string>, decimals: number) => bigint
+  ): Promise<string | null> {
+    const [wallet, artist] = await Promise.all([
+      PrismaDatabase.getUserWallet(deposit.artist_discord_id),
+      PrismaDatabase.getUser(deposit.artist_discord_id),
+    ]);
+    const recipients = new Set(
+      [wallet?.public_key, artist?.privy_wallet_address].filter((address): address is string => Boolean(address))
+    );
+    if (!recipients.size) {
+      return 'artist has no deposit wallet';
+    }
+
+    let decimals = SOL_DECIMALS;
+    if (!isNativeSol(deposit.token_mint)) {
+      const token = await PrismaDatabase.getTokenByMint(deposit.token_mint);
+      if (!token) {
+        return `unknown token ${deposit.token_mint}`;
+      }
+      decimals = token.decimals;
+    }
+
+    const expected = toRawAmount(deposit.amount, decimals);
+    const received = transferred(recipients, decimals);
+    if (received <= BigInt(0)) {
+      return 'no matching transfer to the artist wallet';
+    }
+    if (received < expected) {
+      return `transferred ${formatRawAmount(received, decimals)}, expected ${deposit.amount}`;
+    }
+    return null;
+  }
+
+  /**
+   * Raw amount of the deposit's token the event moved into `recipients`
+   */
+  private transferredInEvent(
+    event: HeliusWebhookEvent,
+    tokenMint: string,
+    recipients: Set<string>,
+    decimals: number
+  ): bigint {
+    // Native SOL moves show up only in nativeTransfers, never as a token transfer
+    if (isNativeSol(tokenMint)) {
+      return (event.nativeTransfers || [])
+        .filter((t) => recipients.has(t.toUserAccount))
+        .reduce((sum, t) => sum + BigInt(t.amount), BigInt(0));
+    }
+
+    return (event.tokenTransfers || [])
+      .filter((t) => t.mint === tokenMint && recipients.has(t.toUserAccount))
+      .reduce((sum, t) => sum + toRawAmount(t.tokenAmount, decimals), BigInt(0));
+  }
+
+  /**
+   * Raw amount of the deposit's token `recipients` gained in a confirmed transaction
+   */
+  private transferredOnChain(
+    tx: VersionedTransactionResponse,
+    tokenMint: string,
+    recipients: Set<string>
+  ): bigint {
+    const meta = tx.meta!;
+
+    if (isNativeSol(tokenMint)) {
+      const accountKeys = tx.transaction.message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+      let gained = BigInt(0);
+      for (let index = 0; index < accountKeys.length; index++) {
+        if (recipients.has(accountKeys.get(index)!.toBase58())) {
+          gained += BigInt(meta.postBalances[index] - meta.preBalances[index]);
+        }
+      }
+      return gained;
+    }
+
+    const balanceOf = (balances: TokenBalance[] | null | undefined) => (balances || [])
+      .filter((b) => b.mint === tokenMint && b.owner && recipients.has(b.owner))
+      .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), BigInt(0));
+    return balanceOf(meta.postTokenBalances) - balanceOf(meta.preTokenBalances);
+  }
+
+  /**
+   * Re-check every pending deposit (covers deposits still short of confirmationBlocks)
+   */
+  async reconcilePendingDeposits(): Promise<void> {
+    const pending = await PrismaDatabase.getPendingDeposits();
+    for (const deposit of pending) {
+      try {
+        await this.reconcileDeposit(deposit);
+      } catch (error) {
+        console.error(`Error reconciling deposit ${deposit.tx_signature}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to raid_escrow program logs as a fallback to webhooks, and start
+   * the periodic deposit reconciliation loop
+   */
   async initWebSocket(): Promise<void> {
+    const programId = new PublicKey(config.solana.raidEscrowProgramId);
+
+    this.logSubscriptionId = this.connection.onLogs(programId, async (logs) => {
+      if (logs.err) {
+        return;
+      }
+
+      try {
+        const alreadySeen = await prisma.webhookEvent.findUnique({ where: { signature: logs.signature } });
+        if (alreadySeen) {
+          return;
+        }
+
+        const tx = await this.raidEscrowService.fetchTransaction(logs.signature);
+        if (!tx) {
+          return;
+        }
+
+        for (const instruction of this.raidEscrowService.extractInstructions(tx)) {
+          await this.recordEscrowInstruction(instruction, logs.signature);
+        }
+      } catch (error) {
+        console.error(`Error handling raid_escrow logs for ${logs.signature}:`, error);
+      }
+    }, 'confirmed');
+
+    this.reconcileInterval = setInterval(() => {
+      this.reconcilePendingDeposits().catch((error) => {
+        console.error('Deposit reconciliation failed:', error);
+      });
+    }, DEPOSIT_RECONCILE_INTERVAL_MS);
+
     console.log('🔌 HeliusService WebSocket initialized');
   }
 
   async disconnect(): Promise<void> {
+    if (this.logSubscriptionId !== null) {
+      await this.connection.removeOnLogsListener(this.logSubscriptionId);
+      this.logSubscriptionId = null;
+    }
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
     console.log('🔌 HeliusService disconnected');
   }
 }
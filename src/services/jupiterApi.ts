@@ -1,8 +1,12 @@
 /**
- * Jupiter API Service for token pricing and metadata
+ * Jupiter API Service for token pricing, metadata and swaps
  * https://lite-api.jup.ag/
  */
 
+import config from '../config/environment';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
 interface TokenSearchResult {
   id: string;
   name: string;
@@ -58,6 +62,18 @@ interface WithdrawalEligibility {
   shortfallSOL?: number;
 }
 
+/** Quote from the Jupiter swap API; passed back verbatim when building the swap */
+export interface SwapQuote {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string; // raw units
+  outAmount: string; // raw units
+  otherAmountThreshold: string; // minimum out after slippage, raw units
+  slippageBps: number;
+  priceImpactPct: string;
+  [key: string]: any;
+}
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -66,11 +82,15 @@ interface CacheEntry<T> {
 
 class JupiterApiService {
   private baseUrl: string;
+  private priceUrl: string;
+  private routeUrl: string;
   private cache: Map<string, CacheEntry<any>>;
   private cacheTimeout: number;
 
   constructor() {
     this.baseUrl = 'https://lite-api.jup.ag';
+    this.priceUrl = config.jupiter.apiUrl;
+    this.routeUrl = config.jupiter.routeApiUrl.replace(/\/$/, '');
     this.cache = new Map();
     this.cacheTimeout = 60000; // 1 minute cache
   }
@@ -114,7 +134,7 @@ class JupiterApiService {
       if (cached) return cached;
 
       // Special handling for SOL native token
-      if (mintAddress === 'So11111111111111111111111111111111111111112') {
+      if (mintAddress === SOL_MINT) {
         // Use CoinGecko for SOL price as fallback
         const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
         if (response.ok) {
@@ -130,7 +150,7 @@ class JupiterApiService {
       }
 
       // Use Jupiter Price API for other tokens
-      const response = await fetch(`${this.baseUrl}?ids=${encodeURIComponent(mintAddress)}`);
+      const response = await fetch(`${this.priceUrl}?ids=${encodeURIComponent(mintAddress)}`);
       
       if (!response.ok) {
         console.warn(`Jupiter Price API error for ${mintAddress}: ${response.status}`);
@@ -169,7 +189,7 @@ class JupiterApiService {
         const batch = mintAddresses.slice(i, i + batchSize);
         const idsParam = batch.map(addr => encodeURIComponent(addr)).join(',');
         
-        const response = await fetch(`${this.baseUrl}?ids=${idsParam}`);
+        const response = await fetch(`${this.priceUrl}?ids=${idsParam}`);
         
         if (!response.ok) {
           console.warn(`Jupiter Price API v3 batch error: ${response.status}`);
@@ -252,7 +272,7 @@ class JupiterApiService {
       // Get both token price and SOL price
       const [tokenPrice, solPrice] = await Promise.all([
         this.getTokenPrice(tokenMint),
-        this.getTokenPrice('So11111111111111111111111111111111111111112') // SOL mint
+        this.getTokenPrice(SOL_MINT)
       ]);
 
       if (!tokenPrice || !solPrice) {
@@ -271,11 +291,15 @@ class JupiterApiService {
   }
 
   /**
-   * Check if user has enough value to withdraw (≥1 SOL equivalent)
+   * Check if user has enough value to withdraw (≥ the configured minimum SOL equivalent)
    * @param userTokens - Array of user's tokens with {mint, amount}
+   * @param minSol - Minimum SOL-equivalent value
    * @returns Withdrawal eligibility information
    */
-  async checkWithdrawalEligibility(userTokens: UserToken[]): Promise<WithdrawalEligibility> {
+  async checkWithdrawalEligibility(
+    userTokens: UserToken[],
+    minSol: number = config.withdrawal.minSol
+  ): Promise<WithdrawalEligibility> {
     try {
       if (!userTokens || userTokens.length === 0) {
         return { canWithdraw: false, totalValueSOL: 0, breakdown: [] };
@@ -285,11 +309,11 @@ class JupiterApiService {
       const mints = [...new Set(userTokens.map(t => t.mint))];
       
       // Add SOL mint for conversion
-      const allMints = [...mints, 'So11111111111111111111111111111111111111112'];
+      const allMints = [...mints, SOL_MINT];
       
       // Get all prices at once
       const prices = await this.getTokenPrices(allMints);
-      const solPrice = prices['So11111111111111111111111111111111111111112']?.usdPrice;
+      const solPrice = prices[SOL_MINT]?.usdPrice;
 
       if (!solPrice) {
         console.warn('Could not get SOL price for withdrawal check');
@@ -316,14 +340,14 @@ class JupiterApiService {
       }
 
       const totalValueSOL = totalValueUSD / solPrice;
-      const canWithdraw = totalValueSOL >= 1.0; // Minimum 1 SOL equivalent
+      const canWithdraw = totalValueSOL >= minSol;
 
       return {
         canWithdraw,
         totalValueSOL,
         breakdown,
-        requiredSOL: 1.0,
-        shortfallSOL: Math.max(0, 1.0 - totalValueSOL)
+        requiredSOL: minSol,
+        shortfallSOL: Math.max(0, minSol - totalValueSOL)
       };
     } catch (error) {
       console.error('Error checking withdrawal eligibility:', error);
@@ -331,6 +355,65 @@ class JupiterApiService {
     }
   }
 
+  /**
+   * Get a swap quote from the Jupiter route API
+   * @param inputMint - Mint being sold
+   * @param outputMint - Mint being bought
+   * @param amount - Raw input amount (smallest units)
+   * @param slippageBps - Allowed slippage in basis points
+   * @returns Quote, or null if no route exists
+   */
+  async getSwapQuote(inputMint: string, outputMint: string, amount: bigint, slippageBps: number): Promise<SwapQuote | null> {
+    const params = new URLSearchParams({
+      inputMint,
+      outputMint,
+      amount: amount.toString(),
+      slippageBps: String(slippageBps),
+    });
+
+    const response = await fetch(`${this.routeUrl}/quote?${params.toString()}`);
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      // Jupiter answers 400 when there is no route for the pair or amount
+      if (response.status === 400) {
+        console.warn(`No Jupiter route for ${inputMint} -> ${outputMint}: ${body}`);
+        return null;
+      }
+      throw new Error(`Jupiter quote error: ${response.status} ${body}`);
+    }
+
+    return (await response.json()) as SwapQuote;
+  }
+
+  /**
+   * Build the swap transaction for a quote, to be signed by the user's wallet
+   * @param quote - Quote returned by getSwapQuote
+   * @param userPublicKey - Wallet that signs and receives the output
+   * @returns Base64-encoded versioned transaction
+   */
+  async getSwapTransaction(quote: SwapQuote, userPublicKey: string): Promise<string> {
+    const response = await fetch(`${this.routeUrl}/swap`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Jupiter swap error: ${response.status} ${await response.text().catch(() => '')}`);
+    }
+
+    const data = (await response.json()) as { swapTransaction?: string };
+    if (!data.swapTransaction) {
+      throw new Error('Jupiter swap response did not include a transaction');
+    }
+    return data.swapTransaction;
+  }
+
   /**
    * Cache management
    */
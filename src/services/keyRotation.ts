@@ -0,0 +1,243 @@
+/**
+ * Key Rotation Service
+ * Re-encrypts every stored secret (custodial wallet keys, Spotify tokens) onto
+ * the active encryption key. Progress and cursors live on a KeyRotationJob row,
+ * so a job interrupted by a restart picks up where it stopped.
+ */
+
+import { KeyRotationJob } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import EncryptionService, { EncryptionPurpose } from './encryption';
+
+const BATCH_SIZE = 100;
+
+export interface KeyRotationStatus {
+  active_key_id: string;
+  key_ids: string[];
+  running: boolean; // a job is being processed by this server right now
+  job: KeyRotationJob | null;
+}
+
+interface BatchResult {
+  cursor: string | null; // null when there was nothing left to process
+  processed: number;
+  migrated: number;
+  failed: number;
+  lastError: string | null;
+}
+
+class KeyRotationService {
+  private encryption: EncryptionService | null = null;
+  private runningJobId: string | null = null;
+
+  /**
+   * Keyring summary and the latest job
+   */
+  async getStatus(): Promise<KeyRotationStatus> {
+    const encryption = this.getEncryption();
+    const job = await prisma.keyRotationJob.findFirst({ orderBy: { started_at: 'desc' } });
+    return {
+      active_key_id: encryption.getActiveKeyId(),
+      key_ids: encryption.getKeyIds(),
+      running: this.runningJobId !== null,
+      job,
+    };
+  }
+
+  /**
+   * Start re-encrypting onto the active key, or resume the unfinished job for it.
+   * A job left running for a key that is no longer active is marked failed.
+   */
+  async start(actorDiscordId: string): Promise<KeyRotationJob> {
+    const targetKeyId = this.getEncryption().getActiveKeyId();
+
+    let job = await prisma.keyRotationJob.findFirst({ where: { status: 'RUNNING' }, orderBy: { started_at: 'desc' } });
+    if (job && job.target_key_id !== targetKeyId) {
+      await prisma.keyRotationJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', last_error: `Superseded by rotation to key "${targetKeyId}"`, completed_at: new Date() },
+      });
+      job = null;
+    }
+
+    if (!job) {
+      const [wallets, users] = await Promise.all([
+        prisma.wallet.count({ where: { encrypted_private_key: { not: '' } } }),
+        prisma.user.count({ where: { OR: [{ spotify_access_token: { not: null } }, { spotify_refresh_token: { not: null } }] } }),
+      ]);
+      job = await prisma.keyRotationJob.create({
+        data: { target_key_id: targetKeyId, started_by: actorDiscordId, total_rows: wallets + users },
+      });
+      console.log(`🔑 Key rotation ${job.id} started: ${job.total_rows} rows to move to key "${targetKeyId}"`);
+    }
+
+    this.runInBackground(job.id);
+    return job;
+  }
+
+  /**
+   * Resume a job interrupted by a restart (called on server startup)
+   */
+  async resumeUnfinished(): Promise<void> {
+    const job = await prisma.keyRotationJob.findFirst({ where: { status: 'RUNNING' }, orderBy: { started_at: 'desc' } });
+    if (!job) {
+      return;
+    }
+
+    if (job.target_key_id !== this.getEncryption().getActiveKeyId()) {
+      console.warn(`⚠️ Key rotation ${job.id} targets key "${job.target_key_id}", which is no longer active; start a new rotation`);
+      return;
+    }
+
+    console.log(`🔑 Resuming key rotation ${job.id} (${job.processed_rows}/${job.total_rows} rows done)`);
+    this.runInBackground(job.id);
+  }
+
+  private runInBackground(jobId: string): void {
+    if (this.runningJobId) {
+      return;
+    }
+    this.runningJobId = jobId;
+
+    this.run(jobId)
+      .catch(async (error) => {
+        // Leave the job RUNNING so it can be resumed; record why it stopped
+        console.error(`❌ Key rotation ${jobId} stopped:`, error);
+        await prisma.keyRotationJob
+          .update({ where: { id: jobId }, data: { last_error: (error as Error).message } })
+          .catch(() => undefined);
+      })
+      .finally(() => {
+        this.runningJobId = null;
+      });
+  }
+
+  private async run(jobId: string): Promise<void> {
+    let job = await prisma.keyRotationJob.findUniqueOrThrow({ where: { id: jobId } });
+
+    // Wallets first, then users; each batch advances its cursor
+    for (const phase of ['wallets', 'users'] as const) {
+      while (job.status === 'RUNNING') {
+        const batch = phase === 'wallets'
+          ? await this.rotateWallets(job.wallet_cursor)
+          : await this.rotateUsers(job.user_cursor);
+        if (!batch.cursor) {
+          break;
+        }
+
+        job = await prisma.keyRotationJob.update({
+          where: { id: jobId },
+          data: {
+            ...(phase === 'wallets' ? { wallet_cursor: batch.cursor } : { user_cursor: batch.cursor }),
+            processed_rows: { increment: batch.processed },
+            migrated_rows: { increment: batch.migrated },
+            failed_rows: { increment: batch.failed },
+            ...(batch.lastError ? { last_error: batch.lastError } : {}),
+          },
+        });
+      }
+    }
+
+    if (job.status !== 'RUNNING') {
+      return;
+    }
+
+    job = await prisma.keyRotationJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', completed_at: new Date() },
+    });
+    console.log(
+      `✅ Key rotation ${jobId} completed: ${job.migrated_rows} re-encrypted, ${job.processed_rows - job.migrated_rows - job.failed_rows} already current, ${job.failed_rows} failed`
+    );
+  }
+
+  private async rotateWallets(cursor: string | null): Promise<BatchResult> {
+    const wallets = await prisma.wallet.findMany({
+      where: { encrypted_private_key: { not: '' }, ...(cursor ? { id: { gt: cursor } } : {}) },
+      select: { id: true, encrypted_private_key: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const result = this.emptyBatch(wallets);
+    for (const wallet of wallets) {
+      try {
+        const rotated = this.rotateValue(wallet.encrypted_private_key, 'wallet');
+        if (rotated) {
+          // Only overwrite the value we read, in case the wallet changed meanwhile
+          const { count } = await prisma.wallet.updateMany({
+            where: { id: wallet.id, encrypted_private_key: wallet.encrypted_private_key },
+            data: { encrypted_private_key: rotated },
+          });
+          result.migrated += count;
+        }
+      } catch (error) {
+        result.failed++;
+        result.lastError = `Wallet ${wallet.id}: ${(error as Error).message}`;
+      }
+    }
+    return result;
+  }
+
+  private async rotateUsers(cursor: string | null): Promise<BatchResult> {
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [{ spotify_access_token: { not: null } }, { spotify_refresh_token: { not: null } }],
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      },
+      select: { id: true, spotify_access_token: true, spotify_refresh_token: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const result = this.emptyBatch(users);
+    for (const user of users) {
+      try {
+        const accessToken = user.spotify_access_token ? this.rotateValue(user.spotify_access_token, 'oauth_token') : null;
+        const refreshToken = user.spotify_refresh_token ? this.rotateValue(user.spotify_refresh_token, 'oauth_token') : null;
+        if (accessToken || refreshToken) {
+          // Tokens refreshed meanwhile are already on the active key; leave them alone
+          const { count } = await prisma.user.updateMany({
+            where: {
+              id: user.id,
+              spotify_access_token: user.spotify_access_token,
+              spotify_refresh_token: user.spotify_refresh_token,
+            },
+            data: {
+              ...(accessToken ? { spotify_access_token: accessToken } : {}),
+              ...(refreshToken ? { spotify_refresh_token: refreshToken } : {}),
+            },
+          });
+          result.migrated += count;
+        }
+      } catch (error) {
+        result.failed++;
+        result.lastError = `User ${user.id}: ${(error as Error).message}`;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The stored value re-encrypted onto the active key, or null when it already is
+   */
+  private rotateValue(stored: string, purpose: EncryptionPurpose): string | null {
+    const encryption = this.getEncryption();
+    const data = EncryptionService.parse(stored);
+    return encryption.needsReencryption(data) ? JSON.stringify(encryption.reencrypt(data, purpose)) : null;
+  }
+
+  private emptyBatch(rows: { id: string }[]): BatchResult {
+    return { cursor: rows.length ? rows[rows.length - 1].id : null, processed: rows.length, migrated: 0, failed: 0, lastError: null };
+  }
+
+  private getEncryption(): EncryptionService {
+    // Created lazily so importing this module doesn't require ENCRYPTION_KEY
+    if (!this.encryption) {
+      this.encryption = new EncryptionService();
+    }
+    return this.encryption;
+  }
+}
+
+export default new KeyRotationService();
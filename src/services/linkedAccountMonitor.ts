@@ -0,0 +1,225 @@
+/**
+ * Linked Account Monitor
+ * Refreshes Spotify and Discord tokens before they expire, so a revoked or
+ * expired login is found here rather than in the middle of a party. Accounts
+ * that need the user to log in again are flagged (see lib/linkedAccounts) and
+ * the user gets one DM with a link that starts the login.
+ */
+
+import { Client } from 'discord.js';
+import { prisma } from '../database/prisma';
+import config from '../config/environment';
+import DMService from './dmService';
+import type SpotifyAuthService from './spotify/SpotifyAuthService';
+import {
+  PROVIDER_NAMES,
+  ReconnectableProvider,
+  clearNeedsReconnect,
+  markNeedsReconnect,
+  reconnectUrl,
+} from '../lib/linkedAccounts';
+
+/** How often to look for tokens that are about to expire */
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Spotify access tokens last an hour; refresh those expiring before the next sweep */
+const SPOTIFY_LOOKAHEAD_MS = 2 * SWEEP_INTERVAL_MS;
+
+/** Discord access tokens last a week; refresh a day ahead */
+const DISCORD_LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+/** Wait this long before retrying a Spotify refresh that failed without being revoked */
+const SPOTIFY_RETRY_BACKOFF_MS = 30 * 60 * 1000;
+
+/** Upper bound on refreshes per provider per sweep, to spread load */
+const BATCH_SIZE = 100;
+
+const REASON_TEXT = {
+  REFRESH_REVOKED: 'access was revoked or the login expired',
+  TOKEN_EXPIRED: 'the login expired',
+} as const;
+
+export class LinkedAccountMonitor {
+  private dmService: DMService;
+  private spotifyAuth: SpotifyAuthService;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(client: Client, spotifyAuth: SpotifyAuthService) {
+    this.dmService = new DMService(client);
+    this.spotifyAuth = spotifyAuth;
+  }
+
+  start(): void {
+    if (this.sweepInterval) {
+      return;
+    }
+
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweep();
+    console.log('🔗 Linked account monitor started');
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      await this.refreshSpotify();
+      await this.refreshDiscord();
+      await this.notifyPending('SPOTIFY');
+      await this.notifyPending('DISCORD');
+    } catch (error) {
+      console.error('Error sweeping linked accounts:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Refresh Spotify tokens expiring soon; SpotifyAuthService flags the ones
+   * Spotify rejects
+   */
+  private async refreshSpotify(): Promise<void> {
+    const horizon = new Date(Date.now() + SPOTIFY_LOOKAHEAD_MS);
+    const retryBefore = new Date(Date.now() - SPOTIFY_RETRY_BACKOFF_MS);
+    // Users whose refresh keeps failing would otherwise fill every batch ahead of everyone else
+    const users = await prisma.user.findMany({
+      where: {
+        spotify_refresh_token: { not: null },
+        spotify_reconnect_reason: null,
+        AND: [
+          { OR: [{ spotify_token_expires_at: null }, { spotify_token_expires_at: { lt: horizon } }] },
+          { OR: [{ spotify_refresh_failed_at: null }, { spotify_refresh_failed_at: { lt: retryBefore } }] },
+        ],
+      },
+      select: { discord_id: true },
+      orderBy: { spotify_token_expires_at: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const user of users) {
+      await this.spotifyAuth.getValidAccessToken(user.discord_id, SPOTIFY_LOOKAHEAD_MS);
+    }
+  }
+
+  private async refreshDiscord(): Promise<void> {
+    const now = Date.now();
+    const users = await prisma.user.findMany({
+      where: {
+        discord_access_token: { not: null },
+        discord_reconnect_reason: null,
+        discord_token_expires_at: { lt: new Date(now + DISCORD_LOOKAHEAD_MS) },
+      },
+      select: { discord_id: true, discord_refresh_token: true, discord_token_expires_at: true },
+      orderBy: { discord_token_expires_at: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const user of users) {
+      if (!user.discord_refresh_token) {
+        // Nothing to refresh with; flag once the access token has actually run out
+        if (user.discord_token_expires_at && user.discord_token_expires_at.getTime() <= now) {
+          await markNeedsReconnect(user.discord_id, 'DISCORD', 'TOKEN_EXPIRED');
+        }
+        continue;
+      }
+
+      try {
+        await this.refreshDiscordToken(user.discord_id, user.discord_refresh_token);
+      } catch (error) {
+        // Temporary failure; try again next sweep
+        console.error(`Failed to refresh Discord token for user ${user.discord_id}:`, (error as Error).message);
+      }
+    }
+  }
+
+  private async refreshDiscordToken(discordId: string, refreshToken: string): Promise<void> {
+    const response = await fetch('https://discord.com/api/oauth2/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: config.discord.clientId,
+        client_secret: config.discord.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      if (response.status === 400 && body?.error === 'invalid_grant') {
+        await prisma.user.updateMany({
+          where: { discord_id: discordId },
+          data: { discord_access_token: null, discord_refresh_token: null, discord_token_expires_at: null },
+        });
+        await markNeedsReconnect(discordId, 'DISCORD', 'REFRESH_REVOKED');
+        return;
+      }
+      throw new Error(`Discord token refresh failed: ${response.status}`);
+    }
+
+    const tokens = await response.json() as { access_token: string; refresh_token?: string; expires_in: number };
+    await prisma.user.updateMany({
+      where: { discord_id: discordId },
+      data: {
+        discord_access_token: tokens.access_token,
+        discord_refresh_token: tokens.refresh_token || refreshToken,
+        discord_token_expires_at: new Date(Date.now() + tokens.expires_in * 1000),
+      },
+    });
+    await clearNeedsReconnect(discordId, 'DISCORD');
+  }
+
+  /**
+   * DM every user flagged for `provider` who hasn't been told yet
+   */
+  private async notifyPending(provider: ReconnectableProvider): Promise<void> {
+    const users = await prisma.user.findMany({
+      where: provider === 'SPOTIFY'
+        ? { spotify_reconnect_reason: { not: null }, spotify_reconnect_notified_at: null }
+        : { discord_reconnect_reason: { not: null }, discord_reconnect_notified_at: null },
+      select: { discord_id: true, spotify_reconnect_reason: true, discord_reconnect_reason: true },
+      take: BATCH_SIZE,
+    });
+
+    for (const user of users) {
+      const reason = provider === 'SPOTIFY' ? user.spotify_reconnect_reason : user.discord_reconnect_reason;
+      const name = PROVIDER_NAMES[provider];
+      const sent = await this.dmService.sendDM({
+        userId: user.discord_id,
+        title: `🔌 Reconnect ${name}`,
+        message:
+          `Your ${name} account needs to be connected again (${reason ? REASON_TEXT[reason] : 'the login stopped working'}).\n\n` +
+          `Until then, ${provider === 'SPOTIFY' ? 'Spotify listening time can\'t be verified for parties' : 'dashboard features that use your Discord login won\'t work'}.\n\n` +
+          `[🔐 **Reconnect ${name}**](${reconnectUrl(provider)})`,
+        color: 0xF59E0B,
+      });
+
+      // Mark as notified even if the DM couldn't be delivered (DMs closed), so we don't retry forever;
+      // the dashboard settings page still shows the reconnect prompt
+      if (!sent) {
+        console.warn(`⚠️ Could not DM ${user.discord_id} about reconnecting ${name}`);
+      }
+      await prisma.user.updateMany({
+        where: provider === 'SPOTIFY'
+          ? { discord_id: user.discord_id, spotify_reconnect_reason: reason }
+          : { discord_id: user.discord_id, discord_reconnect_reason: reason },
+        data: provider === 'SPOTIFY'
+          ? { spotify_reconnect_notified_at: new Date() }
+          : { discord_reconnect_notified_at: new Date() },
+      });
+    }
+  }
+}
+
+export default LinkedAccountMonitor;
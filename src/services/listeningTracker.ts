@@ -1,49 +1,201 @@
 /**
  * Listening Tracker Service
- * Manages active listening sessions for Audius parties
+ * Manages active listening sessions for Audius and Spotify parties
  * Handles heartbeat polling and progress updates
+ *
+ * Sessions are persisted in ListeningTrackerSession and resumed on startup, and
+ * one scheduler loop sends every due heartbeat (with a cap on requests in
+ * flight) instead of a timer per listener.
  */
 
-import axios from 'axios';
 import { Client, EmbedBuilder, User } from 'discord.js';
 import config from '../config/environment';
+import { prisma } from '../database/prisma';
 import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+import { createServiceClient } from '../lib/serviceAuth';
 
 const API_BASE = config.api.publicUrl || 'http://localhost:3001';
+const serviceApi = createServiceClient(API_BASE);
+
+export type ListeningPlatform = 'AUDIUS' | 'SPOTIFY';
+
+const PLATFORM_NAMES: Record<ListeningPlatform, string> = {
+  AUDIUS: 'Audius',
+  SPOTIFY: 'Spotify',
+};
+
+interface StartTrackingParams {
+  partyId: string;
+  discordId: string;
+  platform: ListeningPlatform;
+  audiusUserId?: string; // Required for Audius parties
+  trackId: string;
+  trackTitle: string;
+}
 
 interface ActiveSession {
   partyId: string;
   discordId: string;
-  audiusUserId: string;
+  platform: ListeningPlatform;
+  audiusUserId?: string;
   trackId: string;
-  intervalId: NodeJS.Timeout;
+  linkedTrackId?: string; // Spotify relinked track for the user's market
+  trackTitle: string;
+  nextHeartbeatAt: number;
+  inFlight: boolean; // a heartbeat request is outstanding
   startTime: number;
   lastUpdate: number;
   duration: number;
+  requiredDuration: number; // from the party's qualification rules
+  sessionCount: number;
+  requiredSessions: number;
+  // Multi-track parties: how many tracks are done and which one is playing
+  tracksCompleted: number;
+  requiredTracks: number;
+  trackCount: number;
+  currentTrackTitle?: string;
   qualified: boolean;
 }
 
 class ListeningTracker {
   private activeSessions: Map<string, ActiveSession> = new Map();
   private client: Client;
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private inFlightCount = 0;
   private readonly HEARTBEAT_INTERVAL = LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL_MS;
   private readonly PROGRESS_UPDATE_INTERVAL = LISTENING_PARTY_CONSTANTS.PROGRESS_UPDATE_INTERVAL_MS;
-  private readonly QUALIFYING_DURATION = LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD;
+  private readonly MAX_CONCURRENT_HEARTBEATS = LISTENING_PARTY_CONSTANTS.MAX_CONCURRENT_HEARTBEATS;
 
   constructor(client: Client) {
     this.client = client;
   }
 
   /**
-   * Start tracking a user's listening session
+   * Resume persisted sessions and start the heartbeat scheduler
    */
-  async startTracking(
+  async start(): Promise<void> {
+    if (this.schedulerInterval) {
+      return;
+    }
+
+    try {
+      await this.restoreSessions();
+    } catch (error) {
+      console.error('Error restoring listening sessions:', error);
+    }
+
+    this.schedulerInterval = setInterval(() => this.dispatchDueHeartbeats(), LISTENING_PARTY_CONSTANTS.TRACKER_TICK_MS);
+    console.log(`🎧 Listening tracker started (${this.activeSessions.size} session(s))`);
+  }
+
+  /**
+   * Stop the scheduler. Sessions stay persisted and resume on the next start.
+   */
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+    this.activeSessions.clear();
+    console.log('🛑 Listening tracker stopped');
+  }
+
+  /**
+   * Load sessions that were being tracked before a restart. Sessions for
+   * parties that ended in the meantime are dropped.
+   */
+  private async restoreSessions(): Promise<void> {
+    const rows = await prisma.listeningTrackerSession.findMany({
+      include: { listening_party: { select: { status: true, expires_at: true } } },
+    });
+
+    const now = Date.now();
+    const isLive = (row: (typeof rows)[number]) =>
+      row.listening_party.status === 'ACTIVE' && row.listening_party.expires_at.getTime() > now;
+    const live = rows.filter(isLive);
+    const ended = rows.filter((row) => !isLive(row));
+    if (ended.length) {
+      await prisma.listeningTrackerSession.deleteMany({ where: { id: { in: ended.map((row) => row.id) } } });
+    }
+
+    for (const row of live) {
+      this.activeSessions.set(`${row.party_id}_${row.discord_id}`, {
+        ...this.newSession(row.party_id, row.discord_id, row.platform, row.track_id, row.track_title),
+        audiusUserId: row.audius_user_id || undefined,
+        linkedTrackId: row.linked_track_id || undefined,
+        startTime: row.started_at.getTime(),
+        // Spread resumed heartbeats over one interval instead of firing them all at once
+        nextHeartbeatAt: now + Math.floor(Math.random() * this.HEARTBEAT_INTERVAL),
+      });
+    }
+
+    if (rows.length) {
+      console.log(`♻️ Resumed ${live.length} listening session(s), dropped ${ended.length} for ended parties`);
+    }
+  }
+
+  /**
+   * Scheduler tick: send heartbeats for every due session, most overdue first,
+   * without exceeding MAX_CONCURRENT_HEARTBEATS requests in flight
+   */
+  private dispatchDueHeartbeats(): void {
+    const now = Date.now();
+    const freeSlots = this.MAX_CONCURRENT_HEARTBEATS - this.inFlightCount;
+    if (freeSlots <= 0) {
+      return;
+    }
+
+    const due = [...this.activeSessions.entries()]
+      .filter(([, session]) => !session.inFlight && session.nextHeartbeatAt <= now)
+      .sort(([, a], [, b]) => a.nextHeartbeatAt - b.nextHeartbeatAt)
+      .slice(0, freeSlots);
+
+    for (const [key, session] of due) {
+      session.inFlight = true;
+      session.nextHeartbeatAt = now + this.HEARTBEAT_INTERVAL;
+      this.inFlightCount++;
+
+      this.sendHeartbeat(key, session).finally(() => {
+        session.inFlight = false;
+        this.inFlightCount--;
+      });
+    }
+  }
+
+  private newSession(
     partyId: string,
     discordId: string,
-    audiusUserId: string,
+    platform: ListeningPlatform,
     trackId: string,
     trackTitle: string
-  ): Promise<{ success: boolean; message: string }> {
+  ): ActiveSession {
+    const now = Date.now();
+    return {
+      partyId,
+      discordId,
+      platform,
+      trackId,
+      trackTitle,
+      nextHeartbeatAt: now + this.HEARTBEAT_INTERVAL,
+      inFlight: false,
+      startTime: now,
+      lastUpdate: now,
+      duration: 0,
+      requiredDuration: LISTENING_PARTY_CONSTANTS.QUALIFYING_THRESHOLD,
+      sessionCount: 0,
+      requiredSessions: 1,
+      tracksCompleted: 0,
+      requiredTracks: 1,
+      trackCount: 1,
+      qualified: false,
+    };
+  }
+
+  /**
+   * Start tracking a user's listening session
+   */
+  async startTracking(params: StartTrackingParams): Promise<{ success: boolean; message: string }> {
+    const { partyId, discordId, platform, audiusUserId, trackId, trackTitle } = params;
     const key = `${partyId}_${discordId}`;
 
     // Check if already tracking
@@ -56,12 +208,18 @@ class ListeningTracker {
 
     try {
       // Call API to start tracking
-      const response = await axios.post(`${API_BASE}/api/audius/start-tracking`, {
-        party_id: partyId,
-        discord_id: discordId,
-        audius_user_id: audiusUserId,
-        track_id: trackId,
-      });
+      const response = platform === 'SPOTIFY'
+        ? await serviceApi.post('/api/spotify/start-tracking', {
+            party_id: partyId,
+            discord_id: discordId,
+            track_id: trackId,
+          })
+        : await serviceApi.post('/api/audius/start-tracking', {
+            party_id: partyId,
+            discord_id: discordId,
+            audius_user_id: audiusUserId,
+            track_id: trackId,
+          });
 
       if (!response.data.success) {
         return {
@@ -76,23 +234,26 @@ class ListeningTracker {
         `🎵 **Listening Verification Started**\n\nTrack: **${trackTitle}**\n\nWe're tracking your listening progress. You'll receive updates as you listen!`
       );
 
-      // Create session
+      // Create session; the scheduler picks it up from here
       const session: ActiveSession = {
-        partyId,
-        discordId,
+        ...this.newSession(partyId, discordId, platform, trackId, trackTitle),
         audiusUserId,
-        trackId,
-        intervalId: null as any,
-        startTime: Date.now(),
-        lastUpdate: Date.now(),
-        duration: 0,
-        qualified: false,
+        linkedTrackId: response.data.linked_track_id || undefined,
       };
 
-      // Start heartbeat interval
-      session.intervalId = setInterval(() => {
-        this.sendHeartbeat(key, session, trackTitle);
-      }, this.HEARTBEAT_INTERVAL);
+      const persisted = {
+        platform,
+        audius_user_id: audiusUserId ?? null,
+        track_id: trackId,
+        linked_track_id: session.linkedTrackId ?? null,
+        track_title: trackTitle,
+        started_at: new Date(session.startTime),
+      };
+      await prisma.listeningTrackerSession.upsert({
+        where: { party_id_discord_id: { party_id: partyId, discord_id: discordId } },
+        create: { party_id: partyId, discord_id: discordId, ...persisted },
+        update: persisted,
+      });
 
       this.activeSessions.set(key, session);
 
@@ -114,32 +275,81 @@ class ListeningTracker {
   /**
    * Send heartbeat to API and update user
    */
-  private async sendHeartbeat(key: string, session: ActiveSession, trackTitle: string) {
+  private async sendHeartbeat(key: string, session: ActiveSession) {
+    const { trackTitle } = session;
     try {
       // Call heartbeat API
-      const response = await axios.post(`${API_BASE}/api/audius/heartbeat`, {
-        party_id: session.partyId,
-        discord_id: session.discordId,
-        audius_user_id: session.audiusUserId,
-        track_id: session.trackId,
-      });
-
-      const { qualified, listeningDuration, isPlaying } = response.data;
+      const response = session.platform === 'SPOTIFY'
+        ? await serviceApi.post('/api/spotify/heartbeat', {
+            party_id: session.partyId,
+            discord_id: session.discordId,
+            track_id: session.trackId,
+            linked_track_id: session.linkedTrackId,
+          })
+        : await serviceApi.post('/api/audius/heartbeat', {
+            party_id: session.partyId,
+            discord_id: session.discordId,
+            audius_user_id: session.audiusUserId,
+            track_id: session.trackId,
+          });
+
+      const {
+        qualified,
+        listeningDuration,
+        requiredDuration,
+        sessionCount,
+        requiredSessions,
+        tracksCompleted,
+        requiredTracks,
+        trackCount,
+        currentTrack,
+        heldForReview,
+        isPlaying,
+        nextHeartbeatMs,
+      } = response.data;
+
+      // The API asks for a longer interval while Spotify is rate limiting
+      if (nextHeartbeatMs > this.HEARTBEAT_INTERVAL) {
+        session.nextHeartbeatAt += nextHeartbeatMs - this.HEARTBEAT_INTERVAL;
+      }
 
       const previouslyQualified = session.qualified;
       session.duration = listeningDuration;
+      session.requiredDuration = requiredDuration ?? session.requiredDuration;
+      session.sessionCount = sessionCount ?? session.sessionCount;
+      session.requiredSessions = requiredSessions ?? session.requiredSessions;
+      session.tracksCompleted = tracksCompleted ?? session.tracksCompleted;
+      session.requiredTracks = requiredTracks ?? session.requiredTracks;
+      session.trackCount = trackCount ?? session.trackCount;
       session.qualified = qualified;
 
       // If not playing the correct track, warn user
       if (!isPlaying) {
         await this.sendDM(
           session.discordId,
-          `⚠️ **Playback Not Detected**\n\nWe couldn't verify that you're playing the track. Please make sure:\n1. You clicked "Play" and the track is playing on Audius\n2. You're playing the correct track\n\nYour progress has been paused.`
+          `⚠️ **Playback Not Detected**\n\nWe couldn't verify that you're playing the track. Please make sure:\n1. You clicked "Play" and the track is playing on ${PLATFORM_NAMES[session.platform]}\n2. You're playing the correct track\n\nYour progress has been paused.`
         );
         this.stopTracking(key);
         return;
       }
 
+      // Multi-track parties: let the fan know when we've picked up the next track
+      // and when one is done so they can move on
+      if (currentTrack && session.trackCount > 1) {
+        session.currentTrackTitle = currentTrack.title;
+        if (currentTrack.just_completed && !qualified) {
+          await this.sendDM(
+            session.discordId,
+            `✅ **Track Complete (${session.tracksCompleted}/${session.requiredTracks})**\n\n**${currentTrack.title}** is done. Play the next track in the party to keep going!`
+          );
+        } else if (currentTrack.changed) {
+          await this.sendDM(
+            session.discordId,
+            `🎶 **Now on Track ${currentTrack.position + 1} of ${session.trackCount}**\n\n**${currentTrack.title}**`
+          );
+        }
+      }
+
       // Send progress update every 9 seconds (every 3rd heartbeat)
       const timeSinceLastUpdate = Date.now() - session.lastUpdate;
 
@@ -153,6 +363,31 @@ class ListeningTracker {
         return;
       }
 
+      // Rules met, but the anti-cheat checks want the artist to confirm
+      if (heldForReview) {
+        await this.sendDM(
+          session.discordId,
+          `🔍 **Under Review**\n\nYou've met the listening requirements for **${trackTitle}**, but your session has been flagged for a manual check. The artist will review it before you can claim rewards.`
+        );
+        this.stopTracking(key);
+        return;
+      }
+
+      // Listening time is done but the party requires more separate sessions
+      if (
+        !qualified &&
+        session.duration >= session.requiredDuration &&
+        session.tracksCompleted >= session.requiredTracks &&
+        session.sessionCount < session.requiredSessions
+      ) {
+        await this.sendDM(
+          session.discordId,
+          `⏸️ **Session ${session.sessionCount} of ${session.requiredSessions} Complete**\n\nThis party requires ${session.requiredSessions} separate listening sessions. Come back later and click **Listen** again to continue.`
+        );
+        this.stopTracking(key);
+        return;
+      }
+
       if (timeSinceLastUpdate >= this.PROGRESS_UPDATE_INTERVAL) {
         await this.sendProgressUpdate(session, trackTitle);
         session.lastUpdate = Date.now();
@@ -174,7 +409,10 @@ class ListeningTracker {
    * Send progress update to user
    */
   private async sendProgressUpdate(session: ActiveSession, trackTitle: string) {
-    const percentage = Math.min((session.duration / this.QUALIFYING_DURATION) * 100, 100);
+    const isMultiTrack = session.trackCount > 1;
+    const percentage = isMultiTrack
+      ? Math.min((session.tracksCompleted / session.requiredTracks) * 100, 100)
+      : Math.min((session.duration / session.requiredDuration) * 100, 100);
     const totalSegments = 10;
     const rawFilled = Math.round((percentage / 100) * totalSegments);
     const filledSegments = Math.min(Math.max(rawFilled, percentage > 0 ? 1 : 0), totalSegments);
@@ -184,26 +422,40 @@ class ListeningTracker {
     const embed = new EmbedBuilder()
       .setColor(0x7c3aed)
       .setTitle('🎵 Listening Progress')
-      .setDescription(`**${trackTitle}**`)
+      .setDescription(isMultiTrack && session.currentTrackTitle ? `**${trackTitle}**\nNow playing: ${session.currentTrackTitle}` : `**${trackTitle}**`)
       .addFields(
         {
           name: 'Progress',
           value: `${progressBar} ${percentage.toFixed(0)}%`,
           inline: false,
         },
-        {
-          name: 'Time',
-          value: `${session.duration}s / ${this.QUALIFYING_DURATION}s`,
-          inline: true,
-        },
+        isMultiTrack
+          ? {
+              name: 'Tracks',
+              value: `${session.tracksCompleted} / ${session.requiredTracks}`,
+              inline: true,
+            }
+          : {
+              name: 'Time',
+              value: `${session.duration}s / ${session.requiredDuration}s`,
+              inline: true,
+            },
         {
           name: 'Status',
-          value: session.duration >= this.QUALIFYING_DURATION ? '✅ Qualified!' : '🎧 Listening...',
+          value: session.qualified ? '✅ Qualified!' : '🎧 Listening...',
           inline: true,
         }
       )
       .setTimestamp();
 
+    if (session.requiredSessions > 1) {
+      embed.addFields({
+        name: 'Sessions',
+        value: `${session.sessionCount} / ${session.requiredSessions}`,
+        inline: true,
+      });
+    }
+
     try {
       const user = await this.client.users.fetch(session.discordId);
       await user.send({ embeds: [embed] });
@@ -219,7 +471,11 @@ class ListeningTracker {
     const embed = new EmbedBuilder()
       .setColor(0x10b981)
       .setTitle('✅ Qualified!')
-      .setDescription(`**${trackTitle}**\n\nYou've listened for ${this.QUALIFYING_DURATION} seconds and are now qualified to claim rewards!`)
+      .setDescription(
+        session.trackCount > 1
+          ? `**${trackTitle}**\n\nYou've completed ${session.tracksCompleted} of ${session.trackCount} tracks and are now qualified to claim rewards!`
+          : `**${trackTitle}**\n\nYou've listened for ${session.duration} seconds and are now qualified to claim rewards!`
+      )
       .addFields({
         name: 'Next Step',
         value: 'Click the **Claim** button on the party message in Discord to claim your rewards!',
@@ -243,8 +499,19 @@ class ListeningTracker {
   stopTracking(key: string) {
     const session = this.activeSessions.get(key);
     if (session) {
-      clearInterval(session.intervalId);
       this.activeSessions.delete(key);
+
+      prisma.listeningTrackerSession
+        .deleteMany({ where: { party_id: session.partyId, discord_id: session.discordId } })
+        .catch((error) => {
+          console.error(`Error removing persisted session for ${session.discordId}:`, error.message);
+        });
+
+      // Close the session server-side so the next Listen counts as a new session
+      const endpoint = session.platform === 'SPOTIFY' ? '/api/spotify/stop-tracking' : '/api/audius/stop-tracking';
+      serviceApi.post(endpoint, { party_id: session.partyId, discord_id: session.discordId }).catch((error) => {
+        console.error(`Error closing listening session for ${session.discordId}:`, error.message);
+      });
       console.log(`🛑 Stopped tracking ${session.discordId} for party ${session.partyId}`);
     }
   }
@@ -280,17 +547,6 @@ class ListeningTracker {
     return Array.from(this.activeSessions.values());
   }
 
-  /**
-   * Stop all tracking sessions
-   */
-  stopAll() {
-    for (const session of this.activeSessions.values()) {
-      clearInterval(session.intervalId);
-    }
-    this.activeSessions.clear();
-    console.log('🛑 Stopped all listening sessions');
-  }
-
   /**
    * Helper to send DM to user
    */
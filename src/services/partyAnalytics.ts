@@ -0,0 +1,397 @@
+/**
+ * Party Analytics Service
+ * Server-side listening analytics for artists, built from participant rows and
+ * ListeningHeartbeat. One report covers a single party (with per-minute
+ * concurrency); the artist report aggregates every party created in a range.
+ */
+
+import { ListeningParty, ListeningPartyTrack, Platform } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import { summarizeQualificationRules } from '../lib/qualification';
+import { TimeRange } from '../lib/timeRange';
+import cacheService, { CacheKeys, CacheTTL } from './cache';
+
+export interface TimePoint {
+  t: string; // bucket start (ISO)
+  value: number;
+}
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface DurationSummary {
+  count: number;
+  median_seconds: number | null;
+  average_seconds: number | null;
+  buckets: HistogramBucket[];
+}
+
+export interface ServerBreakdown {
+  server_id: string | null;
+  server_name: string | null;
+  joined: number;
+  qualified: number;
+  claimed: number;
+}
+
+export interface PlatformBreakdown {
+  platform: Platform | null; // null: joined but never verified on a platform
+  joined: number;
+  qualified: number;
+  claimed: number;
+  listening_duration_avg: number; // seconds
+}
+
+export interface AnalyticsTotals {
+  participants: number;
+  qualified: number;
+  claimed: number;
+  held_for_review: number;
+  listening_duration_avg: number; // seconds
+}
+
+export interface PartyAnalytics {
+  party_id: string;
+  track_title: string | null;
+  status: string;
+  required_seconds: number;
+  totals: AnalyticsTotals;
+  joins_over_time: { bucket_seconds: number; points: TimePoint[] };
+  concurrent_listeners: { bucket_seconds: number; peak: number; points: TimePoint[] };
+  drop_off: Array<{ minute: number; listeners: number }>;
+  time_to_qualify: DurationSummary;
+  claim_latency: DurationSummary;
+  servers: ServerBreakdown[];
+  platforms: PlatformBreakdown[];
+}
+
+export interface ArtistAnalytics {
+  range: { from: string | null; to: string };
+  totals: AnalyticsTotals & { parties: number; active_parties: number };
+  joins_over_time: { bucket_seconds: number; points: TimePoint[] };
+  drop_off: Array<{ minute: number; listeners: number }>;
+  time_to_qualify: DurationSummary;
+  claim_latency: DurationSummary;
+  servers: ServerBreakdown[];
+  platforms: PlatformBreakdown[];
+  parties: Array<{
+    id: string;
+    track_title: string | null;
+    status: string;
+    created_at: Date;
+    expires_at: Date;
+    token_mint: string;
+    tokens_per_participant: string;
+  } & AnalyticsTotals>;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Upper bounds (seconds) for the time-to-qualify histogram */
+const QUALIFY_BUCKETS = [
+  { label: '< 1m', max: MINUTE },
+  { label: '1-2m', max: 2 * MINUTE },
+  { label: '2-5m', max: 5 * MINUTE },
+  { label: '5-10m', max: 10 * MINUTE },
+  { label: '10-30m', max: 30 * MINUTE },
+  { label: '30-60m', max: HOUR },
+  { label: '1h+', max: Infinity },
+];
+
+/** Upper bounds (seconds) for the qualify-to-claim histogram */
+const CLAIM_BUCKETS = [
+  { label: '< 1m', max: MINUTE },
+  { label: '1-5m', max: 5 * MINUTE },
+  { label: '5-15m', max: 15 * MINUTE },
+  { label: '15-60m', max: HOUR },
+  { label: '1-6h', max: 6 * HOUR },
+  { label: '6-24h', max: DAY },
+  { label: '1d+', max: Infinity },
+];
+
+/** Per-minute concurrency is only worth drawing for a bounded window */
+const MAX_CONCURRENCY_POINTS = 24 * 60;
+
+type ParticipantRow = {
+  id: string;
+  server_id: string | null;
+  platform: Platform | null;
+  joined_at: Date;
+  qualified_at: Date | null;
+  claimed_at: Date | null;
+  review_status: string | null;
+  total_listening_duration: number;
+};
+
+const participantSelect = {
+  id: true,
+  server_id: true,
+  platform: true,
+  joined_at: true,
+  qualified_at: true,
+  claimed_at: true,
+  review_status: true,
+  total_listening_duration: true,
+} as const;
+
+class PartyAnalyticsService {
+  /**
+   * Analytics for one party. Returns null when the party doesn't exist or
+   * belongs to another artist.
+   */
+  async getPartyAnalytics(partyId: string, artistDiscordId: string): Promise<PartyAnalytics | null> {
+    const party = await prisma.listeningParty.findUnique({ where: { id: partyId }, include: { tracks: true } });
+    if (!party || party.artist_discord_id !== artistDiscordId) {
+      return null;
+    }
+
+    return cacheService.getOrSet(
+      CacheKeys.PARTY_ANALYTICS(partyId),
+      () => this.computePartyAnalytics(party),
+      CacheTTL.SHORT
+    );
+  }
+
+  async getArtistAnalytics(artistDiscordId: string, range: TimeRange): Promise<ArtistAnalytics> {
+    return cacheService.getOrSet(
+      CacheKeys.ARTIST_ANALYTICS(artistDiscordId, range.from?.getTime() ?? 0, range.to.getTime()),
+      () => this.computeArtistAnalytics(artistDiscordId, range),
+      CacheTTL.SHORT
+    );
+  }
+
+  private async computePartyAnalytics(party: ListeningParty & { tracks: ListeningPartyTrack[] }): Promise<PartyAnalytics> {
+    const participants = await prisma.listeningPartyParticipant.findMany({
+      where: { party_id: party.id },
+      select: participantSelect,
+    });
+
+    const start = party.started_at ?? party.created_at;
+    const end = new Date(Math.min(Date.now(), (party.ended_at ?? party.expires_at).getTime()));
+    const spanSeconds = Math.max(MINUTE, (end.getTime() - start.getTime()) / 1000);
+    const joinBucket = spanSeconds <= 2 * HOUR ? 5 * MINUTE : spanSeconds <= DAY ? HOUR : DAY;
+
+    return {
+      party_id: party.id,
+      track_title: party.title ?? party.track_title,
+      status: party.status,
+      required_seconds: summarizeQualificationRules(party, party.tracks).required_seconds,
+      totals: this.totals(participants),
+      joins_over_time: {
+        bucket_seconds: joinBucket,
+        points: this.countOverTime(participants.map((p) => p.joined_at), start, end, joinBucket),
+      },
+      concurrent_listeners: await this.concurrentListeners(participants.map((p) => p.id), start, end),
+      drop_off: this.dropOff(participants),
+      time_to_qualify: this.summarizeDurations(
+        participants.filter((p) => p.qualified_at).map((p) => (p.qualified_at!.getTime() - p.joined_at.getTime()) / 1000),
+        QUALIFY_BUCKETS
+      ),
+      claim_latency: this.summarizeDurations(
+        participants
+          .filter((p) => p.qualified_at && p.claimed_at)
+          .map((p) => (p.claimed_at!.getTime() - p.qualified_at!.getTime()) / 1000),
+        CLAIM_BUCKETS
+      ),
+      servers: await this.serverBreakdown(participants, party.artist_discord_id),
+      platforms: this.platformBreakdown(participants),
+    };
+  }
+
+  private async computeArtistAnalytics(artistDiscordId: string, { from, to }: TimeRange): Promise<ArtistAnalytics> {
+    const parties = await prisma.listeningParty.findMany({
+      where: { artist_discord_id: artistDiscordId, created_at: { ...(from ? { gte: from } : {}), lt: to } },
+      include: { participants: { select: participantSelect } },
+      orderBy: { created_at: 'desc' },
+    });
+
+    const participants = parties.flatMap((party) => party.participants);
+    const now = new Date();
+    const start = from ?? (parties.length ? parties[parties.length - 1].created_at : to);
+    const joinBucket = (to.getTime() - start.getTime()) / 1000 <= 2 * DAY ? HOUR : DAY;
+
+    return {
+      range: { from: from?.toISOString() ?? null, to: to.toISOString() },
+      totals: {
+        ...this.totals(participants),
+        parties: parties.length,
+        active_parties: parties.filter((p) => p.status === 'ACTIVE' && p.expires_at > now).length,
+      },
+      joins_over_time: {
+        bucket_seconds: joinBucket,
+        points: this.countOverTime(participants.map((p) => p.joined_at), start, to, joinBucket),
+      },
+      drop_off: this.dropOff(participants),
+      time_to_qualify: this.summarizeDurations(
+        participants.filter((p) => p.qualified_at).map((p) => (p.qualified_at!.getTime() - p.joined_at.getTime()) / 1000),
+        QUALIFY_BUCKETS
+      ),
+      claim_latency: this.summarizeDurations(
+        participants
+          .filter((p) => p.qualified_at && p.claimed_at)
+          .map((p) => (p.claimed_at!.getTime() - p.qualified_at!.getTime()) / 1000),
+        CLAIM_BUCKETS
+      ),
+      servers: await this.serverBreakdown(participants, artistDiscordId),
+      platforms: this.platformBreakdown(participants),
+      parties: parties.map((party) => ({
+        id: party.id,
+        track_title: party.title ?? party.track_title,
+        status: party.status,
+        created_at: party.created_at,
+        expires_at: party.expires_at,
+        token_mint: party.token_mint,
+        tokens_per_participant: party.tokens_per_participant.toString(),
+        ...this.totals(party.participants),
+      })),
+    };
+  }
+
+  private totals(participants: ParticipantRow[]): AnalyticsTotals {
+    const listened = participants.reduce((sum, p) => sum + p.total_listening_duration, 0);
+    return {
+      participants: participants.length,
+      qualified: participants.filter((p) => p.qualified_at).length,
+      claimed: participants.filter((p) => p.claimed_at).length,
+      held_for_review: participants.filter((p) => p.review_status === 'PENDING_REVIEW').length,
+      listening_duration_avg: participants.length ? Math.round(listened / participants.length) : 0,
+    };
+  }
+
+  private countOverTime(times: Date[], start: Date, end: Date, bucketSeconds: number): TimePoint[] {
+    const bucketMs = bucketSeconds * 1000;
+    const first = Math.floor(start.getTime() / bucketMs) * bucketMs;
+    const count = Math.max(1, Math.ceil((end.getTime() - first) / bucketMs));
+    const values = new Array<number>(count).fill(0);
+
+    for (const time of times) {
+      const index = Math.floor((time.getTime() - first) / bucketMs);
+      if (index >= 0 && index < count) values[index]++;
+    }
+
+    return values.map((value, i) => ({ t: new Date(first + i * bucketMs).toISOString(), value }));
+  }
+
+  /**
+   * Distinct participants with a playing heartbeat in each minute of the party.
+   * Heartbeats arrive at least once a minute while someone is listening, so a
+   * minute with no beat from a participant means they weren't playing.
+   */
+  private async concurrentListeners(
+    participantIds: string[],
+    start: Date,
+    end: Date
+  ): Promise<PartyAnalytics['concurrent_listeners']> {
+    const bucketMs = MINUTE * 1000;
+    const first = Math.floor(start.getTime() / bucketMs) * bucketMs;
+    const count = Math.min(MAX_CONCURRENCY_POINTS, Math.max(1, Math.ceil((end.getTime() - first) / bucketMs)));
+
+    if (!participantIds.length) {
+      return { bucket_seconds: MINUTE, peak: 0, points: [] };
+    }
+
+    const heartbeats = await prisma.listeningHeartbeat.findMany({
+      where: {
+        participant_id: { in: participantIds },
+        is_playing: true,
+        recorded_at: { gte: new Date(first), lt: new Date(first + count * bucketMs) },
+      },
+      select: { participant_id: true, recorded_at: true },
+    });
+
+    const listeners = Array.from({ length: count }, () => new Set<string>());
+    for (const beat of heartbeats) {
+      listeners[Math.floor((beat.recorded_at.getTime() - first) / bucketMs)]?.add(beat.participant_id);
+    }
+
+    const points = listeners.map((set, i) => ({ t: new Date(first + i * bucketMs).toISOString(), value: set.size }));
+    return { bucket_seconds: MINUTE, peak: Math.max(0, ...points.map((p) => p.value)), points };
+  }
+
+  /** How many participants were still listening after N credited minutes */
+  private dropOff(participants: ParticipantRow[]): Array<{ minute: number; listeners: number }> {
+    const maxMinute = Math.ceil(Math.max(0, ...participants.map((p) => p.total_listening_duration)) / MINUTE);
+    const curve: Array<{ minute: number; listeners: number }> = [];
+
+    for (let minute = 0; minute <= Math.min(maxMinute, 180); minute++) {
+      curve.push({
+        minute,
+        listeners: participants.filter((p) => p.total_listening_duration >= minute * MINUTE).length,
+      });
+    }
+    return curve;
+  }
+
+  private summarizeDurations(seconds: number[], buckets: Array<{ label: string; max: number }>): DurationSummary {
+    const sorted = [...seconds].filter((s) => s >= 0).sort((a, b) => a - b);
+    const counts = buckets.map((bucket) => ({ label: bucket.label, count: 0 }));
+
+    for (const value of sorted) {
+      counts[buckets.findIndex((bucket) => value < bucket.max)].count++;
+    }
+
+    return {
+      count: sorted.length,
+      median_seconds: sorted.length ? Math.round(sorted[Math.floor(sorted.length / 2)]) : null,
+      average_seconds: sorted.length ? Math.round(sorted.reduce((sum, s) => sum + s, 0) / sorted.length) : null,
+      buckets: counts,
+    };
+  }
+
+  /** Results by the platform each participant's listening was verified on */
+  private platformBreakdown(participants: ParticipantRow[]): PlatformBreakdown[] {
+    const byPlatform = new Map<Platform | null, ParticipantRow[]>();
+    for (const p of participants) {
+      let rows = byPlatform.get(p.platform);
+      if (!rows) {
+        rows = [];
+        byPlatform.set(p.platform, rows);
+      }
+      rows.push(p);
+    }
+
+    return [...byPlatform.entries()]
+      .map(([platform, rows]) => {
+        const totals = this.totals(rows);
+        return {
+          platform,
+          joined: totals.participants,
+          qualified: totals.qualified,
+          claimed: totals.claimed,
+          listening_duration_avg: totals.listening_duration_avg,
+        };
+      })
+      .sort((a, b) => b.joined - a.joined);
+  }
+
+  private async serverBreakdown(participants: ParticipantRow[], artistDiscordId: string): Promise<ServerBreakdown[]> {
+    const byServer = new Map<string | null, ServerBreakdown>();
+    for (const p of participants) {
+      const row = byServer.get(p.server_id) ?? { server_id: p.server_id, server_name: null, joined: 0, qualified: 0, claimed: 0 };
+      row.joined++;
+      if (p.qualified_at) row.qualified++;
+      if (p.claimed_at) row.claimed++;
+      byServer.set(p.server_id, row);
+    }
+
+    const serverIds = [...byServer.keys()].filter((id): id is string => Boolean(id));
+    const servers = serverIds.length
+      ? await prisma.artistDiscordServer.findMany({
+          where: { artist_discord_id: artistDiscordId, server_id: { in: serverIds } },
+          select: { server_id: true, server_name: true },
+        })
+      : [];
+    for (const server of servers) {
+      const row = byServer.get(server.server_id);
+      if (row) row.server_name = server.server_name;
+    }
+
+    return [...byServer.values()].sort((a, b) => b.joined - a.joined);
+  }
+}
+
+export default PartyAnalyticsService;
@@ -0,0 +1,119 @@
+/**
+ * Party Message Refresher
+ * Keeps posted listening party embeds in sync with participation events.
+ * Edits are debounced per party and spaced out so a busy party cannot hit
+ * Discord's per-channel message edit rate limit.
+ */
+
+import { prisma } from '../database/prisma';
+import { onPartyChanged, PartyChangeEvent } from '../lib/partyEvents';
+import type PartyPosterService from './partyPoster';
+
+/** Wait this long after the last event before editing, to batch bursts */
+const DEBOUNCE_MS = 3 * 1000;
+
+/** Never edit the same party message more often than this */
+const MIN_EDIT_INTERVAL_MS = 10 * 1000;
+
+/** How often to look for ended or full parties whose message still looks live */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class PartyMessageRefresher {
+  private partyPoster: PartyPosterService;
+  private pending = new Map<string, NodeJS.Timeout>();
+  private lastEditAt = new Map<string, number>();
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(partyPoster: PartyPosterService) {
+    this.partyPoster = partyPoster;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = onPartyChanged((event: PartyChangeEvent) => {
+      this.schedule(event.partyId);
+    });
+
+    this.sweepInterval = setInterval(() => {
+      this.sweepFinishedParties().catch((error) => {
+        console.error('Error sweeping finished party messages:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+
+    console.log('🔄 Party message refresher started');
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Queue a refresh; events arriving while one is queued are folded into it
+   */
+  schedule(partyId: string): void {
+    if (this.pending.has(partyId)) {
+      return;
+    }
+
+    const sinceLastEdit = Date.now() - (this.lastEditAt.get(partyId) ?? 0);
+    const delay = Math.max(DEBOUNCE_MS, MIN_EDIT_INTERVAL_MS - sinceLastEdit);
+
+    const timer = setTimeout(() => {
+      this.pending.delete(partyId);
+      this.lastEditAt.set(partyId, Date.now());
+      this.partyPoster.updatePartyMessage(partyId).catch((error) => {
+        console.error(`Error refreshing party message ${partyId}:`, error);
+      });
+    }, delay);
+
+    this.pending.set(partyId, timer);
+  }
+
+  /**
+   * Parties can end without an event (settlement worker disabled, bot restarted),
+   * so periodically catch up on messages that still need their final summary
+   */
+  private async sweepFinishedParties(): Promise<void> {
+    const now = new Date();
+    const parties = await prisma.listeningParty.findMany({
+      where: {
+        message_id: { not: null },
+        message_finalized_at: null,
+        status: { not: 'SCHEDULED' },
+        OR: [
+          { status: { not: 'ACTIVE' } },
+          { expires_at: { lte: now } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    for (const party of parties) {
+      this.schedule(party.id);
+    }
+
+    // Forget edit times for parties that are long done
+    for (const [partyId, editedAt] of this.lastEditAt) {
+      if (now.getTime() - editedAt > SWEEP_INTERVAL_MS * 10) {
+        this.lastEditAt.delete(partyId);
+      }
+    }
+  }
+}
+
+export default PartyMessageRefresher;
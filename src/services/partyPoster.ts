@@ -4,7 +4,23 @@
  */
 
 import { Client, EmbedBuilder, ActionRowBuilder, ButtonBuilder, ButtonStyle, TextChannel } from 'discord.js';
+import { ListeningParty, ListeningPartyTrack } from '@prisma/client';
 import { prisma } from '../database/prisma';
+import { describeQualificationRules, summarizeQualificationRules, formatSeconds } from '../lib/qualification';
+import { trackPermalink } from '../lib/trackUrls';
+import { partyPlatforms, trackIdOnPlatform } from '../lib/partyPlatforms';
+
+type PartyMessageState = 'SCHEDULED' | 'LIVE' | 'FULL' | 'ENDED';
+
+type PartyWithTracks = ListeningParty & { tracks: ListeningPartyTrack[] };
+
+const partyTracksInclude = { tracks: { orderBy: { position: 'asc' as const } } };
+
+interface PartyMessageStats {
+  joined: number;
+  qualified: number;
+  claimed: number;
+}
 
 export class PartyPosterService {
   private client: Client;
@@ -21,6 +37,7 @@ export class PartyPosterService {
       // Fetch party details
       const party = await prisma.listeningParty.findUnique({
         where: { id: partyId },
+        include: partyTracksInclude,
       });
 
       if (!party) {
@@ -46,79 +63,7 @@ export class PartyPosterService {
         return { success: false, error: 'Channel is not a text channel' };
       }
 
-      // Calculate time remaining
-      const now = new Date();
-      const expiresAt = new Date(party.expires_at);
-      const minutesRemaining = Math.floor((expiresAt.getTime() - now.getTime()) / 60000);
-
-      // Helper function to slugify text for URLs
-      // For artist (handle), preserve camelCase; for tracks, use lowercase
-      const slugifyArtist = (text: string): string => {
-        return text
-          .trim()
-          .replace(/[^\w\s-]/g, '')
-          .replace(/\s+/g, '');
-      };
-
-      const slugifyTrack = (text: string): string => {
-        return text
-          .toLowerCase()
-          .trim()
-          .replace(/[^\w\s-]/g, '')
-          .replace(/\s+/g, '-')
-          .replace(/-+/g, '-');
-      };
-
-      // Build embed
-      const embed = new EmbedBuilder()
-        .setColor(0x7c3aed)
-        .setTitle('🎵 New Listening Party!')
-        .setDescription(`**${party.track_title}**\nby ${party.track_artist}`)
-        .addFields(
-          {
-            name: 'Reward',
-            value: `${(party.tokens_per_participant / BigInt('1000000000')).toString()} tokens`,
-            inline: true,
-          },
-          {
-            name: 'Participants',
-            value: `0/${party.max_participants}`,
-            inline: true,
-          },
-          {
-            name: 'Time Remaining',
-            value: minutesRemaining > 60 ? `${Math.floor(minutesRemaining / 60)}h ${minutesRemaining % 60}m` : `${minutesRemaining}m`,
-            inline: true,
-          }
-        )
-        .setFooter({ text: 'Click Listen to start tracking your progress!' })
-        .setTimestamp();
-
-      // Add artwork if available
-      if (party.track_artwork_url) {
-        embed.setThumbnail(party.track_artwork_url);
-      }
-
-      // Build buttons
-      const trackUrl =
-        party.platform === 'AUDIUS'
-          ? `https://audius.co/${slugifyArtist(party.track_artist || 'artist')}/${slugifyTrack(party.track_title || 'track')}`
-          : `https://open.spotify.com/track/${party.track_id}`;
-
-      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-        new ButtonBuilder()
-          .setLabel('🎵 Play')
-          .setStyle(ButtonStyle.Link)
-          .setURL(trackUrl),
-        new ButtonBuilder()
-          .setCustomId(`listen_${party.id}`)
-          .setLabel('👂 Listen')
-          .setStyle(ButtonStyle.Primary),
-        new ButtonBuilder()
-          .setCustomId(`claim_${party.id}`)
-          .setLabel('🎁 Claim')
-          .setStyle(ButtonStyle.Success)
-      );
+      const { embed, row } = this.buildPartyMessage(party);
 
       // Send message
       const message = await channel.send({
@@ -150,22 +95,220 @@ export class PartyPosterService {
   }
 
   /**
-   * Update a party message with current stats
+   * Which version of the party message to show
+   */
+  private getMessageState(party: ListeningParty): PartyMessageState {
+    if (party.status === 'SCHEDULED' && party.scheduled_start_at) return 'SCHEDULED';
+    if (party.claimed_count >= party.max_participants) return 'FULL';
+    if (party.status !== 'ACTIVE' || party.expires_at <= new Date()) return 'ENDED';
+    return 'LIVE';
+  }
+
+  private async getPartyStats(party: ListeningParty): Promise<PartyMessageStats> {
+    const [joined, qualified] = await Promise.all([
+      prisma.listeningPartyParticipant.count({ where: { party_id: party.id } }),
+      prisma.listeningPartyParticipant.count({ where: { party_id: party.id, qualified_at: { not: null } } }),
+    ]);
+    return { joined, qualified, claimed: party.claimed_count };
+  }
+
+  /**
+   * Build the party embed and buttons: a countdown with "Remind me" while the
+   * party is scheduled, the live party with Listen/Claim once it has started,
+   * and a summary with disabled buttons once it has ended or filled up
+   */
+  private buildPartyMessage(
+    party: PartyWithTracks,
+    stats: PartyMessageStats = { joined: 0, qualified: 0, claimed: party.claimed_count }
+  ): { embed: EmbedBuilder; row: ActionRowBuilder<ButtonBuilder> } {
+    const state = this.getMessageState(party);
+    const isFinal = state === 'ENDED' || state === 'FULL';
+    const toUnix = (date: Date) => Math.floor(date.getTime() / 1000);
+
+    const header = {
+      SCHEDULED: { color: 0xf59e0b, title: '⏰ Upcoming Listening Party!', footer: 'Click Remind me to get a DM when the party starts!' },
+      LIVE: { color: 0x7c3aed, title: '🎵 New Listening Party!', footer: 'Click Listen to start tracking your progress!' },
+      FULL: { color: 0x10b981, title: '🎉 Listening Party Full!', footer: 'All reward seats have been claimed. Thanks for listening!' },
+      ENDED: { color: 0x6b7280, title: '🏁 Listening Party Ended', footer: 'This party has ended. Thanks for listening!' },
+    }[state];
+
+    let participants = `${stats.claimed}/${party.max_participants} claimed`;
+    if (stats.joined > 0) {
+      participants += `\n👥 ${stats.joined} joined · ✅ ${stats.qualified} qualified`;
+    }
+
+    // Discord renders relative timestamps as a live countdown, so these never go stale
+    const timingField = {
+      SCHEDULED: { name: 'Starts', value: `<t:${toUnix(party.scheduled_start_at ?? party.expires_at)}:R>` },
+      LIVE: { name: 'Time Remaining', value: `Ends <t:${toUnix(party.expires_at)}:R>` },
+      FULL: { name: 'Filled', value: `<t:${toUnix(new Date())}:f>` },
+      ENDED: { name: 'Ended', value: `<t:${toUnix(party.ended_at ?? party.expires_at)}:f>` },
+    }[state];
+
+    // Multi-track parties list their tracks in order under the party title
+    const isMultiTrack = party.tracks.length > 1;
+    const description = isMultiTrack
+      ? `**${party.title ?? party.track_title}**\nby ${party.track_artist}\n\n` +
+        party.tracks
+          .map((t) => `${t.position + 1}. ${t.track_title}` + (t.track_duration_seconds ? ` (${formatSeconds(t.track_duration_seconds)})` : ''))
+          .join('\n')
+      : `**${party.track_title}**\nby ${party.track_artist}`;
+
+    // Build embed
+    const embed = new EmbedBuilder()
+      .setColor(header.color)
+      .setTitle(header.title)
+      .setDescription(description)
+      .addFields(
+        {
+          name: 'Reward',
+          value: `${(party.tokens_per_participant / BigInt('1000000000')).toString()} tokens`,
+          inline: true,
+        },
+        {
+          name: 'Participants',
+          value: participants,
+          inline: true,
+        },
+        { ...timingField, inline: true },
+        isFinal
+          ? {
+              name: 'Summary',
+              value: `${stats.joined} joined, ${stats.qualified} qualified and ${stats.claimed} claimed their reward.`,
+              inline: false,
+            }
+          : {
+              name: 'To Qualify',
+              value: describeQualificationRules(summarizeQualificationRules(party, party.tracks)),
+              inline: false,
+            }
+      )
+      .setFooter({ text: header.footer })
+      .setTimestamp();
+
+    // Add artwork if available
+    if (party.track_artwork_url) {
+      embed.setThumbnail(party.track_artwork_url);
+    }
+
+    // Build buttons: cross-platform parties get a Play link per platform
+    const platforms = partyPlatforms(party, party.tracks);
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      platforms.map((platform) =>
+        new ButtonBuilder()
+          .setLabel(platforms.length > 1 ? `🎵 ${platform === 'SPOTIFY' ? 'Spotify' : 'Audius'}` : '🎵 Play')
+          .setStyle(ButtonStyle.Link)
+          .setURL(
+            platform === party.platform
+              ? trackPermalink(party.platform, party.track_id, party.track_url)
+              : trackPermalink(platform, trackIdOnPlatform(party, party.platform, platform) as string)
+          )
+      )
+    );
+
+    if (state === 'SCHEDULED') {
+      row.addComponents(
+        new ButtonBuilder()
+          .setCustomId(`remind_${party.id}`)
+          .setLabel('🔔 Remind me')
+          .setStyle(ButtonStyle.Secondary)
+      );
+    } else {
+      row.addComponents(
+        new ButtonBuilder()
+          .setCustomId(`listen_${party.id}`)
+          .setLabel('👂 Listen')
+          .setStyle(ButtonStyle.Primary)
+          .setDisabled(isFinal),
+        new ButtonBuilder()
+          .setCustomId(`claim_${party.id}`)
+          .setLabel('🎁 Claim')
+          .setStyle(ButtonStyle.Success)
+          .setDisabled(isFinal)
+      );
+    }
+
+    return { embed, row };
+  }
+
+  /**
+   * Swap a scheduled party's countdown for the live party message and DM everyone
+   * who asked to be reminded
+   */
+  async announcePartyStart(partyId: string): Promise<{ notified: number }> {
+    const party = await prisma.listeningParty.findUnique({
+      where: { id: partyId },
+      include: { ...partyTracksInclude, reminders: { where: { notified_at: null } } },
+    });
+
+    if (!party) {
+      return { notified: 0 };
+    }
+
+    let messageUrl: string | null = null;
+
+    if (party.channel_id && party.server_id) {
+      try {
+        const channel = this.client.guilds.cache.get(party.server_id)?.channels.cache.get(party.channel_id) as TextChannel | undefined;
+        if (channel?.isTextBased()) {
+          const { embed, row } = this.buildPartyMessage(party);
+          if (party.message_id) {
+            const message = await channel.messages.fetch(party.message_id);
+            await message.edit({ embeds: [embed], components: [row] });
+            messageUrl = message.url;
+          } else {
+            const result = await this.postPartyToChannel(party.id);
+            if (result.messageId) {
+              messageUrl = `https://discord.com/channels/${party.server_id}/${party.channel_id}/${result.messageId}`;
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Error updating party message for ${partyId}:`, error);
+      }
+    }
+
+    let notified = 0;
+    for (const reminder of party.reminders) {
+      try {
+        const user = await this.client.users.fetch(reminder.discord_id);
+        const embed = new EmbedBuilder()
+          .setColor(0x7c3aed)
+          .setTitle('🔔 Listening Party Started!')
+          .setDescription(
+            `**${party.title ?? party.track_title}** by ${party.track_artist} is live now.\n\n` +
+              (messageUrl ? `[Jump to the party](${messageUrl}) and click **Listen** to start earning.` : 'Use `/party-list` and click **Listen** to start earning.')
+          )
+          .setTimestamp();
+        await user.send({ embeds: [embed] });
+        notified++;
+      } catch (error) {
+        console.warn(`Could not DM party reminder to ${reminder.discord_id}:`, error);
+      }
+    }
+
+    if (party.reminders.length) {
+      await prisma.partyReminder.updateMany({
+        where: { id: { in: party.reminders.map((r) => r.id) } },
+        data: { notified_at: new Date() },
+      });
+    }
+
+    return { notified };
+  }
+
+  /**
+   * Re-render a posted party message with current stats. Once the party has
+   * ended or filled up, the final summary is shown and the message is frozen.
    */
   async updatePartyMessage(partyId: string): Promise<boolean> {
     try {
       const party = await prisma.listeningParty.findUnique({
         where: { id: partyId },
-        include: {
-          participants: {
-            where: {
-              qualified_at: { not: null },
-            },
-          },
-        },
+        include: partyTracksInclude,
       });
 
-      if (!party || !party.message_id || !party.channel_id || !party.server_id) {
+      if (!party || !party.message_id || !party.channel_id || !party.server_id || party.message_finalized_at) {
         return false;
       }
 
@@ -178,21 +321,30 @@ export class PartyPosterService {
       const message = await channel.messages.fetch(party.message_id);
       if (!message) return false;
 
-      // Update embed with new participant count
-      const embed = message.embeds[0];
-      if (!embed) return false;
+      const stats = await this.getPartyStats(party);
+      const { embed, row } = this.buildPartyMessage(party, stats);
 
-      const newEmbed = EmbedBuilder.from(embed);
-      newEmbed.spliceFields(1, 1, {
-        name: 'Participants',
-        value: `${party.participants.length}/${party.max_participants}`,
-        inline: true,
-      });
+      await message.edit({ embeds: [embed], components: [row] });
 
-      await message.edit({ embeds: [newEmbed] });
+      const state = this.getMessageState(party);
+      if (state === 'ENDED' || state === 'FULL') {
+        await prisma.listeningParty.update({
+          where: { id: partyId },
+          data: { message_finalized_at: new Date() },
+        });
+        console.log(`🏁 Finalized party message for ${partyId} (${state.toLowerCase()})`);
+      }
 
       return true;
-    } catch (error) {
+    } catch (error: any) {
+      // Unknown Message: the post was deleted, so stop trying to refresh it
+      if (error?.code === 10008) {
+        await prisma.listeningParty.update({
+          where: { id: partyId },
+          data: { message_finalized_at: new Date() },
+        }).catch(() => undefined);
+        return false;
+      }
       console.error('Error updating party message:', error);
       return false;
     }
@@ -0,0 +1,97 @@
+/**
+ * Party Scheduler
+ * Activates scheduled listening parties when their start time arrives and
+ * hands them to the party poster to go live and ping reminder opt-ins
+ */
+
+import { prisma } from '../database/prisma';
+import type PartyPosterService from './partyPoster';
+
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000;
+
+export class PartyScheduler {
+  private partyPoster: PartyPosterService;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  constructor(partyPoster: PartyPosterService) {
+    this.partyPoster = partyPoster;
+  }
+
+  start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.activateDueParties().catch((error) => {
+        console.error('Error activating scheduled parties:', error);
+      });
+    }, SCHEDULE_CHECK_INTERVAL_MS);
+
+    console.log('⏰ Party scheduler started');
+    this.activateDueParties().catch((error) => {
+      console.error('Error activating scheduled parties:', error);
+    });
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Start every SCHEDULED party whose start time has passed
+   */
+  async activateDueParties(): Promise<number> {
+    if (this.isChecking) {
+      return 0;
+    }
+    this.isChecking = true;
+
+    try {
+      const due = await prisma.listeningParty.findMany({
+        where: {
+          status: 'SCHEDULED',
+          scheduled_start_at: { lte: new Date() },
+        },
+        orderBy: { scheduled_start_at: 'asc' },
+      });
+
+      let activated = 0;
+      for (const party of due) {
+        // One party failing must not hold up the rest
+        try {
+          // The party runs for its full duration from the moment it actually starts
+          const now = new Date();
+          const { count } = await prisma.listeningParty.updateMany({
+            where: { id: party.id, status: 'SCHEDULED' },
+            data: {
+              status: 'ACTIVE',
+              started_at: now,
+              expires_at: new Date(now.getTime() + party.duration_minutes * 60 * 1000),
+            },
+          });
+
+          if (count === 0) {
+            continue;
+          }
+          activated++;
+
+          const { notified } = await this.partyPoster.announcePartyStart(party.id);
+          console.log(`🎉 Scheduled party ${party.id} is now live (${notified} reminder(s) sent)`);
+        } catch (error) {
+          console.error(`❌ Error activating scheduled party ${party.id}:`, error);
+        }
+      }
+
+      return activated;
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
+
+export default PartyScheduler;
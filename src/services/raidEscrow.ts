@@ -0,0 +1,355 @@
+/**
+ * Raid Escrow Service
+ * Decodes and verifies transactions against the on-chain raid_escrow program
+ */
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import config from '../config/environment';
+import raidEscrowIdl from '../lib/idl/raid_escrow.json';
+
+type RaidEscrowInstructionName = 'claim_tokens' | 'close_raid' | 'initialize_raid';
+
+export interface DecodedRaidEscrowInstruction {
+  name: RaidEscrowInstructionName;
+  raidId: string;
+  accounts: Record<string, string>;
+}
+
+export interface RaidEscrowAccount {
+  raidId: string;
+  creator: string;
+  tokenMint: string;
+  tokensPerParticipant: bigint;
+  maxSeats: number;
+  claimedCount: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface VerifiedClaim {
+  signature: string;
+  raidId: string;
+  escrowPda: string;
+  participantWallet: string;
+  tokenMint: string;
+  slot: number;
+  blockTime: number | null;
+}
+
+export type ClaimVerificationErrorCode =
+  | 'TRANSACTION_NOT_FOUND'
+  | 'TRANSACTION_FAILED'
+  | 'CLAIM_INSTRUCTION_MISSING'
+  | 'MULTIPLE_CLAIM_INSTRUCTIONS'
+  | 'ESCROW_MISMATCH'
+  | 'RAID_ID_MISMATCH'
+  | 'TOKEN_MINT_MISMATCH'
+  | 'WALLET_MISMATCH';
+
+export class ClaimVerificationError extends Error {
+  code: ClaimVerificationErrorCode;
+
+  constructor(code: ClaimVerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'ClaimVerificationError';
+    this.code = code;
+  }
+}
+
+interface VerifyClaimParams {
+  signature: string;
+  raidId: string;
+  escrowPda?: string | null;
+  tokenMint: string;
+  participantWallets: string[];
+}
+
+const RAID_ESCROW_ACCOUNT_DISCRIMINATOR = Buffer.from(
+  raidEscrowIdl.accounts.find((account) => account.name === 'RaidEscrow')!.discriminator
+);
+
+const FETCH_ATTEMPTS = 3;
+const FETCH_RETRY_DELAY_MS = 2000;
+
+class RaidEscrowService {
+  private connection: Connection;
+  readonly programId: PublicKey;
+
+  constructor() {
+    this.connection = new Connection(config.solana.rpcUrl, 'confirmed');
+    this.programId = new PublicKey(config.solana.raidEscrowProgramId);
+  }
+
+  /**
+   * Derive the escrow PDA for a raid ID (seeds: "raid" + raid_id)
+   */
+  deriveEscrowPda(raidId: string): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('raid'), Buffer.from(raidId)],
+      this.programId
+    );
+    return pda;
+  }
+
+  /**
+   * Fetch and decode the on-chain RaidEscrow account. Returns null once the
+   * escrow has been closed (or was never initialized).
+   */
+  async fetchEscrowAccount(escrowPda: PublicKey): Promise<RaidEscrowAccount | null> {
+    const info = await this.connection.getAccountInfo(escrowPda, 'confirmed');
+    if (!info || !info.owner.equals(this.programId)) {
+      return null;
+    }
+
+    const data = info.data;
+    if (!data.subarray(0, 8).equals(RAID_ESCROW_ACCOUNT_DISCRIMINATOR)) {
+      throw new Error(`Account ${escrowPda.toBase58()} is not a RaidEscrow account`);
+    }
+
+    let offset = 8;
+    const raidIdLength = data.readUInt32LE(offset);
+    offset += 4;
+    const raidId = data.subarray(offset, offset + raidIdLength).toString('utf8');
+    offset += raidIdLength;
+    const creator = new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+    offset += 32;
+    const tokenMint = new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+    offset += 32;
+    const tokensPerParticipant = data.readBigUInt64LE(offset);
+    offset += 8;
+    const maxSeats = data.readUInt8(offset);
+    offset += 1;
+    const claimedCount = data.readUInt8(offset);
+    offset += 1;
+    const createdAt = Number(data.readBigInt64LE(offset));
+    offset += 8;
+    const expiresAt = Number(data.readBigInt64LE(offset));
+
+    return {
+      raidId,
+      creator,
+      tokenMint,
+      tokensPerParticipant,
+      maxSeats,
+      claimedCount,
+      createdAt,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Build the close_raid instruction that returns unclaimed tokens to the creator
+   * and closes the escrow. The creator must sign the transaction.
+   */
+  buildCloseRaidInstruction(params: {
+    raidId: string;
+    creator: PublicKey;
+    tokenMint: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { raidId, creator, tokenMint } = params;
+    const tokenProgram = params.tokenProgram || TOKEN_PROGRAM_ID;
+    const definition = raidEscrowIdl.instructions.find((ix) => ix.name === 'close_raid')!;
+    const raidEscrow = this.deriveEscrowPda(raidId);
+
+    const addresses: Record<string, PublicKey> = {
+      token_program: tokenProgram,
+      system_program: SystemProgram.programId,
+      creator,
+      token_mint: tokenMint,
+      creator_token_account: getAssociatedTokenAddressSync(tokenMint, creator, false, tokenProgram, ASSOCIATED_TOKEN_PROGRAM_ID),
+      raid_escrow: raidEscrow,
+      escrow_token_account: getAssociatedTokenAddressSync(tokenMint, raidEscrow, true, tokenProgram, ASSOCIATED_TOKEN_PROGRAM_ID),
+    };
+
+    // Account order and flags come straight from the IDL
+    const keys = definition.accounts.map((account: { name: string; writable?: boolean; signer?: boolean }) => ({
+      pubkey: addresses[account.name],
+      isSigner: Boolean(account.signer),
+      isWritable: Boolean(account.writable),
+    }));
+
+    const raidIdBytes = Buffer.from(raidId, 'utf8');
+    const raidIdLength = Buffer.alloc(4);
+    raidIdLength.writeUInt32LE(raidIdBytes.length);
+
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys,
+      data: Buffer.concat([Buffer.from(definition.discriminator), raidIdLength, raidIdBytes]),
+    });
+  }
+
+  /**
+   * Decode a raid_escrow instruction using the IDL discriminators and account order.
+   * Returns null when the data does not match a known instruction.
+   */
+  decodeInstruction(data: Uint8Array, accountKeys: string[]): DecodedRaidEscrowInstruction | null {
+    if (data.length < 12) {
+      return null;
+    }
+
+    const buffer = Buffer.from(data);
+    const discriminator = buffer.subarray(0, 8);
+    const definition = raidEscrowIdl.instructions.find((ix) =>
+      Buffer.from(ix.discriminator).equals(discriminator)
+    );
+
+    if (!definition) {
+      return null;
+    }
+
+    // Every raid_escrow instruction starts with a borsh string raid_id (u32 length prefix)
+    const raidIdLength = buffer.readUInt32LE(8);
+    if (12 + raidIdLength > buffer.length) {
+      return null;
+    }
+    const raidId = buffer.subarray(12, 12 + raidIdLength).toString('utf8');
+
+    const accounts: Record<string, string> = {};
+    definition.accounts.forEach((account, index) => {
+      if (accountKeys[index]) {
+        accounts[account.name] = accountKeys[index];
+      }
+    });
+
+    return {
+      name: definition.name as RaidEscrowInstructionName,
+      raidId,
+      accounts,
+    };
+  }
+
+  /**
+   * Extract every raid_escrow instruction from a fetched transaction
+   */
+  extractInstructions(tx: VersionedTransactionResponse): DecodedRaidEscrowInstruction[] {
+    const message = tx.transaction.message;
+    const accountKeys = message.getAccountKeys({
+      accountKeysFromLookups: tx.meta?.loadedAddresses,
+    });
+    const programId = this.programId.toBase58();
+    const decoded: DecodedRaidEscrowInstruction[] = [];
+
+    for (const instruction of message.compiledInstructions) {
+      const instructionProgram = accountKeys.get(instruction.programIdIndex)?.toBase58();
+      if (instructionProgram !== programId) {
+        continue;
+      }
+
+      const keys = instruction.accountKeyIndexes.map((index) => accountKeys.get(index)?.toBase58() || '');
+      const result = this.decodeInstruction(instruction.data, keys);
+      if (result) {
+        decoded.push(result);
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Fetch a transaction, retrying briefly in case the RPC node is behind the client
+   */
+  async fetchTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+    for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+
+      if (tx) {
+        return tx;
+      }
+
+      if (attempt < FETCH_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, FETCH_RETRY_DELAY_MS));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify that a signature is a successful claim_tokens call for the given party escrow
+   * and one of the participant's wallets. Throws ClaimVerificationError on mismatch.
+   */
+  async verifyClaimTransaction(params: VerifyClaimParams): Promise<VerifiedClaim> {
+    const { signature, raidId, tokenMint, participantWallets } = params;
+    const escrowPda = params.escrowPda || this.deriveEscrowPda(raidId).toBase58();
+
+    let tx: VersionedTransactionResponse | null;
+    try {
+      tx = await this.fetchTransaction(signature);
+    } catch (error: any) {
+      throw new ClaimVerificationError(
+        'TRANSACTION_NOT_FOUND',
+        `Unable to fetch transaction: ${error.message || 'RPC error'}`
+      );
+    }
+
+    if (!tx) {
+      throw new ClaimVerificationError('TRANSACTION_NOT_FOUND', 'Transaction not found on-chain');
+    }
+
+    if (!tx.meta || tx.meta.err) {
+      throw new ClaimVerificationError('TRANSACTION_FAILED', 'Transaction did not succeed on-chain');
+    }
+
+    const claims = this.extractInstructions(tx).filter((ix) => ix.name === 'claim_tokens');
+    if (!claims.length) {
+      throw new ClaimVerificationError(
+        'CLAIM_INSTRUCTION_MISSING',
+        'Transaction does not contain a raid_escrow claim_tokens instruction'
+      );
+    }
+
+    // Only the claim checked below may be credited; don't let others ride along
+    if (claims.length > 1) {
+      throw new ClaimVerificationError(
+        'MULTIPLE_CLAIM_INSTRUCTIONS',
+        'Transaction must contain exactly one raid_escrow claim_tokens instruction'
+      );
+    }
+    const claim = claims[0];
+
+    if (claim.accounts.raid_escrow !== escrowPda) {
+      throw new ClaimVerificationError('ESCROW_MISMATCH', 'Claim targets a different escrow account');
+    }
+
+    if (claim.raidId !== raidId) {
+      throw new ClaimVerificationError('RAID_ID_MISMATCH', 'Claim was made for a different raid');
+    }
+
+    if (claim.accounts.token_mint !== tokenMint) {
+      throw new ClaimVerificationError('TOKEN_MINT_MISMATCH', 'Claim was made for a different token mint');
+    }
+
+    const participantWallet = claim.accounts.participant;
+    if (!participantWallet || !participantWallets.includes(participantWallet)) {
+      throw new ClaimVerificationError('WALLET_MISMATCH', 'Claim was signed by a wallet not linked to this user');
+    }
+
+    return {
+      signature,
+      raidId: claim.raidId,
+      escrowPda,
+      participantWallet,
+      tokenMint: claim.accounts.token_mint,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+    };
+  }
+}
+
+export default RaidEscrowService;
@@ -1,17 +1,323 @@
 /**
  * Rewards service for token distribution
+ * Runs the settlement worker: expires listening parties, closes their raid
+ * escrows so unclaimed tokens return to the artist, and keeps a per-party
+ * settlement record.
  */
 
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import { ListeningParty, PartySettlement } from '@prisma/client';
+import config from '../config/environment';
+import { prisma } from '../database/prisma';
+import { emitPartyChanged } from '../lib/partyEvents';
+import RaidEscrowService from './raidEscrow';
+import WalletService from './wallet';
+
+type SettlementWithParty = PartySettlement & { listening_party: ListeningParty };
+
+/** Longest wait between attempts for a failed or artist-held settlement */
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/** Slack after the on-chain expiry, for validator clock drift */
+const EXPIRY_GRACE_MS = 60 * 1000;
+
+/**
+ * When to retry a failed settlement after `attempts` tries: doubles from the
+ * settlement interval up to a day
+ */
+function nextRetryAt(attempts: number): Date {
+  const baseMs = config.settlement.intervalMinutes * 60 * 1000;
+  return new Date(Date.now() + Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * When to check an artist-held escrow again: waits as long as the settlement
+ * has existed, between the settlement interval and a day
+ */
+function nextArtistCheckAt(createdAt: Date): Date {
+  const baseMs = config.settlement.intervalMinutes * 60 * 1000;
+  const ageMs = Date.now() - createdAt.getTime();
+  return new Date(Date.now() + Math.min(Math.max(ageMs, baseMs), MAX_RETRY_DELAY_MS));
+}
+
 class RewardsService {
+  private connection: Connection;
+  private raidEscrowService: RaidEscrowService;
+  private walletService: WalletService;
+  private settlementInterval: NodeJS.Timeout | null = null;
+  private isSettling = false;
+
   constructor() {
+    this.connection = new Connection(config.solana.rpcUrl, 'confirmed');
+    this.raidEscrowService = new RaidEscrowService();
+    this.walletService = new WalletService();
     console.log('💰 RewardsService initialized');
   }
 
   async startAutomatedSettlement(): Promise<void> {
-    console.log('🔄 RewardsService automated settlement started');
+    if (this.settlementInterval) {
+      return;
+    }
+
+    const intervalMs = config.settlement.intervalMinutes * 60 * 1000;
+    this.settlementInterval = setInterval(() => {
+      this.runSettlementCycle().catch((error) => {
+        console.error('Settlement cycle failed:', error);
+      });
+    }, intervalMs);
+
+    console.log(`🔄 RewardsService automated settlement started (every ${config.settlement.intervalMinutes}m)`);
+    await this.runSettlementCycle().catch((error) => {
+      console.error('Settlement cycle failed:', error);
+    });
+  }
+
+  /**
+   * Expire finished parties, then work through outstanding settlements
+   */
+  async runSettlementCycle(): Promise<void> {
+    if (this.isSettling) {
+      return;
+    }
+    this.isSettling = true;
+
+    try {
+      const expired = await this.expireParties();
+      const queued = await this.queueSettlements();
+      const settled = await this.processSettlements();
+
+      if (expired || queued || settled) {
+        console.log(`💰 Settlement cycle: ${expired} expired, ${queued} queued, ${settled} processed`);
+      }
+    } finally {
+      this.isSettling = false;
+    }
+  }
+
+  /**
+   * Move ACTIVE parties past expires_at to COMPLETED
+   */
+  private async expireParties(): Promise<number> {
+    const now = new Date();
+    const expired = await prisma.listeningParty.findMany({
+      where: { status: 'ACTIVE', expires_at: { lte: now } },
+      select: { id: true },
+    });
+
+    if (!expired.length) {
+      return 0;
+    }
+
+    const { count } = await prisma.listeningParty.updateMany({
+      where: { id: { in: expired.map((p) => p.id) }, status: 'ACTIVE' },
+      data: { status: 'COMPLETED', ended_at: now },
+    });
+
+    for (const party of expired) {
+      emitPartyChanged(party.id, 'ended');
+    }
+    return count;
+  }
+
+  /**
+   * Create a settlement record for every ended party that does not have one yet
+   */
+  private async queueSettlements(): Promise<number> {
+    const parties = await prisma.listeningParty.findMany({
+      where: {
+        status: { in: ['COMPLETED', 'CANCELLED'] },
+        settlement: null,
+      },
+      orderBy: { expires_at: 'asc' },
+      take: config.settlement.batchThreshold,
+    });
+
+    for (const party of parties) {
+      const unclaimedSeats = Math.max(party.max_participants - party.claimed_count, 0);
+      await prisma.partySettlement.upsert({
+        where: { party_id: party.id },
+        update: {},
+        create: {
+          party_id: party.id,
+          status: party.raid_id ? 'PENDING' : 'SKIPPED',
+          unclaimed_seats: unclaimedSeats,
+          refund_amount: BigInt(unclaimedSeats) * party.tokens_per_participant,
+          completed_at: party.raid_id ? null : new Date(),
+        },
+      });
+    }
+
+    return parties.length;
+  }
+
+  /**
+   * Attempt every settlement that is pending, retryable or waiting on the
+   * artist, and due
+   */
+  private async processSettlements(): Promise<number> {
+    const settlements = await prisma.partySettlement.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING' },
+          { status: 'FAILED', attempts: { lt: config.settlement.maxRetries } },
+          { status: 'AWAITING_ARTIST' },
+        ],
+        AND: [{ OR: [{ next_attempt_at: null }, { next_attempt_at: { lte: new Date() } }] }],
+      },
+      include: { listening_party: true },
+      orderBy: { created_at: 'asc' },
+      take: config.settlement.batchThreshold,
+    });
+
+    for (const settlement of settlements) {
+      await this.settleParty(settlement);
+    }
+
+    return settlements.length;
+  }
+
+  private async settleParty(settlement: SettlementWithParty): Promise<void> {
+    const party = settlement.listening_party;
+
+    try {
+      if (!party.raid_id) {
+        await this.markSettlement(settlement.id, 'SKIPPED');
+        return;
+      }
+
+      // Closed by the artist from the dashboard (recorded by the Helius ingestion)
+      if (party.escrow_closed_at) {
+        await this.markSettlement(settlement.id, 'COMPLETED', party.close_tx_signature);
+        return;
+      }
+
+      const escrowPda = party.raid_escrow_pda
+        ? new PublicKey(party.raid_escrow_pda)
+        : this.raidEscrowService.deriveEscrowPda(party.raid_id);
+      const escrow = await this.raidEscrowService.fetchEscrowAccount(escrowPda);
+
+      if (!escrow) {
+        // Account is gone: the escrow was closed outside our view
+        await this.markSettlement(settlement.id, 'COMPLETED', party.close_tx_signature);
+        return;
+      }
+
+      const unclaimedSeats = Math.max(escrow.maxSeats - escrow.claimedCount, 0);
+      const snapshot = {
+        creator_wallet: escrow.creator,
+        unclaimed_seats: unclaimedSeats,
+        refund_amount: BigInt(unclaimedSeats) * escrow.tokensPerParticipant,
+      };
+
+      // close_raid fails until the escrow's on-chain expiry; come back then instead of burning retries
+      const closableAt = escrow.expiresAt * 1000 + EXPIRY_GRACE_MS;
+      if (Date.now() < closableAt) {
+        await prisma.partySettlement.update({
+          where: { id: settlement.id },
+          data: { ...snapshot, next_attempt_at: new Date(closableAt) },
+        });
+        console.log(`⏳ Party ${party.id} escrow closable from ${new Date(closableAt).toISOString()}`);
+        return;
+      }
+
+      const creatorKeypair = await this.walletService.getKeypairForPublicKey(escrow.creator);
+      if (!creatorKeypair) {
+        // Non-custodial creator wallet: the artist signs close_raid from the dashboard.
+        // Keep checking for the close, less and less often.
+        await prisma.partySettlement.update({
+          where: { id: settlement.id },
+          data: {
+            ...snapshot,
+            status: 'AWAITING_ARTIST',
+            last_error: null,
+            next_attempt_at: nextArtistCheckAt(settlement.created_at),
+          },
+        });
+        if (settlement.status !== 'AWAITING_ARTIST') {
+          console.log(`⏳ Party ${party.id} escrow awaiting close by artist wallet ${escrow.creator}`);
+        }
+        return;
+      }
+
+      const tokenMint = new PublicKey(escrow.tokenMint);
+      const mintAccount = await this.connection.getAccountInfo(tokenMint);
+      const instruction = this.raidEscrowService.buildCloseRaidInstruction({
+        raidId: party.raid_id,
+        creator: creatorKeypair.publicKey,
+        tokenMint,
+        tokenProgram: mintAccount?.owner,
+      });
+
+      const signature = await sendAndConfirmTransaction(
+        this.connection,
+        new Transaction().add(instruction),
+        [creatorKeypair],
+        { commitment: 'confirmed' }
+      );
+
+      await prisma.$transaction([
+        prisma.partySettlement.update({
+          where: { id: settlement.id },
+          data: {
+            ...snapshot,
+            status: 'COMPLETED',
+            attempts: { increment: 1 },
+            last_error: null,
+            next_attempt_at: null,
+            close_tx_signature: signature,
+            completed_at: new Date(),
+          },
+        }),
+        prisma.listeningParty.update({
+          where: { id: party.id },
+          data: { escrow_closed_at: new Date(), close_tx_signature: signature },
+        }),
+      ]);
+
+      console.log(`✅ Closed escrow for party ${party.id}: ${signature}`);
+    } catch (error: any) {
+      const attempts = settlement.attempts + 1;
+      console.error(`❌ Settlement attempt ${attempts}/${config.settlement.maxRetries} failed for party ${party.id}:`, error);
+
+      await prisma.partySettlement.update({
+        where: { id: settlement.id },
+        data: {
+          status: 'FAILED',
+          attempts,
+          last_error: error.message || 'Unknown error',
+          next_attempt_at: nextRetryAt(attempts),
+        },
+      });
+    }
+  }
+
+  private async markSettlement(
+    settlementId: string,
+    status: 'COMPLETED' | 'SKIPPED',
+    closeTxSignature?: string | null
+  ): Promise<void> {
+    await prisma.partySettlement.update({
+      where: { id: settlementId },
+      data: {
+        status,
+        last_error: null,
+        next_attempt_at: null,
+        close_tx_signature: closeTxSignature ?? undefined,
+        completed_at: new Date(),
+      },
+    });
   }
 
   async disconnect(): Promise<void> {
+    if (this.settlementInterval) {
+      clearInterval(this.settlementInterval);
+      this.settlementInterval = null;
+    }
     console.log('💰 RewardsService disconnected');
   }
 }
@@ -0,0 +1,337 @@
+/**
+ * Role Reward Service
+ * Gives fans the Discord roles an artist's server offers for qualifying in
+ * their listening parties ("@Day-One for everyone who qualifies", "@Superfan
+ * after 5 qualifications in this server"). Each rule/fan pair is recorded as a
+ * RoleRewardGrant, so grants the bot couldn't make yet are retried and roles
+ * with a duration are removed on schedule.
+ */
+
+import { Client, DiscordAPIError, GuildMember, PermissionFlagsBits, RESTJSONErrorCodes, Role } from 'discord.js';
+import { Prisma, RoleRewardGrant } from '@prisma/client';
+import { prisma } from '../database/prisma';
+import { onPartyChanged, PartyChangeEvent } from '../lib/partyEvents';
+
+/** How often to retry pending grants, expire roles and pick up missed qualifications */
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** On startup, look this far back for qualifications the bot missed while offline */
+const CATCH_UP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Give up on a grant after this many failed attempts (e.g. the bot's role sits below the reward role) */
+const MAX_ATTEMPTS = 5;
+
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Discord errors retrying won't fix */
+const PERMANENT_ERRORS = new Set<number>([
+  RESTJSONErrorCodes.UnknownGuild,
+  RESTJSONErrorCodes.UnknownMember,
+  RESTJSONErrorCodes.UnknownRole,
+]);
+
+function isPermanentError(error: unknown): boolean {
+  return error instanceof DiscordAPIError && PERMANENT_ERRORS.has(Number(error.code));
+}
+
+/** Roles carrying any of these are never handed out as rewards */
+const ELEVATED_PERMISSIONS = [
+  PermissionFlagsBits.Administrator,
+  PermissionFlagsBits.ManageRoles,
+  PermissionFlagsBits.ManageGuild,
+  PermissionFlagsBits.BanMembers,
+  PermissionFlagsBits.KickMembers,
+  PermissionFlagsBits.ManageChannels,
+  PermissionFlagsBits.ManageWebhooks,
+  PermissionFlagsBits.ManageMessages,
+  PermissionFlagsBits.ModerateMembers,
+  PermissionFlagsBits.MentionEveryone,
+];
+
+export function hasElevatedPermissions(role: Role): boolean {
+  return ELEVATED_PERMISSIONS.some((permission) => role.permissions.has(permission, false));
+}
+
+/** Thrown when a reward role gained elevated permissions after its rule was saved */
+class ElevatedRoleError extends Error {
+  constructor(roleId: string) {
+    super(`Role ${roleId} has elevated permissions and is not granted as a reward`);
+    this.name = 'ElevatedRoleError';
+  }
+}
+
+interface QualifyingParty {
+  id: string;
+  artist_discord_id: string;
+  server_id: string;
+}
+
+export class RoleRewardService {
+  private client: Client;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private caughtUpTo = Date.now() - CATCH_UP_WINDOW_MS;
+  private sweeping = false;
+
+  constructor(client: Client) {
+    this.client = client;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = onPartyChanged((event: PartyChangeEvent) => {
+      if (event.reason !== 'participant_qualified' || !event.discordId) {
+        return;
+      }
+      this.handleQualified(event.partyId, event.discordId).catch((error) => {
+        console.error(`Error applying role rewards for ${event.discordId} in party ${event.partyId}:`, error);
+      });
+    });
+
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweep();
+    console.log('🏅 Role reward service started');
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Grant (or renew) every role the participant now qualifies for after
+   * qualifying in a party
+   */
+  async handleQualified(partyId: string, discordId: string): Promise<void> {
+    const found = await prisma.listeningParty.findUnique({
+      where: { id: partyId },
+      select: { id: true, artist_discord_id: true, server_id: true },
+    });
+    if (!found?.server_id) {
+      return;
+    }
+    const party: QualifyingParty = { id: found.id, artist_discord_id: found.artist_discord_id, server_id: found.server_id };
+
+    const rules = await prisma.roleRewardRule.findMany({
+      where: {
+        enabled: true,
+        artist_server: { artist_discord_id: party.artist_discord_id, server_id: party.server_id },
+        OR: [{ party_id: null }, { party_id: party.id }],
+      },
+    });
+    if (!rules.length) {
+      return;
+    }
+
+    let qualifications: number | null = null;
+    for (const rule of rules) {
+      if (rule.min_qualifications > 1) {
+        qualifications ??= await prisma.listeningPartyParticipant.count({
+          where: {
+            discord_id: discordId,
+            qualified_at: { not: null },
+            listening_party: { artist_discord_id: party.artist_discord_id, server_id: party.server_id },
+          },
+        });
+        if (qualifications < rule.min_qualifications) {
+          continue;
+        }
+      }
+
+      const grant = await this.recordGrant(rule.id, rule.role_id, rule.duration_days, party, discordId);
+      if (grant) {
+        await this.apply(grant);
+      }
+    }
+  }
+
+  /**
+   * Create the grant, or renew it for a new qualification. Returns null when
+   * this qualification was already handled.
+   */
+  private async recordGrant(
+    ruleId: string,
+    roleId: string,
+    durationDays: number | null,
+    party: QualifyingParty,
+    discordId: string
+  ): Promise<RoleRewardGrant | null> {
+    const existing = await prisma.roleRewardGrant.findUnique({
+      where: { rule_id_discord_id: { rule_id: ruleId, discord_id: discordId } },
+    });
+    if (existing && existing.party_id === party.id && existing.status !== 'REMOVED') {
+      return null;
+    }
+
+    const expiresAt = durationDays ? new Date(Date.now() + durationDays * DAY_MS) : null;
+    if (!existing) {
+      try {
+        return await prisma.roleRewardGrant.create({
+          data: {
+            rule_id: ruleId,
+            discord_id: discordId,
+            server_id: party.server_id,
+            role_id: roleId,
+            party_id: party.id,
+            expires_at: expiresAt,
+          },
+        });
+      } catch (error) {
+        // The live event and the catch-up sweep raced to create it; decide again from the stored grant
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return this.recordGrant(ruleId, roleId, durationDays, party, discordId);
+        }
+        throw error;
+      }
+    }
+
+    // A new qualification extends the role and gives failed or removed grants another go
+    return prisma.roleRewardGrant.update({
+      where: { id: existing.id },
+      data: {
+        role_id: roleId,
+        party_id: party.id,
+        expires_at: expiresAt,
+        status: 'PENDING',
+        attempts: 0,
+        last_error: null,
+        removed_at: null,
+      },
+    });
+  }
+
+  private async apply(grant: RoleRewardGrant): Promise<void> {
+    try {
+      const member = await this.fetchMember(grant.server_id, grant.discord_id);
+      // The role may have been edited since the rule was checked
+      const role = await member.guild.roles.fetch(grant.role_id);
+      if (role && hasElevatedPermissions(role)) {
+        throw new ElevatedRoleError(role.id);
+      }
+      await member.roles.add(grant.role_id, 'Listening party role reward');
+      await prisma.roleRewardGrant.update({
+        where: { id: grant.id },
+        data: { status: 'GRANTED', granted_at: new Date(), attempts: { increment: 1 }, last_error: null },
+      });
+      console.log(`🏅 Granted role ${grant.role_id} to ${grant.discord_id} in guild ${grant.server_id}`);
+    } catch (error) {
+      const attempts = grant.attempts + 1;
+      const giveUp = isPermanentError(error) || error instanceof ElevatedRoleError || attempts >= MAX_ATTEMPTS;
+      await prisma.roleRewardGrant.update({
+        where: { id: grant.id },
+        data: { status: giveUp ? 'FAILED' : 'PENDING', attempts, last_error: (error as Error).message },
+      });
+      console.warn(
+        `⚠️ Could not grant role ${grant.role_id} to ${grant.discord_id} in guild ${grant.server_id}` +
+          ` (attempt ${attempts}${giveUp ? ', giving up' : ''}): ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Take an expired role away, unless another active grant gives the fan the same role
+   */
+  private async expire(grant: RoleRewardGrant): Promise<void> {
+    const now = new Date();
+    const stillHeld = await prisma.roleRewardGrant.count({
+      where: {
+        id: { not: grant.id },
+        discord_id: grant.discord_id,
+        server_id: grant.server_id,
+        role_id: grant.role_id,
+        status: 'GRANTED',
+        OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+      },
+    });
+
+    if (!stillHeld) {
+      try {
+        const member = await this.fetchMember(grant.server_id, grant.discord_id);
+        await member.roles.remove(grant.role_id, 'Listening party role reward expired');
+      } catch (error) {
+        if (!isPermanentError(error)) {
+          // Try again next sweep
+          console.error(`Failed to remove expired role ${grant.role_id} from ${grant.discord_id}:`, (error as Error).message);
+          return;
+        }
+        // Member left or the role is gone; nothing to remove
+      }
+    }
+
+    await prisma.roleRewardGrant.update({
+      where: { id: grant.id },
+      data: { status: 'REMOVED', removed_at: now },
+    });
+    console.log(`⌛ Role ${grant.role_id} expired for ${grant.discord_id} in guild ${grant.server_id}`);
+  }
+
+  private async fetchMember(serverId: string, discordId: string): Promise<GuildMember> {
+    const guild = await this.client.guilds.fetch(serverId);
+    return guild.members.fetch(discordId);
+  }
+
+  private async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      await this.catchUp();
+
+      const pending = await prisma.roleRewardGrant.findMany({
+        where: { status: 'PENDING' },
+        orderBy: { updated_at: 'asc' },
+        take: BATCH_SIZE,
+      });
+      for (const grant of pending) {
+        await this.apply(grant);
+      }
+
+      const expired = await prisma.roleRewardGrant.findMany({
+        where: { status: 'GRANTED', expires_at: { lte: new Date() } },
+        orderBy: { expires_at: 'asc' },
+        take: BATCH_SIZE,
+      });
+      for (const grant of expired) {
+        await this.expire(grant);
+      }
+    } catch (error) {
+      console.error('Error sweeping role rewards:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Qualifications recorded while the bot was offline (or by another process)
+   * never reached the event listener; handle them from the database
+   */
+  private async catchUp(): Promise<void> {
+    const until = new Date();
+    const participants = await prisma.listeningPartyParticipant.findMany({
+      where: {
+        qualified_at: { gte: new Date(this.caughtUpTo), lt: until },
+        listening_party: { server_id: { not: null } },
+      },
+      select: { party_id: true, discord_id: true },
+      orderBy: { qualified_at: 'asc' },
+    });
+
+    for (const participant of participants) {
+      await this.handleQualified(participant.party_id, participant.discord_id);
+    }
+    this.caughtUpTo = until.getTime();
+  }
+}
+
+export default RoleRewardService;
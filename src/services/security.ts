@@ -6,6 +6,7 @@
 import * as crypto from 'crypto';
 import { PublicKey } from '@solana/web3.js';
 import config from '../config/environment';
+import { prisma } from '../database/prisma';
 
 interface SecurityCheck {
   isValid: boolean;
@@ -172,8 +173,19 @@ class SecurityService {
    * Check daily transaction limits per user
    */
   private async checkDailyLimits(userDiscordId: string): Promise<SecurityCheck> {
-    // This would require database tracking of daily transactions
-    // For now, return basic validation
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const sentToday = await prisma.walletTransfer.count({
+      where: { from_discord_id: userDiscordId, created_at: { gte: since } }
+    });
+
+    if (sentToday >= this.MAX_DAILY_TRANSACTIONS) {
+      return {
+        isValid: false,
+        reason: `Daily limit of ${this.MAX_DAILY_TRANSACTIONS} transfers reached. Try again tomorrow.`,
+        riskLevel: 'MEDIUM'
+      };
+    }
+
     return {
       isValid: true,
       riskLevel: 'LOW'
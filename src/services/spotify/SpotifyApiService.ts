@@ -12,15 +12,17 @@ import {
 } from '../../types/spotify';
 import SpotifyAuthService from './SpotifyAuthService';
 import SpotifyRateLimitService from './SpotifyRateLimitService';
+import SpotifyRequestScheduler from './SpotifyRequestScheduler';
+import { extractSpotifyTrackId } from '../../lib/trackUrls';
 
 class SpotifyApiService {
   private spotifyApi: SpotifyWebApi;
   private authService: SpotifyAuthService;
-  private rateLimitService: SpotifyRateLimitService;
+  private scheduler: SpotifyRequestScheduler;
 
   constructor(authService: SpotifyAuthService, config?: { clientId: string; clientSecret: string }) {
     this.authService = authService;
-    this.rateLimitService = SpotifyRateLimitService.getInstance();
+    this.scheduler = SpotifyRequestScheduler.getInstance();
     
     // Configure with client credentials for public API calls
     this.spotifyApi = new SpotifyWebApi(config ? {
@@ -37,7 +39,10 @@ class SpotifyApiService {
       // Use client credentials for public searches (no user auth required)
       await this.ensureClientCredentials();
       
-      const searchResult = await this.spotifyApi.searchTracks(query, { limit });
+      const searchResult = await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getGlobalKey('search'), priority: 'search' },
+        () => this.spotifyApi.searchTracks(query, { limit })
+      );
       return (searchResult.body.tracks?.items || []) as SpotifyTrack[];
     } catch (error: any) {
       console.error('Error searching Spotify tracks:', error);
@@ -52,7 +57,10 @@ class SpotifyApiService {
     try {
       await this.ensureClientCredentials();
       
-      const trackData = await this.spotifyApi.getTrack(trackId);
+      const trackData = await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getGlobalKey('tracks'), priority: 'metadata', coalesceKey: `track:${trackId}` },
+        () => this.spotifyApi.getTrack(trackId)
+      );
       return trackData.body as SpotifyTrack;
     } catch (error: any) {
       console.error(`Error getting Spotify track ${trackId}:`, error);
@@ -61,23 +69,10 @@ class SpotifyApiService {
   }
 
   /**
-   * Extract Spotify track ID from various URL formats
+   * Extract Spotify track ID from an open.spotify.com URL or spotify:track: URI
    */
   extractTrackIdFromUrl(url: string): string | null {
-    const patterns = [
-      /https?:\/\/open\.spotify\.com\/track\/([a-zA-Z0-9]+)/, // Standard URL
-      /spotify:track:([a-zA-Z0-9]+)/, // URI format
-      /https?:\/\/spotify\.link\/([a-zA-Z0-9]+)/ // Short link
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-
-    return null;
+    return extractSpotifyTrackId(url);
   }
 
   /**
@@ -93,17 +88,24 @@ class SpotifyApiService {
       duration_ms: spotifyTrack.duration_ms,
       platform: 'SPOTIFY',
       spotify_uri: spotifyTrack.uri,
-      preview_url: spotifyTrack.preview_url || undefined
+      preview_url: spotifyTrack.preview_url || undefined,
+      isrc: spotifyTrack.external_ids?.isrc
     };
   }
 
   /**
-   * Get user's currently playing track with rate limiting
+   * Get user's currently playing track. Concurrent calls for the same user
+   * (e.g. two party heartbeats) share one request.
    */
-  async getCurrentlyPlaying(discordId: string): Promise<SpotifyCurrentlyPlaying | null> {
+  async getCurrentlyPlaying(discordId: string, maxWaitMs?: number): Promise<SpotifyCurrentlyPlaying | null> {
     const rateLimitKey = SpotifyRateLimitService.getUserKey(discordId, 'currently-playing');
-    
-    return this.rateLimitService.executeWithRateLimit(rateLimitKey, async () => {
+
+    return this.scheduler.schedule({
+      key: rateLimitKey,
+      priority: 'verification',
+      coalesceKey: rateLimitKey,
+      maxWaitMs,
+    }, async () => {
       const accessToken = await this.authService.getValidAccessToken(discordId);
       if (!accessToken) {
         throw new Error('No valid access token available');
@@ -144,7 +146,7 @@ class SpotifyApiService {
   /**
    * Check if user is currently playing a specific track (supports track relinking)
    */
-  async isPlayingTrack(discordId: string, trackId: string, linkedTrackId?: string): Promise<{
+  async isPlayingTrack(discordId: string, trackId: string, linkedTrackId?: string, maxWaitMs?: number): Promise<{
     isPlaying: boolean;
     progress_ms?: number;
     timestamp?: number;
@@ -152,17 +154,19 @@ class SpotifyApiService {
     deviceId?: string;
   }> {
     try {
-      const currentlyPlaying = await this.getCurrentlyPlaying(discordId);
+      const currentlyPlaying = await this.getCurrentlyPlaying(discordId, maxWaitMs);
       
       if (!currentlyPlaying || !currentlyPlaying.item || !currentlyPlaying.is_playing) {
         console.log(`🎵 User ${discordId} not playing or no track info available`);
         return { isPlaying: false };
       }
 
-      // Check if current track matches original track ID or linked track ID
+      // Check if current track matches original track ID or linked track ID.
+      // With market=from_token a relinked item reports the requested ID in linked_from.
       const currentTrackId = currentlyPlaying.item.id;
-      const isOriginalTrack = currentTrackId === trackId;
-      const isLinkedTrack = linkedTrackId && currentTrackId === linkedTrackId;
+      const relinkedFromId = currentlyPlaying.item.linked_from?.id;
+      const isOriginalTrack = currentTrackId === trackId || relinkedFromId === trackId;
+      const isLinkedTrack = linkedTrackId && (currentTrackId === linkedTrackId || relinkedFromId === linkedTrackId);
       const isMatch = isOriginalTrack || isLinkedTrack;
       
       console.log(`🎵 User ${discordId} playing: ${currentlyPlaying.item.name} (${currentTrackId}) - Match: ${isMatch} (target: ${trackId})`);
@@ -193,6 +197,39 @@ class SpotifyApiService {
     }
   }
 
+  /**
+   * Check which of several tracks (e.g. the tracks of an EP party) the user is playing.
+   * Returns the matching ID from trackIds, honouring track relinking.
+   */
+  async findPlayingTrack(discordId: string, trackIds: string[], maxWaitMs?: number): Promise<{
+    trackId?: string;
+    progress_ms?: number;
+  }> {
+    try {
+      const currentlyPlaying = await this.getCurrentlyPlaying(discordId, maxWaitMs);
+
+      if (!currentlyPlaying || !currentlyPlaying.item || !currentlyPlaying.is_playing) {
+        return {};
+      }
+
+      const candidates = [currentlyPlaying.item.id, currentlyPlaying.item.linked_from?.id];
+      const trackId = trackIds.find((id) => candidates.includes(id));
+
+      return {
+        trackId,
+        progress_ms: trackId ? currentlyPlaying.progress_ms || 0 : undefined
+      };
+    } catch (error: any) {
+      if (error.statusCode === 429) {
+        const retryAfter = parseInt(error.headers?.['retry-after'] || '30');
+        throw new Error(`Rate limited. Retry after ${retryAfter} seconds.`);
+      }
+
+      console.error(`Error checking which party track ${discordId} is playing:`, error);
+      return {};
+    }
+  }
+
   /**
    * Start playback of a specific track (premium users only)
    */
@@ -208,8 +245,6 @@ class SpotifyApiService {
         throw new Error('Playback control is only available for Spotify Premium users');
       }
 
-      this.spotifyApi.setAccessToken(accessToken);
-
       const playbackOptions: any = {
         uris: [spotifyUri]
       };
@@ -218,7 +253,13 @@ class SpotifyApiService {
         playbackOptions.device_id = deviceId;
       }
 
-      await this.spotifyApi.play(playbackOptions);
+      await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getUserKey(discordId, 'player'), priority: 'playback' },
+        () => {
+          this.spotifyApi.setAccessToken(accessToken);
+          return this.spotifyApi.play(playbackOptions);
+        }
+      );
       
       console.log(`▶️ Started playback for user ${discordId}: ${spotifyUri}`);
       return true;
@@ -243,14 +284,18 @@ class SpotifyApiService {
         throw new Error('Playback control is only available for Spotify Premium users');
       }
 
-      this.spotifyApi.setAccessToken(accessToken);
-
       const pauseOptions: any = {};
       if (deviceId) {
         pauseOptions.device_id = deviceId;
       }
 
-      await this.spotifyApi.pause(pauseOptions);
+      await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getUserKey(discordId, 'player'), priority: 'playback' },
+        () => {
+          this.spotifyApi.setAccessToken(accessToken);
+          return this.spotifyApi.pause(pauseOptions);
+        }
+      );
       
       console.log(`⏸️ Paused playback for user ${discordId}`);
       return true;
@@ -261,35 +306,35 @@ class SpotifyApiService {
   }
 
   /**
-   * Add track to user's playback queue (premium users only) with rate limiting
+   * Add track to user's playback queue (premium users only)
    */
   async addToQueue(discordId: string, spotifyUri: string, deviceId?: string): Promise<boolean> {
-    const rateLimitKey = SpotifyRateLimitService.getUserKey(discordId, 'queue');
-    
     try {
-      return await this.rateLimitService.executeWithRateLimit(rateLimitKey, async () => {
-        const accessToken = await this.authService.getValidAccessToken(discordId);
-        if (!accessToken) {
-          throw new Error('No valid access token available');
-        }
+      const accessToken = await this.authService.getValidAccessToken(discordId);
+      if (!accessToken) {
+        throw new Error('No valid access token available');
+      }
 
-        const isPremium = await this.authService.isUserPremium(discordId);
-        if (!isPremium) {
-          throw new Error('Queue control is only available for Spotify Premium users');
-        }
+      const isPremium = await this.authService.isUserPremium(discordId);
+      if (!isPremium) {
+        throw new Error('Queue control is only available for Spotify Premium users');
+      }
 
-        this.spotifyApi.setAccessToken(accessToken);
+      const queueOptions: any = { uri: spotifyUri };
+      if (deviceId) {
+        queueOptions.device_id = deviceId;
+      }
 
-        const queueOptions: any = { uri: spotifyUri };
-        if (deviceId) {
-          queueOptions.device_id = deviceId;
+      await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getUserKey(discordId, 'queue'), priority: 'playback' },
+        () => {
+          this.spotifyApi.setAccessToken(accessToken);
+          return this.spotifyApi.addToQueue(spotifyUri, queueOptions);
         }
+      );
 
-        await this.spotifyApi.addToQueue(spotifyUri, queueOptions);
-        
-        console.log(`➕ Added to queue for user ${discordId}: ${spotifyUri}`);
-        return true;
-      });
+      console.log(`➕ Added to queue for user ${discordId}: ${spotifyUri}`);
+      return true;
     } catch (error: any) {
       console.error(`Error adding to queue for user ${discordId}:`, error);
       return false;
@@ -306,8 +351,13 @@ class SpotifyApiService {
         return [];
       }
 
-      this.spotifyApi.setAccessToken(accessToken);
-      const devices = await this.spotifyApi.getMyDevices();
+      const devices = await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getUserKey(discordId, 'devices'), priority: 'playback' },
+        () => {
+          this.spotifyApi.setAccessToken(accessToken);
+          return this.spotifyApi.getMyDevices();
+        }
+      );
       
       return devices.body.devices || [];
     } catch (error: any) {
@@ -326,10 +376,13 @@ class SpotifyApiService {
         return null;
       }
 
-      this.spotifyApi.setAccessToken(accessToken);
-      const playbackState = await this.spotifyApi.getMyCurrentPlaybackState({
-        market: 'US'
-      });
+      const playbackState = await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getUserKey(discordId, 'player'), priority: 'playback' },
+        () => {
+          this.spotifyApi.setAccessToken(accessToken);
+          return this.spotifyApi.getMyCurrentPlaybackState({ market: 'US' });
+        }
+      );
 
       return (playbackState as any).body || null;
     } catch (error: any) {
@@ -391,7 +444,10 @@ class SpotifyApiService {
     try {
       await this.ensureClientCredentials();
       
-      const tracks = await this.spotifyApi.getTracks(trackIds);
+      const tracks = await this.scheduler.schedule(
+        { key: SpotifyRateLimitService.getGlobalKey('tracks'), priority: 'metadata' },
+        () => this.spotifyApi.getTracks(trackIds)
+      );
       return tracks.body.tracks.filter(track => track !== null) as SpotifyTrack[];
     } catch (error: any) {
       console.error('Error getting multiple tracks:', error);
@@ -403,13 +459,7 @@ class SpotifyApiService {
    * Check if a URL is a valid Spotify track URL
    */
   static isSpotifyUrl(url: string): boolean {
-    const patterns = [
-      /https?:\/\/open\.spotify\.com\/track\/[a-zA-Z0-9]+/,
-      /spotify:track:[a-zA-Z0-9]+/,
-      /https?:\/\/spotify\.link\/[a-zA-Z0-9]+/
-    ];
-
-    return patterns.some(pattern => pattern.test(url));
+    return extractSpotifyTrackId(url) !== null;
   }
 }
 
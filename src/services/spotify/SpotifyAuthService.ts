@@ -6,8 +6,10 @@
 import SpotifyWebApi from 'spotify-web-api-node';
 import crypto from 'crypto';
 import { SpotifyUser, SpotifyAuthTokens } from '../../types/spotify';
+import { ReconnectReason } from '@prisma/client';
 import EncryptionService from '../encryption';
-import PrismaDatabase from '../../database/prisma';
+import PrismaDatabase, { prisma } from '../../database/prisma';
+import { clearNeedsReconnect, markNeedsReconnect } from '../../lib/linkedAccounts';
 
 export interface SpotifyOAuthConfig {
   clientId: string;
@@ -15,6 +17,20 @@ export interface SpotifyOAuthConfig {
   redirectUri: string;
 }
 
+/** Thrown when a refresh fails; `revoked` means the refresh token itself was rejected */
+export class SpotifyTokenRefreshError extends Error {
+  revoked: boolean;
+
+  constructor(message: string, revoked: boolean) {
+    super(message);
+    this.name = 'SpotifyTokenRefreshError';
+    this.revoked = revoked;
+  }
+}
+
+/** Refresh a token this long before it expires */
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
 class SpotifyAuthService {
   private spotifyApi: SpotifyWebApi;
   private config: SpotifyOAuthConfig;
@@ -115,7 +131,9 @@ class SpotifyAuthService {
         scope: data.body.scope || this.SPOTIFY_SCOPES.join(' ')
       };
     } catch (error: any) {
-      throw new Error(`Failed to refresh access token: ${error.message}`);
+      // invalid_grant: the user revoked access or the refresh token expired
+      const revoked = error.statusCode === 400 && error.body?.error === 'invalid_grant';
+      throw new SpotifyTokenRefreshError(`Failed to refresh access token: ${error.message}`, revoked);
     }
   }
 
@@ -124,8 +142,8 @@ class SpotifyAuthService {
    */
   async saveUserTokens(discordId: string, tokens: SpotifyAuthTokens, userProfile: SpotifyUser, discordUsername?: string): Promise<void> {
     try {
-      const encryptedAccessToken = this.encryptionService.encrypt(tokens.access_token);
-      const encryptedRefreshToken = this.encryptionService.encrypt(tokens.refresh_token);
+      const encryptedAccessToken = this.encryptionService.encrypt(tokens.access_token, 'oauth_token');
+      const encryptedRefreshToken = this.encryptionService.encrypt(tokens.refresh_token, 'oauth_token');
       const expiresAt = new Date(Date.now() + (tokens.expires_in * 1000));
 
       await PrismaDatabase.updateUser(discordId, {
@@ -142,6 +160,12 @@ class SpotifyAuthService {
         spotifyCountry: userProfile.country
       });
 
+      await prisma.user.updateMany({
+        where: { discord_id: discordId, spotify_refresh_failed_at: { not: null } },
+        data: { spotify_refresh_failed_at: null }
+      });
+      await clearNeedsReconnect(discordId, 'SPOTIFY');
+
       console.log(`💾 Saved Spotify tokens for user ${discordId} (${userProfile.display_name}) - Premium: ${userProfile.product === 'premium'}`);
     } catch (error: any) {
       throw new Error(`Failed to save user tokens: ${error.message}`);
@@ -149,9 +173,13 @@ class SpotifyAuthService {
   }
 
   /**
-   * Get valid access token (refresh if expired)
+   * Get valid access token (refresh if expired or expiring within minValidityMs).
+   * Tokens are cleared and Spotify flagged as needing a reconnect only when
+   * Spotify revokes the refresh token. Anything else, including tokens that
+   * won't decrypt (usually a missing or wrong encryption key after a deploy),
+   * leaves them in place to be tried again.
    */
-  async getValidAccessToken(discordId: string): Promise<string | null> {
+  async getValidAccessToken(discordId: string, minValidityMs: number = REFRESH_BUFFER_MS): Promise<string | null> {
     try {
       const user = await PrismaDatabase.getUser(discordId);
       
@@ -161,22 +189,27 @@ class SpotifyAuthService {
 
       // Validate that tokens are actually strings and not corrupted
       if (typeof user.spotify_access_token !== 'string' || typeof user.spotify_refresh_token !== 'string') {
-        console.log(`🔄 User ${discordId} has corrupted token data, clearing...`);
-        await this.clearUserTokens(discordId);
+        console.error(`User ${discordId} has corrupted Spotify token data`);
         return null;
       }
 
-      // Check if token is expired (with 5 minute buffer)
+      // Check if token is expired (or will be within the buffer)
       const now = new Date();
       const expiresAt = user.spotify_token_expires_at;
-      const bufferTime = 5 * 60 * 1000; // 5 minutes in milliseconds
 
-      if (!expiresAt || (expiresAt.getTime() - bufferTime) <= now.getTime()) {
+      if (!expiresAt || (expiresAt.getTime() - minValidityMs) <= now.getTime()) {
         console.log(`🔄 Refreshing Spotify token for user ${discordId}`);
-        
+
+        let decryptedRefreshToken: string;
+        try {
+          decryptedRefreshToken = this.encryptionService.decrypt(JSON.parse(user.spotify_refresh_token), 'oauth_token');
+        } catch (decryptError: any) {
+          console.error(`Refresh token decryption failed for user ${discordId}, skipping:`, decryptError.message);
+          await this.recordRefreshFailure(discordId);
+          return null;
+        }
+
         try {
-          const refreshTokenData = JSON.parse(user.spotify_refresh_token);
-          const decryptedRefreshToken = this.encryptionService.decrypt(refreshTokenData);
           const newTokens = await this.refreshAccessToken(decryptedRefreshToken);
           
           // Get updated user profile to check for premium status changes
@@ -186,8 +219,11 @@ class SpotifyAuthService {
           return newTokens.access_token;
         } catch (refreshError: any) {
           console.error(`Failed to refresh token for user ${discordId}:`, refreshError.message);
-          // Clear corrupted tokens
-          await this.clearUserTokens(discordId);
+          if (refreshError instanceof SpotifyTokenRefreshError && refreshError.revoked) {
+            await this.clearUserTokens(discordId, 'REFRESH_REVOKED');
+          } else {
+            await this.recordRefreshFailure(discordId);
+          }
           return null;
         }
       }
@@ -195,30 +231,43 @@ class SpotifyAuthService {
       // Token is still valid - decrypt and return
       try {
         const accessTokenData = JSON.parse(user.spotify_access_token);
-        return this.encryptionService.decrypt(accessTokenData);
+        return this.encryptionService.decrypt(accessTokenData, 'oauth_token');
       } catch (decryptError: any) {
-        console.error(`Token decryption failed for user ${discordId}:`, decryptError.message);
-        await this.clearUserTokens(discordId);
+        console.error(`Token decryption failed for user ${discordId}, skipping:`, decryptError.message);
         return null;
       }
     } catch (error: any) {
       console.error(`Failed to get valid access token for user ${discordId}:`, error.message);
-      await this.clearUserTokens(discordId);
       return null;
     }
   }
 
   /**
-   * Clear user's Spotify tokens and notify tracking service
+   * Note a refresh that failed but may work later, so the linked account
+   * monitor backs off instead of retrying it every pass
    */
-  private async clearUserTokens(discordId: string): Promise<void> {
+  private async recordRefreshFailure(discordId: string): Promise<void> {
     try {
-      await PrismaDatabase.updateUser(discordId, {
-        spotifyAccessToken: undefined,
-        spotifyRefreshToken: undefined,
-        spotifyTokenExpiresAt: undefined
+      await prisma.user.updateMany({
+        where: { discord_id: discordId },
+        data: { spotify_refresh_failed_at: new Date() }
+      });
+    } catch (error: any) {
+      console.error(`Error recording refresh failure for user ${discordId}:`, error.message);
+    }
+  }
+
+  /**
+   * Clear tokens that can no longer be used and flag Spotify as needing a reconnect
+   */
+  private async clearUserTokens(discordId: string, reason: ReconnectReason): Promise<void> {
+    try {
+      await prisma.user.updateMany({
+        where: { discord_id: discordId },
+        data: { spotify_access_token: null, spotify_refresh_token: null, spotify_token_expires_at: null }
       });
-      console.log(`🗑️ Cleared corrupted Spotify tokens for user ${discordId}`);
+      await markNeedsReconnect(discordId, 'SPOTIFY', reason);
+      console.log(`🗑️ Cleared unusable Spotify tokens for user ${discordId}`);
     } catch (error: any) {
       console.error(`Error clearing tokens for user ${discordId}:`, error.message);
     }
@@ -6,10 +6,14 @@
 import SpotifyWebApi from 'spotify-web-api-node';
 import { SpotifyTrack, EnhancedSpotifyMetadata, SpotifyRateLimitInfo } from '../../types/spotify';
 import SpotifyAuthService from './SpotifyAuthService';
+import SpotifyRateLimitService from './SpotifyRateLimitService';
+import SpotifyRequestScheduler from './SpotifyRequestScheduler';
+import { extractSpotifyTrackId } from '../../lib/trackUrls';
 
 class SpotifyMetadataService {
   private spotifyApi: SpotifyWebApi;
   private authService: SpotifyAuthService;
+  private scheduler = SpotifyRequestScheduler.getInstance();
 
   constructor(authService: SpotifyAuthService, config: { clientId: string; clientSecret: string; redirectUri: string }) {
     this.authService = authService;
@@ -35,7 +39,6 @@ class SpotifyMetadataService {
       if (discordId) {
         accessToken = await this.authService.getValidAccessToken(discordId);
         if (accessToken) {
-          this.spotifyApi.setAccessToken(accessToken);
           market = 'from_token'; // Use user's market
         }
       }
@@ -46,7 +49,19 @@ class SpotifyMetadataService {
       }
 
       // Fetch track with market parameter for relinking
-      const trackResponse = await this.spotifyApi.getTrack(trackId, { market });
+      const userToken = accessToken;
+      const trackResponse = await this.scheduler.schedule(
+        {
+          key: discordId ? SpotifyRateLimitService.getUserKey(discordId, 'tracks') : SpotifyRateLimitService.getGlobalKey('tracks'),
+          priority: 'metadata',
+        },
+        () => {
+          if (userToken) {
+            this.spotifyApi.setAccessToken(userToken);
+          }
+          return this.spotifyApi.getTrack(trackId, { market });
+        }
+      );
       const track = trackResponse.body as SpotifyTrack;
 
       // Process album artwork
@@ -98,31 +113,13 @@ class SpotifyMetadataService {
    * Get track by Spotify URL or URI
    */
   async getTrackFromUrl(url: string, discordId?: string): Promise<EnhancedSpotifyMetadata> {
-    const trackId = this.extractTrackIdFromUrl(url);
+    const trackId = extractSpotifyTrackId(url);
     if (!trackId) {
       throw new Error('Invalid Spotify track URL or URI');
     }
     return this.getEnhancedTrackMetadata(trackId, discordId);
   }
 
-  /**
-   * Extract track ID from Spotify URL or URI
-   */
-  private extractTrackIdFromUrl(url: string): string | null {
-    // Handle Spotify URIs: spotify:track:4iV5W9uYEdYUVa79Axb7Rh
-    if (url.startsWith('spotify:track:')) {
-      return url.split(':')[2];
-    }
-
-    // Handle Spotify URLs: https://open.spotify.com/track/4iV5W9uYEdYUVa79Axb7Rh
-    const urlMatch = url.match(/spotify\.com\/track\/([a-zA-Z0-9]+)/);
-    if (urlMatch) {
-      return urlMatch[1];
-    }
-
-    return null;
-  }
-
   /**
    * Process album artwork into different sizes
    */
@@ -1,10 +1,10 @@
 /**
  * Spotify Rate Limiting Service
- * Handles rate limiting, backoff, and retry logic for Spotify API calls
+ * Per-key request budgets (one user's polling, one endpoint) and retry-after
+ * state. Calls are queued and sent by SpotifyRequestScheduler, which checks
+ * these budgets alongside the app-wide one.
  */
 
-import { SpotifyRateLimitInfo } from '../../types/spotify';
-
 interface RateLimitState {
   retryAfter?: number;
   retryAfterExpires?: number;
@@ -31,6 +31,14 @@ class SpotifyRateLimitService {
    * Check if we can make a request for a specific endpoint/user combination
    */
   async canMakeRequest(key: string): Promise<{ canProceed: boolean; waitTime?: number }> {
+    const { canProceed, waitMs } = this.checkRequest(key);
+    return canProceed ? { canProceed } : { canProceed, waitTime: Math.ceil((waitMs ?? 0) / 1000) };
+  }
+
+  /**
+   * Synchronous budget check for the scheduler; waitMs is how long until the key may send again
+   */
+  checkRequest(key: string): { canProceed: boolean; waitMs?: number } {
     const now = Date.now();
     const state = this.rateLimitState.get(key) || {
       requestCount: 0,
@@ -40,8 +48,7 @@ class SpotifyRateLimitService {
 
     // Check if we're in a retry-after period
     if (state.retryAfter && state.retryAfterExpires && now < state.retryAfterExpires) {
-      const waitTime = Math.ceil((state.retryAfterExpires - now) / 1000);
-      return { canProceed: false, waitTime };
+      return { canProceed: false, waitMs: state.retryAfterExpires - now };
     }
 
     // Reset window if it has expired
@@ -52,21 +59,19 @@ class SpotifyRateLimitService {
 
     // Check if we've exceeded the rate limit
     if (state.requestCount >= this.MAX_REQUESTS_PER_WINDOW) {
-      const waitTime = Math.ceil((this.WINDOW_SIZE_MS - (now - state.windowStart)) / 1000);
-      return { canProceed: false, waitTime };
+      return { canProceed: false, waitMs: this.WINDOW_SIZE_MS - (now - state.windowStart) };
     }
 
     // Check minimum interval between requests
     if (now - state.lastRequest < this.MIN_REQUEST_INTERVAL) {
-      const waitTime = Math.ceil((this.MIN_REQUEST_INTERVAL - (now - state.lastRequest)) / 1000);
-      return { canProceed: false, waitTime };
+      return { canProceed: false, waitMs: this.MIN_REQUEST_INTERVAL - (now - state.lastRequest) };
     }
 
     return { canProceed: true };
   }
 
   /**
-   * Record a successful request
+   * Record a request being sent
    */
   recordRequest(key: string): void {
     const now = Date.now();
@@ -79,7 +84,7 @@ class SpotifyRateLimitService {
     state.requestCount++;
     state.lastRequest = now;
     
-    // Clear any retry-after state on successful request
+    // Requests are only sent once any retry-after period has passed
     state.retryAfter = undefined;
     state.retryAfterExpires = undefined;
 
@@ -105,70 +110,6 @@ class SpotifyRateLimitService {
     console.log(`⏱️ Rate limited for key ${key}, retry after ${retryAfter}s`);
   }
 
-  /**
-   * Execute a Spotify API call with automatic rate limiting and retries
-   */
-  async executeWithRateLimit<T>(
-    key: string,
-    apiCall: () => Promise<T>,
-    maxRetries: number = 3
-  ): Promise<T> {
-    let retries = 0;
-    
-    while (retries <= maxRetries) {
-      // Check if we can make the request
-      const { canProceed, waitTime } = await this.canMakeRequest(key);
-      
-      if (!canProceed && waitTime) {
-        if (retries === maxRetries) {
-          throw new Error(`Rate limited. Please try again in ${waitTime} seconds.`);
-        }
-        
-        console.log(`⏱️ Rate limited, waiting ${waitTime}s before retry ${retries + 1}/${maxRetries}`);
-        await this.sleep(waitTime * 1000);
-        retries++;
-        continue;
-      }
-
-      try {
-        // Execute the API call
-        const result = await apiCall();
-        
-        // Record successful request
-        this.recordRequest(key);
-        
-        return result;
-      } catch (error: any) {
-        // Handle rate limiting response
-        if (error.statusCode === 429) {
-          const retryAfter = parseInt(error.headers?.['retry-after'] || '30');
-          this.recordRateLimit(key, retryAfter);
-          
-          if (retries === maxRetries) {
-            throw new Error(`Rate limited after ${maxRetries} retries. Please try again in ${retryAfter} seconds.`);
-          }
-          
-          console.log(`⏱️ Got 429 response, waiting ${retryAfter}s before retry ${retries + 1}/${maxRetries}`);
-          await this.sleep(retryAfter * 1000);
-          retries++;
-          continue;
-        }
-
-        // For non-rate-limit errors, throw immediately
-        throw error;
-      }
-    }
-
-    throw new Error(`Max retries (${maxRetries}) exceeded`);
-  }
-
-  /**
-   * Sleep for a specified number of milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Get current rate limit stats for debugging
    */
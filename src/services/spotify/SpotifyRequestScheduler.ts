@@ -0,0 +1,343 @@
+/**
+ * Spotify Request Scheduler
+ * Central queue for Spotify Web API calls. Spotify's quota is app-wide, so
+ * instead of every caller sleeping on its own, requests wait here: a token
+ * bucket sets the app-level pace, SpotifyRateLimitService keeps each key's own
+ * budget, and higher priority classes (verification polling) go out before
+ * lower ones (search). A 429 pauses the queue and slows the pace, and pollers
+ * ask for their next interval so they back off too.
+ */
+
+import config from '../../config/environment';
+import SpotifyRateLimitService from './SpotifyRateLimitService';
+
+export type SpotifyRequestPriority = 'verification' | 'playback' | 'metadata' | 'search';
+
+/** Dispatch order, lowest first */
+const PRIORITY_RANK: Record<SpotifyRequestPriority, number> = {
+  verification: 0,
+  playback: 1,
+  metadata: 2,
+  search: 3,
+};
+
+export interface ScheduleOptions {
+  key: string; // per-key budget, see SpotifyRateLimitService.getUserKey / getGlobalKey
+  priority: SpotifyRequestPriority;
+  coalesceKey?: string; // identical requests queued or in flight share one call
+  maxRetries?: number; // re-queued after a 429 up to this many times
+  maxWaitMs?: number; // rejected if it can't be sent within this long
+}
+
+export interface SpotifySchedulerMetrics {
+  queue_depth: number;
+  queue_depth_by_priority: Record<SpotifyRequestPriority, number>;
+  in_flight: number;
+  tokens_available: number;
+  requests_per_second: number; // current pace, lowered after 429s
+  configured_requests_per_second: number;
+  poll_interval_multiplier: number;
+  paused_until: string | null;
+  dispatched: number;
+  coalesced: number;
+  rate_limited: number; // 429 responses
+  timed_out: number; // requests that waited longer than their maxWaitMs
+  wait_ms: { avg: number; p95: number; max: number }; // queue wait of recent requests
+}
+
+/** Thrown when a request is rate limited for longer than the caller is willing to wait */
+export class SpotifyRateLimitError extends Error {
+  statusCode = 429;
+  headers: Record<string, string>;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Rate limited. Please try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'SpotifyRateLimitError';
+    this.headers = { 'retry-after': retryAfterSeconds.toString() };
+  }
+}
+
+interface QueuedRequest {
+  options: ScheduleOptions;
+  call: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  enqueuedAt: number;
+  notBefore: number; // set after a 429
+  deadline: number;
+  attempts: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_WAIT_MS = 30 * 1000;
+
+/** Pace never drops below this fraction of the configured rate */
+const MIN_RATE_FRACTION = 0.125;
+/** Quiet time after a 429 before the pace steps back up */
+const RECOVERY_STEP_MS = 15 * 1000;
+/**
+ * Pollers slow down by at most this factor. Heartbeats further apart than
+ * MAX_CREDITED_SECONDS_PER_HEARTBEAT would lose listening credit.
+ */
+const MAX_POLL_INTERVAL_MULTIPLIER = 2;
+const WAIT_SAMPLE_SIZE = 200;
+
+class SpotifyRequestScheduler {
+  private static instance: SpotifyRequestScheduler;
+  private rateLimits = SpotifyRateLimitService.getInstance();
+  private queue: QueuedRequest[] = []; // sorted by priority, then arrival
+  private coalesced: Map<string, Promise<unknown>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = 0;
+
+  private readonly configuredRate = Math.max(config.spotify.requestsPerSecond, 0.1);
+  private readonly burst = Math.max(config.spotify.requestBurst, 1);
+  private rate = this.configuredRate;
+  private tokens = this.burst;
+  private lastRefill = Date.now();
+  private lastRateChange = 0;
+  private pausedUntil = 0;
+
+  private counters = { dispatched: 0, coalesced: 0, rateLimited: 0, timedOut: 0 };
+  private waitSamples: number[] = [];
+
+  static getInstance(): SpotifyRequestScheduler {
+    if (!SpotifyRequestScheduler.instance) {
+      SpotifyRequestScheduler.instance = new SpotifyRequestScheduler();
+    }
+    return SpotifyRequestScheduler.instance;
+  }
+
+  /**
+   * Queue a Spotify API call and resolve with its result once it has been sent
+   */
+  schedule<T>(options: ScheduleOptions, call: () => Promise<T>): Promise<T> {
+    if (options.coalesceKey) {
+      const pending = this.coalesced.get(options.coalesceKey);
+      if (pending) {
+        this.counters.coalesced++;
+        return pending as Promise<T>;
+      }
+    }
+
+    const now = Date.now();
+    const promise = new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        options,
+        call,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        enqueuedAt: now,
+        notBefore: now,
+        deadline: now + (options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS),
+        attempts: 0,
+      });
+    });
+
+    if (options.coalesceKey) {
+      const coalesceKey = options.coalesceKey;
+      this.coalesced.set(coalesceKey, promise);
+      promise.then(
+        () => this.coalesced.delete(coalesceKey),
+        () => this.coalesced.delete(coalesceKey)
+      );
+    }
+
+    this.drain();
+    return promise;
+  }
+
+  /**
+   * How long a poller should wait before its next request for `key`: the base
+   * interval stretched while the app is being rate limited, or longer if the
+   * key itself is in a retry-after period
+   */
+  getPollDelayMs(key: string, baseMs: number): number {
+    const now = Date.now();
+    const multiplier = Math.min(this.configuredRate / this.rate, MAX_POLL_INTERVAL_MULTIPLIER);
+    return Math.max(
+      Math.round(baseMs * multiplier),
+      this.pausedUntil - now,
+      this.rateLimits.checkRequest(key).waitMs ?? 0
+    );
+  }
+
+  getMetrics(): SpotifySchedulerMetrics {
+    const now = Date.now();
+    this.refill(now);
+
+    const byPriority: Record<SpotifyRequestPriority, number> = { verification: 0, playback: 0, metadata: 0, search: 0 };
+    for (const request of this.queue) {
+      byPriority[request.options.priority]++;
+    }
+
+    const sorted = [...this.waitSamples].sort((a, b) => a - b);
+    return {
+      queue_depth: this.queue.length,
+      queue_depth_by_priority: byPriority,
+      in_flight: this.inFlight,
+      tokens_available: Math.floor(this.tokens),
+      requests_per_second: Math.round(this.rate * 100) / 100,
+      configured_requests_per_second: this.configuredRate,
+      poll_interval_multiplier: Math.round(Math.min(this.configuredRate / this.rate, MAX_POLL_INTERVAL_MULTIPLIER) * 100) / 100,
+      paused_until: this.pausedUntil > now ? new Date(this.pausedUntil).toISOString() : null,
+      dispatched: this.counters.dispatched,
+      coalesced: this.counters.coalesced,
+      rate_limited: this.counters.rateLimited,
+      timed_out: this.counters.timedOut,
+      wait_ms: {
+        avg: sorted.length ? Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length) : 0,
+        p95: sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+        max: sorted.length ? sorted[sorted.length - 1] : 0,
+      },
+    };
+  }
+
+  private enqueue(request: QueuedRequest): void {
+    const rank = PRIORITY_RANK[request.options.priority];
+    const index = this.queue.findIndex((queued) => PRIORITY_RANK[queued.options.priority] > rank);
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+  }
+
+  /**
+   * Send every request that has a token and key budget available, then sleep
+   * until the next one could go
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.refill(now);
+    this.expire(now);
+
+    let wakeAt = Infinity;
+    if (now < this.pausedUntil) {
+      wakeAt = this.pausedUntil;
+    } else {
+      for (let i = 0; i < this.queue.length && this.tokens >= 1; ) {
+        const request = this.queue[i];
+        if (request.notBefore > now) {
+          wakeAt = Math.min(wakeAt, request.notBefore);
+          i++;
+          continue;
+        }
+
+        const budget = this.rateLimits.checkRequest(request.options.key);
+        if (!budget.canProceed) {
+          wakeAt = Math.min(wakeAt, now + (budget.waitMs ?? 0));
+          i++;
+          continue;
+        }
+
+        this.queue.splice(i, 1);
+        this.tokens -= 1;
+        this.dispatch(request, now);
+      }
+
+      if (this.queue.length && this.tokens < 1) {
+        wakeAt = Math.min(wakeAt, now + Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+      }
+    }
+
+    for (const request of this.queue) {
+      wakeAt = Math.min(wakeAt, request.deadline);
+    }
+
+    if (this.queue.length && wakeAt < Infinity) {
+      this.timer = setTimeout(() => this.drain(), Math.max(wakeAt - now, 10));
+      this.timer.unref();
+    }
+  }
+
+  private dispatch(request: QueuedRequest, now: number): void {
+    const { key } = request.options;
+    this.inFlight++;
+    this.counters.dispatched++;
+    this.recordWait(now - request.enqueuedAt);
+    this.rateLimits.recordRequest(key);
+
+    request
+      .call()
+      .then(request.resolve, (error) => this.handleFailure(request, error))
+      .finally(() => {
+        this.inFlight--;
+      });
+  }
+
+  private handleFailure(request: QueuedRequest, error: any): void {
+    if (error?.statusCode !== 429) {
+      request.reject(error);
+      return;
+    }
+
+    const now = Date.now();
+    const retryAfter = parseInt(error.headers?.['retry-after'] || '30');
+    this.rateLimits.recordRateLimit(request.options.key, retryAfter);
+    this.slowDown(now, retryAfter);
+
+    const notBefore = now + retryAfter * 1000;
+    if (request.attempts < (request.options.maxRetries ?? DEFAULT_MAX_RETRIES) && notBefore <= request.deadline) {
+      request.attempts++;
+      request.notBefore = notBefore;
+      console.log(`⏱️ Got 429 for ${request.options.key}, re-queued for ${retryAfter}s (retry ${request.attempts})`);
+      this.enqueue(request);
+      this.drain();
+      return;
+    }
+
+    request.reject(new SpotifyRateLimitError(retryAfter));
+  }
+
+  /**
+   * A 429 counts against the whole app: pause the queue for the retry-after
+   * period and halve the pace
+   */
+  private slowDown(now: number, retryAfterSeconds: number): void {
+    this.counters.rateLimited++;
+    this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterSeconds * 1000);
+    this.rate = Math.max(this.rate / 2, this.configuredRate * MIN_RATE_FRACTION);
+    this.tokens = Math.min(this.tokens, 1);
+    this.lastRateChange = now;
+    console.warn(`⏱️ Spotify rate limit hit; pausing ${retryAfterSeconds}s and slowing to ${this.rate.toFixed(2)} req/s`);
+  }
+
+  private refill(now: number): void {
+    // Step the pace back up a quarter at a time once 429s stop
+    if (this.rate < this.configuredRate && now - this.lastRateChange >= RECOVERY_STEP_MS) {
+      this.rate = Math.min(this.configuredRate, this.rate + this.configuredRate * 0.25);
+      this.lastRateChange = now;
+    }
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private expire(now: number): void {
+    const expired = this.queue.filter((request) => request.deadline <= now);
+    if (!expired.length) {
+      return;
+    }
+
+    this.queue = this.queue.filter((request) => request.deadline > now);
+    for (const request of expired) {
+      this.counters.timedOut++;
+      request.reject(new SpotifyRateLimitError(Math.max(1, Math.ceil((this.pausedUntil - now) / 1000))));
+    }
+  }
+
+  private recordWait(ms: number): void {
+    this.waitSamples.push(ms);
+    if (this.waitSamples.length > WAIT_SAMPLE_SIZE) {
+      this.waitSamples.shift();
+    }
+  }
+}
+
+export default SpotifyRequestScheduler;
@@ -0,0 +1,333 @@
+/**
+ * Spotify Verification Service
+ * Handles listening verification for Spotify listening parties using the
+ * currently-playing API, with the same heartbeat and qualification rules as Audius
+ */
+
+import PrismaDatabase, { prisma, PartyTrackProgress } from '../database/prisma';
+import config from '../config/environment';
+import { LISTENING_PARTY_CONSTANTS } from '../config/listeningPartyConstants';
+import { evaluateQualification } from '../lib/qualification';
+import { tracksOnPlatform } from '../lib/partyPlatforms';
+import { reconnectUrl } from '../lib/linkedAccounts';
+import SpotifyAuthService from './spotify/SpotifyAuthService';
+import SpotifyApiService from './spotify/SpotifyApiService';
+import SpotifyMetadataService from './spotify/SpotifyMetadataService';
+import SpotifyRateLimitService from './spotify/SpotifyRateLimitService';
+import SpotifyRequestScheduler from './spotify/SpotifyRequestScheduler';
+
+interface HeartbeatResult {
+  qualified: boolean;
+  canClaim: boolean;
+  listeningDuration: number;
+  requiredDuration: number;
+  sessionCount: number;
+  requiredSessions: number;
+  progress: string;
+  tracksCompleted: number;
+  requiredTracks: number;
+  trackCount: number;
+  currentTrack: PartyTrackProgress | null;
+  heldForReview: boolean;
+  isPlaying: boolean;
+  nextHeartbeatMs: number; // stretched while Spotify is rate limiting us
+}
+
+interface ListeningVerification {
+  isPlaying: boolean;
+  trackMatches: boolean;
+  positionSeconds?: number;
+  trackId?: string;
+}
+
+interface StartTrackingResult {
+  success: boolean;
+  message: string;
+  participantId?: string;
+  linkedTrackId?: string;
+  isPremium?: boolean;
+  reconnectRequired?: boolean;
+}
+
+export class SpotifyVerificationService {
+  private readonly HEARTBEAT_INTERVAL = LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL;
+  private readonly MAX_VERIFICATION_ATTEMPTS = LISTENING_PARTY_CONSTANTS.MAX_VERIFICATION_ATTEMPTS;
+
+  private authService: SpotifyAuthService;
+  private apiService: SpotifyApiService;
+  private metadataService: SpotifyMetadataService;
+
+  constructor() {
+    const oauthConfig = {
+      clientId: config.spotify.clientId,
+      clientSecret: config.spotify.clientSecret,
+      redirectUri: config.spotify.redirectUri,
+    };
+    this.authService = new SpotifyAuthService(oauthConfig);
+    this.apiService = new SpotifyApiService(this.authService, oauthConfig);
+    this.metadataService = new SpotifyMetadataService(this.authService, oauthConfig);
+  }
+
+  /**
+   * Resolve the track ID Spotify serves in the user's market (track relinking).
+   * Returns undefined when the party track is playable as-is.
+   */
+  async resolveLinkedTrackId(discordId: string, trackId: string): Promise<string | undefined> {
+    try {
+      const metadata = await this.metadataService.getEnhancedTrackMetadata(trackId, discordId);
+      return metadata.track.id !== trackId ? metadata.track.id : undefined;
+    } catch (error) {
+      console.warn(`Could not resolve relinked track for ${trackId} (user ${discordId}):`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Verify if user is playing the party track (or its relinked version).
+   * For multi-track parties any of the party's tracks counts, and the
+   * matched track is returned. A poll still queued after one heartbeat
+   * interval is stale and fails as rate limited.
+   */
+  async verifyListening(
+    discordId: string,
+    trackId: string,
+    linkedTrackId?: string,
+    partyTrackIds: string[] = []
+  ): Promise<ListeningVerification> {
+    if (partyTrackIds.length > 1) {
+      const playing = await this.apiService.findPlayingTrack(discordId, partyTrackIds, LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL_MS);
+      return {
+        isPlaying: Boolean(playing.trackId),
+        trackMatches: Boolean(playing.trackId),
+        positionSeconds: playing.progress_ms !== undefined ? playing.progress_ms / 1000 : undefined,
+        trackId: playing.trackId,
+      };
+    }
+
+    const status = await this.apiService.isPlayingTrack(discordId, trackId, linkedTrackId, LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL_MS);
+    // isPlayingTrack only reports true for a matching, actively playing track
+    return {
+      isPlaying: status.isPlaying,
+      trackMatches: status.isPlaying,
+      positionSeconds: status.progress_ms !== undefined ? status.progress_ms / 1000 : undefined,
+      trackId: status.isPlaying ? trackId : undefined,
+    };
+  }
+
+  /**
+   * Start tracking listening session for a participant
+   * This is typically called when user clicks "Listen" button
+   */
+  async startTracking(partyId: string, discordId: string, trackId: string): Promise<StartTrackingResult> {
+    try {
+      const participant = await prisma.listeningPartyParticipant.findUnique({
+        where: {
+          party_id_discord_id: {
+            party_id: partyId,
+            discord_id: discordId,
+          },
+        },
+        include: { listening_party: { include: { tracks: { orderBy: { position: 'asc' } } } } },
+      });
+
+      if (!participant) {
+        return {
+          success: false,
+          message: 'User has not joined this party. Please join first.',
+        };
+      }
+
+      // Cross-platform parties list the Spotify ID of every track
+      const platformTracks = tracksOnPlatform(participant.listening_party, participant.listening_party.tracks, 'SPOTIFY');
+      if (!platformTracks.length) {
+        return {
+          success: false,
+          message: 'This listening party is not available on Spotify.',
+        };
+      }
+
+      if (!(await this.authService.isUserAuthenticated(discordId))) {
+        return {
+          success: false,
+          reconnectRequired: true,
+          message: `Your Spotify connection has expired. Reconnect Spotify here: ${reconnectUrl('SPOTIFY')}`,
+        };
+      }
+
+      const isPremium = await this.authService.isUserPremium(discordId);
+      const linkedTrackId = await this.resolveLinkedTrackId(discordId, trackId);
+
+      // Premium accounts can be started remotely on their active device
+      if (isPremium) {
+        await this.apiService.startTrackPlayback(discordId, `spotify:track:${linkedTrackId || trackId}`);
+      }
+
+      // Initial verification - check if user is playing the correct track
+      let attempts = 0;
+      let isVerified = false;
+
+      while (attempts < this.MAX_VERIFICATION_ATTEMPTS && !isVerified) {
+        try {
+          const verification = await this.verifyListening(
+            discordId,
+            trackId,
+            linkedTrackId,
+            platformTracks.map((t) => t.platform_track_id)
+          );
+          if (verification.isPlaying && verification.trackMatches) {
+            isVerified = true;
+            break;
+          }
+        } catch (error: any) {
+          // Rate limited - treat as a missed attempt
+          console.warn(`Spotify verification attempt failed for ${discordId}:`, error.message);
+        }
+
+        attempts++;
+        if (attempts < this.MAX_VERIFICATION_ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, this.HEARTBEAT_INTERVAL * 1000));
+        }
+      }
+
+      if (!isVerified) {
+        return {
+          success: false,
+          isPremium,
+          message: isPremium
+            ? 'Could not verify playback. Please make sure Spotify is open on one of your devices and playing the party track.'
+            : 'Could not verify playback. Please make sure you are playing the correct track on Spotify.',
+        };
+      }
+
+      await PrismaDatabase.startPartyListeningSession(participant, 'SPOTIFY');
+
+      return {
+        success: true,
+        message: 'Listening verified! Tracking started.',
+        participantId: participant.id,
+        linkedTrackId,
+        isPremium,
+      };
+    } catch (error) {
+      console.error('Error starting Spotify tracking:', error);
+      return {
+        success: false,
+        message: 'Failed to start tracking session',
+      };
+    }
+  }
+
+  /**
+   * Record a heartbeat and update listening progress
+   */
+  async recordHeartbeat(
+    partyId: string,
+    discordId: string,
+    trackId: string,
+    linkedTrackId?: string
+  ): Promise<HeartbeatResult> {
+    const participant = await prisma.listeningPartyParticipant.findUnique({
+      where: {
+        party_id_discord_id: {
+          party_id: partyId,
+          discord_id: discordId,
+        },
+      },
+      include: { listening_party: { include: { tracks: { orderBy: { position: 'asc' } } } } },
+    });
+
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+
+    const tracks = participant.listening_party.tracks;
+    const platformTracks = tracksOnPlatform(participant.listening_party, tracks, 'SPOTIFY');
+    let verification: ListeningVerification;
+    try {
+      verification = await this.verifyListening(
+        discordId,
+        trackId,
+        linkedTrackId,
+        platformTracks.map((t) => t.platform_track_id)
+      );
+    } catch (error: any) {
+      // Rate limited: skip this beat without crediting time or ending the session
+      console.warn(`⏱️ Skipping Spotify heartbeat for ${discordId}: ${error.message}`);
+      const qualification = evaluateQualification(participant.listening_party, participant, tracks);
+      const qualified = Boolean(participant.qualified_at);
+      return {
+        qualified,
+        canClaim: qualified && !participant.claimed_at,
+        listeningDuration: participant.total_listening_duration,
+        requiredDuration: qualification.required_seconds,
+        sessionCount: qualification.sessions,
+        requiredSessions: qualification.required_sessions,
+        progress: `${participant.total_listening_duration}/${qualification.required_seconds}`,
+        tracksCompleted: qualification.tracks_completed,
+        requiredTracks: qualification.required_tracks,
+        trackCount: participant.listening_party.tracks.length || 1,
+        currentTrack: null,
+        heldForReview: participant.review_status === 'PENDING_REVIEW',
+        isPlaying: true,
+        nextHeartbeatMs: this.nextHeartbeatMs(discordId),
+      };
+    }
+
+    const isListening = verification.isPlaying && verification.trackMatches;
+
+    const { participant: updated, qualification, heldForReview, track } = await PrismaDatabase.recordPartyHeartbeat(
+      participant,
+      {
+        isPlaying: isListening,
+        positionSeconds: verification.positionSeconds,
+        // Progress is stored under the party's own track IDs
+        trackId: platformTracks.find((t) => t.platform_track_id === verification.trackId)?.track_id,
+      }
+    );
+
+    return {
+      qualified: qualification.qualified,
+      canClaim: qualification.qualified && !updated.claimed_at,
+      listeningDuration: updated.total_listening_duration,
+      requiredDuration: qualification.required_seconds,
+      sessionCount: qualification.sessions,
+      requiredSessions: qualification.required_sessions,
+      progress: `${updated.total_listening_duration}/${qualification.required_seconds}`,
+      tracksCompleted: qualification.tracks_completed,
+      requiredTracks: qualification.required_tracks,
+      trackCount: participant.listening_party.tracks.length || 1,
+      currentTrack: track,
+      heldForReview,
+      isPlaying: isListening,
+      nextHeartbeatMs: this.nextHeartbeatMs(discordId),
+    };
+  }
+
+  private nextHeartbeatMs(discordId: string): number {
+    return SpotifyRequestScheduler.getInstance().getPollDelayMs(
+      SpotifyRateLimitService.getUserKey(discordId, 'currently-playing'),
+      LISTENING_PARTY_CONSTANTS.HEARTBEAT_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Stop tracking listening session
+   */
+  async stopTracking(partyId: string, discordId: string): Promise<void> {
+    try {
+      await prisma.listeningPartyParticipant.updateMany({
+        where: {
+          party_id: partyId,
+          discord_id: discordId,
+        },
+        data: {
+          is_listening: false,
+        },
+      });
+    } catch (error) {
+      console.error('Error stopping Spotify tracking:', error);
+    }
+  }
+}
+
+export default new SpotifyVerificationService();
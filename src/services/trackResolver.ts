@@ -0,0 +1,239 @@
+/**
+ * Track Resolver Service
+ * Single place to turn a Spotify link, Audius link or ISRC into a normalized
+ * PlatformTrack (canonical permalink, duration, artwork, ISRC), and to find the
+ * same recording on the other platform.
+ */
+
+import axios from 'axios';
+import config from '../config/environment';
+import { PlatformTrack, SpotifyTrack } from '../types/spotify';
+import { TrackReference, parseTrackReference } from '../lib/trackUrls';
+import SpotifyApiService from './spotify/SpotifyApiService';
+import SpotifyAuthService from './spotify/SpotifyAuthService';
+import cacheService, { CacheKeys, CacheTTL } from './cache';
+
+export type TrackPlatform = 'SPOTIFY' | 'AUDIUS';
+
+export interface ResolvedTrack {
+  track: PlatformTrack;
+  match: PlatformTrack | null; // same recording on the other platform, when requested and found
+}
+
+export class TrackResolutionError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'TrackResolutionError';
+    this.statusCode = statusCode;
+  }
+}
+
+interface AudiusTrackData {
+  id: string;
+  title: string;
+  permalink: string;
+  duration: number;
+  isrc?: string | null;
+  artwork?: Record<string, string> | null;
+  user: { name: string; handle: string };
+}
+
+/** Durations within this many seconds are treated as the same recording */
+const MATCH_DURATION_TOLERANCE_SECONDS = 5;
+
+class TrackResolverService {
+  private readonly AUDIUS_API_BASE = 'https://api.audius.co/v1';
+  private spotifyApi: SpotifyApiService;
+
+  constructor() {
+    this.spotifyApi = new SpotifyApiService(
+      new SpotifyAuthService({
+        clientId: config.spotify.clientId,
+        clientSecret: config.spotify.clientSecret,
+        redirectUri: config.spotify.redirectUri,
+      }),
+      { clientId: config.spotify.clientId, clientSecret: config.spotify.clientSecret }
+    );
+  }
+
+  /**
+   * Resolve a link, URI or ISRC. `platform` picks which platform an ISRC or
+   * bare ID is looked up on (Spotify first for ISRCs when omitted).
+   */
+  async resolve(input: string, options: { platform?: TrackPlatform; matchOtherPlatform?: boolean } = {}): Promise<ResolvedTrack> {
+    const reference = await this.parse(input, options.platform);
+    if (!reference) {
+      throw new TrackResolutionError('Enter a Spotify or Audius track link, or an ISRC');
+    }
+
+    const track = await this.lookup(reference, options.platform);
+    if (!track) {
+      throw new TrackResolutionError('Track not found', 404);
+    }
+
+    const match = options.matchOtherPlatform ? await this.findMatch(track) : null;
+    return { track, match };
+  }
+
+  /**
+   * Resolve a track already known by platform and ID (e.g. when a party is created)
+   */
+  async resolveById(platform: TrackPlatform, trackId: string): Promise<PlatformTrack | null> {
+    return this.lookup(platform === 'SPOTIFY' ? { kind: 'SPOTIFY', trackId } : { kind: 'AUDIUS_ID', trackId });
+  }
+
+  /**
+   * The same recording on the other platform: by ISRC first, then by title and
+   * artist with a duration check so covers and remixes don't match
+   */
+  async findMatch(track: PlatformTrack): Promise<PlatformTrack | null> {
+    const target: TrackPlatform = track.platform === 'SPOTIFY' ? 'AUDIUS' : 'SPOTIFY';
+
+    try {
+      if (track.isrc) {
+        const byIsrc = await this.lookup({ kind: 'ISRC', isrc: track.isrc }, target);
+        if (byIsrc) {
+          return byIsrc;
+        }
+      }
+
+      const candidates = target === 'SPOTIFY'
+        ? (await this.spotifyApi.searchTracks(`track:"${track.title}" artist:"${track.artist}"`, 10)).map((t) => this.fromSpotify(t))
+        : await this.searchAudius(`${track.artist} ${track.title}`);
+
+      return candidates.find((candidate) => this.isSameRecording(track, candidate)) ?? null;
+    } catch (error) {
+      console.warn(`Failed to match ${track.platform} track ${track.id} on ${target}:`, error);
+      return null;
+    }
+  }
+
+  private async parse(input: string, platform?: TrackPlatform): Promise<TrackReference | null> {
+    // Short links only tell us where they redirect
+    if (/^https?:\/\/spotify\.link\//.test(input.trim())) {
+      try {
+        const response = await axios.get(input.trim(), { timeout: 5000, maxRedirects: 5 });
+        const finalUrl: string | undefined = response.request?.res?.responseUrl;
+        return finalUrl ? parseTrackReference(finalUrl) : null;
+      } catch {
+        return null;
+      }
+    }
+
+    return parseTrackReference(input, platform);
+  }
+
+  private async lookup(reference: TrackReference, isrcPlatform?: TrackPlatform): Promise<PlatformTrack | null> {
+    const key = reference.kind === 'ISRC'
+      ? `isrc:${isrcPlatform ?? 'ANY'}:${reference.isrc}`
+      : reference.kind === 'AUDIUS_PERMALINK'
+        ? `audius:${reference.url.toLowerCase()}`
+        : `${reference.kind === 'SPOTIFY' ? 'spotify' : 'audius'}:${reference.trackId}`;
+
+    const cached = await cacheService.get<PlatformTrack>(CacheKeys.TRACK_RESOLUTION(key));
+    if (cached) {
+      return cached;
+    }
+
+    const track = await this.fetchTrack(reference, isrcPlatform);
+    if (track) {
+      await cacheService.set(CacheKeys.TRACK_RESOLUTION(key), track, CacheTTL.LONG);
+    }
+    return track;
+  }
+
+  private async fetchTrack(reference: TrackReference, isrcPlatform?: TrackPlatform): Promise<PlatformTrack | null> {
+    try {
+      switch (reference.kind) {
+        case 'SPOTIFY':
+          return this.fromSpotify(await this.spotifyApi.getTrackById(reference.trackId));
+
+        case 'AUDIUS_ID': {
+          const response = await axios.get(`${this.AUDIUS_API_BASE}/tracks/${encodeURIComponent(reference.trackId)}`, {
+            params: { app_name: config.audius.appName },
+            timeout: 5000,
+          });
+          return response.data?.data ? this.fromAudius(response.data.data) : null;
+        }
+
+        case 'AUDIUS_PERMALINK': {
+          const response = await axios.get(`${this.AUDIUS_API_BASE}/resolve`, {
+            params: { url: reference.url, app_name: config.audius.appName },
+            timeout: 5000,
+          });
+          // /resolve also resolves users and playlists; only tracks have a duration
+          const data = response.data?.data;
+          return data && typeof data.duration === 'number' && data.user ? this.fromAudius(data) : null;
+        }
+
+        case 'ISRC': {
+          if (isrcPlatform !== 'AUDIUS') {
+            const [spotifyTrack] = await this.spotifyApi.searchTracks(`isrc:${reference.isrc}`, 1);
+            if (spotifyTrack || isrcPlatform === 'SPOTIFY') {
+              return spotifyTrack ? this.fromSpotify(spotifyTrack) : null;
+            }
+          }
+
+          const response = await axios.get(`${this.AUDIUS_API_BASE}/tracks`, {
+            params: { isrc: reference.isrc, app_name: config.audius.appName },
+            timeout: 5000,
+          });
+          const [audiusTrack] = (response.data?.data ?? []) as AudiusTrackData[];
+          return audiusTrack ? this.fromAudius(audiusTrack) : null;
+        }
+      }
+    } catch (error: any) {
+      if (error?.response?.status === 404 || error?.statusCode === 404 || error?.statusCode === 400) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async searchAudius(query: string): Promise<PlatformTrack[]> {
+    const response = await axios.get(`${this.AUDIUS_API_BASE}/tracks/search`, {
+      params: { query, app_name: config.audius.appName },
+      timeout: 5000,
+    });
+    return ((response.data?.data ?? []) as AudiusTrackData[]).slice(0, 10).map((t) => this.fromAudius(t));
+  }
+
+  private isSameRecording(source: PlatformTrack, candidate: PlatformTrack): boolean {
+    // Drop "(feat. X)", "- Remastered" and punctuation before comparing titles
+    const normalize = (text: string) =>
+      text
+        .toLowerCase()
+        .replace(/\(.*?\)|\[.*?\]/g, '')
+        .replace(/\s-\s.*$/, '')
+        .replace(/[^a-z0-9]/g, '');
+
+    if (normalize(source.title) !== normalize(candidate.title)) {
+      return false;
+    }
+    if (source.duration_ms && candidate.duration_ms) {
+      return Math.abs(source.duration_ms - candidate.duration_ms) <= MATCH_DURATION_TOLERANCE_SECONDS * 1000;
+    }
+    return true;
+  }
+
+  private fromSpotify(track: SpotifyTrack): PlatformTrack {
+    return this.spotifyApi.convertToPlatformTrack(track);
+  }
+
+  private fromAudius(track: AudiusTrackData): PlatformTrack {
+    return {
+      id: track.id,
+      title: track.title,
+      artist: track.user.name,
+      url: `https://audius.co${track.permalink}`,
+      artwork_url: track.artwork?.['480x480'] || track.artwork?.['1000x1000'] || track.artwork?.['150x150'],
+      duration_ms: track.duration * 1000,
+      platform: 'AUDIUS',
+      isrc: track.isrc || undefined,
+    };
+  }
+}
+
+export default new TrackResolverService();
@@ -13,11 +13,17 @@ import {
   SystemProgram,
   LAMPORTS_PER_SOL
 } from '@solana/web3.js';
-// Note: Install @solana/spl-token for full token functionality
-// Run: npm install @solana/spl-token@^0.4.8
-// Then uncomment: import { getAssociatedTokenAddress, createTransferInstruction, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  ACCOUNT_SIZE,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMint,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction
+} from '@solana/spl-token';
 import config from '../config/environment';
-import PrismaDatabase from '../database/prisma';
+import PrismaDatabase, { prisma } from '../database/prisma';
+import { toRawAmount } from '../lib/tokenAmounts';
 import EncryptionService from './encryption';
 import SecurityService, { TransactionSecurityContext } from './security';
 import { Wallet, TokenBalance, WalletBalance } from '../types';
@@ -40,8 +46,18 @@ interface TransferRequest {
   toAddress: string;
   amount: number;
   tokenMint?: string; // If not provided, transfers SOL
+  toDiscordId?: string; // Set when tipping another Discord user
+  source?: 'DISCORD' | 'DASHBOARD';
 }
 
+interface TransferFeeEstimate {
+  networkFeeSol: number;
+  accountRentSol: number; // Rent for creating the recipient's token account, if needed
+  totalFeeSol: number;
+}
+
+const BASE_FEE_LAMPORTS = 5000;
+
 class WalletService {
   private connection: Connection;
   private encryptionService: EncryptionService;
@@ -89,7 +105,7 @@ class WalletService {
       const keypair = Keypair.generate();
       // Store as base58 string (standard format for Solana private keys)
       const privateKeyBase58 = Buffer.from(keypair.secretKey).toString('base64');
-      const encryptedPrivateKey = this.encryptionService.encrypt(privateKeyBase58);
+      const encryptedPrivateKey = this.encryptionService.encrypt(privateKeyBase58, 'wallet');
 
       // Validate encryption result before storing
       if (!encryptedPrivateKey || typeof encryptedPrivateKey !== 'object') {
@@ -204,7 +220,7 @@ class WalletService {
       }
 
       // Handle different formats of encrypted data
-      let encryptedData = wallet.encrypted_private_key;
+      const encryptedData = wallet.encrypted_private_key;
       
       // Debug the encrypted data format
       console.log(`🔐 Debug private key export for ${discordId}:`);
@@ -225,17 +241,7 @@ class WalletService {
         throw new Error('Wallet private key is corrupted. Use the `/regenerate-wallet` command to fix this issue.');
       }
 
-      // Convert to proper format for decryption
-      if (typeof encryptedData === 'string') {
-        try {
-          encryptedData = JSON.parse(encryptedData);
-        } catch (parseError) {
-          console.log('   Failed to parse as JSON, treating as raw encrypted string');
-          // If it's not JSON, it might be an old format - try to use directly
-        }
-      }
-
-      const decryptedKey = this.encryptionService.decrypt(encryptedData as any);
+      const decryptedKey = this.encryptionService.decrypt(EncryptionService.parse(encryptedData), 'wallet');
       
       // Convert back to proper format for wallet import
       // If it's still in the old array format, convert it
@@ -324,7 +330,7 @@ class WalletService {
       
       // Check sender balance
       const senderBalance = await this.connection.getBalance(senderKeypair.publicKey);
-      const requiredLamports = lamports + 5000; // Include transaction fee
+      const requiredLamports = lamports + BASE_FEE_LAMPORTS; // Include transaction fee
       
       if (senderBalance < requiredLamports) {
         throw new Error(`Insufficient balance. Required: ${requiredLamports / LAMPORTS_PER_SOL} SOL, Available: ${senderBalance / LAMPORTS_PER_SOL} SOL`);
@@ -347,6 +353,7 @@ class WalletService {
       );
 
       console.log(`✅ SOL transfer successful: ${amount} SOL from ${senderKeypair.publicKey.toString()} to ${toAddress} | Signature: ${signature}`);
+      await this.recordTransfer(request, senderKeypair.publicKey.toBase58(), signature);
 
       return {
         signature,
@@ -365,22 +372,14 @@ class WalletService {
 
   /**
    * Transfer SPL tokens to another address
+   * Creates the recipient's associated token account if needed (paid by the sender)
    * @param request - Transfer request with token mint
    * @returns Transfer result with signature
-   * Note: Requires @solana/spl-token package installation
    */
   async transferToken(request: TransferRequest): Promise<TransferResult> {
-    return {
-      signature: '',
-      success: false,
-      error: 'Token transfers require @solana/spl-token package. Run: npm install @solana/spl-token@^0.4.8'
-    };
-    
-    /* Uncomment after installing @solana/spl-token:
-    
     try {
       const { fromDiscordId, toAddress, amount, tokenMint } = request;
-      
+
       if (!tokenMint) {
         throw new Error('Token mint address is required for token transfers');
       }
@@ -398,13 +397,74 @@ class WalletService {
         throw new Error(`Security validation failed: ${securityCheck.reason}`);
       }
 
-      // Implementation continues...
-      // (Full implementation available after package installation)
-      
+      // Rate limiting check
+      const rateLimitCheck = await this.securityService.checkRateLimit(fromDiscordId, 'TOKEN_TRANSFER');
+      if (!rateLimitCheck.isValid) {
+        throw new Error(`Rate limit exceeded: ${rateLimitCheck.reason}`);
+      }
+
+      const senderKeypair = await this.getKeypairForSigning(fromDiscordId);
+
+      let recipientPubkey: PublicKey;
+      let mintPubkey: PublicKey;
+      try {
+        recipientPubkey = new PublicKey(toAddress);
+        mintPubkey = new PublicKey(tokenMint);
+      } catch {
+        throw new Error('Invalid recipient or token mint address');
+      }
+
+      const mint = await getMint(this.connection, mintPubkey);
+      const rawAmount = toRawAmount(amount, mint.decimals);
+      if (rawAmount <= BigInt(0)) {
+        throw new Error('Amount is below the token\'s smallest unit');
+      }
+
+      // Check sender token balance
+      const sourceAta = getAssociatedTokenAddressSync(mintPubkey, senderKeypair.publicKey);
+      let sourceBalance = BigInt(0);
+      try {
+        sourceBalance = (await getAccount(this.connection, sourceAta)).amount;
+      } catch {
+        // No token account means no balance
+      }
+
+      if (sourceBalance < rawAmount) {
+        throw new Error(`Insufficient token balance. Required: ${amount}, Available: ${Number(sourceBalance) / 10 ** mint.decimals}`);
+      }
+
+      const destinationAta = getAssociatedTokenAddressSync(mintPubkey, recipientPubkey, true);
+
+      const transaction = new Transaction().add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          senderKeypair.publicKey,
+          destinationAta,
+          recipientPubkey,
+          mintPubkey
+        ),
+        createTransferCheckedInstruction(
+          sourceAta,
+          mintPubkey,
+          destinationAta,
+          senderKeypair.publicKey,
+          rawAmount,
+          mint.decimals
+        )
+      );
+
+      const signature = await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        [senderKeypair],
+        { commitment: 'confirmed' }
+      );
+
+      console.log(`✅ Token transfer successful: ${amount} ${tokenMint} from ${senderKeypair.publicKey.toString()} to ${toAddress} | Signature: ${signature}`);
+      await this.recordTransfer(request, senderKeypair.publicKey.toBase58(), signature);
+
       return {
-        signature: '',
-        success: false,
-        error: 'Install @solana/spl-token to enable token transfers'
+        signature,
+        success: true
       };
 
     } catch (error: any) {
@@ -415,7 +475,64 @@ class WalletService {
         error: error.message
       };
     }
-    */
+  }
+
+  /**
+   * Estimate what a transfer costs the sender on top of the amount sent
+   * @param request - Recipient (omitted for a wallet not created yet) and token mint
+   * @returns Network fee and any token account rent, in SOL
+   */
+  async estimateTransferFee(request: { toAddress?: string; tokenMint?: string }): Promise<TransferFeeEstimate> {
+    let accountRentLamports = 0;
+
+    if (request.tokenMint) {
+      // No address yet means a wallet still to be created, which has no token account
+      const existing = request.toAddress
+        ? await this.connection.getAccountInfo(
+          getAssociatedTokenAddressSync(new PublicKey(request.tokenMint), new PublicKey(request.toAddress), true)
+        )
+        : null;
+      if (!existing) {
+        accountRentLamports = await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+      }
+    }
+
+    return {
+      networkFeeSol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL,
+      accountRentSol: accountRentLamports / LAMPORTS_PER_SOL,
+      totalFeeSol: (BASE_FEE_LAMPORTS + accountRentLamports) / LAMPORTS_PER_SOL
+    };
+  }
+
+  /**
+   * Solana Explorer link for a transaction on the configured cluster
+   */
+  getExplorerTxUrl(signature: string): string {
+    const cluster = config.solana.network === 'mainnet' ? '' : `?cluster=${config.solana.network}`;
+    return `https://explorer.solana.com/tx/${signature}${cluster}`;
+  }
+
+  /**
+   * Keep a record of outgoing transfers for daily limits and history
+   */
+  private async recordTransfer(request: TransferRequest, fromAddress: string, signature: string): Promise<void> {
+    try {
+      await prisma.walletTransfer.create({
+        data: {
+          from_discord_id: request.fromDiscordId,
+          from_address: fromAddress,
+          to_address: request.toAddress,
+          to_discord_id: request.toDiscordId,
+          token_mint: request.tokenMint,
+          amount: request.amount.toString(),
+          tx_signature: signature,
+          source: request.source || 'DASHBOARD'
+        }
+      });
+    } catch (error) {
+      // The transfer already landed on-chain; don't report it as failed
+      console.error(`Failed to record transfer ${signature}:`, error);
+    }
   }
 
   /**
@@ -425,27 +542,52 @@ class WalletService {
    */
   async getKeypairForSigning(discordId: string): Promise<Keypair> {
     try {
-      const privateKeyString = await this.getPrivateKey(discordId);
-      
-      // Handle both old and new formats
-      try {
-        const parsed = JSON.parse(privateKeyString);
-        if (Array.isArray(parsed)) {
-          // Old format: byte array
-          return Keypair.fromSecretKey(new Uint8Array(parsed));
-        }
-      } catch {
-        // New format: base64 string
-        return Keypair.fromSecretKey(Buffer.from(privateKeyString, 'base64'));
+      // Signing a transfer is not an export, so don't go through getPrivateKey
+      const wallet = await PrismaDatabase.getUserWallet(discordId);
+      if (!wallet) {
+        throw new Error('Wallet not found');
       }
-      
-      // Fallback: try as base64
-      return Keypair.fromSecretKey(Buffer.from(privateKeyString, 'base64'));
+
+      const keypair = await this.getKeypairForPublicKey(wallet.public_key);
+      if (!keypair) {
+        throw new Error('Wallet is not a custodial wallet');
+      }
+      return keypair;
     } catch (error: any) {
       throw new Error(`Failed to get keypair for signing: ${error.message}`);
     }
   }
 
+  /**
+   * Get the signing keypair for a custodial wallet by its public key.
+   * Used by background jobs; unlike getPrivateKey this does not mark the wallet as exported.
+   * @param publicKey - Wallet public key
+   * @returns Keypair, or null if the wallet is not custodial
+   */
+  async getKeypairForPublicKey(publicKey: string): Promise<Keypair | null> {
+    const wallet = await PrismaDatabase.getWalletByPublicKey(publicKey);
+    if (!wallet || wallet.privy_wallet_id || !wallet.encrypted_private_key) {
+      return null;
+    }
+
+    const decryptedKey = this.encryptionService.decrypt(EncryptionService.parse(wallet.encrypted_private_key), 'wallet');
+    try {
+      const parsed = JSON.parse(decryptedKey);
+      if (Array.isArray(parsed)) {
+        // Old format: byte array
+        return Keypair.fromSecretKey(new Uint8Array(parsed));
+      }
+    } catch {
+      // New format: base64 string
+    }
+
+    const keypair = Keypair.fromSecretKey(Buffer.from(decryptedKey, 'base64'));
+    if (keypair.publicKey.toBase58() !== publicKey) {
+      throw new Error('Decrypted key does not match wallet public key');
+    }
+    return keypair;
+  }
+
   /**
    * Validate that a transaction is safe to sign
    * @param transaction - Transaction to validate
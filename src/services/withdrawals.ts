@@ -0,0 +1,587 @@
+/**
+ * Withdrawal Service
+ * Validates withdrawal requests from custodial wallets and runs the queue worker
+ * that pays them out: PENDING -> PROCESSING -> COMPLETED, or back to PENDING
+ * with a backoff until the retry limit marks them FAILED. Reward tokens can be
+ * sent as-is or swapped to SOL through Jupiter first.
+ */
+
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { Token, User, Withdrawal } from '@prisma/client';
+import bs58 from 'bs58';
+import config from '../config/environment';
+import PrismaDatabase, { prisma } from '../database/prisma';
+import { toRawAmount } from '../lib/tokenAmounts';
+import jupiterApi, { SOL_MINT } from './jupiterApi';
+import SecurityService from './security';
+import WalletService from './wallet';
+import DMService from './dmService';
+
+type WithdrawalWithUser = Withdrawal & { user: User };
+
+export interface WithdrawalInput {
+  toAddress: string;
+  amount: number; // SOL, or token units when tokenMint is set
+  tokenMint?: string;
+  swapToSol?: boolean;
+}
+
+export interface WithdrawalQuote {
+  route: 'SOL' | 'TOKENS';
+  amount: number;
+  symbol: string;
+  tokenMint: string | null;
+  swapToSol: boolean;
+  valueSol: number; // SOL-equivalent value checked against the minimum
+  feeSol: number;
+  payoutSol: number | null; // SOL that lands at the destination (SOL route only)
+}
+
+export type WithdrawalEligibility =
+  | { eligible: true; quote: WithdrawalQuote }
+  | { eligible: false; reason: string; quote?: WithdrawalQuote };
+
+const BASE_FEE_LAMPORTS = 5000;
+
+/** SOL kept back for swap fees and the temporary wrapped-SOL account */
+const SWAP_SOL_BUFFER_LAMPORTS = 3_000_000;
+
+/** SOL needed on top of the fee to send tokens (network fee + recipient token account rent) */
+const TOKEN_SEND_SOL_BUFFER_LAMPORTS = 2_500_000;
+
+/** A PROCESSING row untouched this long belongs to a worker that died mid-payout */
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+/** Shortest retry backoff; longer than a blockhash lives, so an unseen signature can't land later */
+const MIN_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+const QUEUE_BATCH_SIZE = 10;
+
+class WithdrawalService {
+  private connection: Connection;
+  private walletService: WalletService;
+  private securityService: SecurityService;
+  private dmService: DMService | null = null;
+  private workerInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor() {
+    this.connection = new Connection(config.solana.rpcUrl, 'confirmed');
+    this.walletService = new WalletService();
+    this.securityService = new SecurityService();
+  }
+
+  setDMService(dmService: DMService): void {
+    this.dmService = dmService;
+  }
+
+  // ===== REQUESTS =====
+
+  /**
+   * Check a withdrawal against the wallet, balances and config limits and price it
+   */
+  async checkEligibility(discordId: string, input: WithdrawalInput): Promise<WithdrawalEligibility> {
+    const wallet = await PrismaDatabase.getUserWallet(discordId);
+    if (!wallet || wallet.privy_wallet_id || !wallet.encrypted_private_key) {
+      return { eligible: false, reason: 'Withdrawals are only available from bot-managed wallets.' };
+    }
+
+    if (input.toAddress === wallet.public_key) {
+      return { eligible: false, reason: 'Choose a destination other than your bot wallet.' };
+    }
+
+    if (input.swapToSol && !input.tokenMint) {
+      return { eligible: false, reason: 'Pick the reward token to swap to SOL.' };
+    }
+
+    const limitReason = await this.checkRequestLimits(wallet.user_id);
+    if (limitReason) {
+      return { eligible: false, reason: limitReason };
+    }
+
+    const securityCheck = await this.securityService.validateWalletOperation({
+      userDiscordId: discordId,
+      recipientAddress: input.toAddress,
+      amount: input.amount,
+      tokenMint: input.tokenMint,
+    });
+    if (!securityCheck.isValid) {
+      return { eligible: false, reason: securityCheck.reason || 'Withdrawal blocked by security checks.' };
+    }
+
+    const owner = new PublicKey(wallet.public_key);
+    const solBalance = await this.connection.getBalance(owner);
+    const feeSol = this.getFeeSol();
+    const feeLamports = Math.round(feeSol * LAMPORTS_PER_SOL);
+
+    let token: Token | null = null;
+    if (input.tokenMint) {
+      token = await PrismaDatabase.getTokenByMint(input.tokenMint);
+      if (!token || !token.enabled) {
+        return { eligible: false, reason: 'Only enabled reward tokens can be withdrawn.' };
+      }
+    }
+
+    const quote: WithdrawalQuote = {
+      route: token && !input.swapToSol ? 'TOKENS' : 'SOL',
+      amount: input.amount,
+      symbol: token?.symbol ?? 'SOL',
+      tokenMint: token?.mint ?? null,
+      swapToSol: Boolean(token && input.swapToSol),
+      valueSol: 0,
+      feeSol,
+      payoutSol: null,
+    };
+
+    if (!token) {
+      const lamports = Math.round(input.amount * LAMPORTS_PER_SOL);
+      if (solBalance < lamports + BASE_FEE_LAMPORTS) {
+        return { eligible: false, reason: `Insufficient SOL balance (${solBalance / LAMPORTS_PER_SOL} SOL available).`, quote };
+      }
+      quote.valueSol = input.amount;
+      quote.payoutSol = (lamports - feeLamports) / LAMPORTS_PER_SOL;
+    } else {
+      const rawAmount = toRawAmount(input.amount, token.decimals);
+      const tokenBalance = await this.getTokenBalance(owner, new PublicKey(token.mint));
+      if (tokenBalance < rawAmount) {
+        return {
+          eligible: false,
+          reason: `Insufficient ${token.symbol} balance (${Number(tokenBalance) / 10 ** token.decimals} available).`,
+          quote,
+        };
+      }
+
+      if (quote.swapToSol) {
+        const swapQuote = await jupiterApi.getSwapQuote(token.mint, SOL_MINT, rawAmount, config.withdrawal.swapSlippageBps);
+        if (!swapQuote) {
+          return { eligible: false, reason: `No swap route from ${token.symbol} to SOL right now.`, quote };
+        }
+        if (solBalance < SWAP_SOL_BUFFER_LAMPORTS) {
+          return { eligible: false, reason: `Keep at least ${SWAP_SOL_BUFFER_LAMPORTS / LAMPORTS_PER_SOL} SOL in your wallet to pay for the swap.`, quote };
+        }
+        // Worst case after slippage, so the payout never exceeds what the swap returns
+        const minOutLamports = Number(swapQuote.otherAmountThreshold);
+        quote.valueSol = minOutLamports / LAMPORTS_PER_SOL;
+        quote.payoutSol = (minOutLamports - feeLamports) / LAMPORTS_PER_SOL;
+      } else {
+        if (solBalance < feeLamports + TOKEN_SEND_SOL_BUFFER_LAMPORTS) {
+          return {
+            eligible: false,
+            reason: `You need ${(feeLamports + TOKEN_SEND_SOL_BUFFER_LAMPORTS) / LAMPORTS_PER_SOL} SOL for fees to withdraw tokens.`,
+            quote,
+          };
+        }
+        const value = await jupiterApi.checkWithdrawalEligibility([{ mint: token.mint, amount: input.amount }]);
+        quote.valueSol = value.totalValueSOL;
+      }
+    }
+
+    if (quote.payoutSol !== null && quote.payoutSol <= 0) {
+      return { eligible: false, reason: `Amount does not cover the ${feeSol} SOL withdrawal fee.`, quote };
+    }
+
+    if (quote.valueSol < config.withdrawal.minSol) {
+      return {
+        eligible: false,
+        reason: `Minimum withdrawal is ${config.withdrawal.minSol} SOL in value (this is about ${quote.valueSol.toFixed(4)} SOL).`,
+        quote,
+      };
+    }
+
+    return { eligible: true, quote };
+  }
+
+  /**
+   * Queue a withdrawal after re-running the eligibility checks
+   */
+  async createWithdrawal(discordId: string, input: WithdrawalInput): Promise<{ withdrawal?: Withdrawal; error?: string; quote?: WithdrawalQuote }> {
+    const eligibility = await this.checkEligibility(discordId, input);
+    if (!eligibility.eligible) {
+      return { error: eligibility.reason, quote: eligibility.quote };
+    }
+
+    const { quote } = eligibility;
+    const user = await prisma.user.findUnique({ where: { discord_id: discordId } });
+    if (!user) {
+      return { error: 'User not found' };
+    }
+
+    const withdrawal = await prisma.withdrawal.create({
+      data: {
+        user_id: user.id,
+        to_address: input.toAddress,
+        requested_amount_sol: quote.valueSol.toString(),
+        route: quote.route,
+        fee: quote.feeSol.toString(),
+        token_mint: quote.tokenMint,
+        token_amount: quote.tokenMint ? input.amount.toString() : null,
+        swap_to_sol: quote.swapToSol,
+      },
+    });
+
+    console.log(`🏧 Queued withdrawal ${withdrawal.id} for ${discordId}: ${input.amount} ${quote.symbol}${quote.swapToSol ? ' -> SOL' : ''}`);
+    return { withdrawal, quote };
+  }
+
+  async listWithdrawals(discordId: string, limit: number = 20): Promise<Withdrawal[]> {
+    return prisma.withdrawal.findMany({
+      where: { user: { discord_id: discordId } },
+      orderBy: { created_at: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Cancel a withdrawal that has not sent anything on-chain yet
+   */
+  async cancelWithdrawal(discordId: string, withdrawalId: string): Promise<boolean> {
+    const { count } = await prisma.withdrawal.updateMany({
+      where: {
+        id: withdrawalId,
+        user: { discord_id: discordId },
+        status: 'PENDING',
+        tx_signature: null,
+        swap_tx_signature: null,
+      },
+      data: { status: 'CANCELLED' },
+    });
+    return count > 0;
+  }
+
+  private async checkRequestLimits(userId: string): Promise<string | null> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [inFlight, recent] = await Promise.all([
+      prisma.withdrawal.count({ where: { user_id: userId, status: { in: ['PENDING', 'PROCESSING'] } } }),
+      prisma.withdrawal.count({ where: { user_id: userId, created_at: { gte: since }, status: { not: 'CANCELLED' } } }),
+    ]);
+
+    if (inFlight > 0) {
+      return 'You already have a withdrawal in progress.';
+    }
+    if (recent >= config.withdrawal.maxDailyWithdrawals) {
+      return `Daily limit of ${config.withdrawal.maxDailyWithdrawals} withdrawals reached. Try again tomorrow.`;
+    }
+    return null;
+  }
+
+  // ===== WORKER =====
+
+  start(): void {
+    if (this.workerInterval) {
+      return;
+    }
+
+    this.workerInterval = setInterval(() => {
+      this.processQueue().catch((error) => {
+        console.error('Withdrawal queue run failed:', error);
+      });
+    }, config.withdrawal.intervalSeconds * 1000);
+
+    console.log(`🏧 Withdrawal worker started (every ${config.withdrawal.intervalSeconds}s)`);
+  }
+
+  stop(): void {
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = null;
+    }
+  }
+
+  /**
+   * Pick up due withdrawals (and any orphaned by a crashed worker) and pay them out
+   */
+  async processQueue(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+      const due = await prisma.withdrawal.findMany({
+        where: {
+          OR: [
+            { status: 'PENDING', OR: [{ next_attempt_at: null }, { next_attempt_at: { lte: now } }] },
+            { status: 'PROCESSING', updated_at: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+          ],
+        },
+        include: { user: true },
+        orderBy: { created_at: 'asc' },
+        take: QUEUE_BATCH_SIZE,
+      });
+
+      let processed = 0;
+      for (const withdrawal of due) {
+        // Claim the row so a second worker can't pay it out too
+        const { count } = await prisma.withdrawal.updateMany({
+          where: { id: withdrawal.id, status: withdrawal.status, updated_at: withdrawal.updated_at },
+          data: { status: 'PROCESSING' },
+        });
+        if (count === 0) {
+          continue;
+        }
+
+        await this.processWithdrawal(withdrawal);
+        processed++;
+      }
+
+      return processed;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processWithdrawal(withdrawal: WithdrawalWithUser): Promise<void> {
+    try {
+      const keypair = await this.walletService.getKeypairForSigning(withdrawal.user.discord_id);
+
+      // A previous attempt may have landed after we lost track of it
+      if (withdrawal.tx_signature) {
+        const outcome = await this.getSignatureOutcome(withdrawal.tx_signature);
+        if (outcome === 'confirmed') {
+          await this.completeWithdrawal(withdrawal, withdrawal.tx_signature);
+          return;
+        }
+      }
+
+      let payoutLamports = withdrawal.payout_lamports;
+      if (withdrawal.swap_to_sol) {
+        payoutLamports = await this.swapToSol(withdrawal, keypair);
+      }
+
+      const transaction = withdrawal.route === 'TOKENS'
+        ? await this.buildTokenPayout(withdrawal, keypair.publicKey)
+        : this.buildSolPayout(withdrawal, keypair.publicKey, payoutLamports);
+
+      const signature = await this.signAndSend(transaction, keypair, async (sig) => {
+        await prisma.withdrawal.update({
+          where: { id: withdrawal.id },
+          data: { tx_signature: sig, payout_lamports: payoutLamports },
+        });
+      });
+
+      await this.completeWithdrawal(withdrawal, signature);
+    } catch (error: any) {
+      await this.failAttempt(withdrawal, error);
+    }
+  }
+
+  /**
+   * Swap the reward tokens to SOL, unless an earlier attempt already did
+   * @returns Lamports to pay out (guaranteed swap output minus the fee)
+   */
+  private async swapToSol(withdrawal: WithdrawalWithUser, keypair: Keypair): Promise<bigint> {
+    const feeLamports = BigInt(Math.round(Number(withdrawal.fee || 0) * LAMPORTS_PER_SOL));
+
+    if (withdrawal.swap_tx_signature && withdrawal.payout_lamports !== null) {
+      const outcome = await this.getSignatureOutcome(withdrawal.swap_tx_signature);
+      if (outcome === 'confirmed') {
+        return withdrawal.payout_lamports;
+      }
+    }
+
+    const token = await PrismaDatabase.getTokenByMint(withdrawal.token_mint!);
+    if (!token) {
+      throw new Error(`Token ${withdrawal.token_mint} is no longer configured`);
+    }
+
+    const rawAmount = toRawAmount(withdrawal.token_amount!, token.decimals);
+    const quote = await jupiterApi.getSwapQuote(token.mint, SOL_MINT, rawAmount, config.withdrawal.swapSlippageBps);
+    if (!quote) {
+      throw new Error(`No swap route from ${token.symbol} to SOL`);
+    }
+
+    const payoutLamports = BigInt(quote.otherAmountThreshold) - feeLamports;
+    if (payoutLamports <= BigInt(0)) {
+      throw new Error('Swap output no longer covers the withdrawal fee');
+    }
+
+    const swapTransaction = VersionedTransaction.deserialize(
+      Buffer.from(await jupiterApi.getSwapTransaction(quote, keypair.publicKey.toBase58()), 'base64')
+    );
+    swapTransaction.sign([keypair]);
+    const signature = bs58.encode(swapTransaction.signatures[0]);
+
+    await prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: { swap_tx_signature: signature, payout_lamports: payoutLamports },
+    });
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    await this.connection.sendRawTransaction(swapTransaction.serialize(), { maxRetries: 3 });
+    const confirmation = await this.connection.confirmTransaction(
+      { signature, blockhash: swapTransaction.message.recentBlockhash || blockhash, lastValidBlockHeight },
+      'confirmed'
+    );
+    if (confirmation.value.err) {
+      throw new Error(`Swap transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    console.log(`🔁 Swapped ${withdrawal.token_amount} ${token.symbol} to SOL for withdrawal ${withdrawal.id}: ${signature}`);
+    return payoutLamports;
+  }
+
+  private buildSolPayout(withdrawal: Withdrawal, owner: PublicKey, payoutLamports: bigint | null): Transaction {
+    const feeLamports = this.getFeeLamports(withdrawal);
+    const lamports = payoutLamports ?? BigInt(Math.round(Number(withdrawal.requested_amount_sol) * LAMPORTS_PER_SOL)) - feeLamports;
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: new PublicKey(withdrawal.to_address), lamports })
+    );
+    this.addFeeTransfer(transaction, owner, feeLamports);
+    return transaction;
+  }
+
+  private async buildTokenPayout(withdrawal: Withdrawal, owner: PublicKey): Promise<Transaction> {
+    const token = await PrismaDatabase.getTokenByMint(withdrawal.token_mint!);
+    if (!token) {
+      throw new Error(`Token ${withdrawal.token_mint} is no longer configured`);
+    }
+
+    const mint = new PublicKey(token.mint);
+    const recipient = new PublicKey(withdrawal.to_address);
+    const sourceAta = getAssociatedTokenAddressSync(mint, owner);
+    const destinationAta = getAssociatedTokenAddressSync(mint, recipient, true);
+
+    const transaction = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(owner, destinationAta, recipient, mint),
+      createTransferCheckedInstruction(
+        sourceAta,
+        mint,
+        destinationAta,
+        owner,
+        toRawAmount(withdrawal.token_amount!, token.decimals),
+        token.decimals
+      )
+    );
+    this.addFeeTransfer(transaction, owner, this.getFeeLamports(withdrawal));
+    return transaction;
+  }
+
+  /**
+   * Sign, record the signature, then send. Recording first means a crash between
+   * sending and confirming can't lead to paying the same withdrawal twice.
+   */
+  private async signAndSend(
+    transaction: Transaction,
+    signer: Keypair,
+    recordSignature: (signature: string) => Promise<void>
+  ): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = signer.publicKey;
+    transaction.sign(signer);
+
+    const signature = bs58.encode(transaction.signature!);
+    await recordSignature(signature);
+
+    await this.connection.sendRawTransaction(transaction.serialize(), { maxRetries: 3 });
+    const confirmation = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    return signature;
+  }
+
+  private async getSignatureOutcome(signature: string): Promise<'confirmed' | 'failed' | 'unknown'> {
+    const { value } = await this.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) {
+      return 'unknown';
+    }
+    if (value.err) {
+      return 'failed';
+    }
+    return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized' ? 'confirmed' : 'unknown';
+  }
+
+  private async completeWithdrawal(withdrawal: WithdrawalWithUser, signature: string): Promise<void> {
+    await prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: {
+        status: 'COMPLETED',
+        tx_signature: signature,
+        last_error: null,
+        next_attempt_at: null,
+        completed_at: new Date(),
+      },
+    });
+
+    console.log(`✅ Withdrawal ${withdrawal.id} completed: ${signature}`);
+
+    await this.dmService?.sendNotification(
+      withdrawal.user.discord_id,
+      '🏧 Withdrawal Complete',
+      `Your withdrawal to \`${withdrawal.to_address}\` has been sent.\n\n[View on Solana Explorer](${this.walletService.getExplorerTxUrl(signature)})`,
+      0x10B981
+    );
+  }
+
+  private async failAttempt(withdrawal: WithdrawalWithUser, error: any): Promise<void> {
+    const attempts = withdrawal.attempts + 1;
+    const outOfRetries = attempts >= config.withdrawal.maxRetries;
+    const delayMs = Math.max(MIN_RETRY_DELAY_MS, 2 ** attempts * 60 * 1000);
+
+    console.error(`❌ Withdrawal attempt ${attempts}/${config.withdrawal.maxRetries} failed for ${withdrawal.id}:`, error);
+
+    await prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: {
+        status: outOfRetries ? 'FAILED' : 'PENDING',
+        attempts,
+        last_error: error?.message || 'Unknown error',
+        next_attempt_at: outOfRetries ? null : new Date(Date.now() + delayMs),
+      },
+    });
+
+    if (outOfRetries) {
+      await this.dmService?.sendNotification(
+        withdrawal.user.discord_id,
+        '⚠️ Withdrawal Failed',
+        `We couldn't complete your withdrawal to \`${withdrawal.to_address}\` after ${attempts} attempts.\n\nYour funds are still in your wallet. Reason: ${error?.message || 'Unknown error'}`,
+        0xEF4444
+      );
+    }
+  }
+
+  private addFeeTransfer(transaction: Transaction, owner: PublicKey, feeLamports: bigint): void {
+    if (feeLamports > BigInt(0) && config.withdrawal.feeWallet) {
+      transaction.add(
+        SystemProgram.transfer({ fromPubkey: owner, toPubkey: new PublicKey(config.withdrawal.feeWallet), lamports: feeLamports })
+      );
+    }
+  }
+
+  private getFeeSol(): number {
+    return config.withdrawal.feeWallet ? config.withdrawal.feeSol : 0;
+  }
+
+  private getFeeLamports(withdrawal: Withdrawal): bigint {
+    return BigInt(Math.round(Number(withdrawal.fee || 0) * LAMPORTS_PER_SOL));
+  }
+
+  private async getTokenBalance(owner: PublicKey, mint: PublicKey): Promise<bigint> {
+    try {
+      const account = await getAccount(this.connection, getAssociatedTokenAddressSync(mint, owner));
+      return account.amount;
+    } catch {
+      return BigInt(0);
+    }
+  }
+}
+
+export default WithdrawalService;
@@ -8,6 +8,8 @@ declare global {
     interface Request {
       user?: DatabaseUser;
       discordUser?: DiscordUser;
+      rawBody?: Buffer;
+      isServiceRequest?: boolean;
     }
   }
 }
@@ -1,6 +1,6 @@
 // Main type definitions for the Spotify Discord Bot
 
-import { ChatInputCommandInteraction, SlashCommandBuilder, ButtonInteraction, User as DiscordUser } from 'discord.js';
+import { ChatInputCommandInteraction, AutocompleteInteraction, SlashCommandBuilder, ButtonInteraction, User as DiscordUser } from 'discord.js';
 
 // Platform types
 export type Platform = 'SPOTIFY' | 'AUDIUS';
@@ -9,6 +9,7 @@ export type Platform = 'SPOTIFY' | 'AUDIUS';
 export interface Command {
   data: SlashCommandBuilder | any; // Allow different SlashCommand builder types
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+  autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>; // For options with setAutocomplete(true)
 }
 
 // User types
@@ -155,8 +156,8 @@ export interface HeliusWebhookEvent {
   events: any;
   fee: number;
   feePayer: string;
-  instructions: any[];
-  nativeTransfers: any[];
+  instructions: HeliusInstruction[];
+  nativeTransfers: HeliusNativeTransfer[];
   signature: string;
   slot: number;
   timestamp: number;
@@ -165,6 +166,13 @@ export interface HeliusWebhookEvent {
   type: string;
 }
 
+export interface HeliusInstruction {
+  programId: string;
+  accounts: string[];
+  data: string; // base58
+  innerInstructions?: HeliusInstruction[];
+}
+
 export interface HeliusTokenTransfer {
   fromTokenAccount: string;
   toTokenAccount: string;
@@ -175,6 +183,12 @@ export interface HeliusTokenTransfer {
   tokenStandard: string;
 }
 
+export interface HeliusNativeTransfer {
+  fromUserAccount: string;
+  toUserAccount: string;
+  amount: number; // lamports
+}
+
 // Environment configuration
 export interface EnvironmentConfig {
   // Discord
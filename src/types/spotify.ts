@@ -200,16 +200,17 @@ export interface SpotifySearchResults {
 }
 
 // Platform type (Spotify only)
-export type Platform = 'SPOTIFY';
+export type Platform = 'SPOTIFY' | 'AUDIUS';
 
 export interface PlatformTrack {
   id: string;
   title: string;
   artist: string;
-  url: string;
+  url: string; // canonical permalink
   artwork_url?: string;
   duration_ms?: number;
   platform: Platform;
+  isrc?: string;
   // Spotify specific
   spotify_uri?: string;
   preview_url?: string;
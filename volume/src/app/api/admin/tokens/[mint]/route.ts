@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ mint: string }> }) {
+  try {
+    const session = req.cookies.get('session')?.value;
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { mint } = await params;
+    const body = await req.json();
+    const apiBase = process.env.NEXT_PUBLIC_API_BASE!;
+    const res = await fetch(`${apiBase}/api/admin/tokens/${encodeURIComponent(mint)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json({ error: 'Failed to update token' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ mint: string }> }) {
+  try {
+    const session = req.cookies.get('session')?.value;
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { mint } = await params;
+    const apiBase = process.env.NEXT_PUBLIC_API_BASE!;
+    const res = await fetch(`${apiBase}/api/admin/tokens/${encodeURIComponent(mint)}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${session}` }
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json({ error: 'Failed to delete token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = req.cookies.get('session')?.value;
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const apiBase = process.env.NEXT_PUBLIC_API_BASE!;
+    const res = await fetch(`${apiBase}/api/admin/tokens`, {
+      headers: { Authorization: `Bearer ${session}` },
+      cache: 'no-store'
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json({ error: 'Failed to load tokens' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = req.cookies.get('session')?.value;
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const body = await req.json();
+    const apiBase = process.env.NEXT_PUBLIC_API_BASE!;
+    const res = await fetch(`${apiBase}/api/admin/tokens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json({ error: 'Failed to add token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ discordId: string }> }) {
+  try {
+    const session = req.cookies.get('session')?.value;
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { discordId } = await params;
+    const body = await req.json();
+    const apiBase = process.env.NEXT_PUBLIC_API_BASE!;
+    const res = await fetch(`${apiBase}/api/admin/users/${encodeURIComponent(discordId)}/role`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json({ error: 'Failed to change role' }, { status: 500 });
+  }
+}
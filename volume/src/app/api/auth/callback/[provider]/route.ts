@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SignJWT } from 'jose';
+import { DiscordAuth } from '@/lib/discord-auth';
+import { SpotifyAuth } from '@/lib/spotify-auth';
+import { AudiusAuth } from '@/lib/audius-auth';
+import { prisma } from '@/lib/prisma';
+import {
+  OAuthProvider,
+  OAuthStateError,
+  clearOAuthStateCookie,
+  consumeOAuthState,
+  isBotOAuthState,
+} from '@/lib/oauth-state';
+
+// Where each provider's login lands, success or failure
+const RETURN_PATHS: Record<OAuthProvider, { success: string; failure: string }> = {
+  DISCORD: { success: '/dashboard', failure: '/login' },
+  SPOTIFY: { success: '/dashboard/spotify', failure: '/dashboard/spotify' },
+  AUDIUS: { success: '/dashboard/audius', failure: '/dashboard/audius' },
+};
+
+const appUrl = (request: NextRequest) => process.env.APP_URL || request.nextUrl.origin;
+
+function failureRedirect(request: NextRequest, provider: OAuthProvider, error: string): NextResponse {
+  const url = new URL(RETURN_PATHS[provider].failure, appUrl(request));
+  url.searchParams.set('error', error);
+  const response = NextResponse.redirect(url);
+  clearOAuthStateCookie(response, provider);
+  return response;
+}
+
+/**
+ * GET /api/auth/callback/:provider
+ * Single OAuth callback for dashboard logins (discord, spotify, audius). The
+ * state must have been issued to this browser, unexpired and unused.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const provider = (await params).provider.toUpperCase() as OAuthProvider;
+  if (!(provider in RETURN_PATHS)) {
+    return NextResponse.json({ error: 'Unknown OAuth provider' }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const state = searchParams.get('state');
+
+  // Spotify links from the bot's /login command share this redirect URI
+  if (provider === 'SPOTIFY' && state && (await isBotOAuthState(state))) {
+    return forwardBotSpotifyCallback(request, searchParams);
+  }
+
+  const providerError = searchParams.get('error');
+  if (providerError) {
+    console.error(`${provider} OAuth error:`, providerError);
+    return failureRedirect(request, provider, 'access_denied');
+  }
+
+  try {
+    const oauthState = await consumeOAuthState(request, provider, state);
+
+    let response: NextResponse;
+    switch (provider) {
+      case 'DISCORD':
+        response = await completeDiscordLogin(request, searchParams.get('code'), oauthState.returnTo);
+        break;
+      case 'SPOTIFY':
+        response = await completeSpotifyLogin(request, searchParams.get('code'), oauthState.codeVerifier);
+        break;
+      case 'AUDIUS':
+        response = await completeAudiusLogin(request, searchParams.get('token'), oauthState.discordId);
+        break;
+    }
+
+    clearOAuthStateCookie(response, provider);
+    return response;
+  } catch (error) {
+    if (error instanceof OAuthStateError) {
+      console.warn(`⚠️ ${provider} OAuth callback rejected: ${error.reason}`);
+      return failureRedirect(request, provider, error.reason);
+    }
+    console.error(`${provider} OAuth callback error:`, error);
+    return failureRedirect(request, provider, provider === 'DISCORD' ? 'callback_error' : 'token_exchange_failed');
+  }
+}
+
+async function completeDiscordLogin(request: NextRequest, code: string | null, returnTo: string | null) {
+  if (!code) {
+    return failureRedirect(request, 'DISCORD', 'missing_params');
+  }
+
+  const tokens = await DiscordAuth.exchangeCodeForTokens(code);
+  const tokenExpiresAt = new Date(Date.now() + tokens.expires_in * 1000);
+  const discordUser = await DiscordAuth.getDiscordUser(tokens.access_token);
+
+  const profile = {
+    name: discordUser.username,
+    email: discordUser.email,
+    emailVerified: discordUser.verified,
+    image: DiscordAuth.getAvatarUrl(discordUser),
+    discord_username: discordUser.username,
+    discord_access_token: tokens.access_token,
+    discord_refresh_token: tokens.refresh_token,
+    discord_token_expires_at: tokenExpiresAt,
+    // Logging in again fixes a Discord link the bot flagged as needing a reconnect
+    discord_reconnect_reason: null,
+    discord_reconnect_since: null,
+    discord_reconnect_notified_at: null,
+  };
+  const user = await prisma.user.upsert({
+    where: { discord_id: discordUser.id },
+    create: {
+      discord_id: discordUser.id,
+      tokens_balance: 0,
+      total_parties_participated: 0,
+      total_rewards_claimed: 0,
+      ...profile,
+    },
+    update: profile,
+  });
+
+  // Create session JWT
+  const secret = new TextEncoder().encode(process.env.JWT_SECRET!);
+  const token = await new SignJWT({
+    userId: user.id,
+    discordId: user.discord_id,
+    email: user.email,
+    name: user.name,
+    image: user.image,
+    discordAccessToken: tokens.access_token,
+    discordRefreshToken: tokens.refresh_token,
+    discordTokenExpiresAt: tokenExpiresAt.toISOString(),
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime('7d')
+    .sign(secret);
+
+  console.log(`✅ Discord authentication successful for user ${discordUser.username} (${discordUser.id})`);
+
+  const response = NextResponse.redirect(new URL(returnTo || RETURN_PATHS.DISCORD.success, appUrl(request)));
+  response.cookies.set('session', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 7, // 7 days
+    path: '/',
+  });
+  return response;
+}
+
+async function completeSpotifyLogin(request: NextRequest, code: string | null, codeVerifier: string | null) {
+  if (!code || !codeVerifier) {
+    return failureRedirect(request, 'SPOTIFY', 'invalid_request');
+  }
+
+  const tokenData = await SpotifyAuth.exchangeCodeForToken(code, codeVerifier);
+  const userProfile = await SpotifyAuth.getUserProfile(tokenData.access_token);
+  console.log(`✅ Spotify authentication successful for ${userProfile.display_name}`);
+
+  // Following Spotify documentation - tokens are handed to the client, which keeps them in localStorage
+  const redirectUrl = new URL(RETURN_PATHS.SPOTIFY.success, appUrl(request));
+  redirectUrl.searchParams.set('access_token', tokenData.access_token);
+  if (tokenData.refresh_token) {
+    redirectUrl.searchParams.set('refresh_token', tokenData.refresh_token);
+  }
+  redirectUrl.searchParams.set('expires_in', tokenData.expires_in.toString());
+  redirectUrl.searchParams.set('user_profile', encodeURIComponent(JSON.stringify(userProfile)));
+  redirectUrl.searchParams.set('token_success', 'true');
+  return NextResponse.redirect(redirectUrl);
+}
+
+async function completeAudiusLogin(request: NextRequest, token: string | null, discordId: string | null) {
+  if (!token) {
+    return failureRedirect(request, 'AUDIUS', 'invalid_request');
+  }
+
+  const profile = await AudiusAuth.verifyToken(token);
+  console.log(`✅ Audius authentication successful for @${profile.handle}`);
+
+  if (discordId) {
+    await prisma.user.update({
+      where: { discord_id: discordId },
+      data: {
+        audius_user_id: String(profile.userId),
+        audius_handle: profile.handle,
+        audius_name: profile.name,
+        audius_email: profile.email,
+        audius_profile_picture: AudiusAuth.getProfilePictureUrl(profile),
+        audius_verified: profile.verified,
+      },
+    });
+  }
+
+  // The page reads the linked account from /api/users/me; the profile (email, API key) stays server-side
+  return NextResponse.redirect(new URL(RETURN_PATHS.AUDIUS.success, appUrl(request)));
+}
+
+/**
+ * Hand a bot /login Spotify callback to the bot's API, which owns that state,
+ * and show the result on the standalone callback page
+ */
+async function forwardBotSpotifyCallback(request: NextRequest, searchParams: URLSearchParams) {
+  const resultUrl = new URL('/auth/spotify/callback', appUrl(request));
+  const botApiUrl = process.env.BOT_API_URL || process.env.NEXT_PUBLIC_API_BASE;
+  if (!botApiUrl) {
+    console.error('BOT_API_URL not configured');
+    resultUrl.searchParams.set('status', 'error');
+    return NextResponse.redirect(resultUrl);
+  }
+
+  const botCallbackUrl = new URL('/auth/spotify/callback', botApiUrl);
+  searchParams.forEach((value, key) => botCallbackUrl.searchParams.set(key, value));
+
+  // Retry rate limits and network errors with exponential backoff
+  const maxRetries = 3;
+  let success = false;
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const response = await fetch(botCallbackUrl, { method: 'GET' });
+      if (response.ok) {
+        console.log('✅ Forwarded Spotify OAuth callback to bot');
+        success = true;
+        break;
+      }
+      if (response.status !== 429) {
+        console.error('Bot API callback failed:', response.status, await response.text());
+        break;
+      }
+      console.warn(`⏱️ Bot API rate limited (attempt ${attempt}/${maxRetries})`);
+    } catch (fetchError) {
+      console.error(`Network error on attempt ${attempt}:`, fetchError);
+    }
+
+    if (attempt < maxRetries) {
+      await new Promise(resolve => setTimeout(resolve, 2 ** attempt * 1000));
+    }
+  }
+
+  resultUrl.searchParams.set('status', success ? 'success' : 'error');
+  return NextResponse.redirect(resultUrl);
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { AudiusAuth } from '@/lib/audius-auth';
+import { getSession } from '@/lib/session';
+import { createOAuthState, setOAuthStateCookie } from '@/lib/oauth-state';
+
+export async function GET() {
+  try {
+    // Audius accounts are linked to the signed-in Discord user
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const state = await createOAuthState('AUDIUS', { discordId: session.discordId });
+    const authUrl = AudiusAuth.generateAuthUrl(state);
+
+    const response = NextResponse.redirect(authUrl);
+    setOAuthStateCookie(response, 'AUDIUS', state);
+    return response;
+  } catch (error) {
+    console.error('Audius login error:', error);
+    return NextResponse.json({ error: 'Failed to initiate Audius login' }, { status: 500 });
+  }
+}
@@ -1,13 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { DiscordAuth } from '@/lib/discord-auth';
+import { createOAuthState, setOAuthStateCookie } from '@/lib/oauth-state';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Generate Discord OAuth URL
-    const state = crypto.randomUUID();
+    // Generate Discord OAuth URL; `next` is where to land after logging in
+    const state = await createOAuthState('DISCORD', { returnTo: request.nextUrl.searchParams.get('next') });
     const authUrl = DiscordAuth.generateAuthUrl(state);
-    
-    return NextResponse.redirect(authUrl);
+
+    const response = NextResponse.redirect(authUrl);
+    setOAuthStateCookie(response, 'DISCORD', state);
+    return response;
   } catch (error) {
     console.error('Discord login error:', error);
     return NextResponse.json({ error: 'Failed to initiate Discord login' }, { status: 500 });
@@ -1,47 +1,23 @@
-import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import { NextResponse } from 'next/server';
 import { SpotifyAuth } from '@/lib/spotify-auth';
-import { authSessions } from '@/lib/auth-sessions';
+import { getSession } from '@/lib/session';
+import { createOAuthState, setOAuthStateCookie } from '@/lib/oauth-state';
 
-export async function GET(_request: NextRequest) {
+export async function GET() {
   try {
     const { codeVerifier, codeChallenge } = SpotifyAuth.generatePKCEChallenge();
-    const state = crypto.randomUUID();
+    const session = await getSession();
+    const state = await createOAuthState('SPOTIFY', { codeVerifier, discordId: session?.discordId });
 
     console.log('🚀 Starting Spotify premium auth flow');
 
-    authSessions.store(state, codeVerifier);
-
     const authUrl = SpotifyAuth.generateAuthUrl(state, codeChallenge, 'premium');
-    console.log('🎯 Redirecting to (premium):', authUrl);
 
     const response = NextResponse.redirect(authUrl);
-    const secure = process.env.NODE_ENV === 'production';
-
-    response.cookies.set({
-      name: 'spotify_state',
-      value: state,
-      httpOnly: true,
-      sameSite: 'lax',
-      secure,
-      maxAge: 600,
-      path: '/'
-    });
-
-    response.cookies.set({
-      name: 'spotify_code_verifier',
-      value: codeVerifier,
-      httpOnly: true,
-      sameSite: 'lax',
-      secure,
-      maxAge: 600,
-      path: '/'
-    });
-
+    setOAuthStateCookie(response, 'SPOTIFY', state);
     return response;
   } catch (error) {
     console.error('Spotify premium login error:', error);
     return NextResponse.json({ error: 'Failed to initiate Spotify premium login' }, { status: 500 });
   }
 }
-
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiPost } from '@/lib/api-client';
+import { getSession } from '@/lib/session';
+
+/**
+ * GET /api/auth/reconnect/:provider
+ * One-click reconnect link (sent by DM and shown in settings) for a linked
+ * account that stopped working. Asks for a Discord login first when needed.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  const appUrl = process.env.APP_URL || request.nextUrl.origin;
+  const settingsUrl = new URL('/dashboard/settings', appUrl);
+
+  if (provider === 'discord') {
+    return NextResponse.redirect(new URL('/api/auth/login/discord?next=/dashboard/settings', appUrl));
+  }
+  if (provider !== 'spotify') {
+    return NextResponse.json({ error: 'Unknown provider' }, { status: 404 });
+  }
+
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.redirect(new URL(`/api/auth/login/discord?next=/api/auth/reconnect/${provider}`, appUrl));
+  }
+
+  try {
+    // Same login as the bot's, so the backend stores the new tokens and clears the flag
+    const { url } = await apiPost<{ url: string }>('/api/spotify/reconnect');
+    return NextResponse.redirect(url);
+  } catch (error) {
+    console.error('Spotify reconnect error:', error);
+    settingsUrl.searchParams.set('error', 'reconnect_failed');
+    return NextResponse.redirect(settingsUrl);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+
+const FALLBACK_BACKEND = 'http://localhost:3001';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const backendBase = process.env.BOT_API_URL || process.env.NEXT_PUBLIC_API_BASE || FALLBACK_BACKEND;
+    const payload = await request.json();
+
+    // The backend binds discord_id to the session cookie we forward
+    const backendResponse = await fetch(`${backendBase}/api/listening-parties/${encodeURIComponent(id)}/claim-confirmed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: request.headers.get('cookie') ?? '',
+      },
+      body: JSON.stringify({
+        discord_id: session.discordId,
+        tx_signature: payload?.tx_signature,
+      }),
+    });
+
+    const result = await backendResponse.json().catch(() => ({ error: 'Unexpected response from backend service' }));
+    return NextResponse.json(result, { status: backendResponse.status });
+  } catch (error) {
+    console.error('Failed to record claim via backend:', error);
+    return NextResponse.json({ error: 'Failed to record claim' }, { status: 500 });
+  }
+}
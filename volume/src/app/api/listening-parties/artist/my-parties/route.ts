@@ -18,8 +18,10 @@ export async function GET() {
           select: {
             qualified_at: true,
             claimed_at: true,
+            review_status: true,
           },
         },
+        settlement: true,
       },
       orderBy: {
         created_at: 'desc',
@@ -48,12 +50,25 @@ export async function GET() {
           claimed: party.claimed_count,
           participants: party.participants.length,
           qualified: qualifiedCount,
+          pending_review: party.participants.filter((p) => p.review_status === 'PENDING_REVIEW').length,
         },
         timing: {
           created_at: party.created_at,
+          scheduled_start_at: party.scheduled_start_at,
           expires_at: party.expires_at,
           duration_minutes: party.duration_minutes,
         },
+        settlement: party.settlement
+          ? {
+              status: party.settlement.status,
+              unclaimed_seats: party.settlement.unclaimed_seats,
+              refund_amount: party.settlement.refund_amount.toString(),
+              close_tx_signature: party.settlement.close_tx_signature,
+              attempts: party.settlement.attempts,
+              last_error: party.settlement.last_error,
+              completed_at: party.settlement.completed_at,
+            }
+          : null,
       };
     });
 
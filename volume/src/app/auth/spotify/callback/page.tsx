@@ -26,8 +26,8 @@ function SpotifyCallbackContent() {
   });
 
   useEffect(() => {
-    const code = searchParams.get('code');
-    const state = searchParams.get('state');
+    // The OAuth callback route has already handed the code to the bot
+    const status = searchParams.get('status');
     const error = searchParams.get('error');
 
     if (error) {
@@ -39,47 +39,20 @@ function SpotifyCallbackContent() {
       return;
     }
 
-    if (!code || !state) {
+    if (status === 'success') {
       setCallbackState({
-        status: 'error',
-        message: 'Invalid Request',
-        details: 'Missing authorization code or state parameter. You can close this tab and try again in Discord.'
+        status: 'success',
+        message: 'Successfully Connected to Spotify!',
+        details: 'Your Spotify account has been linked to your Discord account. You can now participate in music raids and earn rewards!'
       });
       return;
     }
 
-    // Call the bot's OAuth handler
-    const handleOAuth = async () => {
-      try {
-        // Forward the OAuth callback to the bot's API
-        const response = await fetch(`/api/auth/spotify/callback?code=${code}&state=${state}`, {
-          method: 'GET',
-        });
-
-        if (response.ok) {
-          setCallbackState({
-            status: 'success',
-            message: 'Successfully Connected to Spotify!',
-            details: 'Your Spotify account has been linked to your Discord account. You can now participate in music raids and earn rewards!'
-          });
-        } else {
-          await response.text(); // Consume the response
-          setCallbackState({
-            status: 'error',
-            message: 'Connection Failed',
-            details: 'Failed to link your Spotify account. Please try again in Discord.'
-          });
-        }
-      } catch {
-        setCallbackState({
-          status: 'error',
-          message: 'Connection Failed',
-          details: 'Network error occurred. Please try again in Discord.'
-        });
-      }
-    };
-
-    handleOAuth();
+    setCallbackState({
+      status: 'error',
+      message: 'Connection Failed',
+      details: 'Failed to link your Spotify account. Please try again in Discord.'
+    });
   }, [searchParams]);
 
   const getStatusIcon = () => {
@@ -25,12 +25,17 @@ interface PartyData {
     raid_id?: string | null;
     escrow_pda: string | null;
   };
+  qualification: {
+    required_seconds: number;
+    min_sessions: number;
+  };
 }
 
 interface ParticipantStatus {
   qualified: boolean;
   claimed: boolean;
   listening_duration: number;
+  session_count: number;
 }
 
 function ClaimPageContent() {
@@ -166,6 +171,7 @@ function ClaimPageContent() {
         qualified: !!participantData.qualified_at,
         claimed: !!participantData.claimed_at,
         listening_duration: participantData.listening_duration || 0,
+        session_count: participantData.session_count || 0,
       };
       setParticipant(participantStatus);
 
@@ -175,8 +181,11 @@ function ClaimPageContent() {
         setTxSignature(participantData.claim_tx_signature || '');
       } else if (!participantStatus.qualified) {
         setStatus('not_qualified');
+        const { required_seconds, min_sessions } = partyData.qualification;
         setMessage(
-          `You need to listen for at least 30 seconds. Current: ${participantStatus.listening_duration}s`
+          min_sessions > 1
+            ? `You need to listen for ${required_seconds}s across ${min_sessions} sessions. Current: ${participantStatus.listening_duration}s, ${participantStatus.session_count} session(s)`
+            : `You need to listen for at least ${required_seconds} seconds. Current: ${participantStatus.listening_duration}s`
         );
       } else {
         // User is qualified - initial status, will be updated by auth check effect
@@ -368,18 +377,23 @@ function ClaimPageContent() {
 
       setMessage('Recording claim...');
 
-      // Record claim on backend
-      await fetch(`${API_BASE}/api/listening-parties/${partyId}/claim-confirmed`, {
+      // Record claim through the dashboard session; the backend verifies it on-chain
+      const confirmRes = await fetch(`/api/listening-parties/${partyId}/claim-confirmed`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          discord_id: discordId,
           tx_signature: tx,
         }),
       });
 
+      if (!confirmRes.ok) {
+        const details = await confirmRes.json().catch(() => null);
+        console.warn('⚠️ Claim sent on-chain but could not be recorded:', details);
+      }
+
       setTxSignature(tx);
       setStatus('success');
       setMessage('Rewards claimed successfully!');
@@ -664,7 +678,9 @@ function ClaimPageContent() {
             <div className="mt-8 pt-6 border-t border-white/5">
               <div className="flex justify-between text-sm">
                 <span className="text-white/50">Listening Duration</span>
-                <span className="text-white font-bold">{participant.listening_duration}s / 30s</span>
+                <span className="text-white font-bold">
+                  {participant.listening_duration}s / {party?.qualification.required_seconds ?? 30}s
+                </span>
               </div>
             </div>
           )}
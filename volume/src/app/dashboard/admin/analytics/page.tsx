@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { BarList } from "@/components/ui/charts";
+
+type StatsRange = "24h" | "7d" | "30d" | "90d" | "all";
+
+interface PlatformStats {
+  range: { from: string | null; to: string };
+  generated_at: string;
+  users: {
+    total: number;
+    by_role: Record<"FAN" | "ARTIST" | "SUPER_ADMIN", number>;
+    by_platform: { spotify: number; audius: number; both: number; none: number };
+    suspended: number;
+  };
+  parties: { total: number; active: number; scheduled: number; ended: number; cancelled: number };
+  funnel: {
+    joined: number;
+    qualified: number;
+    claimed: number;
+    held_for_review: number;
+    qualify_rate: number;
+    claim_rate: number;
+    by_platform: Array<{ platform: "SPOTIFY" | "AUDIUS" | null; joined: number; qualified: number; claimed: number }>;
+  };
+  tokens_distributed: Array<{ mint: string; symbol: string | null; claims: number; raw_amount: string; amount: string | null }>;
+  deposits: { pending: number; confirmed: number; failed: number };
+  withdrawals: { pending: number; processing: number; completed: number; failed: number; cancelled: number };
+  heartbeats: { total: number; playing: number; credited_seconds: number };
+}
+
+const RANGES: { value: StatsRange; label: string }[] = [
+  { value: "24h", label: "24 hours" },
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: "90d", label: "90 days" },
+  { value: "all", label: "All time" },
+];
+
+function StatCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-card border rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-foreground">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export default function AnalyticsPage() {
+  const [range, setRange] = useState<StatsRange>("7d");
+  const [stats, setStats] = useState<PlatformStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/stats?range=${range}`, { cache: "no-store" });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(res.status === 403 ? "You don't have permission to view platform analytics." : body.error || "Failed to load stats");
+        return;
+      }
+      setError(null);
+      setStats(body);
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Analytics</h1>
+          <p className="text-muted-foreground">Platform statistics and raid performance</p>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={range === option.value ? "default" : "outline"}
+              disabled={loading}
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {!stats && !error && <p className="text-muted-foreground">Loading stats...</p>}
+
+      {stats && (
+        <>
+          <div className="grid gap-6 md:grid-cols-2">
+            <StatCard title={`New users (${stats.users.total.toLocaleString()})`}>
+              <BarList
+                items={[
+                  { label: "Fans", value: stats.users.by_role.FAN },
+                  { label: "Artists", value: stats.users.by_role.ARTIST },
+                  { label: "Admins", value: stats.users.by_role.SUPER_ADMIN },
+                ]}
+              />
+              <BarList
+                items={[
+                  { label: "Spotify linked", value: stats.users.by_platform.spotify },
+                  { label: "Audius linked", value: stats.users.by_platform.audius },
+                  { label: "Both platforms", value: stats.users.by_platform.both },
+                  { label: "No platform", value: stats.users.by_platform.none },
+                ]}
+              />
+              {stats.users.suspended > 0 && (
+                <p className="text-xs text-muted-foreground">{stats.users.suspended} of these accounts are suspended</p>
+              )}
+            </StatCard>
+
+            <StatCard title={`Parties created (${stats.parties.total.toLocaleString()})`}>
+              <BarList
+                items={[
+                  { label: "Active", value: stats.parties.active },
+                  { label: "Scheduled", value: stats.parties.scheduled },
+                  { label: "Ended", value: stats.parties.ended },
+                  { label: "Cancelled", value: stats.parties.cancelled },
+                ]}
+              />
+            </StatCard>
+
+            <StatCard title="Participation funnel">
+              <BarList
+                items={[
+                  { label: "Joined", value: stats.funnel.joined },
+                  { label: "Qualified", value: stats.funnel.qualified, hint: percent(stats.funnel.qualify_rate) },
+                  { label: "Claimed", value: stats.funnel.claimed, hint: percent(stats.funnel.claim_rate) },
+                ]}
+              />
+              {stats.funnel.held_for_review > 0 && (
+                <p className="text-xs text-muted-foreground">{stats.funnel.held_for_review} participants held for review</p>
+              )}
+            </StatCard>
+
+            <StatCard title="Participation by platform">
+              <BarList
+                items={stats.funnel.by_platform.map((row) => ({
+                  label: row.platform === "SPOTIFY" ? "Spotify" : row.platform === "AUDIUS" ? "Audius" : "Not verified yet",
+                  value: row.joined,
+                  hint: `${row.qualified} qualified · ${row.claimed} claimed`,
+                }))}
+              />
+            </StatCard>
+
+            <StatCard title="Listening heartbeats">
+              <BarList
+                items={[
+                  { label: "Heartbeats received", value: stats.heartbeats.total },
+                  { label: "While playing", value: stats.heartbeats.playing },
+                ]}
+              />
+              <p className="text-sm text-muted-foreground">
+                {Math.round(stats.heartbeats.credited_seconds / 60).toLocaleString()} minutes of listening credited
+              </p>
+            </StatCard>
+
+            <StatCard title="Deposits">
+              <BarList
+                items={[
+                  { label: "Pending", value: stats.deposits.pending },
+                  { label: "Confirmed", value: stats.deposits.confirmed },
+                  { label: "Failed", value: stats.deposits.failed },
+                ]}
+              />
+            </StatCard>
+
+            <StatCard title="Withdrawals">
+              <BarList
+                items={[
+                  { label: "Pending", value: stats.withdrawals.pending },
+                  { label: "Processing", value: stats.withdrawals.processing },
+                  { label: "Completed", value: stats.withdrawals.completed },
+                  { label: "Failed", value: stats.withdrawals.failed },
+                  { label: "Cancelled", value: stats.withdrawals.cancelled },
+                ]}
+              />
+            </StatCard>
+          </div>
+
+          <StatCard title="Tokens distributed">
+            {stats.tokens_distributed.length ? (
+              <BarList
+                items={stats.tokens_distributed.map((token) => ({
+                  label: token.symbol || `${token.mint.slice(0, 4)}…${token.mint.slice(-4)}`,
+                  value: token.claims,
+                  hint: `${token.amount ?? token.raw_amount} ${token.symbol ?? "raw"}`,
+                }))}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">No rewards were claimed in this range.</p>
+            )}
+          </StatCard>
+
+          <p className="text-xs text-muted-foreground">
+            {stats.range.from ? new Date(stats.range.from).toLocaleString() : "Launch"} – {new Date(stats.range.to).toLocaleString()} ·
+            refreshed {new Date(stats.generated_at).toLocaleTimeString()}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
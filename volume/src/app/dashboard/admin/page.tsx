@@ -104,8 +104,8 @@ export default async function AdminPage() {
                 View platform statistics and raid performance
               </p>
             </div>
-            <Button asChild variant="outline" className="w-full" disabled>
-              <span>Coming Soon</span>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/dashboard/admin/analytics">View Analytics</Link>
             </Button>
           </div>
         </div>
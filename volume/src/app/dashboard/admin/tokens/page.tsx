@@ -1,4 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface AdminToken {
+  id: string;
+  mint: string;
+  symbol: string;
+  decimals: number;
+  logo_url: string | null;
+  enabled: boolean;
+  default_for_rewards: boolean;
+  price_usd: number | null;
+  escrowed_amount: string;
+}
+
 export default function ManageTokensPage() {
+  const [tokens, setTokens] = useState<AdminToken[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [mint, setMint] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [decimals, setDecimals] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/admin/tokens", { cache: "no-store" });
+    const body = await res.json();
+    if (!res.ok) {
+      setLoadError(res.status === 403 ? "You don't have permission to manage tokens." : body.error || "Failed to load tokens");
+      return;
+    }
+    setLoadError(null);
+    setTokens(body.tokens);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const addToken = async () => {
+    setBusy("add");
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mint: mint.trim(),
+          ...(symbol.trim() ? { symbol: symbol.trim() } : {}),
+          ...(decimals.trim() ? { decimals: Number(decimals) } : {}),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error || body.message || "Failed to add token");
+        return;
+      }
+      setMint("");
+      setSymbol("");
+      setDecimals("");
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateToken = async (tokenMint: string, updates: Partial<Pick<AdminToken, "enabled" | "default_for_rewards">>) => {
+    setBusy(tokenMint);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/tokens/${tokenMint}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const body = await res.json();
+      if (!res.ok) setError(body.error || "Failed to update token");
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const deleteToken = async (token: AdminToken) => {
+    if (!confirm(`Remove ${token.symbol} from the registry?`)) return;
+    setBusy(token.mint);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/tokens/${token.mint}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) setError(body.error || "Failed to delete token");
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Manage Tokens</h1>
+          <p className="text-muted-foreground">{loadError}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -6,34 +116,94 @@ export default function ManageTokensPage() {
         <p className="text-muted-foreground">Configure reward tokens and their properties</p>
       </div>
 
+      <div className="bg-card border rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-foreground">Add Token</h2>
+        <p className="text-sm text-muted-foreground">
+          Symbol, decimals and logo are looked up on Jupiter. Fill them in only for tokens Jupiter doesn&apos;t know yet.
+        </p>
+        <div className="grid gap-3 md:grid-cols-[1fr_140px_120px_auto]">
+          <Input placeholder="Mint address" value={mint} onChange={(e) => setMint(e.target.value)} />
+          <Input placeholder="Symbol (optional)" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          <Input placeholder="Decimals" type="number" min="0" max="18" value={decimals} onChange={(e) => setDecimals(e.target.value)} />
+          <Button onClick={addToken} disabled={busy === "add" || !mint.trim()}>
+            {busy === "add" ? "Adding..." : "Add Token"}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
       <div className="bg-card border rounded-lg p-6">
-        <div className="space-y-4">
-          <div className="text-center py-12">
-            <div className="text-6xl mb-4">🪙</div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">Token Management</h3>
-            <p className="text-muted-foreground mb-4">
-              Token management features are being developed. This will include:
-            </p>
-            <div className="text-left max-w-md mx-auto space-y-2 text-sm text-muted-foreground">
-              <div className="flex items-center gap-2">
-                <span>✓</span> Add new reward tokens
+        <h2 className="text-lg font-semibold text-foreground mb-4">Registered Tokens</h2>
+        <div className="space-y-3">
+          {tokens?.map((token) => (
+            <div key={token.mint} className="border rounded-md p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                {token.logo_url ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={token.logo_url} alt={token.symbol} className="w-8 h-8 rounded-full" />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm">🪙</div>
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground">
+                    {token.symbol}
+                    {token.default_for_rewards && <span className="ml-2 text-xs text-primary">Default</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{token.mint}</p>
+                </div>
               </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Enable/disable tokens
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Configure token metadata (logos, decimals)
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Set default reward amounts
+
+              <div className="flex items-center gap-6 text-sm">
+                <div className="text-right">
+                  <p className="text-xs text-muted-foreground">Price</p>
+                  <p className="text-foreground">{token.price_usd !== null ? `$${token.price_usd.toPrecision(4)}` : "—"}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs text-muted-foreground">Escrowed</p>
+                  <p className="text-foreground">
+                    {Number(token.escrowed_amount).toLocaleString()} {token.symbol}
+                  </p>
+                </div>
+                <span
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+                    token.enabled
+                      ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400"
+                  }`}
+                >
+                  {token.enabled ? "Enabled" : "Disabled"}
+                </span>
               </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Monitor token balances
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy === token.mint}
+                  onClick={() => updateToken(token.mint, { enabled: !token.enabled })}
+                >
+                  {token.enabled ? "Disable" : "Enable"}
+                </Button>
+                {!token.default_for_rewards && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy === token.mint}
+                    onClick={() => updateToken(token.mint, { default_for_rewards: true })}
+                  >
+                    Make Default
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" disabled={busy === token.mint} onClick={() => deleteToken(token)}>
+                  Remove
+                </Button>
               </div>
             </div>
-          </div>
+          ))}
+          {tokens && !tokens.length && <p className="text-sm text-muted-foreground">No tokens registered yet.</p>}
+          {!tokens && <p className="text-sm text-muted-foreground">Loading tokens...</p>}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
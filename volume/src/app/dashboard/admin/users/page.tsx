@@ -1,4 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type UserRole = "FAN" | "ARTIST" | "SUPER_ADMIN";
+
+interface AdminUser {
+  id: string;
+  discord_id: string;
+  discord_username: string | null;
+  name: string | null;
+  role: UserRole;
+  platforms: { spotify: boolean; audius: boolean };
+  wallet: { public_key: string; type: "custodial" | "privy"; exported_at: string | null } | null;
+  total_parties_participated: number;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+  created_at: string;
+}
+
+interface UsersResponse {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring/50";
+
 export default function ManageUsersPage() {
+  const [data, setData] = useState<UsersResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("");
+  const [platform, setPlatform] = useState("");
+  const [wallet, setWallet] = useState("");
+  const [page, setPage] = useState(1);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ page: String(page) });
+    if (search.trim()) params.set("search", search.trim());
+    if (role) params.set("role", role);
+    if (platform) params.set("platform", platform);
+    if (wallet) params.set("wallet", wallet);
+
+    const res = await fetch(`/api/admin/users?${params}`, { cache: "no-store" });
+    const body = await res.json();
+    if (!res.ok) {
+      setLoadError(res.status === 403 ? "You don't have permission to manage users." : body.error || "Failed to load users");
+      return;
+    }
+    setLoadError(null);
+    setData(body);
+  }, [page, search, role, platform, wallet]);
+
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [load]);
+
+  // Every privileged action needs a reason for the audit log
+  const runAction = async (user: AdminUser, path: string, method: "PATCH" | "POST", label: string, extra: Record<string, string> = {}) => {
+    const reason = prompt(`${label} ${user.discord_username || user.discord_id}. Reason:`);
+    if (!reason?.trim()) return;
+
+    setBusy(user.discord_id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/users/${user.discord_id}/${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...extra, reason: reason.trim() }),
+      });
+      const body = await res.json();
+      if (!res.ok) setError(body.error || body.message || `${label} failed`);
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.page_size)) : 1;
+
+  if (loadError) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Manage Users</h1>
+          <p className="text-muted-foreground">{loadError}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -6,34 +105,144 @@ export default function ManageUsersPage() {
         <p className="text-muted-foreground">View and manage user roles and permissions</p>
       </div>
 
-      <div className="bg-card border rounded-lg p-6">
-        <div className="space-y-4">
-          <div className="text-center py-12">
-            <div className="text-6xl mb-4">👥</div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">User Management</h3>
-            <p className="text-muted-foreground mb-4">
-              User management features are being developed. This will include:
-            </p>
-            <div className="text-left max-w-md mx-auto space-y-2 text-sm text-muted-foreground">
-              <div className="flex items-center gap-2">
-                <span>✓</span> View all registered users
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Promote users to Artist/Admin roles
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> View user balances and activity
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Reset Spotify connections
-              </div>
-              <div className="flex items-center gap-2">
-                <span>✓</span> Search and filter users
-              </div>
-            </div>
+      <div className="bg-card border rounded-lg p-6 space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <Input
+            placeholder="Search by name, Discord ID, handle or wallet"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="max-w-sm"
+          />
+          <select className={selectClassName} value={role} onChange={(e) => { setRole(e.target.value); setPage(1); }}>
+            <option value="">All roles</option>
+            <option value="FAN">Fans</option>
+            <option value="ARTIST">Artists</option>
+            <option value="SUPER_ADMIN">Admins</option>
+          </select>
+          <select className={selectClassName} value={platform} onChange={(e) => { setPlatform(e.target.value); setPage(1); }}>
+            <option value="">Any platform</option>
+            <option value="spotify">Spotify linked</option>
+            <option value="audius">Audius linked</option>
+            <option value="none">No platform</option>
+          </select>
+          <select className={selectClassName} value={wallet} onChange={(e) => { setWallet(e.target.value); setPage(1); }}>
+            <option value="">Any wallet</option>
+            <option value="custodial">Bot wallet</option>
+            <option value="privy">Privy wallet</option>
+            <option value="exported">Key exported</option>
+            <option value="none">No wallet</option>
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Platforms</TableHead>
+              <TableHead>Wallet</TableHead>
+              <TableHead>Parties</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.users.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <p className="font-medium text-foreground">{user.discord_username || user.name || "Unknown"}</p>
+                  <p className="text-xs text-muted-foreground">{user.discord_id}</p>
+                </TableCell>
+                <TableCell>{user.role}</TableCell>
+                <TableCell className="text-xs">
+                  {[user.platforms.spotify && "Spotify", user.platforms.audius && "Audius"].filter(Boolean).join(", ") || "—"}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {user.wallet ? (
+                    <>
+                      <span>{user.wallet.type === "privy" ? "Privy" : "Bot"}</span>
+                      <span className="text-muted-foreground"> · {user.wallet.public_key.slice(0, 4)}…{user.wallet.public_key.slice(-4)}</span>
+                      {user.wallet.exported_at && <span className="text-muted-foreground"> · exported</span>}
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                <TableCell>{user.total_parties_participated}</TableCell>
+                <TableCell>
+                  {user.suspended_at ? (
+                    <span className="text-xs text-red-600 dark:text-red-400" title={user.suspended_reason || undefined}>
+                      Suspended
+                    </span>
+                  ) : (
+                    <span className="text-xs text-green-600 dark:text-green-400">Active</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {user.role === "FAN" && (
+                      <Button variant="outline" size="sm" disabled={busy === user.discord_id}
+                        onClick={() => runAction(user, "role", "PATCH", "Promote to artist", { role: "ARTIST" })}>
+                        Make Artist
+                      </Button>
+                    )}
+                    {user.role !== "SUPER_ADMIN" && (
+                      <Button variant="outline" size="sm" disabled={busy === user.discord_id}
+                        onClick={() => runAction(user, "role", "PATCH", "Promote to admin", { role: "SUPER_ADMIN" })}>
+                        Make Admin
+                      </Button>
+                    )}
+                    {user.role !== "FAN" && (
+                      <Button variant="outline" size="sm" disabled={busy === user.discord_id}
+                        onClick={() => runAction(user, "role", "PATCH", "Demote to fan", { role: "FAN" })}>
+                        Demote
+                      </Button>
+                    )}
+                    {user.suspended_at ? (
+                      <Button variant="outline" size="sm" disabled={busy === user.discord_id}
+                        onClick={() => runAction(user, "unsuspend", "POST", "Lift suspension for")}>
+                        Unsuspend
+                      </Button>
+                    ) : (
+                      user.role !== "SUPER_ADMIN" && (
+                        <Button variant="outline" size="sm" disabled={busy === user.discord_id}
+                          onClick={() => runAction(user, "suspend", "POST", "Suspend")}>
+                          Suspend
+                        </Button>
+                      )
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {data && !data.users.length && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">No users match these filters.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{data ? `${data.total} users` : "Loading users..."}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { resolveTrack as resolveAudiusTrack } from '@/lib/tracks';
 
 interface Server {
   server_id: string;
@@ -113,66 +114,22 @@ export function CreateListeningParty() {
     }
   };
 
-  const extractTrackIdFromUrl = (url: string): string | null => {
-    try {
-      // Match: https://audius.co/artist/track-name or https://audius.co/embed/track/ID
-      const permalinkMatch = url.match(/audius\.co\/([^\/]+)\/([^\/\?]+)/);
-      if (permalinkMatch) {
-        return `/${permalinkMatch[1]}/${permalinkMatch[2]}`;
-      }
-
-      const embedMatch = url.match(/audius\.co\/embed\/track\/([^\/\?]+)/);
-      if (embedMatch) {
-        return embedMatch[1];
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
   const resolveTrack = async (url: string) => {
     setLoading(true);
     setError('');
     setTrackInfo(null);
 
     try {
-      const trackId = extractTrackIdFromUrl(url);
-      if (!trackId) {
+      const { track } = await resolveAudiusTrack(url, { platform: 'audius' });
+      if (track.platform !== 'AUDIUS') {
         throw new Error('Invalid Audius URL');
       }
 
-      const apiKey = process.env.NEXT_PUBLIC_AUDIUS_API_KEY;
-      let apiUrl = '';
-
-      if (trackId.startsWith('/')) {
-        // Permalink - use resolve
-        apiUrl = `https://api.audius.co/v1/resolve?url=https://audius.co${trackId}&app_name=VOLUME`;
-      } else {
-        // Direct ID
-        apiUrl = `https://api.audius.co/v1/tracks/${trackId}?app_name=VOLUME`;
-      }
-
-      const res = await fetch(apiUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'X-API-Key': apiKey || '',
-        },
-      });
-
-      if (!res.ok) {
-        throw new Error('Track not found');
-      }
-
-      const data = await res.json();
-      const track = data.data;
-
       setTrackInfo({
         id: track.id,
         title: track.title,
-        artist: track.user.name,
-        artwork: track.artwork?.['480x480'] || track.artwork?.['150x150'],
+        artist: track.artist,
+        artwork: track.artwork_url,
       });
 
     } catch (err: any) {
@@ -11,6 +11,7 @@ import { useWallets as useSolanaWallets, useSignTransaction } from '@privy-io/re
 import { PublicKey, Transaction, Connection } from '@solana/web3.js';
 import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import Script from 'next/script';
+import { resolveTrack } from '@/lib/tracks';
 
 interface QueuedTrack {
   id: string;
@@ -22,37 +23,13 @@ interface QueuedTrack {
   artwork?: string;
 }
 
-// Audius API types
-interface AudiusTrack {
-  id: string;
-  title: string;
-  permalink: string;
-  user: {
-    id: string;
-    name: string;
-    handle: string;
-  };
-  duration: number;
-  artwork?: {
-    '150x150': string;
-    '480x480': string;
-    '1000x1000': string;
-  };
-}
-
-// Audius OAuth user type
+// Audius account linked to the signed-in user, as returned by /api/users/me
 interface AudiusUser {
-  userId: number;
-  email: string;
-  name: string;
-  handle: string;
+  user_id: string;
+  handle: string | null;
+  name: string | null;
+  profile_picture: string | null;
   verified: boolean;
-  profilePicture: {
-    '150x150': string;
-    '480x480': string;
-    '1000x1000': string;
-  } | null;
-  apiKey: string | null;
 }
 
 // Extend window type for Audius SDK
@@ -103,7 +80,30 @@ function AudiusPageContent() {
   const lastListeningTimeRef = useRef<number>(-1); // Track previous value to prevent unnecessary re-renders
   const canClaimRef = useRef<boolean>(false); // Track canClaim state to avoid stale closures
 
-  // Initialize Audius SDK with OAuth (using browser CDN)
+  // Load the Audius account linked through /api/auth/login/audius
+  useEffect(() => {
+    // Earlier versions kept the whole Audius profile here
+    localStorage.removeItem('audius_user');
+
+    async function loadAudiusAccount() {
+      try {
+        const res = await fetch('/api/users/me', { credentials: 'include' });
+        if (!res.ok) return;
+        const me: { audius: AudiusUser | null } = await res.json();
+        if (me.audius) {
+          setAudiusUser(me.audius);
+          setAudiusConnected(true);
+          console.log('✅ Loaded linked Audius account:', me.audius.handle);
+        }
+      } catch (e) {
+        console.error('Failed to load linked Audius account:', e);
+      }
+    }
+
+    loadAudiusAccount();
+  }, []);
+
+  // Initialize Audius SDK (using browser CDN)
   useEffect(() => {
     const initSDK = () => {
       // Wait for SDK to load from CDN
@@ -134,41 +134,9 @@ function AudiusPageContent() {
               apiKey: apiKey
             });
 
-            console.log('📡 Audius SDK instance created, initializing OAuth...');
-
-            // Initialize OAuth
-            audiusSdk.oauth.init({
-              successCallback: (user: AudiusUser) => {
-                console.log('✅ Audius OAuth success:', user);
-                setAudiusUser(user);
-                setAudiusConnected(true);
-                // Store in localStorage
-                localStorage.setItem('audius_user', JSON.stringify(user));
-              },
-              errorCallback: (error: Error) => {
-                console.error('❌ Audius OAuth error:', error);
-                console.error('Error details:', error);
-                setAudiusConnected(false);
-              }
-            });
-
             sdkRef.current = audiusSdk;
             setSdkReady(true);
-            console.log('✅ Audius SDK ready with OAuth');
-
-            // Check for existing OAuth session
-            const savedUser = localStorage.getItem('audius_user');
-            if (savedUser) {
-              try {
-                const user = JSON.parse(savedUser);
-                setAudiusUser(user);
-                setAudiusConnected(true);
-                console.log('✅ Restored Audius session:', user.handle);
-              } catch (e) {
-                console.error('Failed to restore Audius session:', e);
-                localStorage.removeItem('audius_user');
-              }
-            }
+            console.log('✅ Audius SDK ready');
           } catch (error) {
             console.error('Failed to initialize Audius SDK:', error);
             // Fallback to direct API without OAuth
@@ -253,95 +221,6 @@ function AudiusPageContent() {
     localStorage.setItem('audius_queue', JSON.stringify(queuedTracks));
   }, [queuedTracks]);
 
-  // Extract track ID from Audius URL
-  const extractTrackId = (url: string): string | null => {
-    try {
-      // Match track ID from embed URLs: https://audius.co/embed/track/Q47QxBW
-      const embedMatch = url.match(/audius\.co\/embed\/track\/([^\/\?]+)/);
-      if (embedMatch) {
-        return embedMatch[1];
-      }
-
-      // Match permalink from regular URLs: https://audius.co/artist/track-slug
-      const permalinkMatch = url.match(/audius\.co\/([^\/]+)\/([^\/\?]+)/);
-      if (permalinkMatch) {
-        // Return the full permalink path for resolve endpoint
-        return `/${permalinkMatch[1]}/${permalinkMatch[2]}`;
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
-  // Fetch track metadata from Audius using official API
-  const getTrackFromAudius = async (trackIdOrPermalink: string): Promise<AudiusTrack | null> => {
-    try {
-      console.log('🔍 Fetching track from Audius API:', trackIdOrPermalink);
-
-      const apiHost = 'https://api.audius.co';
-      const apiKey = process.env.NEXT_PUBLIC_AUDIUS_API_KEY || '06ac216cd5916caeba332a0223469e28782a612eebc972a5c432efdc86aa78b9';
-
-      let response;
-
-      // Check if it's a direct track ID (from embed) or a permalink
-      if (trackIdOrPermalink.startsWith('/')) {
-        // It's a permalink - use resolve endpoint
-        console.log('📍 Using resolve endpoint for permalink:', trackIdOrPermalink);
-        response = await fetch(`${apiHost}/v1/resolve?url=https://audius.co${trackIdOrPermalink}&app_name=VOLUME`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-API-Key': apiKey
-          }
-        });
-      } else {
-        // It's a direct track ID - use tracks endpoint
-        console.log('🆔 Using tracks endpoint for ID:', trackIdOrPermalink);
-        response = await fetch(`${apiHost}/v1/tracks/${trackIdOrPermalink}?app_name=VOLUME`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-API-Key': apiKey
-          }
-        });
-      }
-
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      // Handle different response formats
-      let track;
-      if (data?.data) {
-        track = Array.isArray(data.data) ? data.data[0] : data.data;
-      }
-
-      if (track) {
-        console.log('✅ Found track:', track.title);
-        return {
-          id: track.id,
-          title: track.title,
-          permalink: track.permalink,
-          user: {
-            id: track.user.id,
-            name: track.user.name,
-            handle: track.user.handle
-          },
-          duration: track.duration,
-          artwork: track.artwork
-        };
-      }
-
-      console.warn('Track not found on Audius');
-      return null;
-    } catch (error) {
-      console.error('Error fetching track from Audius:', error);
-      return null;
-    }
-  };
-
   // Handle URL submit to add to queue
   const handleUrlSubmit = async () => {
     setUrlError("");
@@ -358,19 +237,12 @@ function AudiusPageContent() {
       return;
     }
 
-    const permalink = extractTrackId(audiusUrl);
-    console.log("📍 Extracted permalink:", permalink);
-    if (!permalink) {
-      setUrlError("Invalid Audius URL. Please use a track link from Audius.");
-      return;
-    }
-
     try {
-      // Fetch track metadata from Audius
-      const trackInfo = await getTrackFromAudius(permalink);
+      // Fetch track metadata through the backend resolver
+      const { track: trackInfo } = await resolveTrack(audiusUrl, { platform: 'audius' });
       console.log("📦 Fetched track info:", trackInfo);
-      if (!trackInfo) {
-        setUrlError("Could not fetch track information. Please check the URL.");
+      if (trackInfo.platform !== 'AUDIUS') {
+        setUrlError("Invalid Audius URL. Please use a track link from Audius.");
         return;
       }
 
@@ -379,10 +251,10 @@ function AudiusPageContent() {
         id: trackInfo.id,
         uri: audiusUrl,
         name: trackInfo.title,
-        artist: trackInfo.user.name,
+        artist: trackInfo.artist,
         addedAt: Date.now(),
-        permalink: trackInfo.permalink,
-        artwork: trackInfo.artwork?.['150x150'] || ''
+        permalink: new URL(trackInfo.url).pathname,
+        artwork: trackInfo.artwork_url || ''
       };
 
       console.log("➕ Adding track to queue:", newTrack);
@@ -391,7 +263,7 @@ function AudiusPageContent() {
       console.log("✅ Track added to queue:", newTrack.name);
     } catch (error) {
       console.error("Error adding track:", error);
-      setUrlError("Failed to add track. Please try again.");
+      setUrlError(error instanceof Error ? error.message : "Failed to add track. Please try again.");
     }
   };
 
@@ -533,26 +405,14 @@ function AudiusPageContent() {
   };
 
   // Audius OAuth functions
-  const handleAudiusLogin = async () => {
-    if (!sdkRef.current) {
-      console.error('Audius SDK not ready');
-      return;
-    }
-
-    try {
-      // Trigger OAuth login popup
-      await sdkRef.current.oauth.login({ scope: 'read' });
-      console.log('🔐 Audius OAuth login initiated');
-    } catch (error) {
-      console.error('Failed to initiate Audius login:', error);
-      alert('Failed to connect to Audius. Please try again.');
-    }
+  const handleAudiusLogin = () => {
+    // Server-side OAuth flow; the callback links the account and comes back here
+    window.location.href = '/api/auth/login/audius';
   };
 
   const handleAudiusLogout = () => {
     setAudiusUser(null);
     setAudiusConnected(false);
-    localStorage.removeItem('audius_user');
     console.log('🔐 Logged out of Audius');
   };
 
@@ -687,9 +547,9 @@ function AudiusPageContent() {
 
     // Try to fetch artwork from Audius API
     try {
-      const trackInfo = await getTrackFromAudius(activeRaid.trackId);
-      if (trackInfo?.artwork) {
-        raidTrack.artwork = trackInfo.artwork['150x150'];
+      const { track: trackInfo } = await resolveTrack(activeRaid.trackId, { platform: 'audius' });
+      if (trackInfo.artwork_url) {
+        raidTrack.artwork = trackInfo.artwork_url;
         console.log('✅ Fetched artwork for raid track');
       }
     } catch (error) {
@@ -1149,10 +1009,10 @@ function AudiusPageContent() {
             >
               <div className="card__header">
                 <div className="flex items-center gap-3 min-w-0">
-                  {audiusUser?.profilePicture ? (
+                  {audiusUser?.profile_picture ? (
                     <img
-                      src={audiusUser.profilePicture['150x150']}
-                      alt={audiusUser.handle}
+                      src={audiusUser.profile_picture}
+                      alt={audiusUser.handle ?? 'Audius'}
                       className="w-10 h-10 rounded-full"
                     />
                   ) : (
@@ -1162,7 +1022,7 @@ function AudiusPageContent() {
                   )}
                   <div className="min-w-0">
                     <div className="font-semibold truncate text-sm">
-                      {audiusUser ? `@${audiusUser.handle}` : 'Audius'}
+                      {audiusUser?.handle ? `@${audiusUser.handle}` : audiusUser?.name || 'Audius'}
                     </div>
                     {audiusUser?.verified && (
                       <span className="text-[10px] text-blue-400 font-medium">Verified</span>
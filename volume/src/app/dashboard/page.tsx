@@ -28,6 +28,7 @@ interface ListeningParty {
   };
   timing: {
     created_at: string;
+    scheduled_start_at?: string | null;
     expires_at: string;
     duration_minutes: number;
   };
@@ -69,6 +70,8 @@ export default function DashboardPage() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'SCHEDULED':
+        return 'bg-amber-500/20 text-amber-400 border-amber-500/50';
       case 'ACTIVE':
         return 'bg-green-500/20 text-green-400 border-green-500/50';
       case 'COMPLETED':
@@ -172,7 +175,10 @@ export default function DashboardPage() {
           <div className="space-y-3">
             {parties.map((party) => {
               const expired = isExpired(party.timing.expires_at);
-              const remaining = timeRemaining(party.timing.expires_at);
+              const scheduled = party.status === 'SCHEDULED' && party.timing.scheduled_start_at;
+              const remaining = scheduled
+                ? timeRemaining(party.timing.scheduled_start_at!)
+                : timeRemaining(party.timing.expires_at);
 
               return (
                 <div
@@ -229,7 +235,7 @@ export default function DashboardPage() {
                       </div>
 
                       <div className="text-center">
-                        <p className="text-xs text-muted-foreground mb-0.5">Time Left</p>
+                        <p className="text-xs text-muted-foreground mb-0.5">{scheduled ? 'Starts In' : 'Time Left'}</p>
                         <p className={`text-sm font-semibold ${expired ? 'text-red-400' : 'text-foreground'}`}>
                           {remaining}
                         </p>
@@ -3,6 +3,18 @@ import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import Image from "next/image";
 
+type LinkedAccountStatus = "CONNECTED" | "NEEDS_RECONNECT" | "NOT_CONNECTED";
+
+interface LinkedAccountHealth {
+  provider: "SPOTIFY" | "AUDIUS" | "DISCORD" | "WALLET";
+  status: LinkedAccountStatus;
+  account: string | null;
+  reconnect_reason: "REFRESH_REVOKED" | "TOKEN_EXPIRED" | null;
+  reconnect_since: string | null;
+  token_expires_at: string | null;
+  reconnect_url: string | null;
+}
+
 interface MeResponse {
   discord_id: string;
   role: string;
@@ -12,6 +24,39 @@ interface MeResponse {
   image?: string | null;
   balances: { tokens_balance: number };
   wallet: null | { public_key: string; exported_at: string | null };
+  linked_accounts?: LinkedAccountHealth[];
+}
+
+const PROVIDER_LABELS: Record<LinkedAccountHealth["provider"], string> = {
+  SPOTIFY: "Spotify",
+  AUDIUS: "Audius",
+  DISCORD: "Discord",
+  WALLET: "Solana Wallet",
+};
+
+const RECONNECT_REASONS: Record<NonNullable<LinkedAccountHealth["reconnect_reason"]>, string> = {
+  REFRESH_REVOKED: "Access was revoked or the login expired",
+  TOKEN_EXPIRED: "The login expired",
+};
+
+const STATUS_STYLES: Record<LinkedAccountStatus, { label: string; className: string }> = {
+  CONNECTED: { label: "Connected", className: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400" },
+  NEEDS_RECONNECT: { label: "Reconnect needed", className: "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400" },
+  NOT_CONNECTED: { label: "Not connected", className: "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400" },
+};
+
+function describeAccount(account: LinkedAccountHealth): string {
+  if (account.status === "NEEDS_RECONNECT") {
+    const since = account.reconnect_since ? ` (since ${new Date(account.reconnect_since).toLocaleDateString()})` : "";
+    return `${account.reconnect_reason ? RECONNECT_REASONS[account.reconnect_reason] : "The login stopped working"}${since}`;
+  }
+  if (account.status === "NOT_CONNECTED") {
+    return "Not linked";
+  }
+  if (account.provider === "WALLET" && account.account) {
+    return `${account.account.slice(0, 8)}...${account.account.slice(-8)}`;
+  }
+  return account.account || "Linked";
 }
 
 export default async function SettingsPage() {
@@ -53,6 +98,33 @@ export default async function SettingsPage() {
           </div>
         </div>
 
+        {/* Linked Accounts Health Section */}
+        {me?.linked_accounts && (
+          <div className="bg-card border rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4">Linked Accounts</h2>
+            <div className="divide-y">
+              {me.linked_accounts.map((account) => (
+                <div key={account.provider} className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                  <div>
+                    <p className="font-medium text-foreground">{PROVIDER_LABELS[account.provider]}</p>
+                    <p className="text-sm text-muted-foreground">{describeAccount(account)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {account.status === "NEEDS_RECONNECT" && account.reconnect_url && (
+                      <Button asChild size="sm">
+                        <Link href={account.reconnect_url}>Reconnect</Link>
+                      </Button>
+                    )}
+                    <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[account.status].className}`}>
+                      {STATUS_STYLES[account.status].label}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Spotify Section */}
         <div className="bg-card border rounded-lg p-6">
           <h2 className="text-lg font-semibold text-foreground mb-4">Spotify Integration</h2>
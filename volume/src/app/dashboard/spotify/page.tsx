@@ -868,11 +868,18 @@ function SpotifyPageContent() {
         const connection = new Connection('https://api.devnet.solana.com');
         const walletPubkey = new PublicKey(privyUser.wallet.address);
 
-        // Get token accounts
-        const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-          walletPubkey,
-          { programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') }
-        );
+        // Get token accounts and the tokens an admin has enabled for rewards
+        const [tokenAccounts, registryResponse] = await Promise.all([
+          connection.getParsedTokenAccountsByOwner(
+            walletPubkey,
+            { programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') }
+          ),
+          fetch('/api/rewards/tokens', { credentials: 'include' }),
+        ]);
+        const registry: Array<{ mint: string; symbol: string }> = registryResponse.ok
+          ? (await registryResponse.json()).tokens ?? []
+          : [];
+        const enabledTokens = new Map(registry.map(token => [token.mint, token]));
 
         const tokens = [];
         for (const account of tokenAccounts.value) {
@@ -880,10 +887,14 @@ function SpotifyPageContent() {
           const mint = info.mint;
           const balance = info.tokenAmount.uiAmount;
 
+          // Only enabled reward tokens can fund a raid
+          const registered = enabledTokens.get(mint);
+          if (!registered) continue;
+
           tokens.push({
             mint,
-            name: `Token`,
-            symbol: mint.slice(0, 4),
+            name: registered.symbol,
+            symbol: registered.symbol,
             balance
           });
         }
@@ -1901,7 +1912,7 @@ function SpotifyPageContent() {
                 <TokenDropdown
                   options={userTokens.map(token => ({
                     value: token.mint,
-                    label: `${token.name} (${token.symbol})`,
+                    label: `${token.name} (${token.mint.slice(0, 4)}…${token.mint.slice(-4)})`,
                     balance: token.balance,
                     symbol: token.symbol
                   }))}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface Withdrawal {
+  id: string;
+  to_address: string;
+  requested_amount_sol: string;
+  route: "SOL" | "TOKENS";
+  status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED" | "CANCELLED";
+  token_mint: string | null;
+  token_amount: string | null;
+  swap_to_sol: boolean;
+  tx_signature: string | null;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface WithdrawalQuote {
+  amount: number;
+  symbol: string;
+  swapToSol: boolean;
+  valueSol: number;
+  feeSol: number;
+  payoutSol: number | null;
+}
+
+interface WithdrawalsResponse {
+  withdrawals: Withdrawal[];
+  limits: { min_sol: number; fee_sol: number; max_daily: number };
+}
+
+const STATUS_STYLES: Record<Withdrawal["status"], string> = {
+  PENDING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400",
+  PROCESSING: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
+  COMPLETED: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  FAILED: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
+  CANCELLED: "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400",
+};
+
+export default function WithdrawPage() {
+  const [data, setData] = useState<WithdrawalsResponse | null>(null);
+  const [toAddress, setToAddress] = useState("");
+  const [amount, setAmount] = useState("");
+  const [tokenMint, setTokenMint] = useState("");
+  const [swapToSol, setSwapToSol] = useState(false);
+  const [quote, setQuote] = useState<WithdrawalQuote | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/withdrawals", { cache: "no-store" });
+    if (res.ok) setData(await res.json());
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const start = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/withdrawals/start", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to_address: toAddress.trim(),
+          amount: Number(amount),
+          token_mint: tokenMint.trim() || null,
+          swap_to_sol: Boolean(tokenMint.trim()) && swapToSol,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error || body.message || "Could not start withdrawal");
+        return;
+      }
+      setQuote(body.quote);
+      setMessage("We sent a confirmation code to your Discord DMs.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/withdrawals/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error || "Could not confirm withdrawal");
+        return;
+      }
+      setQuote(null);
+      setCode("");
+      setAmount("");
+      setMessage("Withdrawal queued. We'll DM you when it has been sent.");
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancel = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/withdrawals/${id}/cancel`, { method: "POST" });
+    if (!res.ok) {
+      const body = await res.json();
+      setError(body.error || "Could not cancel withdrawal");
+    }
+    await load();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Withdraw</h1>
+        <p className="text-muted-foreground">Send SOL or reward tokens from your bot wallet to any Solana address</p>
+      </div>
+
+      <div className="bg-card border rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-foreground">New Withdrawal</h2>
+        {data && (
+          <p className="text-sm text-muted-foreground">
+            Minimum {data.limits.min_sol} SOL in value · Fee {data.limits.fee_sol} SOL · Up to {data.limits.max_daily} per day
+          </p>
+        )}
+
+        {!quote ? (
+          <div className="space-y-3">
+            <Input placeholder="Destination address" value={toAddress} onChange={(e) => setToAddress(e.target.value)} />
+            <Input placeholder="Amount" type="number" min="0" step="any" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            <Input placeholder="Token mint (leave empty for SOL)" value={tokenMint} onChange={(e) => setTokenMint(e.target.value)} />
+            {tokenMint.trim() && (
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <input type="checkbox" checked={swapToSol} onChange={(e) => setSwapToSol(e.target.checked)} />
+                Swap to SOL before sending
+              </label>
+            )}
+            <Button onClick={start} disabled={busy || !toAddress.trim() || !(Number(amount) > 0)}>
+              {busy ? "Checking..." : "Continue"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="text-sm text-foreground space-y-1">
+              <p>
+                Amount: {quote.amount} {quote.symbol}
+                {quote.swapToSol && " → SOL"}
+              </p>
+              <p>Fee: {quote.feeSol} SOL</p>
+              {quote.payoutSol !== null && (
+                <p>
+                  You receive: {quote.swapToSol && "at least "}
+                  {quote.payoutSol} SOL
+                </p>
+              )}
+              <p className="break-all">To: {toAddress}</p>
+            </div>
+            <Input placeholder="6-digit code" inputMode="numeric" maxLength={6} value={code} onChange={(e) => setCode(e.target.value)} />
+            <div className="flex gap-2">
+              <Button onClick={confirm} disabled={busy || code.trim().length !== 6}>
+                {busy ? "Confirming..." : "Confirm Withdrawal"}
+              </Button>
+              <Button variant="outline" onClick={() => setQuote(null)} disabled={busy}>
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      <div className="bg-card border rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-foreground mb-4">Recent Withdrawals</h2>
+        <div className="space-y-3">
+          {data?.withdrawals.map((w) => (
+            <div key={w.id} className="border rounded-md p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground">
+                  {w.token_amount ? `${w.token_amount} tokens${w.swap_to_sol ? " → SOL" : ""}` : `${w.requested_amount_sol} SOL`}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">To {w.to_address}</p>
+                <p className="text-xs text-muted-foreground">{new Date(w.created_at).toLocaleString()}</p>
+                {w.status === "FAILED" && w.last_error && <p className="text-xs text-red-600 dark:text-red-400">{w.last_error}</p>}
+                {w.tx_signature && w.status === "COMPLETED" && (
+                  <a
+                    href={`https://explorer.solana.com/tx/${w.tx_signature}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-primary underline"
+                  >
+                    View transaction
+                  </a>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[w.status]}`}>
+                  {w.status}
+                </span>
+                {w.status === "PENDING" && !w.tx_signature && (
+                  <Button variant="outline" size="sm" onClick={() => cancel(w.id)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          {data && !data.withdrawals.length && <p className="text-sm text-muted-foreground">No withdrawals yet.</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -32,6 +32,11 @@ export function AppSidebar({ userRole }: AppSidebarProps) {
       href: "/dashboard/wallet",
       icon: <i className="hgi-stroke hgi-wallet-03 text-neutral-700 dark:text-neutral-200 text-xl" />,
     },
+    {
+      label: "Withdraw",
+      href: "/dashboard/withdraw",
+      icon: <i className="hgi-stroke hgi-money-send-02 text-neutral-700 dark:text-neutral-200 text-xl" />,
+    },
     {
       label: "Spotify",
       href: "/dashboard/spotify",
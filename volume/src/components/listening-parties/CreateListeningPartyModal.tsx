@@ -17,15 +17,23 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
   const [error, setError] = useState<string | null>(null);
   const [servers, setServers] = useState<Array<{ id: string; name: string }>>([]);
   const [channels, setChannels] = useState<Array<{ id: string; name: string }>>([]);
+  const [rewardTokens, setRewardTokens] = useState<Array<{ mint: string; symbol: string; default_for_rewards: boolean }>>([]);
 
   const [formData, setFormData] = useState({
     server_id: '',
     channel_id: '',
     track_id: '',
     platform: 'audius' as 'audius' | 'spotify',
+    cross_platform: false,
+    token_mint: '',
     tokens_per_participant: '1000000',
     max_participants: '10',
     duration_minutes: '30',
+    min_listen_seconds: '30',
+    required_track_percent: '',
+    require_full_listen: false,
+    min_sessions: '1',
+    scheduled_start_at: '',
   });
 
   useEffect(() => {
@@ -34,6 +42,30 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
     }
   }, [open, privyUser?.discord?.username]);
 
+  useEffect(() => {
+    if (open) {
+      fetchRewardTokens();
+    }
+  }, [open]);
+
+  // Only tokens an admin has enabled in the registry can fund a party
+  const fetchRewardTokens = async () => {
+    try {
+      const response = await fetch('/api/rewards/tokens', {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        const tokens = data.tokens ?? [];
+        setRewardTokens(tokens);
+        const defaultToken = tokens.find((token: { default_for_rewards: boolean }) => token.default_for_rewards);
+        setFormData(prev => (prev.token_mint || !defaultToken ? prev : { ...prev, token_mint: defaultToken.mint }));
+      }
+    } catch (err) {
+      console.error('Failed to fetch reward tokens:', err);
+    }
+  };
+
   const fetchDiscordServers = async () => {
     try {
       const response = await fetch('/api/discord/servers', {
@@ -87,9 +119,10 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
 
   const handleInputChange = async (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    const isCheckbox = e.target instanceof HTMLInputElement && e.target.type === 'checkbox';
     setFormData(prev => ({
       ...prev,
-      [name]: value
+      [name]: isCheckbox ? (e.target as HTMLInputElement).checked : value
     }));
 
     if (name === 'server_id') {
@@ -130,6 +163,10 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
         throw new Error('Discord server selection is required');
       }
 
+      if (!formData.token_mint) {
+        throw new Error('Reward token selection is required');
+      }
+
       if (!formData.channel_id) {
         throw new Error('Discord channel selection is required');
       }
@@ -147,9 +184,21 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
           channel_id: formData.channel_id,
           track_id: formData.track_id,
           platform: formData.platform,
+          cross_platform: formData.cross_platform,
+          token_mint: formData.token_mint,
           tokens_per_participant: BigInt(formData.tokens_per_participant).toString(),
           max_participants: parseInt(formData.max_participants),
           duration_minutes: parseInt(formData.duration_minutes),
+          min_listen_seconds: parseInt(formData.min_listen_seconds),
+          required_track_percent: formData.required_track_percent
+            ? parseInt(formData.required_track_percent)
+            : null,
+          require_full_listen: formData.require_full_listen,
+          min_sessions: parseInt(formData.min_sessions),
+          // datetime-local is in the artist's local time; send an absolute timestamp
+          scheduled_start_at: formData.scheduled_start_at
+            ? new Date(formData.scheduled_start_at).toISOString()
+            : undefined,
         }),
       });
 
@@ -164,9 +213,16 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
         channel_id: '',
         track_id: '',
         platform: 'audius',
+        cross_platform: false,
+        token_mint: '',
         tokens_per_participant: '1000000',
         max_participants: '10',
         duration_minutes: '30',
+        min_listen_seconds: '30',
+        required_track_percent: '',
+        require_full_listen: false,
+        min_sessions: '1',
+        scheduled_start_at: '',
       });
       setOpen(false);
       onSuccess?.();
@@ -277,12 +333,50 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
                   />
                 </div>
               </div>
+
+              <label className="flex items-center gap-2 text-white/80 text-sm">
+                <input
+                  type="checkbox"
+                  name="cross_platform"
+                  checked={formData.cross_platform}
+                  onChange={handleInputChange}
+                  className="h-4 w-4 accent-primary"
+                />
+                Also let fans qualify on {formData.platform === 'audius' ? 'Spotify' : 'Audius'}
+              </label>
+              <p className="text-white/50 text-xs">
+                The same recording is matched on the other platform; fans listen on whichever account they have linked.
+              </p>
             </div>
 
             {/* Reward Settings */}
             <div className="space-y-4 pb-4 border-b border-white/10">
               <h3 className="font-semibold text-white text-sm">Reward Settings</h3>
 
+              <div>
+                <label htmlFor="token_mint" className="text-white/80 text-sm mb-1.5 block">
+                  Reward Token
+                </label>
+                <select
+                  id="token_mint"
+                  name="token_mint"
+                  value={formData.token_mint}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-60"
+                  disabled={rewardTokens.length === 0}
+                  required
+                >
+                  <option value="" className="bg-slate-900">
+                    {rewardTokens.length === 0 ? 'No reward tokens enabled yet' : 'Select a token...'}
+                  </option>
+                  {rewardTokens.map((token) => (
+                    <option key={token.mint} value={token.mint} className="bg-slate-900">
+                      {token.symbol} ({token.mint.slice(0, 4)}…{token.mint.slice(-4)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="tokens_per_participant" className="text-white/80 text-sm mb-1.5 block">
@@ -342,6 +436,98 @@ export function CreateListeningPartyModal({ onSuccess }: CreateListeningPartyMod
                 />
                 <p className="text-white/50 text-xs mt-1">How long the party stays active</p>
               </div>
+
+              <div>
+                <label htmlFor="scheduled_start_at" className="text-white/80 text-sm mb-1.5 block">
+                  Start Time (optional)
+                </label>
+                <Input
+                  id="scheduled_start_at"
+                  name="scheduled_start_at"
+                  type="datetime-local"
+                  value={formData.scheduled_start_at}
+                  onChange={handleInputChange}
+                  className="bg-white/5 border-white/20 text-white placeholder:text-white/40 text-sm"
+                />
+                <p className="text-white/50 text-xs mt-1">
+                  Leave empty to start now. Scheduled parties post a countdown with a Remind me button.
+                </p>
+              </div>
+            </div>
+
+            {/* Qualification Rules */}
+            <div className="space-y-4 pb-4">
+              <h3 className="font-semibold text-white text-sm">Qualification Rules</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="min_listen_seconds" className="text-white/80 text-sm mb-1.5 block">
+                    Minimum Listen (seconds)
+                  </label>
+                  <Input
+                    id="min_listen_seconds"
+                    name="min_listen_seconds"
+                    type="number"
+                    min="3"
+                    max="3600"
+                    value={formData.min_listen_seconds}
+                    onChange={handleInputChange}
+                    placeholder="30"
+                    className="bg-white/5 border-white/20 text-white placeholder:text-white/40 text-sm"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="required_track_percent" className="text-white/80 text-sm mb-1.5 block">
+                    Required % of Track
+                  </label>
+                  <Input
+                    id="required_track_percent"
+                    name="required_track_percent"
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={formData.required_track_percent}
+                    onChange={handleInputChange}
+                    placeholder="Optional"
+                    className="bg-white/5 border-white/20 text-white placeholder:text-white/40 text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="min_sessions" className="text-white/80 text-sm mb-1.5 block">
+                    Listening Sessions
+                  </label>
+                  <Input
+                    id="min_sessions"
+                    name="min_sessions"
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={formData.min_sessions}
+                    onChange={handleInputChange}
+                    placeholder="1"
+                    className="bg-white/5 border-white/20 text-white placeholder:text-white/40 text-sm"
+                    required
+                  />
+                  <p className="text-white/50 text-xs mt-1">Separate sessions a fan must listen in</p>
+                </div>
+
+                <label className="flex items-center gap-2 text-white/80 text-sm md:mt-7">
+                  <input
+                    type="checkbox"
+                    name="require_full_listen"
+                    checked={formData.require_full_listen}
+                    onChange={handleInputChange}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Must listen to the end
+                </label>
+              </div>
+              <p className="text-white/50 text-xs">
+                Fans qualify once every rule is met. Percentage and full-listen rules use the track length.
+              </p>
             </div>
 
             {/* Error Display */}
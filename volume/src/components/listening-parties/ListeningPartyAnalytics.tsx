@@ -1,43 +1,137 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { usePrivy } from '@privy-io/react-auth';
+import { BarList, ColumnChart } from '@/components/ui/charts';
 
-interface PartyMetrics {
+interface AnalyticsTotals {
+  participants: number;
+  qualified: number;
+  claimed: number;
+  held_for_review: number;
+  listening_duration_avg: number;
+}
+
+interface PartyMetrics extends AnalyticsTotals {
   id: string;
-  track_title: string;
+  track_title: string | null;
   status: string;
-  participants_count: number;
-  qualified_count: number;
-  claimed_count: number;
-  listening_duration_avg: number;
   created_at: string;
   expires_at: string;
   tokens_per_participant: string;
   token_mint: string;
 }
 
+interface TimePoint {
+  t: string;
+  value: number;
+}
+
+interface DurationSummary {
+  count: number;
+  median_seconds: number | null;
+  average_seconds: number | null;
+  buckets: { label: string; count: number }[];
+}
+
+interface ServerBreakdown {
+  server_id: string | null;
+  server_name: string | null;
+  joined: number;
+  qualified: number;
+  claimed: number;
+}
+
+interface PlatformBreakdown {
+  platform: 'SPOTIFY' | 'AUDIUS' | null;
+  joined: number;
+  qualified: number;
+  claimed: number;
+  listening_duration_avg: number;
+}
+
 interface AnalyticsData {
-  total_parties: number;
-  active_parties: number;
-  total_participants: number;
-  total_qualified: number;
-  total_claimed: number;
-  total_tokens_distributed: string;
-  avg_listening_duration: number;
+  totals: AnalyticsTotals & { parties: number; active_parties: number };
+  joins_over_time: { bucket_seconds: number; points: TimePoint[] };
+  drop_off: { minute: number; listeners: number }[];
+  time_to_qualify: DurationSummary;
+  claim_latency: DurationSummary;
+  servers: ServerBreakdown[];
+  platforms: PlatformBreakdown[];
   parties: PartyMetrics[];
 }
 
+interface PartyAnalyticsData {
+  party_id: string;
+  required_seconds: number;
+  totals: AnalyticsTotals;
+  joins_over_time: { bucket_seconds: number; points: TimePoint[] };
+  concurrent_listeners: { bucket_seconds: number; peak: number; points: TimePoint[] };
+  drop_off: { minute: number; listeners: number }[];
+  time_to_qualify: DurationSummary;
+  claim_latency: DurationSummary;
+  servers: ServerBreakdown[];
+  platforms: PlatformBreakdown[];
+}
+
+type AnalyticsRange = '7d' | '30d' | '90d' | 'all';
+
+const RANGES: { value: AnalyticsRange; label: string }[] = [
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' },
+  { value: 'all', label: 'All' },
+];
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+// Day buckets read as dates, anything finer as times
+const toColumns = (series: { bucket_seconds: number; points: TimePoint[] }) =>
+  series.points.map((point) => ({
+    label:
+      series.bucket_seconds >= 86400
+        ? new Date(point.t).toLocaleDateString()
+        : new Date(point.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    value: point.value,
+  }));
+
+const serverLabel = (server: ServerBreakdown) =>
+  server.server_name || (server.server_id ? `Server ${server.server_id.slice(-6)}` : 'Dashboard / DMs');
+
+const PLATFORM_LABELS = { SPOTIFY: 'Spotify', AUDIUS: 'Audius' };
+
+const platformLabel = (row: PlatformBreakdown) => (row.platform ? PLATFORM_LABELS[row.platform] : 'Not verified yet');
+
+function ChartCard({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-muted rounded-lg p-4 border border-white/10 space-y-3">
+      <div>
+        <h3 className="font-semibold text-foreground">{title}</h3>
+        {subtitle && <p className="text-xs text-muted-foreground">{subtitle}</p>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
 export function ListeningPartyAnalytics() {
   const { user: privyUser } = usePrivy();
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const [selectedPartyId, setSelectedPartyId] = useState<string | null>(null);
+  const [partyAnalytics, setPartyAnalytics] = useState<PartyAnalyticsData | null>(null);
 
-  const fetchAnalytics = async () => {
+  const fetchAnalytics = useCallback(async () => {
     try {
-      const response = await fetch('/api/listening-parties/artist/my-parties', {
+      const response = await fetch(`/api/listening-parties/artist/analytics?range=${range}`, {
         credentials: 'include',
       });
 
@@ -45,52 +139,49 @@ export function ListeningPartyAnalytics() {
         throw new Error('Failed to fetch analytics');
       }
 
-      const parties = await response.json();
-
-      // Calculate analytics from parties data
-      const now = new Date();
-      const activeParties = parties.filter(
-        (p: any) => p.status === 'ACTIVE' && new Date(p.timing.expires_at) > now
-      );
-
-      const totalParticipants = parties.reduce((sum: number, p: any) => sum + (p.capacity?.participants || 0), 0);
-      const totalQualified = parties.reduce((sum: number, p: any) => sum + (p.capacity?.qualified || 0), 0);
-      const totalClaimed = parties.reduce((sum: number, p: any) => sum + (p.capacity?.claimed || 0), 0);
-
-      const totalTokensDistributed = parties.reduce((sum: bigint, p: any) => {
-        return sum + (BigInt(p.capacity?.claimed || 0) * BigInt(p.reward.tokens_per_participant));
-      }, BigInt(0));
-
-      setAnalytics({
-        total_parties: parties.length,
-        active_parties: activeParties.length,
-        total_participants: totalParticipants,
-        total_qualified: totalQualified,
-        total_claimed: totalClaimed,
-        total_tokens_distributed: totalTokensDistributed.toString(),
-        avg_listening_duration: 0, // Would be calculated from heartbeat data
-        parties: parties,
-      });
-
+      setAnalytics(await response.json());
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
     }
+  }, [range]);
+
+  const fetchPartyAnalytics = useCallback(async () => {
+    if (!selectedPartyId) {
+      setPartyAnalytics(null);
+      return;
+    }
+
+    const response = await fetch(`/api/listening-parties/artist/${selectedPartyId}/analytics`, {
+      credentials: 'include',
+    });
+    if (response.ok) {
+      setPartyAnalytics(await response.json());
+    }
+  }, [selectedPartyId]);
+
+  const selectParty = (partyId: string | null) => {
+    setPartyAnalytics(null);
+    setSelectedPartyId(partyId);
   };
 
   useEffect(() => {
     if (privyUser?.discord?.username) {
       fetchAnalytics();
+      fetchPartyAnalytics();
 
       // Auto-refresh every 30 seconds if enabled
       if (autoRefresh) {
-        const interval = setInterval(fetchAnalytics, 30000);
+        const interval = setInterval(() => {
+          fetchAnalytics();
+          fetchPartyAnalytics();
+        }, 30000);
         return () => clearInterval(interval);
       }
     }
-  }, [privyUser?.discord?.username, autoRefresh]);
+  }, [privyUser?.discord?.username, autoRefresh, fetchAnalytics, fetchPartyAnalytics]);
 
   if (loading) {
     return (
@@ -124,22 +215,40 @@ export function ListeningPartyAnalytics() {
     return (Number(str) / 1e6).toFixed(2);
   };
 
-  const claimRate =
-    analytics.total_qualified > 0
-      ? ((analytics.total_claimed / analytics.total_qualified) * 100).toFixed(1)
-      : '0';
+  const { totals } = analytics;
 
-  const conversionRate =
-    analytics.total_participants > 0
-      ? ((analytics.total_qualified / analytics.total_participants) * 100).toFixed(1)
-      : '0';
+  const totalTokensDistributed = analytics.parties.reduce(
+    (sum, p) => sum + BigInt(p.claimed) * BigInt(p.tokens_per_participant),
+    BigInt(0)
+  );
+
+  const claimRate = totals.qualified > 0 ? ((totals.claimed / totals.qualified) * 100).toFixed(1) : '0';
+
+  const conversionRate = totals.participants > 0 ? ((totals.qualified / totals.participants) * 100).toFixed(1) : '0';
+
+  // A selected party narrows the charts to that party and adds per-minute concurrency
+  const scope = partyAnalytics ?? analytics;
+  const selectedParty = analytics.parties.find((p) => p.id === selectedPartyId);
 
   return (
     <div className="space-y-6">
-      {/* Header with Refresh */}
-      <div className="flex items-center justify-between">
+      {/* Header with Range & Refresh */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
         <h2 className="text-lg md:text-xl font-semibold text-foreground">Analytics & Metrics</h2>
         <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-white/10 overflow-hidden">
+            {RANGES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setRange(option.value)}
+                className={`px-2.5 py-1 text-xs transition-colors ${
+                  range === option.value ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
           <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
             <input
               type="checkbox"
@@ -150,7 +259,10 @@ export function ListeningPartyAnalytics() {
             Auto-refresh
           </label>
           <button
-            onClick={fetchAnalytics}
+            onClick={() => {
+              fetchAnalytics();
+              fetchPartyAnalytics();
+            }}
             className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-sm hover:bg-primary/90 transition-colors"
           >
             <i className="hgi-stroke hgi-refresh-cw text-sm" />
@@ -166,8 +278,8 @@ export function ListeningPartyAnalytics() {
             <h3 className="text-sm font-medium text-muted-foreground">Active Parties</h3>
             <i className="hgi-stroke hgi-target text-blue-400 text-lg" />
           </div>
-          <p className="text-2xl md:text-3xl font-bold text-blue-300">{analytics.active_parties}</p>
-          <p className="text-xs text-muted-foreground mt-1">of {analytics.total_parties} total</p>
+          <p className="text-2xl md:text-3xl font-bold text-blue-300">{totals.active_parties}</p>
+          <p className="text-xs text-muted-foreground mt-1">of {totals.parties} total</p>
         </div>
 
         {/* Conversion Rate */}
@@ -177,7 +289,7 @@ export function ListeningPartyAnalytics() {
             <i className="hgi-stroke hgi-trending-up text-green-400 text-lg" />
           </div>
           <p className="text-2xl md:text-3xl font-bold text-green-300">{conversionRate}%</p>
-          <p className="text-xs text-muted-foreground mt-1">{analytics.total_qualified} of {analytics.total_participants}</p>
+          <p className="text-xs text-muted-foreground mt-1">{totals.qualified} of {totals.participants}</p>
         </div>
 
         {/* Claim Rate */}
@@ -187,7 +299,7 @@ export function ListeningPartyAnalytics() {
             <i className="hgi-stroke hgi-checkmark-circle-01 text-purple-400 text-lg" />
           </div>
           <p className="text-2xl md:text-3xl font-bold text-purple-300">{claimRate}%</p>
-          <p className="text-xs text-muted-foreground mt-1">{analytics.total_claimed} of {analytics.total_qualified}</p>
+          <p className="text-xs text-muted-foreground mt-1">{totals.claimed} of {totals.qualified}</p>
         </div>
 
         {/* Tokens Distributed */}
@@ -196,30 +308,104 @@ export function ListeningPartyAnalytics() {
             <h3 className="text-sm font-medium text-muted-foreground">Tokens Distributed</h3>
             <i className="hgi-stroke hgi-coins-hand text-yellow-400 text-lg" />
           </div>
-          <p className="text-2xl md:text-3xl font-bold text-yellow-300">
-            {formatTokens(analytics.total_tokens_distributed)}
+          <p className="text-2xl md:text-3xl font-bold text-yellow-300">{formatTokens(totalTokensDistributed)}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Avg listen {formatDuration(totals.listening_duration_avg)}
           </p>
-          <p className="text-xs text-muted-foreground mt-1">Total rewards paid out</p>
         </div>
       </div>
 
-      {/* Summary Stats */}
-      <div className="bg-muted rounded-lg p-4 border border-white/10">
-        <h3 className="font-semibold text-foreground mb-3">Summary</h3>
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-          <div>
-            <p className="text-xs text-muted-foreground mb-1">Total Participants</p>
-            <p className="text-lg md:text-xl font-bold text-foreground">{analytics.total_participants}</p>
-          </div>
-          <div>
-            <p className="text-xs text-muted-foreground mb-1">Qualified Users</p>
-            <p className="text-lg md:text-xl font-bold text-green-400">{analytics.total_qualified}</p>
-          </div>
-          <div>
-            <p className="text-xs text-muted-foreground mb-1">Claims Completed</p>
-            <p className="text-lg md:text-xl font-bold text-blue-400">{analytics.total_claimed}</p>
-          </div>
-        </div>
+      {/* Party selector */}
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedPartyId ?? ''}
+          onChange={(e) => selectParty(e.target.value || null)}
+          className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+        >
+          <option value="">All parties in range</option>
+          {analytics.parties.map((party) => (
+            <option key={party.id} value={party.id}>
+              {party.track_title || 'Untitled'} · {new Date(party.created_at).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+        {selectedParty && !partyAnalytics && <span className="text-xs text-muted-foreground">Loading party...</span>}
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+        <ChartCard title="Joins over time" subtitle={`${scope.totals.participants} participants`}>
+          <ColumnChart points={toColumns(scope.joins_over_time)} emptyText="No joins yet" />
+        </ChartCard>
+
+        {partyAnalytics ? (
+          <ChartCard
+            title="Concurrent listeners"
+            subtitle={`Per minute · peak ${partyAnalytics.concurrent_listeners.peak}`}
+          >
+            <ColumnChart points={toColumns(partyAnalytics.concurrent_listeners)} emptyText="No one has listened yet" />
+          </ChartCard>
+        ) : (
+          <ChartCard title="Listeners by server" subtitle="Where participants joined from">
+            <BarList
+              items={analytics.servers.map((server) => ({
+                label: serverLabel(server),
+                value: server.joined,
+                hint: `${server.qualified} qualified · ${server.claimed} claimed`,
+              }))}
+            />
+          </ChartCard>
+        )}
+
+        <ChartCard
+          title="Drop-off"
+          subtitle={
+            partyAnalytics
+              ? `Listeners still going after each minute · qualifying at ${formatDuration(partyAnalytics.required_seconds)}`
+              : 'Listeners still going after each minute'
+          }
+        >
+          <ColumnChart
+            points={scope.drop_off.map((point) => ({ label: `${point.minute}m`, value: point.listeners }))}
+            emptyText="No listening recorded yet"
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="Time to qualify"
+          subtitle={`Median ${formatDuration(scope.time_to_qualify.median_seconds)} · ${scope.time_to_qualify.count} qualified`}
+        >
+          <BarList items={scope.time_to_qualify.buckets.map((bucket) => ({ label: bucket.label, value: bucket.count }))} />
+        </ChartCard>
+
+        <ChartCard
+          title="Claim latency"
+          subtitle={`Median ${formatDuration(scope.claim_latency.median_seconds)} from qualifying to claiming`}
+        >
+          <BarList items={scope.claim_latency.buckets.map((bucket) => ({ label: bucket.label, value: bucket.count }))} />
+        </ChartCard>
+
+        <ChartCard title="Listeners by platform" subtitle="Where participants verified their listening">
+          <BarList
+            items={scope.platforms.map((row) => ({
+              label: platformLabel(row),
+              value: row.joined,
+              hint: `${row.qualified} qualified · ${row.claimed} claimed · avg ${formatDuration(row.listening_duration_avg)}`,
+            }))}
+          />
+        </ChartCard>
+
+        {partyAnalytics && (
+          <ChartCard title="Listeners by server" subtitle="Where participants joined from">
+            <BarList
+              items={partyAnalytics.servers.map((server) => ({
+                label: serverLabel(server),
+                value: server.joined,
+                hint: `${server.qualified} qualified · ${server.claimed} claimed`,
+              }))}
+            />
+          </ChartCard>
+        )}
       </div>
 
       {/* Recent Parties Performance */}
@@ -227,17 +413,24 @@ export function ListeningPartyAnalytics() {
         <h3 className="font-semibold text-foreground mb-3">Recent Party Performance</h3>
         <div className="space-y-2 max-h-60 overflow-y-auto">
           {analytics.parties.slice(0, 5).map((party) => (
-            <div key={party.id} className="bg-muted rounded-lg p-3 border border-white/10">
+            <button
+              key={party.id}
+              onClick={() => selectParty(party.id === selectedPartyId ? null : party.id)}
+              className={`w-full text-left bg-muted rounded-lg p-3 border transition-colors ${
+                party.id === selectedPartyId ? 'border-primary' : 'border-white/10'
+              }`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <div className="flex-1">
-                  <p className="font-medium text-foreground text-sm truncate">{party.track_title}</p>
+                  <p className="font-medium text-foreground text-sm truncate">{party.track_title || 'Untitled'}</p>
                   <p className="text-xs text-muted-foreground">
-                    Created: {new Date(party.created_at).toLocaleDateString()}
+                    Created: {new Date(party.created_at).toLocaleDateString()} · Avg listen{' '}
+                    {formatDuration(party.listening_duration_avg)}
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="text-sm font-semibold text-foreground">
-                    {party.claimed_count}/{party.participants_count}
+                    {party.claimed}/{party.participants}
                   </p>
                   <p className="text-xs text-muted-foreground">Claimed</p>
                 </div>
@@ -246,11 +439,11 @@ export function ListeningPartyAnalytics() {
                 <div
                   className="bg-green-500 h-full transition-all"
                   style={{
-                    width: `${party.participants_count > 0 ? (party.claimed_count / party.participants_count) * 100 : 0}%`,
+                    width: `${party.participants > 0 ? (party.claimed / party.participants) * 100 : 0}%`,
                   }}
                 />
               </div>
-            </div>
+            </button>
           ))}
           {analytics.parties.length === 0 && (
             <p className="text-sm text-muted-foreground text-center py-4">No parties yet</p>
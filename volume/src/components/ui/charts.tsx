@@ -0,0 +1,80 @@
+import { cn } from "@/lib/utils";
+
+export interface BarListItem {
+  label: string;
+  value: number;
+  hint?: string;
+}
+
+/**
+ * Horizontal bars scaled to the largest value in the list
+ */
+export function BarList({ items, className }: { items: BarListItem[]; className?: string }) {
+  const max = Math.max(1, ...items.map((item) => item.value));
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {items.map((item) => (
+        <div key={item.label} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground truncate">{item.label}</span>
+            <span className="font-medium text-foreground">
+              {item.value.toLocaleString()}
+              {item.hint && <span className="text-muted-foreground font-normal"> · {item.hint}</span>}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div className="h-2 rounded-full bg-primary" style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export interface ColumnPoint {
+  label: string;
+  value: number;
+}
+
+/**
+ * Vertical columns for a series (time buckets, minutes listened, ...). Only the
+ * first and last labels are printed; each column carries its own tooltip.
+ */
+export function ColumnChart({
+  points,
+  height = 120,
+  emptyText = "No data yet",
+  className,
+}: {
+  points: ColumnPoint[];
+  height?: number;
+  emptyText?: string;
+  className?: string;
+}) {
+  const max = Math.max(0, ...points.map((point) => point.value));
+
+  if (!points.length || max === 0) {
+    return <p className={cn("text-sm text-muted-foreground py-6 text-center", className)}>{emptyText}</p>;
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {points.map((point, i) => (
+          <div
+            key={i}
+            title={`${point.label}: ${point.value.toLocaleString()}`}
+            className="flex-1 rounded-t-sm bg-primary/80 hover:bg-primary min-h-px"
+            style={{ height: `${(point.value / max) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{points[0].label}</span>
+        <span>max {max.toLocaleString()}</span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+    </div>
+  );
+}
@@ -68,7 +68,7 @@ export function TokenDropdown({
         "w-full px-4 py-2.5 rounded-xl bg-white/5 backdrop-blur-sm border border-white/10 text-white/60 text-sm",
         className
       )}>
-        No tokens found. Create a token in the wallet tab first.
+        No enabled reward tokens found in your wallet.
       </div>
     )
   }
@@ -0,0 +1,55 @@
+// Audius OAuth (Log in with Audius) utilities
+// Audius returns a signed JWT instead of an authorization code; the dashboard
+// asks Audius to verify it and reads the profile from the response.
+
+const AUDIUS_API_BASE = 'https://api.audius.co/v1';
+
+export interface AudiusProfile {
+  userId: number;
+  email: string;
+  name: string;
+  handle: string;
+  verified: boolean;
+  profilePicture: {
+    '150x150': string;
+    '480x480': string;
+    '1000x1000': string;
+  } | null;
+  apiKey: string | null;
+}
+
+export class AudiusAuth {
+  private static API_KEY = process.env.NEXT_PUBLIC_AUDIUS_API_KEY!;
+  private static REDIRECT_URI = `${process.env.APP_URL}/api/auth/callback/audius`;
+
+  static generateAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      scope: 'read',
+      api_key: this.API_KEY,
+      redirect_uri: this.REDIRECT_URI,
+      state,
+      response_mode: 'query',
+      origin: process.env.APP_URL || '',
+    });
+
+    return `https://audius.co/oauth/auth?${params.toString()}`;
+  }
+
+  static async verifyToken(token: string): Promise<AudiusProfile> {
+    const response = await fetch(`${AUDIUS_API_BASE}/users/verify_token?token=${encodeURIComponent(token)}`);
+    if (!response.ok) {
+      throw new Error(`Audius token verification failed: ${response.statusText}`);
+    }
+
+    const json = await response.json();
+    if (!json?.data) {
+      throw new Error('Audius token verification returned no data');
+    }
+    return json.data as AudiusProfile;
+  }
+
+  static getProfilePictureUrl(profile: AudiusProfile): string | null {
+    const picture = profile.profilePicture;
+    return picture ? picture['1000x1000'] || picture['480x480'] || picture['150x150'] || null : null;
+  }
+}
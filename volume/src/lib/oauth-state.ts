@@ -0,0 +1,145 @@
+// OAuth state store for dashboard logins (Discord, Spotify, Audius)
+// States live in the shared oauth_sessions table so any dashboard instance can
+// finish a login. Each state is bound to the browser that started it by a
+// cookie, expires after OAUTH_STATE_TTL_SECONDS, and is accepted only once.
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export type OAuthProvider = 'DISCORD' | 'SPOTIFY' | 'AUDIUS';
+
+export const OAUTH_STATE_TTL_SECONDS = 600;
+
+const CALLBACK_PATH = '/api/auth/callback';
+
+export interface OAuthState {
+  state: string;
+  provider: OAuthProvider;
+  discordId: string | null;
+  codeVerifier: string | null;
+  returnTo: string | null;
+}
+
+export type OAuthStateFailure = 'missing_state' | 'state_mismatch' | 'expired_state' | 'replayed_state';
+
+export class OAuthStateError extends Error {
+  reason: OAuthStateFailure;
+
+  constructor(reason: OAuthStateFailure) {
+    super(`OAuth state rejected: ${reason}`);
+    this.name = 'OAuthStateError';
+    this.reason = reason;
+  }
+}
+
+const cookieName = (provider: OAuthProvider) => `oauth_state_${provider.toLowerCase()}`;
+
+// Only same-origin paths, so `next` can't be used as an open redirect
+export function safeReturnTo(path: string | null | undefined): string | null {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Start a login: store a fresh state (and PKCE verifier) for the callback
+ */
+export async function createOAuthState(
+  provider: OAuthProvider,
+  options: { discordId?: string; codeVerifier?: string; returnTo?: string | null } = {}
+): Promise<string> {
+  const state = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  // Sweep finished and abandoned dashboard logins
+  await prisma.oAuthSession.deleteMany({
+    where: { provider: { not: null }, expires_at: { lt: new Date(now) } },
+  });
+
+  await prisma.oAuthSession.create({
+    data: {
+      state,
+      provider,
+      platform: provider === 'AUDIUS' ? 'AUDIUS' : 'SPOTIFY',
+      discord_id: options.discordId ?? null,
+      code_verifier: options.codeVerifier ?? null,
+      return_to: safeReturnTo(options.returnTo),
+      expires_at: new Date(now + OAUTH_STATE_TTL_SECONDS * 1000),
+    },
+  });
+
+  return state;
+}
+
+// The callback only accepts a state that comes back with this cookie (CSRF)
+export function setOAuthStateCookie(response: NextResponse, provider: OAuthProvider, state: string): void {
+  response.cookies.set({
+    name: cookieName(provider),
+    value: state,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+    path: CALLBACK_PATH,
+  });
+}
+
+export function clearOAuthStateCookie(response: NextResponse, provider: OAuthProvider): void {
+  response.cookies.set({ name: cookieName(provider), value: '', maxAge: 0, path: CALLBACK_PATH });
+}
+
+/**
+ * Validate the state a provider sent back and mark it used. Throws
+ * OAuthStateError when it is missing, wasn't started in this browser, has
+ * expired, or was already used.
+ */
+export async function consumeOAuthState(
+  request: NextRequest,
+  provider: OAuthProvider,
+  state: string | null
+): Promise<OAuthState> {
+  if (!state) {
+    throw new OAuthStateError('missing_state');
+  }
+
+  const cookieState = request.cookies.get(cookieName(provider))?.value;
+  if (
+    !cookieState ||
+    cookieState.length !== state.length ||
+    !crypto.timingSafeEqual(Buffer.from(cookieState), Buffer.from(state))
+  ) {
+    throw new OAuthStateError('state_mismatch');
+  }
+
+  // Claim the state atomically so only the first callback can use it
+  const now = new Date();
+  const claimed = await prisma.oAuthSession.updateMany({
+    where: { state, provider, consumed_at: null, expires_at: { gt: now } },
+    data: { consumed_at: now },
+  });
+
+  const session = await prisma.oAuthSession.findUnique({ where: { state } });
+  if (!session || session.provider !== provider) {
+    throw new OAuthStateError('state_mismatch');
+  }
+  if (claimed.count === 0) {
+    throw new OAuthStateError(session.consumed_at ? 'replayed_state' : 'expired_state');
+  }
+
+  return {
+    state,
+    provider,
+    discordId: session.discord_id,
+    codeVerifier: session.code_verifier,
+    returnTo: session.return_to,
+  };
+}
+
+/**
+ * Whether a state was issued by the bot's /login command rather than the dashboard
+ */
+export async function isBotOAuthState(state: string): Promise<boolean> {
+  const session = await prisma.oAuthSession.findUnique({ where: { state }, select: { provider: true } });
+  return Boolean(session && session.provider === null);
+}
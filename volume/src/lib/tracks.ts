@@ -0,0 +1,38 @@
+// Client helper for the backend track resolver (/api/tracks/resolve)
+
+export interface PlatformTrack {
+  id: string;
+  title: string;
+  artist: string;
+  url: string; // canonical permalink
+  artwork_url?: string;
+  duration_ms?: number;
+  platform: 'SPOTIFY' | 'AUDIUS';
+  isrc?: string;
+  spotify_uri?: string;
+}
+
+export interface ResolvedTrack {
+  track: PlatformTrack;
+  match: PlatformTrack | null;
+}
+
+/**
+ * Resolve a Spotify/Audius link or ISRC. `platform` says where bare IDs and
+ * ISRCs should be looked up; `match` also finds the track on the other platform.
+ */
+export async function resolveTrack(
+  input: string,
+  options: { platform?: 'spotify' | 'audius'; match?: boolean } = {}
+): Promise<ResolvedTrack> {
+  const params = new URLSearchParams({ input });
+  if (options.platform) params.set('platform', options.platform);
+  if (options.match) params.set('match', 'true');
+
+  const res = await fetch(`/api/tracks/resolve?${params}`, { credentials: 'include' });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to resolve track');
+  }
+  return data as ResolvedTrack;
+}